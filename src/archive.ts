@@ -0,0 +1,281 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import * as zlib from 'zlib';
+
+export const ARCHIVE_EXTENSIONS = ['.zip', '.tar.gz', '.tgz'];
+
+// Zip bomb protection: archives with more entries or more uncompressed data than this are not expanded
+export interface ArchiveLimits {
+    maxEntries: number;
+    maxEntrySize: number;   // Bytes, per file
+    maxTotalSize: number;   // Bytes, all files together
+}
+
+export const DEFAULT_ARCHIVE_LIMITS: ArchiveLimits = {
+    maxEntries: 10000,
+    maxEntrySize: 100 * 1024 * 1024,
+    maxTotalSize: 1024 * 1024 * 1024
+};
+
+// An archive extracted into the temp cache: its directory and the entries written there
+export interface ExpandedArchive {
+    dir: string;
+    entries: string[];
+}
+
+export class ArchiveLimitError extends Error {
+    constructor(archivePath: string, reason: string) {
+        super(`Archive ${archivePath} was not expanded: ${reason}`);
+        this.name = 'ArchiveLimitError';
+    }
+}
+
+type ArchiveFileHandler = (name: string, content: Buffer) => void;
+
+// Files inside an archive are tracked as documents of their own: "<archive path>!/<entry path>"
+const ARCHIVE_ENTRY_PATH = /^(.*?\.(?:zip|tar\.gz|tgz))!\/(.+)$/i;
+
+const ARCHIVE_CACHE_DIR = path.join(os.tmpdir(), 'docs4ai-archives');
+const STAMP_FILE = '.docs4ai-archive.json';
+const TAR_BLOCK = 512;
+
+const gunzip = promisify(zlib.gunzip);
+
+// Extractions in progress, so the syncer and the processor never expand the same archive twice at once
+const expansions = new Map<string, Promise<ExpandedArchive>>();
+
+export function isArchiveFile(filePath: string): boolean {
+    const name = filePath.toLowerCase();
+    return ARCHIVE_EXTENSIONS.some(ext => name.endsWith(ext));
+}
+
+export function getArchiveEntryPath(archivePath: string, entryName: string): string {
+    return `${archivePath}!/${entryName}`;
+}
+
+export function parseArchiveEntryPath(documentPath: string): { archivePath: string; entryName: string } | null {
+    const match = documentPath.match(ARCHIVE_ENTRY_PATH);
+    return match ? { archivePath: match[1], entryName: match[2] } : null;
+}
+
+function getCacheDir(archivePath: string): string {
+    return path.join(ARCHIVE_CACHE_DIR, crypto.createHash('sha1').update(archivePath).digest('hex'));
+}
+
+export function getArchiveEntryFile(archive: ExpandedArchive, entryName: string): string {
+    return path.join(archive.dir, ...entryName.split('/'));
+}
+
+/**
+ * Entry name as extracted, or null for directories, hidden files (like the folder syncer, and __MACOSX
+ * resource forks) and names that would escape the extraction directory
+ */
+function normalizeEntryName(name: string): string | null {
+    const normalized = path.posix.normalize(name.replace(/\\/g, '/'));
+    if (normalized.endsWith('/') || normalized.includes('\0') || path.posix.isAbsolute(normalized) || /^[a-z]:/i.test(normalized)) {
+        return null;
+    }
+    const segments = normalized.split('/');
+    if (segments.some(segment => segment === '..' || segment.startsWith('.') || segment === '__MACOSX')) {
+        return null;
+    }
+    return normalized;
+}
+
+// Inflate a zip entry, giving up as soon as it grows past the limit instead of trusting the declared size
+function readZipEntry(entry: any, limit: number): Promise<Buffer | null> {
+    return new Promise((resolve, reject) => {
+        // A readable-stream Readable, so destroying it stops JSZip's worker from inflating further
+        const stream: NodeJS.ReadableStream & { destroy(): void } = entry.nodeStream('nodebuffer');
+        const chunks: Buffer[] = [];
+        let size = 0;
+        stream.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > limit) {
+                stream.removeAllListeners('data');
+                stream.destroy();
+                resolve(null);
+                return;
+            }
+            chunks.push(chunk);
+        });
+        stream.on('end', () => resolve(Buffer.concat(chunks)));
+        stream.on('error', reject);
+    });
+}
+
+async function readZip(archivePath: string, limits: ArchiveLimits, onFile: ArchiveFileHandler): Promise<void> {
+    // The whole file is loaded before any entry is inflated, so its own size is checked first
+    if (fs.statSync(archivePath).size > limits.maxTotalSize) {
+        throw new ArchiveLimitError(archivePath, `the file is larger than ${limits.maxTotalSize} bytes`);
+    }
+    const JSZip = require('jszip');
+    const zip = await JSZip.loadAsync(fs.readFileSync(archivePath));
+    const entries = Object.values(zip.files).filter((entry: any) => !entry.dir) as any[];
+    if (entries.length > limits.maxEntries) {
+        throw new ArchiveLimitError(archivePath, `more than ${limits.maxEntries} entries`);
+    }
+
+    let total = 0;
+    for (const entry of entries) {
+        const name = normalizeEntryName(entry.name);
+        if (!name) continue;
+        const limit = Math.min(limits.maxEntrySize, limits.maxTotalSize - total);
+        const content = await readZipEntry(entry, limit);
+        if (!content) {
+            throw new ArchiveLimitError(archivePath, limit < limits.maxEntrySize
+                ? `more than ${limits.maxTotalSize} bytes uncompressed`
+                : `${name} is larger than ${limits.maxEntrySize} bytes`);
+        }
+        total += content.length;
+        onFile(name, content);
+    }
+}
+
+function readTarString(block: Buffer, offset: number, length: number): string {
+    const field = block.subarray(offset, offset + length);
+    const end = field.indexOf(0);
+    return field.subarray(0, end === -1 ? field.length : end).toString('utf-8');
+}
+
+// Extended header records ("<length> path=<name>\n") written by pax and GNU tar for long names
+function readPaxPath(data: Buffer): string | null {
+    let offset = 0;
+    while (offset < data.length) {
+        const space = data.indexOf(0x20, offset);
+        const length = parseInt(data.subarray(offset, space).toString('utf-8'), 10);
+        if (space === -1 || !(length > 0)) break;
+        const record = data.subarray(space + 1, offset + length - 1).toString('utf-8');
+        if (record.startsWith('path=')) {
+            return record.slice(5);
+        }
+        offset += length;
+    }
+    return null;
+}
+
+async function readTarGz(archivePath: string, limits: ArchiveLimits, onFile: ArchiveFileHandler): Promise<void> {
+    let tar: Buffer;
+    try {
+        // Headers and padding take at most a few blocks per entry on top of the file data
+        tar = await gunzip(fs.readFileSync(archivePath), { maxOutputLength: limits.maxTotalSize + (limits.maxEntries + 1) * 4 * TAR_BLOCK });
+    } catch (error: any) {
+        if (error.code === 'ERR_BUFFER_TOO_LARGE') {
+            throw new ArchiveLimitError(archivePath, `more than ${limits.maxTotalSize} bytes uncompressed`);
+        }
+        throw error;
+    }
+
+    let offset = 0;
+    let count = 0;
+    let total = 0;
+    let longName: string | null = null;
+    while (offset + TAR_BLOCK <= tar.length) {
+        const header = tar.subarray(offset, offset + TAR_BLOCK);
+        if (header.every(byte => byte === 0)) break;
+
+        // Sizes over 8 GB are stored in binary, far past any limit
+        if (header[124] & 0x80) {
+            throw new ArchiveLimitError(archivePath, `an entry is larger than ${limits.maxEntrySize} bytes`);
+        }
+        const size = parseInt(readTarString(header, 124, 12).trim() || '0', 8);
+        const type = String.fromCharCode(header[156] || 0x30);
+        const data = tar.subarray(offset + TAR_BLOCK, offset + TAR_BLOCK + size);
+        offset += TAR_BLOCK + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+
+        if (type === 'L') {
+            longName = readTarString(data, 0, data.length);
+            continue;
+        }
+        if (type === 'x') {
+            longName = readPaxPath(data) ?? longName;
+            continue;
+        }
+
+        // POSIX ustar headers split long names into a prefix; GNU tar ("ustar  ") uses that field for times
+        const prefix = header.subarray(257, 263).toString('latin1') === 'ustar\0' ? readTarString(header, 345, 155) : '';
+        const fullName = longName ?? (prefix ? `${prefix}/${readTarString(header, 0, 100)}` : readTarString(header, 0, 100));
+        longName = null;
+        // Regular files only; directories, links and devices are skipped
+        if (type !== '0' && type !== '7') continue;
+
+        if (++count > limits.maxEntries) {
+            throw new ArchiveLimitError(archivePath, `more than ${limits.maxEntries} entries`);
+        }
+        if (size > limits.maxEntrySize) {
+            throw new ArchiveLimitError(archivePath, `${fullName} is larger than ${limits.maxEntrySize} bytes`);
+        }
+        total += size;
+        if (total > limits.maxTotalSize) {
+            throw new ArchiveLimitError(archivePath, `more than ${limits.maxTotalSize} bytes uncompressed`);
+        }
+        const name = normalizeEntryName(fullName);
+        if (name) {
+            onFile(name, data);
+        }
+    }
+}
+
+async function extractArchive(archivePath: string, dir: string, limits: ArchiveLimits): Promise<ExpandedArchive> {
+    const stats = fs.statSync(archivePath);
+    const stampPath = path.join(dir, STAMP_FILE);
+    try {
+        const stamp = JSON.parse(fs.readFileSync(stampPath, 'utf-8'));
+        if (stamp.size === stats.size && stamp.modifiedAt === stats.mtimeMs) {
+            return { dir, entries: stamp.entries };
+        }
+    } catch {
+        // Not extracted yet
+    }
+
+    fs.rmSync(dir, { recursive: true, force: true });
+    fs.mkdirSync(dir, { recursive: true });
+    const archive: ExpandedArchive = { dir, entries: [] };
+    const onFile: ArchiveFileHandler = (name, content) => {
+        const target = getArchiveEntryFile(archive, name);
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.writeFileSync(target, content);
+        archive.entries.push(name);
+    };
+    try {
+        if (path.extname(archivePath).toLowerCase() === '.zip') {
+            await readZip(archivePath, limits, onFile);
+        } else {
+            await readTarGz(archivePath, limits, onFile);
+        }
+    } catch (error) {
+        fs.rmSync(dir, { recursive: true, force: true });
+        throw error;
+    }
+    fs.writeFileSync(stampPath, JSON.stringify({ size: stats.size, modifiedAt: stats.mtimeMs, entries: archive.entries }));
+    return archive;
+}
+
+/**
+ * Extract a .zip (needs jszip) or .tar.gz archive into the temp cache. The extraction is reused until the
+ * archive's size or modification time changes. Throws ArchiveLimitError when the archive is over the limits.
+ */
+export async function expandArchive(archivePath: string, limits: ArchiveLimits = DEFAULT_ARCHIVE_LIMITS): Promise<ExpandedArchive> {
+    const pending = expansions.get(archivePath);
+    if (pending) {
+        return pending;
+    }
+
+    const expansion = extractArchive(archivePath, getCacheDir(archivePath), limits);
+    expansions.set(archivePath, expansion);
+    try {
+        return await expansion;
+    } finally {
+        expansions.delete(archivePath);
+    }
+}
+
+/**
+ * Drop the cached extraction of an archive that was deleted
+ */
+export function removeExpandedArchive(archivePath: string): void {
+    fs.rmSync(getCacheDir(archivePath), { recursive: true, force: true });
+}
@@ -0,0 +1,322 @@
+import * as path from 'path';
+
+export type CodeLanguage = 'javascript' | 'python' | 'go' | 'rust' | 'java' | 'shell';
+
+// Source files that are split on declarations instead of Markdown headings
+export const CODE_EXTENSIONS: Record<string, CodeLanguage> = {
+    '.ts': 'javascript',
+    '.tsx': 'javascript',
+    '.mts': 'javascript',
+    '.cts': 'javascript',
+    '.js': 'javascript',
+    '.jsx': 'javascript',
+    '.mjs': 'javascript',
+    '.cjs': 'javascript',
+    '.py': 'python',
+    '.go': 'go',
+    '.rs': 'rust',
+    '.java': 'java',
+    '.sh': 'shell',
+    '.bash': 'shell',
+    '.zsh': 'shell'
+};
+
+export function getCodeLanguage(filePath: string): CodeLanguage | null {
+    return CODE_EXTENSIONS[path.extname(filePath).toLowerCase()] ?? null;
+}
+
+/**
+ * A top-level declaration (or a member of a class-like container) with its leading comments.
+ * symbolPath is empty for module-level code such as imports.
+ */
+export interface CodeSegment {
+    symbolPath: string[];
+    text: string;
+}
+
+interface Syntax {
+    lineComment: string;
+    blockComment: [string, string] | null;
+    quotes: string[];               // Strings that end on the same line
+    multilineQuotes: string[];      // Strings that may span lines (template literals, raw strings, docstrings)
+    open: string;                   // Brackets that nest declarations
+    close: string;
+}
+
+const C_STYLE: Syntax = { lineComment: '//', blockComment: ['/*', '*/'], quotes: ['"', "'"], multilineQuotes: ['`'], open: '{', close: '}' };
+
+const SYNTAX: Record<CodeLanguage, Syntax> = {
+    javascript: C_STYLE,
+    go: C_STYLE,
+    // Single quotes are lifetimes as often as char literals
+    rust: { ...C_STYLE, quotes: ['"'], multilineQuotes: [] },
+    java: { ...C_STYLE, multilineQuotes: ['"""'] },
+    shell: { lineComment: '#', blockComment: null, quotes: ['"', "'"], multilineQuotes: [], open: '{', close: '}' },
+    // Python nests by indentation; brackets are tracked so continuation lines aren't read as new statements
+    python: { lineComment: '#', blockComment: null, quotes: ['"', "'"], multilineQuotes: ['"""', "'''"], open: '([{', close: ')]}' }
+};
+
+interface ScanState {
+    blockComment: boolean;
+    multilineQuote: string | null;
+}
+
+// Net bracket depth change of a line, skipping strings and comments
+function scanLine(line: string, syntax: Syntax, state: ScanState): number {
+    let delta = 0;
+    let i = 0;
+    while (i < line.length) {
+        if (state.blockComment) {
+            const end = line.indexOf(syntax.blockComment![1], i);
+            if (end < 0) return delta;
+            state.blockComment = false;
+            i = end + syntax.blockComment![1].length;
+            continue;
+        }
+        if (state.multilineQuote) {
+            const end = findClosingQuote(line, i, state.multilineQuote);
+            if (end < 0) return delta;
+            state.multilineQuote = null;
+            i = end + 1;
+            continue;
+        }
+
+        const char = line[i];
+        if (line.startsWith(syntax.lineComment, i) && (syntax.lineComment !== '#' || i === 0 || /\s/.test(line[i - 1]))) {
+            return delta;
+        }
+        if (syntax.blockComment && line.startsWith(syntax.blockComment[0], i)) {
+            state.blockComment = true;
+            i += syntax.blockComment[0].length;
+            continue;
+        }
+        const multiline = syntax.multilineQuotes.find(quote => line.startsWith(quote, i));
+        if (multiline) {
+            state.multilineQuote = multiline;
+            i += multiline.length;
+            continue;
+        }
+        if (syntax.quotes.includes(char)) {
+            const end = findClosingQuote(line, i + 1, char);
+            if (end < 0) return delta;
+            i = end + 1;
+            continue;
+        }
+        if (syntax.open.includes(char)) delta++;
+        else if (syntax.close.includes(char)) delta--;
+        i++;
+    }
+    return delta;
+}
+
+// Index of the last character of the closing quote, or -1 if the string continues past the line
+function findClosingQuote(line: string, from: number, quote: string): number {
+    for (let i = from; i < line.length; i++) {
+        if (line[i] === '\\') {
+            i++;
+            continue;
+        }
+        if (line.startsWith(quote, i)) {
+            return i + quote.length - 1;
+        }
+    }
+    return -1;
+}
+
+interface Declaration {
+    path: string[];
+    container: boolean;     // Members one level down become their own segments
+}
+
+const JS_MODIFIERS = '(?:(?:export|default|declare|abstract|async)\\s+)*';
+const JAVA_MODIFIERS = '(?:(?:public|private|protected|static|final|abstract|sealed|non-sealed|strictfp|synchronized|native|default)\\s+)*';
+const RUST_VISIBILITY = '(?:pub(?:\\([^)]*\\))?\\s+)?';
+// Control-flow words that look like `name(` calls
+const NOT_MEMBERS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'new', 'super', 'this', 'function', 'else', 'do', 'try']);
+
+const TOP_LEVEL: Record<Exclude<CodeLanguage, 'python'>, Array<{ pattern: RegExp; toDeclaration: (match: RegExpMatchArray) => Declaration }>> = {
+    javascript: [
+        { pattern: new RegExp(`^${JS_MODIFIERS}class\\s+([A-Za-z_$][\\w$]*)`), toDeclaration: m => ({ path: [m[1]], container: true }) },
+        { pattern: new RegExp(`^${JS_MODIFIERS}function\\s*\\*?\\s*([A-Za-z_$][\\w$]*)`), toDeclaration: m => ({ path: [m[1]], container: false }) },
+        { pattern: new RegExp(`^${JS_MODIFIERS}(?:const\\s+)?(?:interface|type|enum|namespace)\\s+([A-Za-z_$][\\w$.]*)`), toDeclaration: m => ({ path: [m[1]], container: false }) },
+        { pattern: /^(?:export\s+)?(?:declare\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)/, toDeclaration: m => ({ path: [m[1]], container: false }) },
+        { pattern: /^export\s+default\s+(?:async\s+)?(function|class)\b/, toDeclaration: m => ({ path: ['default'], container: m[1] === 'class' }) }
+    ],
+    go: [
+        { pattern: /^func\s+\(\s*(?:\w+\s+)?\*?\s*([\w.]+)(?:\[[^\]]*\])?\s*\)\s*(\w+)/, toDeclaration: m => ({ path: [m[1], m[2]], container: false }) },
+        { pattern: /^func\s+(\w+)/, toDeclaration: m => ({ path: [m[1]], container: false }) },
+        { pattern: /^type\s+(\w+)/, toDeclaration: m => ({ path: [m[1]], container: false }) },
+        { pattern: /^(?:var|const)\s+(\w+)/, toDeclaration: m => ({ path: [m[1]], container: false }) }
+    ],
+    rust: [
+        { pattern: new RegExp(`^${RUST_VISIBILITY}(?:(?:const|async|unsafe|extern\\s+"[^"]*")\\s+)*fn\\s+(\\w+)`), toDeclaration: m => ({ path: [m[1]], container: false }) },
+        { pattern: /^(?:unsafe\s+)?impl(?:<[^>]*>)?\s+(?:[\w:<>, ]+?\s+for\s+)?([\w:]+)/, toDeclaration: m => ({ path: [m[1]], container: true }) },
+        { pattern: new RegExp(`^${RUST_VISIBILITY}(?:unsafe\\s+)?(trait|mod)\\s+(\\w+)`), toDeclaration: m => ({ path: [m[2]], container: true }) },
+        { pattern: new RegExp(`^${RUST_VISIBILITY}(?:struct|enum|union|type|const|static)\\s+(\\w+)`), toDeclaration: m => ({ path: [m[1]], container: false }) },
+        { pattern: /^macro_rules!\s*(\w+)/, toDeclaration: m => ({ path: [m[1]], container: false }) }
+    ],
+    java: [
+        { pattern: new RegExp(`^${JAVA_MODIFIERS}(?:class|interface|enum|record)\\s+(\\w+)`), toDeclaration: m => ({ path: [m[1]], container: true }) }
+    ],
+    shell: [
+        { pattern: /^function\s+([A-Za-z_][\w:.-]*)/, toDeclaration: m => ({ path: [m[1]], container: false }) },
+        { pattern: /^([A-Za-z_][\w:.-]*)\s*\(\)/, toDeclaration: m => ({ path: [m[1]], container: false }) }
+    ]
+};
+
+const MEMBER: Record<Exclude<CodeLanguage, 'python'>, RegExp | null> = {
+    javascript: /^(?:(?:public|private|protected|static|readonly|async|abstract|override|declare|get|set)\s+)*\*?\s*(#?[A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*(?:\(|=\s*(?:async\s+)?(?:\([^)]*\)|[A-Za-z_$][\w$]*)\s*=>)/,
+    go: null,
+    rust: new RegExp(`^${RUST_VISIBILITY}(?:(?:const|async|unsafe|default|extern\\s+"[^"]*")\\s+)*fn\\s+(\\w+)`),
+    java: new RegExp(`^(?:@\\w+\\s+)*${JAVA_MODIFIERS}(?:<[^>]+>\\s+)?(?:[\\w<>\\[\\],.?]+\\s+)?(\\w+)\\s*\\(`),
+    shell: null
+};
+
+// Lines that belong to the declaration below them: comments, doc comments, decorators and attributes
+function isLeadingLine(trimmed: string, language: CodeLanguage): boolean {
+    if (language === 'python' || language === 'shell') {
+        return trimmed.startsWith('#') || (language === 'python' && trimmed.startsWith('@'));
+    }
+    return trimmed.startsWith('//') || trimmed.startsWith('/*') || trimmed.startsWith('*') ||
+        trimmed.startsWith('@') || (language === 'rust' && trimmed.startsWith('#['));
+}
+
+class SegmentBuilder {
+    readonly segments: CodeSegment[] = [];
+    private current: { path: string[]; lines: string[] } = { path: [], lines: [] };
+    closed = false;     // The current declaration's body has ended
+
+    constructor(private language: CodeLanguage) {}
+
+    get currentPath(): string[] {
+        return this.current.path;
+    }
+
+    add(line: string) {
+        this.current.lines.push(line);
+    }
+
+    // Start a new segment, taking the comments and decorators directly above it
+    start(symbolPath: string[]) {
+        const lines = this.current.lines;
+        let leadingStart = lines.length;
+        while (leadingStart > 0 && lines[leadingStart - 1].trim() && isLeadingLine(lines[leadingStart - 1].trim(), this.language)) {
+            leadingStart--;
+        }
+        const leading = lines.splice(leadingStart);
+        this.flush();
+        this.current = { path: symbolPath, lines: leading };
+        this.closed = false;
+    }
+
+    finish(): CodeSegment[] {
+        this.flush();
+        return this.segments;
+    }
+
+    private flush() {
+        const text = this.current.lines.join('\n').replace(/^\s*\n/, '').trimEnd();
+        if (text.trim()) {
+            this.segments.push({ symbolPath: this.current.path, text });
+        }
+    }
+}
+
+function splitBraceLanguage(source: string, language: Exclude<CodeLanguage, 'python'>): CodeSegment[] {
+    const syntax = SYNTAX[language];
+    const state: ScanState = { blockComment: false, multilineQuote: null };
+    const builder = new SegmentBuilder(language);
+    let depth = 0;
+    let container: string | null = null;
+
+    for (const line of source.split('\n')) {
+        const trimmed = line.trim();
+        const inString = state.blockComment || state.multilineQuote !== null;
+
+        if (!inString && trimmed && !isLeadingLine(trimmed, language)) {
+            if (depth === 0) {
+                const declaration = matchTopLevel(trimmed, language);
+                if (declaration) {
+                    builder.start(declaration.path);
+                    container = declaration.container ? declaration.path[declaration.path.length - 1] : null;
+                } else if (builder.closed && builder.currentPath.length > 0) {
+                    // Module-level statements after a declaration
+                    builder.start([]);
+                    container = null;
+                }
+            } else if (depth === 1 && container) {
+                const member = MEMBER[language]?.exec(trimmed);
+                if (member && !NOT_MEMBERS.has(member[1])) {
+                    builder.start([container, member[1]]);
+                }
+            }
+        }
+
+        builder.add(line);
+        const before = depth;
+        depth = Math.max(0, depth + scanLine(line, syntax, state));
+        if (depth === 0 && (before > 0 || (!inString && /[;}]\s*$/.test(trimmed)))) {
+            builder.closed = true;
+            container = null;
+        }
+    }
+    return builder.finish();
+}
+
+function matchTopLevel(trimmed: string, language: Exclude<CodeLanguage, 'python'>): Declaration | null {
+    for (const { pattern, toDeclaration } of TOP_LEVEL[language]) {
+        const match = trimmed.match(pattern);
+        if (match) {
+            return toDeclaration(match);
+        }
+    }
+    return null;
+}
+
+function splitPython(source: string): CodeSegment[] {
+    const syntax = SYNTAX.python;
+    const state: ScanState = { blockComment: false, multilineQuote: null };
+    const builder = new SegmentBuilder('python');
+    let bracketDepth = 0;
+    let className: string | null = null;
+    let memberIndent: number | null = null;
+
+    for (const line of source.split('\n')) {
+        const trimmed = line.trim();
+        const isStatementStart = !state.multilineQuote && bracketDepth === 0 && trimmed !== '' && !trimmed.startsWith('#') && !trimmed.startsWith('@');
+
+        if (isStatementStart) {
+            const indent = line.length - line.trimStart().length;
+            const definition = trimmed.match(/^(?:async\s+)?def\s+(\w+)|^class\s+(\w+)/);
+            if (indent === 0) {
+                if (definition) {
+                    const name = definition[1] || definition[2];
+                    builder.start([name]);
+                    className = definition[2] || null;
+                    memberIndent = null;
+                } else if (builder.currentPath.length > 0) {
+                    builder.start([]);
+                    className = null;
+                }
+            } else if (className) {
+                memberIndent ??= indent;
+                if (indent === memberIndent && definition?.[1]) {
+                    builder.start([className, definition[1]]);
+                }
+            }
+        }
+
+        builder.add(line);
+        bracketDepth = Math.max(0, bracketDepth + scanLine(line, syntax, state));
+    }
+    return builder.finish();
+}
+
+/**
+ * Split source code into declarations: top-level functions, classes and types, with class-like containers
+ * (classes, impl/trait blocks) split further into methods. Code between declarations is kept with its neighbours.
+ */
+export function splitCodeIntoSegments(source: string, language: CodeLanguage): CodeSegment[] {
+    const normalized = source.replace(/\r\n/g, '\n');
+    return language === 'python' ? splitPython(normalized) : splitBraceLanguage(normalized, language);
+}
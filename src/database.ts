@@ -3,6 +3,30 @@ import { loadSqliteVec } from './sqliteVec';
 import { DocumentChunk } from './processor';
 import { LOCAL_EMBEDDING_DIMENSION, OPENAI_EMBEDDING_DIMENSION } from './embeddings';
 
+// Columns shared by vec_items and the vec_items_next staging table used while re-embedding
+const VEC_COLUMNS = 'embedding, heading_hierarchy, section, chunk_id, content, url, hash, chunk_index, total_chunks, page_start, page_end, slide';
+// Columns of vec_items tables created before page and slide numbers were stored
+const LEGACY_VEC_COLUMNS = 'embedding, heading_hierarchy, section, chunk_id, content, url, hash, chunk_index, total_chunks';
+
+// vec0 auxiliary columns take NULL, but numbers only as BigInt
+function optionalInteger(value: number | undefined): bigint | null {
+    return value === undefined ? null : BigInt(value);
+}
+
+export interface ReembedProgress {
+    modelId: string;
+    dimension: number;
+    done: number;
+    total: number;
+}
+
+export interface ReembedChunk {
+    rowid: number;
+    chunkId: string;
+    hash: string;
+    content: string;
+}
+
 export class DatabaseManager {
     private db: Database.Database;
     private insertStmt: Database.Statement;
@@ -10,25 +34,34 @@ export class DatabaseManager {
     private ftsInsertStmt: Database.Statement;
     private ftsDeleteStmt: Database.Statement;
     private embeddingDimension: number;
+    // Model being re-embedded into vec_items_next, if a migration is pending
+    private reembedTarget: { modelId: string; dimension: number } | null = null;
     
     // Cache counts for immediate UI feedback
     private _trackedFilesCount: number = 0;
     private _totalChunksCount: number = 0;
 
-    constructor(dbPath: string, embeddingDimension: number = LOCAL_EMBEDDING_DIMENSION) {
+    constructor(dbPath: string, embeddingDimension: number = LOCAL_EMBEDDING_DIMENSION, embeddingModelId?: string) {
         this.db = new Database(dbPath);
         this.db.pragma('foreign_keys = ON');
         this.embeddingDimension = embeddingDimension;
         loadSqliteVec(this.db);
         this.createTables();
+        this.loadReembedTarget();
+
+        // Databases created before model ids were recorded adopt the current model if the width still fits
+        if (embeddingModelId && !this.getEmbeddingModelId() && this.embeddingDimension === embeddingDimension) {
+            this.setMetadata('embedding_model', embeddingModelId);
+        }
         
         // Prepare statements for insert/update (matching doc2vec's approach)
         this.insertStmt = this.db.prepare(`
-            INSERT INTO vec_items (embedding, heading_hierarchy, section, chunk_id, content, url, hash, chunk_index, total_chunks)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+            INSERT INTO vec_items (${VEC_COLUMNS})
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `);
         this.updateStmt = this.db.prepare(`
-            UPDATE vec_items SET embedding = ?, heading_hierarchy = ?, section = ?, content = ?, url = ?, hash = ?, chunk_index = ?, total_chunks = ?
+            UPDATE vec_items SET embedding = ?, heading_hierarchy = ?, section = ?, content = ?, url = ?, hash = ?, chunk_index = ?, total_chunks = ?,
+                page_start = ?, page_end = ?, slide = ?
             WHERE chunk_id = ?
         `);
         this.ftsInsertStmt = this.db.prepare(`
@@ -69,25 +102,13 @@ export class DatabaseManager {
             
             if (currentDimension !== this.embeddingDimension) {
                 console.warn(`Embedding dimension mismatch: database has ${currentDimension}, requested ${this.embeddingDimension}`);
-                console.warn('Database will continue with existing dimension. To change, clear data or use a new database.');
-                // Use the existing dimension to avoid data corruption
+                console.warn('Keeping the existing vectors until the chunks are re-embedded with the new model.');
+                // Searches keep using the existing vectors until the re-embed swaps tables
                 this.embeddingDimension = currentDimension;
             }
+            this.upgradeVecTable('vec_items', this.embeddingDimension);
         } else {
-            // Create new vec0 virtual table with specified dimension
-            this.db.exec(`
-                CREATE VIRTUAL TABLE IF NOT EXISTS vec_items USING vec0(
-                    embedding FLOAT[${this.embeddingDimension}],
-                    heading_hierarchy TEXT,
-                    section TEXT,
-                    chunk_id TEXT UNIQUE,
-                    content TEXT,
-                    url TEXT,
-                    hash TEXT,
-                    chunk_index INTEGER,
-                    total_chunks INTEGER
-                )
-            `);
+            this.createVecTable('vec_items', this.embeddingDimension);
         }
 
         const coordsRow = this.db.prepare(
@@ -161,9 +182,77 @@ export class DatabaseManager {
             INSERT OR REPLACE INTO metadata (key, value) VALUES ('embedding_dimension', ?)
         `).run(String(this.embeddingDimension));
 
+        const reembedDimension = parseInt(this.getMetadata('reembed_dimension') || '', 10);
+        if (reembedDimension > 0) {
+            this.upgradeVecTable('vec_items_next', reembedDimension);
+        }
+
         console.log('Database tables created');
     }
 
+    private createVecTable(name: string, dimension: number) {
+        this.db.exec(`
+            CREATE VIRTUAL TABLE IF NOT EXISTS ${name} USING vec0(
+                embedding FLOAT[${dimension}],
+                heading_hierarchy TEXT,
+                section TEXT,
+                chunk_id TEXT UNIQUE,
+                content TEXT,
+                url TEXT,
+                hash TEXT,
+                chunk_index INTEGER,
+                total_chunks INTEGER,
+                +page_start INTEGER,
+                +page_end INTEGER,
+                +slide INTEGER
+            )
+        `);
+    }
+
+    /**
+     * Add the page and slide columns to a vec0 table from an older version. vec0 tables can't be altered
+     * or renamed, so the rows are copied out to a scratch table and back into a recreated one.
+     */
+    private upgradeVecTable(name: string, dimension: number) {
+        const row = this.db.prepare(
+            "SELECT sql FROM sqlite_master WHERE type='table' AND name = ?"
+        ).get(name) as { sql?: string } | undefined;
+        if (!row?.sql || row.sql.includes('page_start')) {
+            return;
+        }
+
+        const scratch = `${name}_upgrade`;
+        const upgrade = this.db.transaction(() => {
+            this.db.exec(`DROP TABLE IF EXISTS ${scratch}`);
+            this.createVecTable(scratch, dimension);
+            this.db.exec(`INSERT INTO ${scratch} (rowid, ${LEGACY_VEC_COLUMNS}) SELECT rowid, ${LEGACY_VEC_COLUMNS} FROM ${name}`);
+            this.db.exec(`DROP TABLE ${name}`);
+            this.createVecTable(name, dimension);
+            this.db.exec(`INSERT INTO ${name} (rowid, ${VEC_COLUMNS}) SELECT rowid, ${VEC_COLUMNS} FROM ${scratch}`);
+            this.db.exec(`DROP TABLE ${scratch}`);
+        });
+        upgrade();
+        console.log(`Added page and slide columns to ${name}`);
+    }
+
+    private getMetadata(key: string): string | null {
+        const row = this.db.prepare('SELECT value FROM metadata WHERE key = ?').get(key) as { value: string } | undefined;
+        return row?.value ?? null;
+    }
+
+    private setMetadata(key: string, value: string) {
+        this.db.prepare('INSERT OR REPLACE INTO metadata (key, value) VALUES (?, ?)').run(key, value);
+    }
+
+    private loadReembedTarget() {
+        const modelId = this.getMetadata('reembed_model');
+        const dimension = parseInt(this.getMetadata('reembed_dimension') || '', 10);
+        const stagingExists = this.db.prepare(
+            "SELECT name FROM sqlite_master WHERE type='table' AND name='vec_items_next'"
+        ).get();
+        this.reembedTarget = modelId && dimension > 0 && stagingExists ? { modelId, dimension } : null;
+    }
+
     private getCurrentEmbeddingDimension(): number {
         try {
             // Try to get from metadata table
@@ -211,8 +300,217 @@ export class DatabaseManager {
         return this.embeddingDimension;
     }
 
+    /**
+     * Model the stored vectors were produced with, or null for databases that predate model tracking
+     */
+    getEmbeddingModelId(): string | null {
+        return this.getMetadata('embedding_model');
+    }
+
+    /**
+     * Chunking settings the stored chunks were cut with (ContentProcessor.getChunkingSignature()),
+     * or null for databases that predate recording them
+     */
+    getChunkingSignature(): string | null {
+        return this.getMetadata('chunking');
+    }
+
+    setChunkingSignature(signature: string) {
+        this.setMetadata('chunking', signature);
+    }
+
+    /**
+     * True when the stored vectors come from a different model (or width) than the one requested
+     */
+    needsReembedding(modelId: string, dimension: number): boolean {
+        if (dimension !== this.embeddingDimension) {
+            return true;
+        }
+        const current = this.getEmbeddingModelId();
+        return current !== null && current !== modelId;
+    }
+
+    isReembedding(): boolean {
+        return this.reembedTarget !== null;
+    }
+
+    /**
+     * Stage a re-embed of every chunk into vec_items_next. Resumes a pending migration to the same model
+     * and discards one to a different model. Searches keep using vec_items until finishReembedding().
+     */
+    beginReembedding(modelId: string, dimension: number) {
+        if (this.reembedTarget) {
+            if (this.reembedTarget.modelId === modelId && this.reembedTarget.dimension === dimension) {
+                return;
+            }
+            this.cancelReembedding();
+        }
+
+        const begin = this.db.transaction(() => {
+            this.createVecTable('vec_items_next', dimension);
+            this.db.exec('CREATE TABLE IF NOT EXISTS reembed_queue (vec_rowid INTEGER PRIMARY KEY)');
+            this.db.exec('INSERT INTO reembed_queue (vec_rowid) SELECT rowid FROM vec_items');
+            const queued = this.db.prepare('SELECT COUNT(*) as count FROM reembed_queue').get() as { count: number };
+            this.setMetadata('reembed_model', modelId);
+            this.setMetadata('reembed_dimension', String(dimension));
+            this.setMetadata('reembed_total', String(queued.count));
+        });
+        begin();
+        this.reembedTarget = { modelId, dimension };
+        console.log(`Re-embedding ${this._totalChunksCount} chunks for ${modelId}`);
+    }
+
+    getReembedProgress(): ReembedProgress | null {
+        if (!this.reembedTarget) {
+            return null;
+        }
+        const total = parseInt(this.getMetadata('reembed_total') || '0', 10);
+        const remaining = this.db.prepare('SELECT COUNT(*) as count FROM reembed_queue').get() as { count: number };
+        return {
+            modelId: this.reembedTarget.modelId,
+            dimension: this.reembedTarget.dimension,
+            done: Math.max(0, total - Number(remaining.count)),
+            total
+        };
+    }
+
+    /**
+     * Next queued chunks to re-embed. Chunks deleted since the migration started are dropped from the queue.
+     */
+    getReembedBatch(limit: number): ReembedChunk[] {
+        if (!this.reembedTarget) {
+            return [];
+        }
+        const queueStmt = this.db.prepare('SELECT vec_rowid FROM reembed_queue ORDER BY vec_rowid LIMIT ?');
+        const rowStmt = this.db.prepare('SELECT rowid, chunk_id, hash, content FROM vec_items WHERE rowid = ?');
+        const dequeueStmt = this.db.prepare('DELETE FROM reembed_queue WHERE vec_rowid = ?');
+
+        while (true) {
+            const queued = queueStmt.all(limit) as { vec_rowid: number }[];
+            if (queued.length === 0) {
+                return [];
+            }
+            const batch: ReembedChunk[] = [];
+            for (const { vec_rowid } of queued) {
+                const row = rowStmt.get(BigInt(vec_rowid)) as { rowid: number; chunk_id: string; hash: string; content: string } | undefined;
+                if (row) {
+                    batch.push({ rowid: Number(row.rowid), chunkId: row.chunk_id, hash: row.hash, content: row.content });
+                } else {
+                    dequeueStmt.run(vec_rowid);
+                }
+            }
+            if (batch.length > 0) {
+                return batch;
+            }
+        }
+    }
+
+    /**
+     * Store new vectors for a batch from getReembedBatch(). Chunks rewritten or removed by a sync
+     * in the meantime are no longer queued and are skipped.
+     */
+    writeReembeddedBatch(items: Array<{ rowid: number; embedding: number[] }>) {
+        if (!this.reembedTarget) {
+            return;
+        }
+        const queuedStmt = this.db.prepare('SELECT 1 FROM reembed_queue WHERE vec_rowid = ?');
+        const copyStmt = this.db.prepare(`
+            INSERT INTO vec_items_next (rowid, ${VEC_COLUMNS})
+            SELECT rowid, ?, heading_hierarchy, section, chunk_id, content, url, hash, chunk_index, total_chunks, page_start, page_end, slide
+            FROM vec_items WHERE rowid = ?
+        `);
+        const dequeueStmt = this.db.prepare('DELETE FROM reembed_queue WHERE vec_rowid = ?');
+        const write = this.db.transaction(() => {
+            for (const item of items) {
+                if (!queuedStmt.get(item.rowid)) {
+                    continue;
+                }
+                copyStmt.run(new Float32Array(item.embedding), BigInt(item.rowid));
+                dequeueStmt.run(item.rowid);
+            }
+        });
+        write();
+    }
+
+    /**
+     * Replace vec_items with the re-embedded table in one transaction, so readers see either the old or the new vectors.
+     * Returns false while chunks are still queued.
+     */
+    finishReembedding(): boolean {
+        const target = this.reembedTarget;
+        if (!target) {
+            return false;
+        }
+        const remaining = this.db.prepare('SELECT COUNT(*) as count FROM reembed_queue').get() as { count: number };
+        if (Number(remaining.count) > 0) {
+            return false;
+        }
+
+        // vec0 tables can't be renamed, so the staged rows are copied into a recreated vec_items
+        const swap = this.db.transaction(() => {
+            this.db.exec('DROP TABLE vec_items');
+            this.createVecTable('vec_items', target.dimension);
+            this.db.exec(`INSERT INTO vec_items (rowid, ${VEC_COLUMNS}) SELECT rowid, ${VEC_COLUMNS} FROM vec_items_next`);
+            this.db.exec('DROP TABLE vec_items_next');
+            this.db.exec('DROP TABLE reembed_queue');
+            // Map positions were projected from the old vectors
+            this.db.exec('DELETE FROM chunk_coords');
+            this.db.exec("DELETE FROM metadata WHERE key IN ('reembed_model', 'reembed_dimension', 'reembed_total')");
+            this.setMetadata('embedding_dimension', String(target.dimension));
+            this.setMetadata('embedding_model', target.modelId);
+        });
+        swap();
+
+        this.embeddingDimension = target.dimension;
+        this.reembedTarget = null;
+        this._totalChunksCount = this._queryTotalChunksCount();
+        console.log(`Re-embedding complete: ${this._totalChunksCount} chunks now use ${target.modelId}`);
+        return true;
+    }
+
+    /**
+     * Drop a pending migration; vec_items is left untouched
+     */
+    cancelReembedding() {
+        const cancel = this.db.transaction(() => {
+            this.db.exec('DROP TABLE IF EXISTS vec_items_next');
+            this.db.exec('DROP TABLE IF EXISTS reembed_queue');
+            this.db.exec("DELETE FROM metadata WHERE key IN ('reembed_model', 'reembed_dimension', 'reembed_total')");
+        });
+        cancel();
+        this.reembedTarget = null;
+    }
+
+    // Keep the staging table in step with a chunk written by a sync during a migration
+    private writeStagedChunk(chunk: DocumentChunk, embedding: number[] | null, headingHierarchyJson: string) {
+        const target = this.reembedTarget!;
+        const embeddingData = embedding && embedding.length === target.dimension
+            ? new Float32Array(embedding)
+            : new Float32Array(target.dimension).fill(0);
+        const row = this.db.prepare('SELECT rowid FROM vec_items WHERE chunk_id = ?').get(chunk.chunkId) as { rowid: number };
+
+        this.db.prepare('DELETE FROM vec_items_next WHERE chunk_id = ?').run(chunk.chunkId);
+        this.db.prepare(`INSERT INTO vec_items_next (rowid, ${VEC_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`).run(
+            BigInt(row.rowid),
+            embeddingData,
+            headingHierarchyJson,
+            chunk.section,
+            chunk.chunkId,
+            chunk.content,
+            chunk.url,
+            chunk.hash,
+            BigInt(chunk.chunkIndex),
+            BigInt(chunk.totalChunks),
+            optionalInteger(chunk.pageStart),
+            optionalInteger(chunk.pageEnd),
+            optionalInteger(chunk.slide)
+        );
+        this.db.prepare('DELETE FROM reembed_queue WHERE vec_rowid = ?').run(row.rowid);
+    }
+
     insertChunk(chunk: DocumentChunk, embedding: number[] | null) {
-        const embeddingData = embedding 
+        // During a migration new vectors belong to the staging table; vec_items gets a placeholder
+        const embeddingData = embedding && !this.reembedTarget
             ? new Float32Array(embedding) 
             : new Float32Array(this.embeddingDimension).fill(0);
         
@@ -229,10 +527,16 @@ export class DatabaseManager {
                 chunk.url,
                 chunk.hash,
                 BigInt(chunk.chunkIndex),
-                BigInt(chunk.totalChunks)
+                BigInt(chunk.totalChunks),
+                optionalInteger(chunk.pageStart),
+                optionalInteger(chunk.pageEnd),
+                optionalInteger(chunk.slide)
             );
             this.syncFtsEntry(chunk, headingHierarchyJson);
             this._totalChunksCount++;
+            if (this.reembedTarget) {
+                this.writeStagedChunk(chunk, embedding, headingHierarchyJson);
+            }
         } catch (error: any) {
             // If insert fails due to UNIQUE constraint, update instead
             if (error.code === 'SQLITE_CONSTRAINT_UNIQUE' || error.message?.includes('UNIQUE constraint failed')) {
@@ -245,9 +549,15 @@ export class DatabaseManager {
                     chunk.hash,
                     BigInt(chunk.chunkIndex),
                     BigInt(chunk.totalChunks),
+                    optionalInteger(chunk.pageStart),
+                    optionalInteger(chunk.pageEnd),
+                    optionalInteger(chunk.slide),
                     chunk.chunkId
                 );
                 this.syncFtsEntry(chunk, headingHierarchyJson);
+                if (this.reembedTarget) {
+                    this.writeStagedChunk(chunk, embedding, headingHierarchyJson);
+                }
                 // Update doesn't change count
             } else {
                 throw error;
@@ -263,6 +573,10 @@ export class DatabaseManager {
         const deletedCount = Number(countRow.count);
 
         this.db.prepare('DELETE FROM chunk_coords WHERE chunk_id IN (SELECT chunk_id FROM vec_items WHERE url = ?)').run(url);
+        if (this.reembedTarget) {
+            this.db.prepare('DELETE FROM reembed_queue WHERE vec_rowid IN (SELECT rowid FROM vec_items WHERE url = ?)').run(url);
+            this.db.prepare('DELETE FROM vec_items_next WHERE url = ?').run(url);
+        }
         const stmt = this.db.prepare('DELETE FROM vec_items WHERE url = ?');
         stmt.run(url);
         this.db.prepare('DELETE FROM fts_chunks WHERE url = ?').run(url);
@@ -281,6 +595,10 @@ export class DatabaseManager {
         if (!columnNames.has('source_url')) {
             this.db.exec('ALTER TABLE files ADD COLUMN source_url TEXT');
         }
+
+        if (!columnNames.has('source_id')) {
+            this.db.exec('ALTER TABLE files ADD COLUMN source_id TEXT');
+        }
     }
 
     private getSourceUrlForPath(filePath: string): string | null {
@@ -309,19 +627,21 @@ export class DatabaseManager {
         return Number(row.count);
     }
 
-    upsertFileInfo(filePath: string, hash: string, modifiedAt: Date, chunkCount: number, displayPath?: string, sourceUrl?: string) {
+    upsertFileInfo(filePath: string, hash: string, modifiedAt: Date, chunkCount: number, displayPath?: string, sourceUrl?: string, sourceId?: string) {
         // Check if file already exists
-        const checkStmt = this.db.prepare('SELECT 1 FROM files WHERE path = ?');
-        const exists = checkStmt.get(filePath);
+        const checkStmt = this.db.prepare('SELECT source_id FROM files WHERE path = ?');
+        const exists = checkStmt.get(filePath) as { source_id: string | null } | undefined;
 
         const resolvedDisplayPath = displayPath || filePath;
         const resolvedSourceUrl = sourceUrl || `file://${filePath}`;
+        // Without a source the file keeps the one it was indexed from
+        const resolvedSourceId = sourceId ?? exists?.source_id ?? null;
 
         const stmt = this.db.prepare(`
-            INSERT OR REPLACE INTO files (path, hash, modified_at, chunk_count, display_path, source_url)
-            VALUES (?, ?, ?, ?, ?, ?)
+            INSERT OR REPLACE INTO files (path, hash, modified_at, chunk_count, display_path, source_url, source_id)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
         `);
-        stmt.run(filePath, hash, modifiedAt.toISOString(), chunkCount, resolvedDisplayPath, resolvedSourceUrl);
+        stmt.run(filePath, hash, modifiedAt.toISOString(), chunkCount, resolvedDisplayPath, resolvedSourceUrl, resolvedSourceId);
         
         // Only increment if this is a new file
         if (!exists) {
@@ -329,7 +649,7 @@ export class DatabaseManager {
         }
     }
 
-    getFileInfo(filePath: string): { path: string; hash: string; modifiedAt: Date; chunkCount: number; displayPath: string; sourceUrl: string } | null {
+    getFileInfo(filePath: string): { path: string; hash: string; modifiedAt: Date; chunkCount: number; displayPath: string; sourceUrl: string; sourceId: string | null } | null {
         const stmt = this.db.prepare('SELECT * FROM files WHERE path = ?');
         const row = stmt.get(filePath) as any;
         if (!row) return null;
@@ -339,7 +659,8 @@ export class DatabaseManager {
             modifiedAt: new Date(row.modified_at),
             chunkCount: row.chunk_count,
             displayPath: row.display_path || row.path,
-            sourceUrl: row.source_url || `file://${row.path}`
+            sourceUrl: row.source_url || `file://${row.path}`,
+            sourceId: row.source_id ?? null
         };
     }
 
@@ -362,18 +683,26 @@ export class DatabaseManager {
         return rows.map(r => r.path);
     }
 
-    getAllTrackedFilesWithInfo(): { path: string; displayPath: string; sourceUrl: string; chunkCount: number; modifiedAt: string }[] {
-        const stmt = this.db.prepare('SELECT path, display_path, source_url, chunk_count, modified_at FROM files ORDER BY modified_at DESC');
-        const rows = stmt.all() as { path: string; display_path: string | null; source_url: string | null; chunk_count: number; modified_at: string }[];
+    getAllTrackedFilesWithInfo(): { path: string; displayPath: string; sourceUrl: string; chunkCount: number; modifiedAt: string; sourceId: string | null }[] {
+        const stmt = this.db.prepare('SELECT path, display_path, source_url, chunk_count, modified_at, source_id FROM files ORDER BY modified_at DESC');
+        const rows = stmt.all() as { path: string; display_path: string | null; source_url: string | null; chunk_count: number; modified_at: string; source_id: string | null }[];
         return rows.map(r => ({
             path: r.path,
             displayPath: r.display_path || r.path,
             sourceUrl: r.source_url || `file://${r.path}`,
             chunkCount: r.chunk_count,
-            modifiedAt: r.modified_at
+            modifiedAt: r.modified_at,
+            sourceId: r.source_id
         }));
     }
 
+    /**
+     * Record the source of files indexed before sources were tracked
+     */
+    assignUnsourcedFiles(sourceId: string) {
+        this.db.prepare('UPDATE files SET source_id = ? WHERE source_id IS NULL').run(sourceId);
+    }
+
     getChunksForFile(filePath: string): { chunkId: string; content: string; section: string; chunkIndex: number }[] {
         const sourceUrl = this.getSourceUrlForPath(filePath);
         const url = sourceUrl || `file://${filePath}`;
@@ -433,6 +762,11 @@ export class DatabaseManager {
         this.db.exec('DELETE FROM fts_chunks');
         this.db.exec('DELETE FROM files');
         this.db.exec('DELETE FROM chunk_coords');
+        if (this.reembedTarget) {
+            // Nothing left to re-embed; the next finishReembedding() switches to the new width
+            this.db.exec('DELETE FROM vec_items_next');
+            this.db.exec('DELETE FROM reembed_queue');
+        }
         this._trackedFilesCount = 0;
         this._totalChunksCount = 0;
         console.log('Cleared all data');
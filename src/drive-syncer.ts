@@ -1,7 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import type { drive_v3 } from 'googleapis';
-import type { Syncer, SyncerOptions } from './syncer';
+import type { CachingSyncer, SyncerOptions } from './syncer';
 
 interface DriveExportRule {
     mimeType: string;
@@ -15,6 +15,7 @@ interface DriveFileInfo {
     modifiedTime?: string;
     webViewLink?: string;
     drivePath?: string;
+    parentId?: string;
 }
 
 interface DriveIndexEntry {
@@ -24,6 +25,16 @@ interface DriveIndexEntry {
     displayPath?: string;
 }
 
+// A folder inside the synced folder, as last listed or looked up
+export interface DriveFolderEntry {
+    name: string;
+    path: string;
+    parentId: string | null;
+}
+
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+const CHANGE_FIELDS = 'nextPageToken, newStartPageToken, changes(fileId, removed, file(id, name, mimeType, modifiedTime, webViewLink, parents, trashed))';
+
 const GOOGLE_DOC_EXPORTS: Record<string, DriveExportRule[]> = {
     'application/vnd.google-apps.document': [
         { mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', extension: '.docx' },
@@ -31,6 +42,8 @@ const GOOGLE_DOC_EXPORTS: Record<string, DriveExportRule[]> = {
         { mimeType: 'text/plain', extension: '.txt' }
     ],
     'application/vnd.google-apps.spreadsheet': [
+        // CSV only exports the first sheet
+        { mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: '.xlsx' },
         { mimeType: 'text/csv', extension: '.csv' }
     ],
     'application/vnd.google-apps.presentation': [
@@ -39,7 +52,7 @@ const GOOGLE_DOC_EXPORTS: Record<string, DriveExportRule[]> = {
     ]
 };
 
-export class DriveSyncer implements Syncer {
+export class DriveSyncer implements CachingSyncer<DriveFileInfo> {
     private drive: drive_v3.Drive;
     private folderId: string;
     private rootName = 'My Drive';
@@ -52,6 +65,11 @@ export class DriveSyncer implements Syncer {
     private inFlightDownloads: Map<string, Promise<DriveIndexEntry>> = new Map();
     private _isSyncing = false;
     private isRefreshing = false;
+    // Changes API position; polls list the changes since it and fall back to a full rescan without it
+    private changesPageToken: string | null = null;
+    private onChangesPageToken: ((token: string, folders: Record<string, DriveFolderEntry>) => void) | null = null;
+    // Folders by id; null for folders known to be outside the synced folder
+    private folders: Map<string, DriveFolderEntry | null> = new Map();
 
     constructor(drive: drive_v3.Drive, folderId: string, cacheDir: string, options: SyncerOptions) {
         this.drive = drive;
@@ -69,6 +87,56 @@ export class DriveSyncer implements Syncer {
         this.driveId = driveId || null;
     }
 
+    /**
+     * Continue from a Changes API page token saved by a previous sync. The listener is called with each new
+     * token once the changes before it have been emitted, together with the known folders, so both can be saved again.
+     */
+    setChangesPageToken(token: string | null, onChange?: (token: string, folders: Record<string, DriveFolderEntry>) => void) {
+        this.changesPageToken = token || null;
+        this.onChangesPageToken = onChange || null;
+    }
+
+    getChangesPageToken(): string | null {
+        return this.changesPageToken;
+    }
+
+    /**
+     * Folders inside the synced folder by id. Saved with the page token: a folder moved out of the synced folder
+     * is only recognized, and its files removed, when the syncer knows it was inside.
+     */
+    getKnownFolders(): Record<string, DriveFolderEntry> {
+        const folders: Record<string, DriveFolderEntry> = {};
+        for (const [folderId, entry] of this.folders.entries()) {
+            if (entry) {
+                folders[folderId] = entry;
+            }
+        }
+        return folders;
+    }
+
+    restoreFolders(folders: Record<string, DriveFolderEntry>) {
+        for (const [folderId, entry] of Object.entries(folders)) {
+            this.folders.set(folderId, entry);
+        }
+    }
+
+    /**
+     * Known files from a previous sync, so changes reported for them are compared with what was indexed
+     * instead of being treated as new files. Cached files that no longer exist are skipped.
+     */
+    restoreIndex(entries: { localPath: string; sourceUrl?: string; displayPath?: string }[]) {
+        for (const entry of entries) {
+            if (path.dirname(entry.localPath) !== this.cacheDir) continue;
+            try {
+                const stats = fs.statSync(entry.localPath);
+                const fileId = path.basename(entry.localPath).split('.')[0];
+                this.fileIndex.set(fileId, { ...entry, modifiedTimeMs: stats.mtimeMs });
+            } catch {
+                // Cache file removed since the last sync
+            }
+        }
+    }
+
     get isSyncing(): boolean {
         return this._isSyncing;
     }
@@ -159,47 +227,232 @@ export class DriveSyncer implements Syncer {
         this.isRefreshing = true;
 
         try {
-            const files = await this.fetchFiles();
-            const nextIndex = new Map<string, DriveIndexEntry>();
-            let eligibleCount = 0;
+            if (this.changesPageToken && await this.applyChanges()) {
+                return;
+            }
+            await this.rescanAndEmit();
+        } finally {
+            this.isRefreshing = false;
+        }
+    }
+
+    /**
+     * Emit the changes listed since the saved page token. Returns false when the folder has to be listed
+     * again instead: the token expired, or a folder inside the synced folder was renamed, moved or trashed.
+     */
+    private async applyChanges(): Promise<boolean> {
+        const changes: drive_v3.Schema$Change[] = [];
+        let pageToken: string | undefined = this.changesPageToken!;
+        let newStartPageToken: string | null = null;
+        try {
+            do {
+                const response: { data: drive_v3.Schema$ChangeList } = await this.withTimeout(this.drive.changes.list({
+                    pageToken,
+                    fields: CHANGE_FIELDS,
+                    pageSize: 1000,
+                    includeRemoved: true,
+                    supportsAllDrives: true,
+                    includeItemsFromAllDrives: true,
+                    driveId: this.driveId || undefined
+                }), 'changes');
+                changes.push(...(response.data.changes || []));
+                pageToken = response.data.nextPageToken || undefined;
+                newStartPageToken = response.data.newStartPageToken || newStartPageToken;
+            } while (pageToken);
+        } catch (error) {
+            console.warn('[DriveSyncer] Listing changes failed, rescanning folder:', error);
+            this.changesPageToken = null;
+            return false;
+        }
 
-            for (const file of files) {
-                const resolved = this.resolveFile(file);
-                if (!resolved) continue;
-                eligibleCount++;
+        let emitted = 0;
+        for (const change of changes) {
+            if (!this._isSyncing) return true;
+            const fileId = change.fileId || change.file?.id;
+            if (!fileId) continue;
+            const file = change.file;
 
-                const cached = await this.ensureCachedForFile(file, resolved);
-                if (!cached) {
-                    continue;
+            if (file?.mimeType === FOLDER_MIME_TYPE) {
+                if (!await this.applyFolderChange(fileId, file, change.removed === true)) {
+                    return false;
                 }
-                nextIndex.set(file.id, cached);
+                continue;
+            }
 
-                const previous = this.fileIndex.get(file.id);
-                if (!previous) {
-                    await this.options.onFileAdd(cached.localPath, cached.sourceUrl, cached.displayPath);
-                } else if (previous.modifiedTimeMs < cached.modifiedTimeMs) {
-                    await this.options.onFileChange(cached.localPath, cached.sourceUrl, cached.displayPath);
-                }
+            if (change.removed || !file || file.trashed) {
+                emitted += await this.removeFile(fileId) ? 1 : 0;
+                continue;
             }
+            emitted += await this.applyFileChange(file) ? 1 : 0;
+        }
 
-            for (const [fileId, entry] of this.fileIndex.entries()) {
-                if (!nextIndex.has(fileId)) {
-                    await this.options.onFileDelete(entry.localPath);
-                    if (fs.existsSync(entry.localPath)) {
-                        fs.unlinkSync(entry.localPath);
-                    }
-                }
+        if (newStartPageToken && this._isSyncing) {
+            this.changesPageToken = newStartPageToken;
+            this.onChangesPageToken?.(newStartPageToken, this.getKnownFolders());
+        }
+        if (changes.length > 0) {
+            console.log(`[DriveSyncer] Changes: ${changes.length} listed, ${emitted} applied`);
+        }
+        return true;
+    }
+
+    // Whether a folder change can be applied without listing the synced folder again
+    private async applyFolderChange(folderId: string, folder: drive_v3.Schema$File, removed: boolean): Promise<boolean> {
+        if (folderId === this.folderId) {
+            return true;
+        }
+        const known = this.folders.get(folderId);
+        const parentId = folder.parents?.[0] || null;
+        if (known) {
+            // Renaming or moving a folder changes the path of everything in it
+            return !removed && !folder.trashed && known.name === folder.name && known.parentId === parentId;
+        }
+        if (removed || folder.trashed || !this.options.recursive || !parentId) {
+            return true;
+        }
+
+        this.folders.delete(folderId);
+        const parentPath = await this.resolveFolderPath(parentId);
+        if (parentPath === null || this.options.fileFilter?.isExcluded(this.getRelativePath(`${parentPath}/${folder.name}`), true)) {
+            return true;
+        }
+        // A folder created in, or moved into, the synced folder: its files are new
+        const files: DriveFileInfo[] = [];
+        await this.listFolder(folderId, files, true, `${parentPath}/${folder.name}`, this.driveId, parentId);
+        for (const file of files) {
+            await this.applyFileChange({ ...file, parents: [file.parentId!] });
+        }
+        return true;
+    }
+
+    private async applyFileChange(file: drive_v3.Schema$File): Promise<boolean> {
+        const parentPath = file.parents?.[0] ? await this.resolveFolderPath(file.parents[0]) : null;
+        const info: DriveFileInfo | null = parentPath !== null && file.id && file.name && file.mimeType
+            ? {
+                id: file.id,
+                name: file.name,
+                mimeType: file.mimeType,
+                modifiedTime: file.modifiedTime || undefined,
+                webViewLink: file.webViewLink || undefined,
+                drivePath: `${parentPath}/${file.name}`
             }
+            : null;
+        const resolved = info ? this.resolveFile(info) : null;
+        if (!info || !resolved) {
+            // Moved out of the synced folder, or renamed to a name that isn't synced
+            return await this.removeFile(file.id!);
+        }
 
-            this.fileIndex = nextIndex;
-            console.log(`[DriveSyncer] Refresh: ${files.length} files, ${eligibleCount} eligible`);
-        } finally {
-            this.isRefreshing = false;
+        const previous = this.fileIndex.get(info.id);
+        const cached = await this.ensureCachedForFile(info, resolved);
+        if (!cached || !this._isSyncing) {
+            return false;
         }
+        this.fileIndex.set(info.id, cached);
+
+        if (previous && (previous.localPath !== cached.localPath || previous.displayPath !== cached.displayPath)) {
+            // Moved or renamed: index it again under its new path
+            await this.options.onFileDelete(previous.localPath);
+            if (previous.localPath !== cached.localPath && fs.existsSync(previous.localPath)) {
+                fs.unlinkSync(previous.localPath);
+            }
+            await this.options.onFileAdd(cached.localPath, cached.sourceUrl, cached.displayPath);
+        } else if (!previous) {
+            await this.options.onFileAdd(cached.localPath, cached.sourceUrl, cached.displayPath);
+        } else if (previous.modifiedTimeMs < cached.modifiedTimeMs) {
+            await this.options.onFileChange(cached.localPath, cached.sourceUrl, cached.displayPath);
+        } else {
+            return false;
+        }
+        return true;
+    }
+
+    private async removeFile(fileId: string): Promise<boolean> {
+        const entry = this.fileIndex.get(fileId);
+        if (!entry) {
+            return false;
+        }
+        this.fileIndex.delete(fileId);
+        await this.options.onFileDelete(entry.localPath);
+        if (fs.existsSync(entry.localPath)) {
+            fs.unlinkSync(entry.localPath);
+        }
+        return true;
+    }
+
+    // Drive path of a folder inside the synced folder, looking up its parents when it wasn't listed; null outside it
+    private async resolveFolderPath(folderId: string, depth: number = 0): Promise<string | null> {
+        if (folderId === this.folderId) {
+            return this.rootName;
+        }
+        if (this.folders.has(folderId)) {
+            return this.folders.get(folderId)?.path ?? null;
+        }
+        if (!this.options.recursive || depth > 50) {
+            return null;
+        }
+
+        let folderPath: string | null = null;
+        let entry: DriveFolderEntry | null = null;
+        try {
+            const response = await this.withTimeout(this.drive.files.get({
+                fileId: folderId,
+                fields: 'id, name, parents, trashed',
+                supportsAllDrives: true
+            }), 'folder lookup');
+            const parentId = response.data.parents?.[0] || null;
+            const parentPath = parentId && !response.data.trashed ? await this.resolveFolderPath(parentId, depth + 1) : null;
+            if (parentPath !== null && response.data.name) {
+                folderPath = `${parentPath}/${response.data.name}`;
+                entry = { name: response.data.name, path: folderPath, parentId };
+            }
+        } catch (error) {
+            console.warn(`[DriveSyncer] Failed to look up folder ${folderId}:`, error);
+            return null;
+        }
+        this.folders.set(folderId, entry);
+        return folderPath;
+    }
+
+    private async rescanAndEmit(): Promise<void> {
+        const files = await this.fetchFiles();
+        const nextIndex = new Map<string, DriveIndexEntry>();
+        let eligibleCount = 0;
+
+        for (const file of files) {
+            const resolved = this.resolveFile(file);
+            if (!resolved) continue;
+            eligibleCount++;
+
+            const cached = await this.ensureCachedForFile(file, resolved);
+            if (!cached) {
+                continue;
+            }
+            nextIndex.set(file.id, cached);
+
+            const previous = this.fileIndex.get(file.id);
+            if (!previous) {
+                await this.options.onFileAdd(cached.localPath, cached.sourceUrl, cached.displayPath);
+            } else if (previous.modifiedTimeMs < cached.modifiedTimeMs) {
+                await this.options.onFileChange(cached.localPath, cached.sourceUrl, cached.displayPath);
+            }
+        }
+
+        for (const [fileId, entry] of this.fileIndex.entries()) {
+            if (!nextIndex.has(fileId)) {
+                await this.options.onFileDelete(entry.localPath);
+                if (fs.existsSync(entry.localPath)) {
+                    fs.unlinkSync(entry.localPath);
+                }
+            }
+        }
+
+        this.fileIndex = nextIndex;
+        console.log(`[DriveSyncer] Refresh: ${files.length} files, ${eligibleCount} eligible`);
     }
 
     private resolveFile(file: DriveFileInfo): { localPath: string; exportRule?: DriveExportRule; displayPath?: string } | null {
-        if (file.mimeType === 'application/vnd.google-apps.folder') {
+        if (file.mimeType === FOLDER_MIME_TYPE) {
             return null;
         }
 
@@ -219,9 +472,18 @@ export class DriveSyncer implements Syncer {
 
         const localPath = path.join(this.cacheDir, `${file.id}${extension || ''}`);
         const displayPath = this.buildDisplayPath(file, extension);
+        // Patterns see exported Google files under the name they are indexed with, e.g. "Roadmap.docx"
+        if (this.options.fileFilter && !this.options.fileFilter.accepts(this.getRelativePath(displayPath))) {
+            return null;
+        }
         return { localPath, exportRule, displayPath };
     }
 
+    // Path inside the synced folder, as the include/exclude patterns match it
+    private getRelativePath(drivePath: string): string {
+        return drivePath.startsWith(`${this.rootName}/`) ? drivePath.slice(this.rootName.length + 1) : drivePath;
+    }
+
     private hasValidExtension(extension: string): boolean {
         if (this.options.extensions.length === 0) return true;
         if (!extension) return false;
@@ -328,13 +590,33 @@ export class DriveSyncer implements Syncer {
     }
 
     private async fetchFiles(): Promise<DriveFileInfo[]> {
+        // Taken before listing, so changes made while listing are picked up by the next poll
+        const startPageToken = await this.fetchStartPageToken();
         console.log(`[DriveSyncer] Listing folder ${this.folderId} (recursive=${this.options.recursive})`);
         const files: DriveFileInfo[] = [];
-        await this.listFolder(this.folderId, files, this.options.recursive, this.rootName, this.driveId);
+        this.folders.clear();
+        await this.listFolder(this.folderId, files, this.options.recursive, this.rootName, this.driveId, null);
+        this.changesPageToken = startPageToken;
         return files;
     }
 
-    private async listFolder(folderId: string, files: DriveFileInfo[], recursive: boolean, currentPath: string, driveId: string | null): Promise<void> {
+    private async fetchStartPageToken(): Promise<string | null> {
+        try {
+            const response = await this.withTimeout(this.drive.changes.getStartPageToken({
+                supportsAllDrives: true,
+                driveId: this.driveId || undefined
+            }), 'start page token');
+            return response.data.startPageToken || null;
+        } catch (error) {
+            console.warn('[DriveSyncer] Failed to get a changes page token, polling will list the folder:', error);
+            return null;
+        }
+    }
+
+    private async listFolder(folderId: string, files: DriveFileInfo[], recursive: boolean, currentPath: string, driveId: string | null, parentId: string | null): Promise<void> {
+        if (folderId !== this.folderId) {
+            this.folders.set(folderId, { name: path.posix.basename(currentPath), path: currentPath, parentId });
+        }
         let pageToken: string | undefined;
 
         do {
@@ -357,12 +639,13 @@ export class DriveSyncer implements Syncer {
                     mimeType: file.mimeType,
                     modifiedTime: file.modifiedTime || undefined,
                     webViewLink: file.webViewLink || undefined,
-                    drivePath: `${currentPath}/${file.name}`
+                    drivePath: `${currentPath}/${file.name}`,
+                    parentId: folderId
                 };
 
-                if (file.mimeType === 'application/vnd.google-apps.folder') {
-                    if (recursive) {
-                        await this.listFolder(file.id, files, recursive, `${currentPath}/${file.name}`, driveId);
+                if (file.mimeType === FOLDER_MIME_TYPE) {
+                    if (recursive && !this.options.fileFilter?.isExcluded(this.getRelativePath(normalized.drivePath!), true)) {
+                        await this.listFolder(file.id, files, recursive, `${currentPath}/${file.name}`, driveId, folderId);
                     }
                     continue;
                 }
@@ -0,0 +1,153 @@
+import Database from 'better-sqlite3';
+import type { EmbeddingService } from './embeddings';
+
+// Least recently used vectors beyond this are dropped when the cache is opened
+export const MAX_CACHE_ENTRIES = 100_000;
+
+export interface CacheableText {
+    hash: string;       // DocumentChunk.hash (SHA-256 of the chunk text)
+    content: string;
+}
+
+export interface CachedEmbeddingsResult {
+    embeddings: number[][];
+    totalTokens: number;    // Tokens sent to the provider, i.e. for cache misses only
+    cachedCount: number;
+}
+
+/**
+ * Content-addressed store of embeddings keyed by (model id, chunk hash), shared by all profiles.
+ * Re-indexing, moved files and the same document in several profiles reuse vectors instead of re-embedding them.
+ */
+export class EmbeddingCache {
+    private db: Database.Database;
+    private maxEntries: number;
+
+    constructor(dbPath: string, maxEntries: number = MAX_CACHE_ENTRIES) {
+        this.db = new Database(dbPath);
+        this.maxEntries = maxEntries;
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS embeddings (
+                model_id TEXT NOT NULL,
+                hash TEXT NOT NULL,
+                embedding BLOB NOT NULL,
+                last_used_at INTEGER NOT NULL,
+                PRIMARY KEY (model_id, hash)
+            )
+        `);
+        this.db.exec('CREATE INDEX IF NOT EXISTS idx_embeddings_last_used ON embeddings (last_used_at)');
+        this.prune();
+    }
+
+    /**
+     * Cached vectors for the given hashes; missing hashes are absent from the map
+     */
+    getMany(modelId: string, hashes: string[]): Map<string, number[]> {
+        const found = new Map<string, number[]>();
+        if (hashes.length === 0) {
+            return found;
+        }
+
+        const selectStmt = this.db.prepare('SELECT embedding FROM embeddings WHERE model_id = ? AND hash = ?');
+        const touchStmt = this.db.prepare('UPDATE embeddings SET last_used_at = ? WHERE model_id = ? AND hash = ?');
+        const now = Date.now();
+        const read = this.db.transaction(() => {
+            for (const hash of new Set(hashes)) {
+                const row = selectStmt.get(modelId, hash) as { embedding: Buffer } | undefined;
+                if (row) {
+                    found.set(hash, bufferToVector(row.embedding));
+                    touchStmt.run(now, modelId, hash);
+                }
+            }
+        });
+        read();
+        return found;
+    }
+
+    putMany(modelId: string, entries: Array<{ hash: string; embedding: number[] }>) {
+        if (entries.length === 0) {
+            return;
+        }
+        const insertStmt = this.db.prepare(`
+            INSERT INTO embeddings (model_id, hash, embedding, last_used_at)
+            VALUES (?, ?, ?, ?)
+            ON CONFLICT(model_id, hash) DO UPDATE SET embedding = excluded.embedding, last_used_at = excluded.last_used_at
+        `);
+        const now = Date.now();
+        const write = this.db.transaction(() => {
+            for (const entry of entries) {
+                insertStmt.run(modelId, entry.hash, Buffer.from(new Float32Array(entry.embedding).buffer), now);
+            }
+        });
+        write();
+    }
+
+    getEntryCount(): number {
+        const row = this.db.prepare('SELECT COUNT(*) as count FROM embeddings').get() as { count: number };
+        return Number(row.count);
+    }
+
+    clear() {
+        this.db.exec('DELETE FROM embeddings');
+    }
+
+    close() {
+        this.db.close();
+    }
+
+    private prune() {
+        const excess = this.getEntryCount() - this.maxEntries;
+        if (excess <= 0) {
+            return;
+        }
+        this.db.prepare(`
+            DELETE FROM embeddings WHERE rowid IN (
+                SELECT rowid FROM embeddings ORDER BY last_used_at ASC LIMIT ?
+            )
+        `).run(excess);
+        console.log(`Embedding cache pruned ${excess} least recently used entries`);
+    }
+}
+
+function bufferToVector(buffer: Buffer): number[] {
+    return Array.from(new Float32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / Float32Array.BYTES_PER_ELEMENT));
+}
+
+/**
+ * Embed texts through the cache: hits are returned as stored, misses go to the service in one call and are stored.
+ * Without a cache this is the same as service.generateEmbeddings().
+ */
+export async function generateEmbeddingsWithCache(
+    service: EmbeddingService,
+    cache: EmbeddingCache | null,
+    texts: CacheableText[]
+): Promise<CachedEmbeddingsResult> {
+    if (!cache) {
+        const result = await service.generateEmbeddings(texts.map(text => text.content));
+        return { ...result, cachedCount: 0 };
+    }
+
+    const modelId = service.getModelId();
+    const cached = cache.getMany(modelId, texts.map(text => text.hash));
+    // Identical chunks (e.g. repeated boilerplate) are embedded once
+    const misses = Array.from(new Map(
+        texts.filter(text => !cached.has(text.hash)).map(text => [text.hash, text] as const)
+    ).values());
+
+    let totalTokens = 0;
+    if (misses.length > 0) {
+        const result = await service.generateEmbeddings(misses.map(text => text.content));
+        totalTokens = result.totalTokens;
+        const fresh = misses.map((text, i) => ({ hash: text.hash, embedding: result.embeddings[i] }));
+        cache.putMany(modelId, fresh);
+        for (const entry of fresh) {
+            cached.set(entry.hash, entry.embedding);
+        }
+    }
+
+    return {
+        embeddings: texts.map(text => cached.get(text.hash)!),
+        totalTokens,
+        cachedCount: texts.length - misses.length
+    };
+}
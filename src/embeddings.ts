@@ -3,6 +3,7 @@ import * as path from 'path';
 import { app } from 'electron';
 import * as fs from 'fs';
 import { QWEN3_EMBEDDING_MODEL } from './llama-server';
+import { countOpenAITokens, estimateTokens, TokenCounter } from './tokenizer';
 import type { Llama, LlamaEmbeddingContext, LlamaModel } from 'node-llama-cpp';
 import * as https from 'https';
 import * as http from 'http';
@@ -13,9 +14,21 @@ export function getModelCacheDir(): string {
     return path.join(userDataPath, 'models');
 }
 
+// Provider ids in the registry below
+export type EmbeddingProviderId = 'local' | 'local-gguf' | 'openai' | 'ollama' | 'openai-compatible';
+
 // Provider types - includes legacy types for backward compatibility
-// All local-* variants map to the same Qwen3 embedding model via llama-server
-export type EmbeddingProvider = 'local' | 'local-minilm' | 'local-e5' | 'local-e5-large' | 'openai';
+// All legacy local-* variants map to the same Qwen3 embedding model
+export type EmbeddingProvider = EmbeddingProviderId | 'local-minilm' | 'local-e5' | 'local-e5-large';
+
+// Per-profile settings for the configurable providers
+export interface EmbeddingOptions {
+    model?: string;        // Model name for 'openai', 'ollama' and 'openai-compatible'
+    baseURL?: string;      // Endpoint for 'ollama' and 'openai-compatible' (e.g. http://gpu-box:11434/v1)
+    apiKey?: string;       // Optional key for 'ollama' / 'openai-compatible' (the OpenAI key is passed separately)
+    dimensions?: number;   // Vector width; truncates text-embedding-3-* and is required for unknown models
+    modelPath?: string;    // GGUF file for 'local-gguf'
+}
 
 // Model configuration
 export interface LocalModelConfig {
@@ -56,12 +69,232 @@ export const MINILM_EMBEDDING_DIMENSION = LOCAL_EMBEDDING_DIMENSION;
 export const E5_EMBEDDING_DIMENSION = LOCAL_EMBEDDING_DIMENSION;
 export const E5_LARGE_EMBEDDING_DIMENSION = LOCAL_EMBEDDING_DIMENSION;
 
+export interface EmbeddingModelInfo {
+    dimension: number;              // Native vector width
+    costPerMillionTokens: number;   // 0 for self-hosted models
+    truncatable?: boolean;          // Accepts the `dimensions` request parameter (Matryoshka models)
+}
+
+export interface EmbeddingProviderInfo {
+    id: EmbeddingProviderId;
+    name: string;
+    backend: 'llama' | 'openai';    // In-process node-llama-cpp, or an OpenAI-style /embeddings API
+    requiresOpenAIKey: boolean;
+    defaultModel?: string;
+    defaultBaseURL?: string;
+    models: Record<string, EmbeddingModelInfo>;  // Known models; others need an explicit dimension
+}
+
+export const EMBEDDING_PROVIDERS: Record<EmbeddingProviderId, EmbeddingProviderInfo> = {
+    'local': {
+        id: 'local',
+        name: LOCAL_MODEL.name,
+        backend: 'llama',
+        requiresOpenAIKey: false,
+        defaultModel: LOCAL_MODEL.filename,
+        models: {
+            [LOCAL_MODEL.filename]: { dimension: LOCAL_EMBEDDING_DIMENSION, costPerMillionTokens: 0 }
+        }
+    },
+    'local-gguf': {
+        id: 'local-gguf',
+        name: 'Custom GGUF model',
+        backend: 'llama',
+        requiresOpenAIKey: false,
+        models: {}
+    },
+    'openai': {
+        id: 'openai',
+        name: 'OpenAI',
+        backend: 'openai',
+        requiresOpenAIKey: true,
+        defaultModel: 'text-embedding-3-large',
+        models: {
+            'text-embedding-3-large': { dimension: OPENAI_EMBEDDING_DIMENSION, costPerMillionTokens: 0.13, truncatable: true },
+            'text-embedding-3-small': { dimension: 1536, costPerMillionTokens: 0.02, truncatable: true }
+        }
+    },
+    'ollama': {
+        id: 'ollama',
+        name: 'Ollama',
+        backend: 'openai',
+        requiresOpenAIKey: false,
+        defaultModel: 'nomic-embed-text',
+        defaultBaseURL: 'http://localhost:11434/v1',
+        models: {
+            'nomic-embed-text': { dimension: 768, costPerMillionTokens: 0 },
+            'mxbai-embed-large': { dimension: 1024, costPerMillionTokens: 0 },
+            'bge-m3': { dimension: 1024, costPerMillionTokens: 0 },
+            'all-minilm': { dimension: 384, costPerMillionTokens: 0 }
+        }
+    },
+    'openai-compatible': {
+        id: 'openai-compatible',
+        name: 'OpenAI-compatible endpoint',
+        backend: 'openai',
+        requiresOpenAIKey: false,
+        models: {}
+    }
+};
+
+// Map legacy and unknown provider ids onto the registry
+export function normalizeEmbeddingProvider(provider: string | undefined): EmbeddingProviderId {
+    if (provider && provider in EMBEDDING_PROVIDERS) {
+        return provider as EmbeddingProviderId;
+    }
+    return 'local';
+}
+
+export function getEmbeddingProviderInfo(provider: EmbeddingProvider | undefined): EmbeddingProviderInfo {
+    return EMBEDDING_PROVIDERS[normalizeEmbeddingProvider(provider)];
+}
+
+export interface ResolvedEmbeddingModel {
+    provider: EmbeddingProviderId;
+    backend: 'llama' | 'openai';
+    model: string;                  // Model name, or the GGUF path for local-gguf
+    baseURL?: string;
+    dimension: number | null;       // null when it can't be known without a configured dimension
+    nativeDimension: number | null;
+    costPerMillionTokens: number;
+    truncatable: boolean;
+}
+
+/**
+ * Resolve a provider + options to the concrete model, endpoint and vector width
+ */
+export function resolveEmbeddingModel(provider: EmbeddingProvider | undefined, options: EmbeddingOptions = {}): ResolvedEmbeddingModel {
+    const info = getEmbeddingProviderInfo(provider);
+    const model = info.id === 'local-gguf'
+        ? (options.modelPath?.trim() || '')
+        : info.id === 'local'
+            ? info.defaultModel!
+            : (options.model?.trim() || info.defaultModel || '');
+    const known = info.models[model];
+    const configured = options.dimensions && options.dimensions > 0 ? Math.floor(options.dimensions) : null;
+
+    return {
+        provider: info.id,
+        backend: info.backend,
+        model,
+        baseURL: info.backend === 'openai' && info.id !== 'openai'
+            ? (options.baseURL?.trim() || info.defaultBaseURL)
+            : undefined,
+        // The built-in local model always uses its native width
+        dimension: info.id === 'local' ? LOCAL_EMBEDDING_DIMENSION : (configured ?? known?.dimension ?? null),
+        nativeDimension: known?.dimension ?? null,
+        costPerMillionTokens: known?.costPerMillionTokens ?? 0,
+        truncatable: Boolean(known?.truncatable)
+    };
+}
+
+/**
+ * User-facing problem with the embedding settings, or null when they are usable
+ */
+export function validateEmbeddingOptions(provider: EmbeddingProvider | undefined, options: EmbeddingOptions = {}): string | null {
+    const resolved = resolveEmbeddingModel(provider, options);
+    if (resolved.provider === 'local-gguf' && !resolved.model) {
+        return 'Select a GGUF embedding model file';
+    }
+    if (resolved.backend === 'openai' && !resolved.model) {
+        return 'Embedding model name is required';
+    }
+    if (resolved.backend === 'openai' && resolved.provider !== 'openai' && !resolved.baseURL) {
+        return 'Embedding endpoint URL is required';
+    }
+    if (resolved.baseURL) {
+        try {
+            new URL(resolved.baseURL);
+        } catch {
+            return `Invalid embedding endpoint URL: ${resolved.baseURL}`;
+        }
+    }
+    if (resolved.dimension === null) {
+        return `Embedding dimension is required for ${resolved.model}`;
+    }
+    if (resolved.nativeDimension !== null && resolved.dimension !== resolved.nativeDimension) {
+        if (!resolved.truncatable) {
+            return `${resolved.model} only produces ${resolved.nativeDimension}-dimension embeddings`;
+        }
+        if (resolved.dimension > resolved.nativeDimension) {
+            return `${resolved.model} supports at most ${resolved.nativeDimension} dimensions`;
+        }
+    }
+    return null;
+}
+
 // Get embedding dimension for a provider
-export function getEmbeddingDimension(provider: EmbeddingProvider): number {
-    if (provider === 'openai') {
-        return OPENAI_EMBEDDING_DIMENSION;
+export function getEmbeddingDimension(provider: EmbeddingProvider, options: EmbeddingOptions = {}): number {
+    const resolved = resolveEmbeddingModel(provider, options);
+    if (resolved.dimension === null) {
+        throw new Error(`Embedding dimension is required for ${resolved.model || resolved.provider}`);
+    }
+    return resolved.dimension;
+}
+
+/**
+ * Identifies the vector space a provider + options produce; databases record it to detect model switches.
+ * The endpoint URL is left out so moving the same model to another server doesn't force a re-embed.
+ */
+export function getEmbeddingModelId(provider: EmbeddingProvider | undefined, options: EmbeddingOptions = {}): string {
+    return formatEmbeddingModelId(resolveEmbeddingModel(provider, options));
+}
+
+function formatEmbeddingModelId(resolved: ResolvedEmbeddingModel): string {
+    return `${resolved.provider}:${resolved.model}@${resolved.dimension ?? 'native'}`;
+}
+
+// Batching limits for the embeddings API (OpenAI allows 2048 inputs and 300k tokens per request)
+const MAX_BATCH_INPUTS = 256;
+const MAX_BATCH_TOKENS = 100_000;
+// Adaptive backoff for 429 responses
+const MIN_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 60_000;
+const MAX_RATE_LIMIT_RETRIES = 6;
+// Embedding contexts used side by side for local batches (each holds its own KV cache)
+const LOCAL_EMBEDDING_PARALLELISM = 2;
+
+/**
+ * Split texts into request batches that stay under the input and token limits
+ */
+export function planEmbeddingBatches(texts: string[], maxInputs: number = MAX_BATCH_INPUTS, maxTokens: number = MAX_BATCH_TOKENS): string[][] {
+    const batches: string[][] = [];
+    let current: string[] = [];
+    let currentTokens = 0;
+    for (const text of texts) {
+        const tokens = estimateTokens(text);
+        if (current.length > 0 && (current.length >= maxInputs || currentTokens + tokens > maxTokens)) {
+            batches.push(current);
+            current = [];
+            currentTokens = 0;
+        }
+        current.push(text);
+        currentTokens += tokens;
+    }
+    if (current.length > 0) {
+        batches.push(current);
+    }
+    return batches;
+}
+
+function isAuthenticationError(error: any): boolean {
+    return error?.status === 401 || error?.code === 'invalid_api_key' ||
+        error?.message?.includes('Incorrect API key') ||
+        error?.message?.includes('invalid_api_key');
+}
+
+// Delay requested by the server, if any
+function getRetryAfterMs(error: any): number | null {
+    const headers = error?.headers || {};
+    const retryAfterMs = Number(headers['retry-after-ms']);
+    if (Number.isFinite(retryAfterMs) && retryAfterMs > 0) {
+        return retryAfterMs;
     }
-    return LOCAL_EMBEDDING_DIMENSION;
+    const retryAfter = Number(headers['retry-after']);
+    if (Number.isFinite(retryAfter) && retryAfter > 0) {
+        return retryAfter * 1000;
+    }
+    return null;
 }
 
 export class InvalidApiKeyError extends Error {
@@ -80,37 +313,56 @@ export interface DownloadProgress {
 
 export class EmbeddingService {
     private client: OpenAI | null = null;
-    private openaiModel = 'text-embedding-3-large';
     private _isValid = true;
-    private provider: EmbeddingProvider;
+    private provider: EmbeddingProviderId;
+    private resolved: ResolvedEmbeddingModel;
     private llama: Llama | null = null;
     private model: LlamaModel | null = null;
     private embeddingContext: LlamaEmbeddingContext | null = null;
+    private extraContexts: LlamaEmbeddingContext[] = [];  // Created on demand for parallel batches
+    private contextPoolLimited = false;  // Set when an extra context failed to allocate
+    private backoffMs = 0;
     private initPromise: Promise<void> | null = null;
     private modelConfig: LocalModelConfig | null = null;
     private downloadProgressCallback: ((progress: DownloadProgress) => void) | null = null;
     private isModelReady = false;
     private contextLength: number;
 
-    constructor(provider: EmbeddingProvider = 'local', apiKey?: string, contextLength?: number) {
+    constructor(provider: EmbeddingProvider = 'local', apiKey?: string, contextLength?: number, options: EmbeddingOptions = {}) {
         // Normalize legacy providers to new simplified providers
-        if (provider === 'local-minilm' || provider === 'local-e5' || provider === 'local-e5-large') {
-            this.provider = 'local';
-        } else {
-            this.provider = provider;
-        }
+        this.provider = normalizeEmbeddingProvider(provider);
+        this.resolved = resolveEmbeddingModel(this.provider, options);
 
         // Set context length (default: 8192)
         this.contextLength = contextLength ?? 8192;
 
+        const problem = validateEmbeddingOptions(this.provider, options);
+        if (problem) {
+            throw new Error(problem);
+        }
+
         if (this.provider === 'openai') {
             if (!apiKey) {
                 throw new Error('OpenAI API key is required when using OpenAI provider');
             }
-            this.client = new OpenAI({ apiKey });
+            // Rate limits are retried by createEmbeddings() with an adaptive delay
+            this.client = new OpenAI({ apiKey, maxRetries: 0 });
+        } else if (this.resolved.backend === 'openai') {
+            // Self-hosted endpoints usually don't check the key, but the client needs one
+            this.client = new OpenAI({ apiKey: options.apiKey || 'not-needed', baseURL: this.resolved.baseURL, maxRetries: 0 });
         } else {
             // Local model via node-llama-cpp
-            this.modelConfig = LOCAL_MODEL;
+            this.modelConfig = this.provider === 'local-gguf'
+                ? {
+                    id: 'local-gguf',
+                    name: path.basename(this.resolved.model),
+                    repoId: '',
+                    filename: path.basename(this.resolved.model),
+                    dimension: this.resolved.dimension!,
+                    sizeApprox: '',
+                    description: this.resolved.model
+                }
+                : LOCAL_MODEL;
             this.initPromise = this.initializeLocalModel();
         }
     }
@@ -124,10 +376,17 @@ export class EmbeddingService {
             throw new Error('No local model config available');
         }
 
-        const modelsDir = getModelCacheDir();
-        const modelPath = path.join(modelsDir, this.modelConfig.filename);
-
-        await this.downloadModelIfNeeded(modelPath, this.modelConfig);
+        let modelPath: string;
+        if (this.provider === 'local-gguf') {
+            // User-selected file: never downloaded
+            modelPath = this.resolved.model;
+            if (!fs.existsSync(modelPath)) {
+                throw new Error(`Embedding model file not found: ${modelPath}`);
+            }
+        } else {
+            modelPath = path.join(getModelCacheDir(), this.modelConfig.filename);
+            await this.downloadModelIfNeeded(modelPath, this.modelConfig);
+        }
 
         const nodeLlama = await this.loadNodeLlama();
         const llama = await nodeLlama.getLlama();
@@ -315,6 +574,11 @@ export class EmbeddingService {
      * Terminate the llama-server. Call this when shutting down.
      */
     async terminate(): Promise<void> {
+        for (const context of this.extraContexts) {
+            await context.dispose();
+        }
+        this.extraContexts = [];
+        this.contextPoolLimited = false;
         if (this.embeddingContext) {
             await this.embeddingContext.dispose();
             this.embeddingContext = null;
@@ -332,35 +596,60 @@ export class EmbeddingService {
     }
 
     get embeddingDimension(): number {
-        return getEmbeddingDimension(this.provider);
+        return this.resolved.dimension!;
     }
 
-    getProvider(): EmbeddingProvider {
+    getProvider(): EmbeddingProviderId {
         return this.provider;
     }
 
+    /**
+     * Model name (or GGUF path) and endpoint in use
+     */
+    getResolvedModel(): ResolvedEmbeddingModel {
+        return this.resolved;
+    }
+
+    // Same id as getEmbeddingModelId() for the settings this service was created with
+    getModelId(): string {
+        return formatEmbeddingModelId(this.resolved);
+    }
+
+    /**
+     * Counter matching this model's tokenizer, for sizing chunks: the GGUF vocabulary for local models,
+     * cl100k_base for OpenAI, and an estimate for Ollama and other endpoints whose tokenizer isn't exposed
+     */
+    async getTokenCounter(): Promise<TokenCounter> {
+        if (this.resolved.backend === 'llama') {
+            await this.ensureLocalModelReady();
+            return (text) => this.model ? this.model.tokenize(text).length : estimateTokens(text);
+        }
+        return this.provider === 'openai' ? countOpenAITokens : estimateTokens;
+    }
+
+    // USD per million input tokens; 0 for local and self-hosted models
+    getCostPerMillionTokens(): number {
+        return this.resolved.costPerMillionTokens;
+    }
+
     getModelConfig(): LocalModelConfig | null {
         return this.modelConfig;
     }
 
     async validateApiKey(): Promise<boolean> {
-        if (this.provider !== 'openai') {
+        if (this.resolved.backend === 'llama') {
             // For local model, ensure model is ready
             await this.ensureLocalModelReady();
             return true;
         }
 
         try {
-            // Make a minimal API call to validate the key
-            await this.client!.embeddings.create({
-                model: this.openaiModel,
-                input: 'test'
-            });
+            // Make a minimal API call to validate the key (and the endpoint's vector width)
+            const response = await this.createEmbeddings('test');
+            this.checkDimension(response.data?.[0]?.embedding);
             return true;
         } catch (error: any) {
-            if (error?.status === 401 || error?.code === 'invalid_api_key' ||
-                error?.message?.includes('Incorrect API key') ||
-                error?.message?.includes('invalid_api_key')) {
+            if (isAuthenticationError(error)) {
                 this._isValid = false;
                 return false;
             }
@@ -374,7 +663,7 @@ export class EmbeddingService {
             throw new InvalidApiKeyError();
         }
 
-        if (this.provider === 'openai') {
+        if (this.resolved.backend === 'openai') {
             return this.generateOpenAIEmbedding(text);
         } else {
             return this.generateLocalEmbedding(text);
@@ -388,10 +677,17 @@ export class EmbeddingService {
             throw new Error('Embedding model not initialized');
         }
 
+        return this.embedWithContext(this.embeddingContext, text);
+    }
+
+    private async embedWithContext(context: LlamaEmbeddingContext, text: string): Promise<{ embedding: number[]; tokens: number }> {
         try {
-            const embedding = await this.embeddingContext.getEmbeddingFor(text);
+            const embedding = await context.getEmbeddingFor(text);
             const vector = Array.from(embedding.vector as Iterable<number>);
-            const tokens = this.model ? this.model.tokenize(text).length : Math.ceil(text.length / 4);
+            if (this.provider === 'local-gguf') {
+                this.checkDimension(vector);
+            }
+            const tokens = this.model ? this.model.tokenize(text).length : estimateTokens(text);
 
             return {
                 embedding: vector,
@@ -403,16 +699,56 @@ export class EmbeddingService {
         }
     }
 
+    /**
+     * Embed texts with up to LOCAL_EMBEDDING_PARALLELISM contexts working through a shared queue
+     */
+    private async generateLocalEmbeddings(texts: string[]): Promise<{ embeddings: number[][]; totalTokens: number }> {
+        await this.ensureLocalModelReady();
+        const contexts = await this.getContextPool(texts.length);
+
+        const embeddings: number[][] = new Array(texts.length);
+        let totalTokens = 0;
+        let next = 0;
+        await Promise.all(contexts.map(async (context) => {
+            while (next < texts.length) {
+                const index = next++;
+                const result = await this.embedWithContext(context, texts[index]);
+                embeddings[index] = result.embedding;
+                totalTokens += result.tokens;
+                // Keep the main process responsive between evaluations
+                await new Promise(resolve => setImmediate(resolve));
+            }
+        }));
+
+        return { embeddings, totalTokens };
+    }
+
+    private async getContextPool(textCount: number): Promise<LlamaEmbeddingContext[]> {
+        const wanted = Math.min(textCount, LOCAL_EMBEDDING_PARALLELISM) - 1;
+        while (this.model && !this.contextPoolLimited && this.extraContexts.length < wanted) {
+            try {
+                this.extraContexts.push(await this.model.createEmbeddingContext({
+                    contextSize: this.contextLength,
+                    threads: 4,
+                    batchSize: 512
+                }));
+            } catch (error: any) {
+                // Not enough memory for another context: keep going with the ones we have
+                console.warn(`Using ${1 + this.extraContexts.length} embedding context(s): ${error.message || error}`);
+                this.contextPoolLimited = true;
+            }
+        }
+        return [this.embeddingContext!, ...this.extraContexts.slice(0, Math.max(wanted, 0))];
+    }
+
     private async generateOpenAIEmbedding(text: string): Promise<{ embedding: number[]; tokens: number }> {
         try {
-            const response = await this.client!.embeddings.create({
-                model: this.openaiModel,
-                input: text
-            });
+            const response = await this.createEmbeddings(text);
 
             if (!response.data?.[0]?.embedding) {
                 throw new Error('Failed to get embedding from OpenAI');
             }
+            this.checkDimension(response.data[0].embedding);
 
             // Extract token count from usage (total_tokens includes input tokens)
             const tokens = response.usage?.total_tokens || 0;
@@ -422,39 +758,105 @@ export class EmbeddingService {
                 tokens
             };
         } catch (error: any) {
-            // Check for authentication errors (401)
-            if (error?.status === 401 || error?.code === 'invalid_api_key' ||
-                error?.message?.includes('Incorrect API key') ||
-                error?.message?.includes('invalid_api_key')) {
-                this._isValid = false;
-                throw new InvalidApiKeyError(error.message || 'Invalid OpenAI API key');
-            }
-            throw error;
+            throw this.toEmbeddingError(error);
         }
     }
 
-    async generateEmbeddings(texts: string[]): Promise<{ embeddings: number[][]; totalTokens: number }> {
+    private async generateOpenAIEmbeddings(texts: string[]): Promise<{ embeddings: number[][]; totalTokens: number }> {
         const embeddings: number[][] = [];
         let totalTokens = 0;
 
-        for (const text of texts) {
-            const result = await this.generateEmbedding(text);
-            embeddings.push(result.embedding);
-            totalTokens += result.tokens;
-
-            // Small delay to avoid rate limits (only needed for OpenAI)
-            if (this.provider === 'openai') {
-                await new Promise(resolve => setTimeout(resolve, 100));
+        for (const batch of planEmbeddingBatches(texts)) {
+            try {
+                const response = await this.createEmbeddings(batch);
+                const data = [...(response.data || [])].sort((a, b) => a.index - b.index);
+                if (data.length !== batch.length) {
+                    throw new Error(`Embedding API returned ${data.length} embeddings for ${batch.length} inputs`);
+                }
+                for (const item of data) {
+                    this.checkDimension(item.embedding);
+                    embeddings.push(item.embedding);
+                }
+                totalTokens += response.usage?.total_tokens || 0;
+            } catch (error: any) {
+                throw this.toEmbeddingError(error);
             }
         }
 
         return { embeddings, totalTokens };
     }
+
+    private toEmbeddingError(error: any): Error {
+        // Check for authentication errors (401)
+        if (isAuthenticationError(error)) {
+            this._isValid = false;
+            return new InvalidApiKeyError(error.message || 'Invalid OpenAI API key');
+        }
+        return error;
+    }
+
+    /**
+     * Call the embeddings API, waiting out 429s. The delay doubles on each rate limit (or follows
+     * Retry-After) and halves after each success, so long syncs settle at the rate the account allows.
+     */
+    private async createEmbeddings(input: string | string[]): Promise<OpenAI.Embeddings.CreateEmbeddingResponse> {
+        for (let attempt = 0; ; attempt++) {
+            if (this.backoffMs > 0) {
+                await new Promise(resolve => setTimeout(resolve, this.backoffMs));
+            }
+            try {
+                const response = await this.client!.embeddings.create(this.buildEmbeddingRequest(input));
+                this.backoffMs = this.backoffMs > MIN_BACKOFF_MS ? Math.floor(this.backoffMs / 2) : 0;
+                return response;
+            } catch (error: any) {
+                // insufficient_quota is also a 429 but waiting won't help
+                if (error?.status !== 429 || error?.code === 'insufficient_quota' || attempt >= MAX_RATE_LIMIT_RETRIES) {
+                    throw error;
+                }
+                this.backoffMs = Math.min(MAX_BACKOFF_MS, getRetryAfterMs(error) ?? Math.max(MIN_BACKOFF_MS, this.backoffMs * 2));
+                console.warn(`Embedding API rate limited, retrying in ${this.backoffMs} ms`);
+            }
+        }
+    }
+
+    private buildEmbeddingRequest(input: string | string[]): OpenAI.Embeddings.EmbeddingCreateParams {
+        const request: OpenAI.Embeddings.EmbeddingCreateParams = { model: this.resolved.model, input };
+        // Only text-embedding-3-* style models accept `dimensions`; other servers may reject it
+        if (this.resolved.truncatable && this.resolved.dimension !== this.resolved.nativeDimension) {
+            request.dimensions = this.resolved.dimension!;
+        }
+        return request;
+    }
+
+    // A model that doesn't match the configured width would corrupt vec_items
+    private checkDimension(embedding: ArrayLike<number> | undefined): void {
+        if (embedding && embedding.length !== this.resolved.dimension) {
+            throw new Error(`${this.resolved.model} returned ${embedding.length}-dimension embeddings, expected ${this.resolved.dimension}`);
+        }
+    }
+
+    /**
+     * Embed many texts at once: batched API requests for remote providers, parallel contexts locally.
+     * Embeddings are returned in input order.
+     */
+    async generateEmbeddings(texts: string[]): Promise<{ embeddings: number[][]; totalTokens: number }> {
+        if (!this._isValid) {
+            throw new InvalidApiKeyError();
+        }
+        if (texts.length === 0) {
+            return { embeddings: [], totalTokens: 0 };
+        }
+
+        if (this.resolved.backend === 'openai') {
+            return this.generateOpenAIEmbeddings(texts);
+        }
+        return this.generateLocalEmbeddings(texts);
+    }
 }
 
 // Check if local embedding model is downloaded
 export function isModelDownloaded(provider?: EmbeddingProvider): boolean {
-    if (provider === 'openai') return true; // Not applicable
+    if (normalizeEmbeddingProvider(provider) !== 'local') return true; // Not applicable
 
     const modelsDir = getModelCacheDir();
     const modelPath = path.join(modelsDir, LOCAL_MODEL.filename);
@@ -0,0 +1,187 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// A table of contents entry: the chapter file it points to (a path inside the archive) and the anchor in it
+export interface EpubTocEntry {
+    title: string;
+    href: string;
+    fragment: string;
+    depth: number;          // 1 for top-level entries
+}
+
+export interface EpubChapter {
+    href: string;
+    html: string;
+}
+
+export interface EpubBook {
+    title: string;
+    chapters: EpubChapter[];    // In reading (spine) order
+    toc: EpubTocEntry[];        // In table of contents order
+}
+
+const XHTML_MEDIA_TYPES = ['application/xhtml+xml', 'text/html'];
+
+// Elements that may be written self-closing in XHTML and stay empty in HTML
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+export function decodeXmlEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos|nbsp);/gi, (entity, name: string) => {
+        const lower = name.toLowerCase();
+        if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+        if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+        return NAMED_ENTITIES[lower] ?? entity;
+    });
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of tag.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attributes[match[1].toLowerCase()] = decodeXmlEntities(match[2] ?? match[3]);
+    }
+    return attributes;
+}
+
+function stripTags(html: string): string {
+    return decodeXmlEntities(html.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+}
+
+// Resolve an href found in an archive file to a path inside the archive, keeping its fragment apart
+function resolveHref(baseFile: string, href: string): { href: string; fragment: string } {
+    const [target, fragment = ''] = href.split('#');
+    let decoded = target;
+    try {
+        decoded = decodeURIComponent(target);
+    } catch {
+        // Keep malformed escapes as written
+    }
+    const resolved = decoded ? path.posix.normalize(path.posix.join(path.posix.dirname(baseFile), decoded)) : baseFile;
+    return { href: resolved.replace(/^\.\//, ''), fragment };
+}
+
+/**
+ * EPUB 3 navigation document: the nested lists of the <nav epub:type="toc"> element
+ */
+export function parseNavDocument(xhtml: string, navPath: string): EpubTocEntry[] {
+    const nav = xhtml.match(/<nav\b[^>]*epub:type\s*=\s*["'][^"']*\btoc\b[^"']*["'][^>]*>([\s\S]*?)<\/nav>/i)
+        ?? xhtml.match(/<nav\b[^>]*>([\s\S]*?)<\/nav>/i);
+    if (!nav) return [];
+
+    const entries: EpubTocEntry[] = [];
+    let depth = 0;
+    for (const match of nav[1].matchAll(/<ol\b[^>]*>|<\/ol>|<a\b([^>]*)>([\s\S]*?)<\/a>/gi)) {
+        if (match[0].toLowerCase().startsWith('<ol')) {
+            depth++;
+        } else if (match[0].toLowerCase() === '</ol>') {
+            depth--;
+        } else {
+            const href = parseAttributes(match[1]).href;
+            const title = stripTags(match[2]);
+            if (href && title) {
+                entries.push({ title, ...resolveHref(navPath, href), depth: Math.max(depth, 1) });
+            }
+        }
+    }
+    return entries;
+}
+
+/**
+ * EPUB 2 table of contents (toc.ncx): nested navPoints with a label and a content source
+ */
+export function parseNcx(xml: string, ncxPath: string): EpubTocEntry[] {
+    const entries: EpubTocEntry[] = [];
+    let depth = 0;
+    let title = '';
+    for (const match of xml.matchAll(/<navPoint\b[^>]*>|<\/navPoint>|<text>([\s\S]*?)<\/text>|<content\b([^>]*)>/gi)) {
+        const tag = match[0].toLowerCase();
+        if (tag.startsWith('<navpoint')) {
+            depth++;
+            title = '';
+        } else if (tag === '</navpoint>') {
+            depth--;
+        } else if (tag.startsWith('<text')) {
+            title = stripTags(match[1]);
+        } else if (depth > 0) {
+            const src = parseAttributes(match[2]).src;
+            if (src && title) {
+                entries.push({ title, ...resolveHref(ncxPath, src), depth });
+            }
+            title = '';
+        }
+    }
+    return entries;
+}
+
+/**
+ * Read an EPUB: the package document (OPF) gives the title, the spine and the table of contents
+ * (the EPUB 3 nav document, or toc.ncx for EPUB 2). Throws MODULE_NOT_FOUND when jszip isn't installed.
+ */
+export async function readEpub(filePath: string): Promise<EpubBook> {
+    const JSZip = require('jszip');
+    const zip = await JSZip.loadAsync(fs.readFileSync(filePath));
+    const readText = async (name: string): Promise<string | null> => (await zip.file(name)?.async('string')) ?? null;
+
+    const container = await readText('META-INF/container.xml');
+    const rootfile = container?.match(/<rootfile\b([^>]*)>/i);
+    const opfPath = rootfile ? parseAttributes(rootfile[1])['full-path'] : undefined;
+    const opf = opfPath ? await readText(opfPath) : null;
+    if (!opfPath || !opf) {
+        throw new Error(`No package document in ${filePath}`);
+    }
+
+    const manifest = new Map<string, { href: string; mediaType: string; properties: string }>();
+    for (const match of opf.matchAll(/<(?:opf:)?item\b([^>]*)>/gi)) {
+        const attributes = parseAttributes(match[1]);
+        if (attributes.id && attributes.href) {
+            manifest.set(attributes.id, {
+                href: resolveHref(opfPath, attributes.href).href,
+                mediaType: (attributes['media-type'] || '').toLowerCase(),
+                properties: attributes.properties || ''
+            });
+        }
+    }
+
+    const chapters: EpubChapter[] = [];
+    for (const match of opf.matchAll(/<(?:opf:)?itemref\b([^>]*)>/gi)) {
+        const item = manifest.get(parseAttributes(match[1]).idref);
+        // The nav document often sits in the spine too; it is read as the table of contents instead
+        if (!item || !XHTML_MEDIA_TYPES.includes(item.mediaType) || item.properties.split(/\s+/).includes('nav')) continue;
+        const html = await readText(item.href);
+        if (html !== null) {
+            chapters.push({ href: item.href, html });
+        }
+    }
+
+    let toc: EpubTocEntry[] = [];
+    const items = Array.from(manifest.values());
+    const nav = items.find(item => item.properties.split(/\s+/).includes('nav'));
+    const navDocument = nav && await readText(nav.href);
+    if (nav && navDocument) {
+        toc = parseNavDocument(navDocument, nav.href);
+    }
+    if (toc.length === 0) {
+        const spine = opf.match(/<(?:opf:)?spine\b([^>]*)>/i);
+        const ncx = manifest.get(spine ? parseAttributes(spine[1]).toc : '')
+            ?? items.find(item => item.mediaType === 'application/x-dtbncx+xml');
+        const ncxDocument = ncx && await readText(ncx.href);
+        if (ncx && ncxDocument) {
+            toc = parseNcx(ncxDocument, ncx.href);
+        }
+    }
+
+    const title = opf.match(/<dc:title\b[^>]*>([\s\S]*?)<\/dc:title>/i);
+    return { title: title ? stripTags(title[1]) : '', chapters, toc };
+}
+
+/**
+ * The <body> of an XHTML chapter, with self-closing elements written out so HTML parsers don't
+ * treat <a id="x"/> or <div/> as the start of an element wrapping the rest of the page
+ */
+export function getChapterBody(xhtml: string): string {
+    const body = xhtml.match(/<body\b[^>]*>([\s\S]*)<\/body>/i);
+    return (body ? body[1] : xhtml).replace(/<([a-zA-Z][\w:-]*)(\s[^<>]*?)?\s*\/>/g, (tag, name: string, attributes = '') =>
+        VOID_ELEMENTS.has(name.toLowerCase()) ? tag : `<${name}${attributes}></${name}>`
+    );
+}
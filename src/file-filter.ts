@@ -0,0 +1,191 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Read in every synced directory; rules apply to that directory and below, deeper files taking precedence
+export const IGNORE_FILE_NAMES = ['.gitignore', '.docs4aiignore'];
+
+// Per-profile patterns, in .gitignore syntax
+export interface FilePatterns {
+    include: string[];      // When not empty, only files matching one of these are synced
+    exclude: string[];
+}
+
+interface PatternRule {
+    regex: RegExp;
+    negated: boolean;
+    directoryOnly: boolean;
+}
+
+/**
+ * Split a pattern setting (one per line or comma separated) into patterns
+ */
+export function parsePatterns(value: string | string[] | undefined): string[] {
+    const entries = Array.isArray(value) ? value : (value || '').split(/[\r\n,]+/);
+    return entries.map(entry => entry.trim()).filter(entry => entry && !entry.startsWith('#'));
+}
+
+function escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Compile one .gitignore line: "!" negates, a trailing "/" matches directories only, and a pattern with a
+ * "/" before its end is anchored to the directory of the file, otherwise it matches a name at any depth
+ */
+function compilePattern(line: string): PatternRule | null {
+    let pattern = line.replace(/(?<!\\)\s+$/, '');
+    if (!pattern || pattern.startsWith('#')) {
+        return null;
+    }
+    const negated = pattern.startsWith('!');
+    if (negated || pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+        pattern = pattern.slice(1);
+    }
+    const directoryOnly = pattern.endsWith('/');
+    pattern = pattern.replace(/\/+$/, '');
+    const anchored = pattern.includes('/');
+    pattern = pattern.replace(/^\/+/, '');
+    if (!pattern) {
+        return null;
+    }
+
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*' && (i === 0 || pattern[i - 1] === '/')) {
+            // "**/" spans any number of directories, a trailing "/**" everything inside
+            if (pattern[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+                continue;
+            }
+            if (i + 2 === pattern.length) {
+                source += '.*';
+                break;
+            }
+        }
+        if (char === '*') {
+            source += '[^/]*';
+            while (pattern[i + 1] === '*') i++;
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[' && pattern.indexOf(']', i + 2) !== -1) {
+            const end = pattern.indexOf(']', i + 2);
+            const set = pattern.slice(i + 1, end);
+            source += `[${set.startsWith('!') ? '^' + set.slice(1) : set}]`;
+            i = end;
+        } else if (char === '\\' && i + 1 < pattern.length) {
+            source += escapeRegex(pattern[++i]);
+        } else {
+            source += escapeRegex(char);
+        }
+    }
+    return { regex: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}$`), negated, directoryOnly };
+}
+
+class PatternList {
+    private rules: PatternRule[];
+
+    constructor(patterns: string[]) {
+        this.rules = patterns.map(compilePattern).filter((rule): rule is PatternRule => rule !== null);
+    }
+
+    get isEmpty(): boolean {
+        return this.rules.length === 0;
+    }
+
+    // The last matching rule decides, as in .gitignore; undefined when no rule matches
+    match(relativePath: string, isDirectory: boolean): boolean | undefined {
+        let matched: boolean | undefined;
+        for (const rule of this.rules) {
+            if ((!rule.directoryOnly || isDirectory) && rule.regex.test(relativePath)) {
+                matched = !rule.negated;
+            }
+        }
+        return matched;
+    }
+}
+
+/**
+ * Decides which files under a synced root are indexed: the profile's include and exclude patterns, and the
+ * .gitignore and .docs4aiignore files found under the root (when there is a local root to read them from).
+ * Paths are relative to the root, with "/" separators. As with git, a file inside an excluded directory
+ * can't be included again.
+ */
+export class FileFilter {
+    private rootDir: string | null;
+    private include: PatternList;
+    private exclude: PatternList;
+    // Rules of the ignore files in each directory, by path relative to the root
+    private ignoreRules = new Map<string, PatternList | null>();
+
+    constructor(rootDir: string | null, patterns: FilePatterns) {
+        this.rootDir = rootDir;
+        this.include = new PatternList(patterns.include);
+        this.exclude = new PatternList(patterns.exclude);
+    }
+
+    setPatterns(patterns: FilePatterns): void {
+        this.include = new PatternList(patterns.include);
+        this.exclude = new PatternList(patterns.exclude);
+    }
+
+    /**
+     * Forget the ignore files read so far, after one of them was added, edited or deleted
+     */
+    clearIgnoreFiles(): void {
+        this.ignoreRules.clear();
+    }
+
+    isExcluded(relativePath: string, isDirectory: boolean = false): boolean {
+        const segments = relativePath.split('/').filter(segment => segment);
+        for (let i = 1; i <= segments.length; i++) {
+            if (this.matchesExclusion(segments, i, i < segments.length || isDirectory)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    accepts(relativePath: string): boolean {
+        if (this.isExcluded(relativePath)) {
+            return false;
+        }
+        return this.include.isEmpty || this.include.match(relativePath, false) === true;
+    }
+
+    // Whether the first `length` segments of a path are excluded by the profile or by an ignore file above them
+    private matchesExclusion(segments: string[], length: number, isDirectory: boolean): boolean {
+        if (this.exclude.match(segments.slice(0, length).join('/'), isDirectory)) {
+            return true;
+        }
+        let ignored = false;
+        for (let depth = 0; depth < length; depth++) {
+            const matched = this.getIgnoreRules(segments.slice(0, depth).join('/'))
+                ?.match(segments.slice(depth, length).join('/'), isDirectory);
+            if (matched !== undefined) {
+                ignored = matched;
+            }
+        }
+        return ignored;
+    }
+
+    private getIgnoreRules(relativeDir: string): PatternList | null {
+        if (!this.rootDir) {
+            return null;
+        }
+        if (!this.ignoreRules.has(relativeDir)) {
+            const patterns: string[] = [];
+            for (const name of IGNORE_FILE_NAMES) {
+                try {
+                    patterns.push(...fs.readFileSync(path.join(this.rootDir, relativeDir, name), 'utf-8').split(/\r?\n/));
+                } catch {
+                    // No ignore file here
+                }
+            }
+            const rules = new PatternList(patterns);
+            this.ignoreRules.set(relativeDir, rules.isEmpty ? null : rules);
+        }
+        return this.ignoreRules.get(relativeDir) ?? null;
+    }
+}
@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+
+export interface HttpRequestOptions {
+    method?: string;
+    headers?: Record<string, string>;
+    body?: string | Buffer;
+    timeoutMs?: number;     // Default: 60000
+    maxRedirects?: number;  // Followed for GET and HEAD only (default: 5)
+    maxBytes?: number;      // httpRequest fails once the response body is larger (default: no limit)
+}
+
+export interface HttpResponse {
+    status: number;
+    url: string;            // After redirects
+    headers: http.IncomingHttpHeaders;
+    body: Buffer;
+}
+
+export class HttpError extends Error {
+    readonly status: number;
+
+    constructor(status: number, url: string, message: string = `HTTP ${status} for ${url}`) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+    }
+}
+
+// Dropped when a redirect leaves the origin, as fetch does, so credentials never reach another server
+const CREDENTIAL_HEADERS = ['authorization', 'proxy-authorization', 'cookie'];
+
+function withoutCredentials(headers: Record<string, string> | undefined): Record<string, string> {
+    return Object.fromEntries(Object.entries(headers || {}).filter(([name]) => !CREDENTIAL_HEADERS.includes(name.toLowerCase())));
+}
+
+function openRequest(url: string, options: HttpRequestOptions, redirects: number): Promise<{ response: http.IncomingMessage; url: string }> {
+    const method = options.method || 'GET';
+    const maxRedirects = options.maxRedirects ?? 5;
+    const timeoutMs = options.timeoutMs ?? 60000;
+
+    return new Promise((resolve, reject) => {
+        const target = new URL(url);
+        const client = target.protocol === 'https:' ? https : http;
+        const headers: Record<string, string | number> = { ...options.headers };
+        if (options.body !== undefined) {
+            headers['Content-Length'] = Buffer.byteLength(options.body);
+        }
+
+        const req = client.request(target, { method, headers }, (response) => {
+            const location = response.headers.location;
+            const status = response.statusCode || 0;
+            if (location && status >= 300 && status < 400 && (method === 'GET' || method === 'HEAD')) {
+                response.resume();
+                if (redirects >= maxRedirects) {
+                    reject(new HttpError(status, url, `Too many redirects for ${url}`));
+                    return;
+                }
+                const next = new URL(location, target);
+                const nextOptions = next.origin === target.origin ? options : { ...options, headers: withoutCredentials(options.headers) };
+                openRequest(next.toString(), nextOptions, redirects + 1).then(resolve, reject);
+                return;
+            }
+            resolve({ response, url });
+        });
+
+        req.setTimeout(timeoutMs, () => {
+            req.destroy(new Error(`Request to ${url} timed out after ${timeoutMs}ms`));
+        });
+        req.on('error', reject);
+        if (options.body !== undefined) {
+            req.write(options.body);
+        }
+        req.end();
+    });
+}
+
+/**
+ * Send a request and read the whole response. Any status is returned; callers decide what is an error.
+ */
+export async function httpRequest(url: string, options: HttpRequestOptions = {}): Promise<HttpResponse> {
+    const { response, url: finalUrl } = await openRequest(url, options, 0);
+    const maxBytes = options.maxBytes ?? Infinity;
+    const chunks: Buffer[] = [];
+    let size = 0;
+    await new Promise<void>((resolve, reject) => {
+        const tooLarge = () => {
+            response.destroy();
+            reject(new Error(`Response from ${finalUrl} is larger than ${maxBytes} bytes`));
+        };
+        if (Number(response.headers['content-length']) > maxBytes) {
+            tooLarge();
+            return;
+        }
+        response.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxBytes) {
+                tooLarge();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        response.on('end', resolve);
+        response.on('error', reject);
+    });
+    return { status: response.statusCode || 0, url: finalUrl, headers: response.headers, body: Buffer.concat(chunks) };
+}
+
+/**
+ * Stream a successful GET response into a file, through a temporary file so readers never see a partial one
+ */
+export async function httpDownload(url: string, destPath: string, options: HttpRequestOptions = {}): Promise<void> {
+    const { response } = await openRequest(url, options, 0);
+    const status = response.statusCode || 0;
+    if (status < 200 || status >= 300) {
+        response.resume();
+        throw new HttpError(status, url);
+    }
+
+    const tempPath = `${destPath}.${Date.now()}.tmp`;
+    try {
+        await new Promise<void>((resolve, reject) => {
+            const dest = fs.createWriteStream(tempPath);
+            response.on('error', reject);
+            dest.on('error', reject);
+            dest.on('finish', resolve);
+            response.pipe(dest);
+        });
+        fs.renameSync(tempPath, destPath);
+    } catch (error) {
+        fs.rmSync(tempPath, { force: true });
+        throw error;
+    }
+}
@@ -678,5 +678,13 @@ export const QWEN3_EMBEDDING_MODEL = {
     dimension: 1024  // Qwen3 embedding dimension
 };
 
+// Default model configuration for the cross-encoder reranker
+export const BGE_RERANKER_MODEL = {
+    repoId: 'gpustack/bge-reranker-v2-m3-GGUF',
+    filename: 'bge-reranker-v2-m3-Q8_0.gguf',
+    name: 'BGE Reranker v2 M3',
+    type: 'reranker' as const
+};
+
 // Legacy alias for backward compatibility
 export const QWEN3_MODEL = QWEN3_CHAT_MODEL;
@@ -60,6 +60,7 @@ export interface ChatCompletionOptions {
     temperature?: number;
     maxTokens?: number;
     mcpServerPort?: number;
+    mcpAccessToken?: string;  // Bearer token for the MCP server when it requires one
     onToolCall?: (toolCall: { name: string; arguments: any; response: any }) => void;
 }
 
@@ -544,7 +545,7 @@ export class LLMChatService {
                             }
                         };
 
-                        const response = await executeMcpToolCall(toolCall, options.mcpServerPort);
+                        const response = await executeMcpToolCall(toolCall, options.mcpServerPort, options.mcpAccessToken);
                         executedToolCalls.push({ name: functionName, arguments: params, response });
                         options.onToolCall?.({ name: functionName, arguments: params, response });
                         return response;
@@ -609,7 +610,8 @@ export class LLMChatService {
  */
 export async function executeMcpToolCall(
     toolCall: ToolCall,
-    mcpServerPort: number
+    mcpServerPort: number,
+    accessToken?: string
 ): Promise<string> {
     const { name, arguments: argsStr } = toolCall.function;
 
@@ -624,7 +626,8 @@ export async function executeMcpToolCall(
         const response = await fetch(`http://localhost:${mcpServerPort}/mcp`, {
             method: 'POST',
             headers: {
-                'Content-Type': 'application/json'
+                'Content-Type': 'application/json',
+                ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {})
             },
             body: JSON.stringify({
                 jsonrpc: '2.0',
@@ -0,0 +1,287 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const MAIL_EXTENSIONS = ['.eml', '.mbox', '.msg'];
+
+export interface MailAttachment {
+    fileName: string;
+    content: Buffer;
+}
+
+export interface MailMessage {
+    subject: string;
+    from: string;
+    to: string;
+    cc: string;
+    date: string;
+    messageId: string;
+    text: string;           // Plain-text body
+    html: string;           // HTML body, used when the message has no plain-text part
+    attachments: MailAttachment[];
+}
+
+// A message of an mbox file, addressed by its Message-ID (or position when it has none)
+export interface MailboxEntry {
+    key: string;
+    raw: Buffer;
+}
+
+interface HeaderValue {
+    value: string;
+    params: Record<string, string>;
+}
+
+// Messages of a mailbox are tracked as documents of their own: "<mailbox path>#<message key>"
+const MESSAGE_DOCUMENT_PATH = /^(.*\.mbox)#([^#\/\\]+)$/i;
+
+export function isMailFile(filePath: string): boolean {
+    return MAIL_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+export function isMailboxFile(filePath: string): boolean {
+    return path.extname(filePath).toLowerCase() === '.mbox';
+}
+
+export function getMessageDocumentPath(mailboxPath: string, key: string): string {
+    return `${mailboxPath}#${key}`;
+}
+
+export function parseMessageDocumentPath(documentPath: string): { mailboxPath: string; key: string } | null {
+    const match = documentPath.match(MESSAGE_DOCUMENT_PATH);
+    return match ? { mailboxPath: match[1], key: match[2] } : null;
+}
+
+function decodeBytes(bytes: Buffer, charset: string | undefined): string {
+    try {
+        return new TextDecoder(charset || 'utf-8').decode(bytes);
+    } catch {
+        // Unknown charset label
+        return bytes.toString('utf-8');
+    }
+}
+
+/**
+ * Decode RFC 2047 encoded words ("=?utf-8?Q?Caf=C3=A9?="); whitespace between adjacent words is dropped
+ */
+export function decodeHeaderWords(value: string): string {
+    return value
+        .replace(/(=\?[^?\s]+\?[bq]\?[^?\s]*\?=)\s+(?==\?[^?\s]+\?[bq]\?[^?\s]*\?=)/gi, '$1')
+        .replace(/=\?([^?\s]+)\?([bq])\?([^?\s]*)\?=/gi, (_, charset: string, encoding: string, text: string) => {
+            const bytes = encoding.toUpperCase() === 'B'
+                ? Buffer.from(text, 'base64')
+                : Buffer.from(text.replace(/_/g, ' ').replace(/=([0-9a-f]{2})/gi, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16))), 'latin1');
+            return decodeBytes(bytes, charset.split('*')[0]);
+        });
+}
+
+function parseHeaderBlock(block: string): Map<string, string> {
+    const headers = new Map<string, string>();
+    for (const line of block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+        const colon = line.indexOf(':');
+        if (colon <= 0) continue;
+        const name = line.slice(0, colon).trim().toLowerCase();
+        // The first occurrence wins (Received and friends repeat, the fields we read don't)
+        if (!headers.has(name)) {
+            headers.set(name, line.slice(colon + 1).trim());
+        }
+    }
+    return headers;
+}
+
+// "text/plain; charset=utf-8; name*=utf-8''r%C3%A9sum%C3%A9.pdf"
+function parseHeaderValue(header: string | undefined): HeaderValue {
+    const [value, ...rest] = (header || '').split(';');
+    const params: Record<string, string> = {};
+    for (const param of rest) {
+        const equals = param.indexOf('=');
+        if (equals <= 0) continue;
+        let name = param.slice(0, equals).trim().toLowerCase();
+        let text = param.slice(equals + 1).trim().replace(/^"(.*)"$/s, '$1').replace(/\\(.)/g, '$1');
+        if (name.endsWith('*')) {
+            // RFC 2231 extended value: charset'language'percent-encoded
+            name = name.slice(0, -1);
+            const [charset, , encoded] = text.split("'");
+            if (encoded !== undefined) {
+                text = decodeBytes(Buffer.from(encoded.replace(/%([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))), 'latin1'), charset);
+            }
+        }
+        params[name] = decodeHeaderWords(text);
+    }
+    return { value: value.trim().toLowerCase(), params };
+}
+
+// Split a MIME entity into its header block and body, without decoding the body bytes
+function splitEntity(raw: Buffer): { headers: Map<string, string>; body: Buffer } {
+    // A part may have no headers at all
+    if (raw[0] === 0x0a || (raw[0] === 0x0d && raw[1] === 0x0a)) {
+        return { headers: new Map(), body: raw.subarray(raw[0] === 0x0a ? 1 : 2) };
+    }
+    const crlf = raw.indexOf('\r\n\r\n');
+    const lf = raw.indexOf('\n\n');
+    const [end, separator] = crlf !== -1 && (lf === -1 || crlf < lf) ? [crlf, 4] : [lf, 2];
+    if (end === -1) {
+        return { headers: parseHeaderBlock(raw.toString('utf-8')), body: Buffer.alloc(0) };
+    }
+    return { headers: parseHeaderBlock(raw.subarray(0, end).toString('utf-8')), body: raw.subarray(end + separator) };
+}
+
+function decodeTransfer(body: Buffer, encoding: string | undefined): Buffer {
+    switch ((encoding || '').trim().toLowerCase()) {
+        case 'base64':
+            return Buffer.from(body.toString('latin1').replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+        case 'quoted-printable':
+            return Buffer.from(
+                body.toString('latin1')
+                    .replace(/=\r?\n/g, '')
+                    .replace(/=([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+                'latin1'
+            );
+        default:
+            return body;
+    }
+}
+
+function splitMultipart(body: Buffer, boundary: string): Buffer[] {
+    const text = body.toString('latin1');
+    const delimiter = `--${boundary}`;
+    const parts: Buffer[] = [];
+    let start = text.indexOf(delimiter);
+    while (start !== -1) {
+        const lineEnd = text.indexOf('\n', start);
+        if (text.startsWith(`${delimiter}--`, start) || lineEnd === -1) break;
+        const next = text.indexOf(`\n${delimiter}`, lineEnd);
+        const end = next === -1 ? text.length : next;
+        parts.push(Buffer.from(text.slice(lineEnd + 1, end).replace(/\r$/, ''), 'latin1'));
+        start = next === -1 ? -1 : next + 1;
+    }
+    return parts;
+}
+
+function collectParts(raw: Buffer, message: MailMessage) {
+    const { headers, body } = splitEntity(raw);
+    const contentType = parseHeaderValue(headers.get('content-type') || 'text/plain');
+    const disposition = parseHeaderValue(headers.get('content-disposition'));
+    const fileName = disposition.params.filename || contentType.params.name || '';
+
+    if (contentType.value.startsWith('multipart/') && contentType.params.boundary) {
+        for (const part of splitMultipart(body, contentType.params.boundary)) {
+            collectParts(part, message);
+        }
+        return;
+    }
+
+    const content = decodeTransfer(body, headers.get('content-transfer-encoding'));
+    if (contentType.value === 'message/rfc822') {
+        // Forwarded messages are read like .eml attachments
+        const subject = decodeHeaderWords(splitEntity(content).headers.get('subject') || '') || 'message';
+        message.attachments.push({ fileName: fileName || `${subject}.eml`, content });
+        return;
+    }
+
+    const isAttachment = disposition.value === 'attachment' || !!fileName;
+    if (!isAttachment && contentType.value === 'text/plain' && !message.text) {
+        message.text = decodeBytes(content, contentType.params.charset);
+    } else if (!isAttachment && contentType.value === 'text/html' && !message.html) {
+        message.html = decodeBytes(content, contentType.params.charset);
+    } else if (fileName) {
+        message.attachments.push({ fileName, content });
+    }
+}
+
+/**
+ * Parse an RFC 5322 message (.eml, or one message of an mbox) with its MIME parts
+ */
+export function parseMessage(raw: Buffer): MailMessage {
+    const { headers } = splitEntity(raw);
+    const header = (name: string) => decodeHeaderWords(headers.get(name) || '');
+    const message: MailMessage = {
+        subject: header('subject'),
+        from: header('from'),
+        to: header('to'),
+        cc: header('cc'),
+        date: header('date'),
+        messageId: header('message-id').replace(/^<|>$/g, ''),
+        text: '',
+        html: '',
+        attachments: []
+    };
+    collectParts(raw, message);
+    return message;
+}
+
+/**
+ * Split an mbox file into its messages. Each starts with a "From " envelope line; ">From " lines
+ * in bodies are unescaped (mboxrd).
+ */
+export function splitMailbox(raw: Buffer): MailboxEntry[] {
+    const starts: number[] = [];
+    if (raw.subarray(0, 5).toString('latin1') === 'From ') {
+        starts.push(0);
+    }
+    for (let index = raw.indexOf('\nFrom '); index !== -1; index = raw.indexOf('\nFrom ', index + 1)) {
+        starts.push(index + 1);
+    }
+
+    const entries: MailboxEntry[] = [];
+    const seen = new Map<string, number>();
+    starts.forEach((start, i) => {
+        const envelopeEnd = raw.indexOf('\n', start);
+        if (envelopeEnd === -1) return;
+        const message = raw.subarray(envelopeEnd + 1, i + 1 < starts.length ? starts[i + 1] : raw.length);
+        const unescaped = Buffer.from(message.toString('latin1').replace(/^>(>*From )/gm, '$1'), 'latin1');
+
+        // Keys become part of a path and a URL, so dots (file extensions) and reserved characters are escaped
+        const messageId = (splitEntity(unescaped).headers.get('message-id') || '').trim().replace(/^<|>$/g, '');
+        let key = messageId
+            ? encodeURIComponent(messageId).replace(/[.!'()*~]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+            : `message-${i + 1}`;
+        const count = (seen.get(key) ?? 0) + 1;
+        seen.set(key, count);
+        if (count > 1) {
+            key = `${key}-${count}`;
+        }
+        entries.push({ key, raw: unescaped });
+    });
+    return entries;
+}
+
+export function readMailbox(filePath: string): MailboxEntry[] {
+    return splitMailbox(fs.readFileSync(filePath));
+}
+
+/**
+ * Read an Outlook .msg file; throws MODULE_NOT_FOUND when @kenjiuno/msgreader isn't installed
+ */
+export function readMsgFile(filePath: string): MailMessage {
+    const MsgReader = require('@kenjiuno/msgreader').default;
+    const bytes = fs.readFileSync(filePath);
+    const reader = new MsgReader(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+    const data = reader.getFileData();
+    if (data.error) {
+        throw new Error(data.error);
+    }
+
+    const address = (name?: string, email?: string) => name && email && name !== email ? `${name} <${email}>` : (email || name || '');
+    const recipients = (type: string) => (data.recipients || [])
+        .filter((recipient: any) => (recipient.recipType || 'to') === type)
+        .map((recipient: any) => address(recipient.name, recipient.smtpAddress || recipient.email))
+        .join(', ');
+
+    return {
+        subject: data.subject || '',
+        from: address(data.senderName, data.senderSmtpAddress || data.senderEmail),
+        to: recipients('to'),
+        cc: recipients('cc'),
+        date: data.clientSubmitTime || data.messageDeliveryTime || '',
+        // Messages that went through a mail server keep their transport headers
+        messageId: (parseHeaderBlock(data.headers || '').get('message-id') || '').replace(/^<|>$/g, ''),
+        text: data.body || '',
+        html: data.bodyHtml || '',
+        attachments: (data.attachments || [])
+            .filter((attachment: any) => !attachment.attachmentHidden)
+            .map((attachment: any) => {
+                const file = reader.getAttachment(attachment);
+                return { fileName: file.fileName, content: Buffer.from(file.content) };
+            })
+    };
+}
@@ -7,12 +7,27 @@ import Store from 'electron-store';
 import { google } from 'googleapis';
 import type { drive_v3 } from 'googleapis';
 import { Worker } from 'worker_threads';
-import { DriveSyncer } from './drive-syncer';
-import { FolderSyncer, Syncer } from './syncer';
+import { DriveFolderEntry, DriveSyncer } from './drive-syncer';
+import { FileFilter, FilePatterns, parsePatterns } from './file-filter';
+import { CachedFile, CachingSyncer, FolderSyncer } from './syncer';
+import { RemoteBackend, RemoteSyncer } from './remote-syncer';
+import { WebDavBackend, WebDavSettings } from './webdav-backend';
+import { S3Backend, S3Settings } from './s3-backend';
+import { SmbBackend, SmbSettings } from './smb-backend';
+import { WebCrawler, WebCrawlerSettings } from './web-crawler';
+import { getProfileSources, MultiSourceSyncer, parseExtensions, PRIMARY_SOURCE_ID, REMOTE_SOURCE_TYPES, SourceSyncerEntry, SyncSource, SyncSourceType } from './sources';
 import { DatabaseManager } from './database';
-import { ContentProcessor } from './processor';
-import { EmbeddingService, InvalidApiKeyError, EmbeddingProvider, getEmbeddingDimension, LOCAL_MODELS } from './embeddings';
+import { ChunkingOptions, ContentProcessor } from './processor';
+import { EmbeddingService, InvalidApiKeyError, EmbeddingProvider, EmbeddingOptions, getEmbeddingDimension, getEmbeddingModelId, getEmbeddingProviderInfo, normalizeEmbeddingProvider, validateEmbeddingOptions, LOCAL_MODELS } from './embeddings';
 import { McpServer } from './mcp-server';
+import { ThroughputMeter } from './throughput';
+import { EmbeddingCache, generateEmbeddingsWithCache } from './embedding-cache';
+import { OcrEngine, parseOcrLanguages } from './ocr';
+import { parseMessageDocumentPath } from './mail';
+import { parseArchiveEntryPath } from './archive';
+import { createAccessToken, McpAccessPolicy, McpAccessToken, parseAllowedOrigins } from './mcp-auth';
+import { RerankOptions, RerankProvider } from './reranker';
+import { McpStdioOptions, parseMcpStdioArgs, redirectConsoleToStderr, serveStdio } from './mcp-stdio';
 import { initI18n, t, changeLanguage, getCurrentLanguage, getAvailableLanguages, isInitialized } from './i18n';
 import { LLMChatService, LLMProvider, ChatMessage, MCP_TOOLS, executeMcpToolCall, ToolCall } from './llm-chat';
 
@@ -42,12 +57,142 @@ function getTrayIconPath(): string | null {
 
 // Helper to migrate old provider values to current ones
 function migrateEmbeddingProvider(provider: string | undefined): EmbeddingProvider {
-    // All local providers now map to 'local' (Qwen3 via llama-server)
-    if (!provider || provider === 'local' || provider === 'local-minilm' ||
-        provider === 'local-e5' || provider === 'local' || provider === 'local-qwen') {
-        return 'local';
+    // All legacy local providers map to 'local' (Qwen3), unknown ids fall back to it too
+    return normalizeEmbeddingProvider(provider);
+}
+
+function getEmbeddingOptions(profile: ProfileSettings | undefined): EmbeddingOptions {
+    return {
+        model: profile?.embeddingModel,
+        baseURL: profile?.embeddingBaseUrl,
+        apiKey: profile?.embeddingApiKey,
+        dimensions: profile?.embeddingDimensions,
+        modelPath: profile?.embeddingModelPath
+    };
+}
+
+// Chunks sent to the embedding service at once; the service splits further by API limits
+const EMBEDDING_BATCH_SIZE = 64;
+
+// Profile fields that change which embedding model (or endpoint) is used
+const EMBEDDING_SETTING_KEYS: (keyof ProfileSettings)[] = [
+    'embeddingProvider', 'openAIApiKey', 'embeddingModel', 'embeddingBaseUrl', 'embeddingApiKey', 'embeddingDimensions', 'embeddingModelPath'
+];
+
+// Width of vec_items for the profile's embedding model
+function getProfileEmbeddingDimension(profile: ProfileSettings): number {
+    return getEmbeddingDimension(migrateEmbeddingProvider(profile.embeddingProvider), getEmbeddingOptions(profile));
+}
+
+function getMcpAccessPolicy(profile: ProfileSettings): McpAccessPolicy {
+    return {
+        requireToken: Boolean(profile.mcpRequireToken),
+        tokenHashes: (profile.mcpAccessTokens || []).map(token => token.tokenHash),
+        allowedOrigins: profile.mcpAllowedOrigins || []
+    };
+}
+
+function getRerankOptions(profile: ProfileSettings | undefined): Partial<RerankOptions> {
+    return {
+        enabled: Boolean(profile?.rerankEnabled),
+        provider: profile?.rerankProvider === 'openai' ? 'openai' : 'local',
+        topN: profile?.rerankTopN
+    };
+}
+
+function getChunkingOptions(profile: ProfileSettings | undefined): ChunkingOptions {
+    return {
+        chunkSize: profile?.chunkSize,
+        chunkOverlap: profile?.chunkOverlap,
+        minChunkSize: profile?.minChunkSize
+    };
+}
+
+function getFilePatterns(profile: ProfileSettings): FilePatterns {
+    return {
+        include: parsePatterns(profile.includePatterns),
+        exclude: parsePatterns(profile.excludePatterns)
+    };
+}
+
+// Ignore files are only read from a local folder; Drive and remote folders use the profile's patterns alone
+function createFileFilter(profile: ProfileSettings, source: SyncSource): FileFilter {
+    const rootDir = source.type === 'local' && source.folderPath ? source.folderPath : null;
+    return new FileFilter(rootDir, getFilePatterns(profile));
+}
+
+// Paths the patterns are matched against: relative to the source folder (or its cache), to the Drive folder's name,
+// or to a crawled page's host
+function getSourceRelativePath(profileId: string, source: SyncSource, file: { path: string; displayPath: string }): string {
+    if (source.type === 'local' || REMOTE_SOURCE_TYPES.includes(source.type)) {
+        const rootDir = source.type === 'local' ? source.folderPath! : getRemoteCacheDir(profileId, source);
+        return path.relative(rootDir, getContainerPath(file.path)).split(path.sep).join('/');
+    }
+    if (source.type === 'web') {
+        return (file.displayPath || '').split('/').slice(1).join('/');
+    }
+    const driveRoot = `${source.driveFolderName || 'My Drive'}/`;
+    return (file.displayPath || '').startsWith(driveRoot) ? file.displayPath.slice(driveRoot.length) : file.displayPath;
+}
+
+// The primary Drive source keeps the profile's cache folder; additional ones get their own
+function getDriveCacheDir(profileId: string, source: SyncSource): string {
+    const profileCacheDir = path.join(app.getPath('userData'), 'drive-cache', profileId);
+    return source.id === PRIMARY_SOURCE_ID ? profileCacheDir : path.join(profileCacheDir, 'sources', source.id);
+}
+
+// WebDAV, S3 and SMB files are cached per source, mirroring the remote folder; crawled pages are cached the same way
+function getRemoteCacheDir(profileId: string, source: SyncSource): string {
+    return path.join(app.getPath('userData'), 'remote-cache', profileId, source.id);
+}
+
+function createRemoteBackend(source: SyncSource): RemoteBackend {
+    switch (source.type) {
+        case 'webdav':
+            return new WebDavBackend(source.webdav!);
+        case 's3':
+            return new S3Backend(source.s3!);
+        case 'smb':
+            return new SmbBackend(source.smb!);
+        default:
+            throw new Error(`Not a remote source: ${source.type}`);
+    }
+}
+
+// Settings that decide which files of a Drive source are indexed
+function getDriveSyncSignature(profile: ProfileSettings, source: SyncSource): string {
+    return JSON.stringify([source.driveFolderId, source.recursive, source.fileExtensions, profile.includePatterns || '', profile.excludePatterns || '']);
+}
+
+// Tokens saved without their folders can't tell a folder moved out of the synced folder from any other
+function getSavedChangesPageToken(profileId: string, profile: ProfileSettings, source: SyncSource): DriveChangeToken | null {
+    const saved = store.store.driveChangeTokens?.[profileId]?.[source.id];
+    return saved?.folders && saved.signature === getDriveSyncSignature(profile, source) ? saved : null;
+}
+
+function saveChangesPageToken(profileId: string, profile: ProfileSettings, source: SyncSource, pageToken: string, folders: Record<string, DriveFolderEntry>) {
+    const appSettings = store.store;
+    appSettings.driveChangeTokens = {
+        ...appSettings.driveChangeTokens,
+        [profileId]: {
+            ...appSettings.driveChangeTokens?.[profileId],
+            [source.id]: { pageToken, signature: getDriveSyncSignature(profile, source), folders }
+        }
+    };
+    store.store = appSettings;
+}
+
+function clearChangesPageTokens(profileId: string) {
+    const appSettings = store.store;
+    if (appSettings.driveChangeTokens?.[profileId]) {
+        delete appSettings.driveChangeTokens[profileId];
+        store.store = appSettings;
     }
-    return provider as EmbeddingProvider;
+}
+
+// Messages of an mbox file and files of an archive change with the file that holds them
+function getContainerPath(filePath: string): string {
+    return parseArchiveEntryPath(filePath)?.archivePath ?? parseMessageDocumentPath(filePath)?.mailboxPath ?? filePath;
 }
 
 interface DriveAuthResult {
@@ -181,16 +326,40 @@ interface ProfileSettings {
     openAIApiKey: string;
     fileExtensions: string;
     recursive: boolean;
-    syncSource?: 'local' | 'drive';
+    includePatterns?: string;  // .gitignore-style globs, one per line; when set, only matching files are synced
+    excludePatterns?: string;  // .gitignore-style globs, one per line, applied with the folder's .gitignore and .docs4aiignore files
+    syncSource?: SyncSourceType;
     driveFolderId?: string;
     driveFolderName?: string;
     driveFolderDriveId?: string;
     driveAccountEmail?: string;
     driveRefreshToken?: string;
+    webdav?: WebDavSettings;  // Folder URL and credentials when syncSource is 'webdav'
+    s3?: S3Settings;  // Bucket, endpoint and keys when syncSource is 's3'
+    smb?: SmbSettings;  // Share and credentials when syncSource is 'smb'
+    web?: WebCrawlerSettings;  // Start URLs and crawl limits when syncSource is 'web'
+    additionalSources?: SyncSource[];  // Folders synced alongside the one above, each with its own recursion and extensions
     mcpServerEnabled: boolean;
     mcpServerPort: number;
-    embeddingProvider: EmbeddingProvider;  // 'local' or 'openai'
+    mcpBindAddress?: string;  // Interface the MCP server listens on (default: 127.0.0.1)
+    mcpRequireToken?: boolean;  // Require Authorization: Bearer on MCP/REST requests
+    mcpAccessTokens?: McpAccessToken[];
+    mcpAllowedOrigins?: string[];  // Browser origins allowed to call the server (the app itself is always allowed)
+    embeddingProvider: EmbeddingProvider;  // Id from EMBEDDING_PROVIDERS ('local', 'local-gguf', 'openai', 'ollama', 'openai-compatible')
+    embeddingModel?: string;  // Model name for openai/ollama/openai-compatible (defaults per provider)
+    embeddingBaseUrl?: string;  // Endpoint for ollama/openai-compatible
+    embeddingApiKey?: string;  // Optional key for ollama/openai-compatible endpoints
+    embeddingDimensions?: number;  // Vector width; truncates text-embedding-3-*, required for unknown models
+    embeddingModelPath?: string;  // GGUF file for local-gguf
     embeddingContextLength?: number;  // Context length for local embedding model (default: 8192)
+    chunkSize?: number;  // Maximum tokens per chunk, counted with the embedding model's tokenizer (default: 1000)
+    chunkOverlap?: number;  // Tokens shared by consecutive pieces of a split section (default: 100)
+    minChunkSize?: number;  // Smaller sections are merged with the next one (default: 150)
+    ocrEnabled?: boolean;  // OCR scanned PDF pages and image files (default: true)
+    ocrLanguages?: string;  // Tesseract language codes, e.g. "eng+fra" (default: eng)
+    rerankEnabled?: boolean;  // Re-score fused search results by default
+    rerankProvider?: RerankProvider;  // 'local' (GGUF cross-encoder) or 'openai' (uses openAIApiKey)
+    rerankTopN?: number;  // Fused candidates to re-score (default: 20)
     llmContextLength?: number;  // Context length for local LLM chat model (default: 8192)
     llmChatApiKey?: string;  // OpenAI API key for LLM chat (separate from embeddings)
     llmChatModel?: string;  // OpenAI model for LLM chat (default: 'gpt-4o-mini')
@@ -202,10 +371,19 @@ interface AppSettings {
     activeProfileId: string | null;
     language?: string;
     profileCosts?: Record<string, { totalTokens: number; totalCost: number }>;
+    driveChangeTokens?: Record<string, Record<string, DriveChangeToken>>;  // By profile, then source
+}
+
+// Where a Drive source's last sync stopped in the Changes API
+interface DriveChangeToken {
+    pageToken: string;
+    signature: string;  // getDriveSyncSignature() when saved; the folder is listed again when it differs
+    folders?: Record<string, DriveFolderEntry>;  // Folders inside the synced folder when saved
 }
 
 interface ProfileState {
-    syncer: Syncer | null;
+    syncer: MultiSourceSyncer | null;
+    fileFilters: FileFilter[];  // One per source, shared with its syncer so pattern changes apply to a running sync
     database: DatabaseManager | null;
     processor: ContentProcessor | null;
     embeddingService: EmbeddingService | null;
@@ -223,6 +401,8 @@ interface ProfileState {
     mapProjectionPending: boolean;
     mapProjectionTimer: NodeJS.Timeout | null;
     isInitialSyncing: boolean;
+    embeddingThroughput: ThroughputMeter;
+    reembeddingDatabase: DatabaseManager | null;  // Database a re-embed loop is running for
 }
 
 // Store for persistent settings
@@ -234,12 +414,21 @@ interface ProfileState {
     }
 });
 
+// Launched by an MCP client as a subprocess: serve one profile over stdin/stdout without any UI
+const mcpStdioOptions = parseMcpStdioArgs(process.argv);
+if (mcpStdioOptions) {
+    redirectConsoleToStderr();
+}
+
 let mainWindow: BrowserWindow | null = null;
 let tray: Tray | null = null;
 let profileStates: Map<string, ProfileState> = new Map();
 let isQuitting = false;
 let isQuittingCleanup = false;
 let syncCancelled: Map<string, boolean> = new Map();
+let embeddingCache: EmbeddingCache | null = null;
+// One OCR worker per language set, shared by the profiles that use it
+const ocrEngines: Map<string, OcrEngine> = new Map();
 
 // Track which ports are in use by which profiles
 const portUsage: Map<number, string> = new Map(); // port -> profileId
@@ -640,7 +829,7 @@ function setupIpcHandlers() {
                 watchedFolder: '',
                 databasePath: '',
                 openAIApiKey: '',
-                fileExtensions: '.md,.txt,.html,.pdf,.doc,.docx,.pptx,.rtf,.odt,.csv',
+                fileExtensions: '.md,.txt,.html,.pdf,.doc,.docx,.pptx,.rtf,.odt,.csv,.tsv,.xlsx,.ods',
                 recursive: true,
                 syncSource: 'local',
                 driveFolderId: '',
@@ -696,6 +885,7 @@ function setupIpcHandlers() {
         }
         
         appSettings.profiles = appSettings.profiles?.filter(p => p.id !== profileId) || [];
+        delete appSettings.driveChangeTokens?.[profileId];
         
         // If we deleted the active profile, switch to first available or null
         if (appSettings.activeProfileId === profileId) {
@@ -716,6 +906,10 @@ function setupIpcHandlers() {
         if (profileIndex === undefined || profileIndex === -1) {
             return { success: false, error: 'Profile not found' };
         }
+
+        if (updates.mcpAllowedOrigins !== undefined) {
+            updates.mcpAllowedOrigins = parseAllowedOrigins(updates.mcpAllowedOrigins);
+        }
         
         appSettings.profiles![profileIndex] = {
             ...appSettings.profiles![profileIndex],
@@ -729,24 +923,60 @@ function setupIpcHandlers() {
         const state = profileStates.get(profileId);
         if (state) {
             const profile = appSettings.profiles![profileIndex];
-            if (updates.embeddingProvider !== undefined || updates.openAIApiKey !== undefined) {
+            const embeddingChanged = EMBEDDING_SETTING_KEYS.some(key => key in updates);
+            if (embeddingChanged) {
                 // Recreate embedding service with new settings
-                if (profile.embeddingProvider === 'openai') {
-                    if (profile.openAIApiKey) {
-                        state.embeddingService = new EmbeddingService('openai', profile.openAIApiKey, profile.embeddingContextLength);
-                    } else {
-                        state.embeddingService = null;
-                    }
+                const embeddingProvider = migrateEmbeddingProvider(profile.embeddingProvider);
+                const embeddingOptions = getEmbeddingOptions(profile);
+                if (validateEmbeddingOptions(embeddingProvider, embeddingOptions) ||
+                    (embeddingProvider === 'openai' && !profile.openAIApiKey)) {
+                    state.embeddingService = null;
                 } else {
-                    state.embeddingService = new EmbeddingService(migrateEmbeddingProvider(profile.embeddingProvider), undefined, profile.embeddingContextLength);
+                    state.embeddingService = new EmbeddingService(embeddingProvider, profile.openAIApiKey, profile.embeddingContextLength, embeddingOptions);
                 }
             }
             
             // Also update MCP server for this profile if running
-            if (state.mcpServer) {
+            if (state.mcpServer && embeddingChanged) {
                 state.mcpServer.setApiKey(profile.openAIApiKey);
-                state.mcpServer.setEmbeddingProvider(profile.embeddingProvider);
+                state.mcpServer.setEmbeddingProvider(migrateEmbeddingProvider(profile.embeddingProvider), getEmbeddingOptions(profile));
+            }
+        }
+
+        if (state?.mcpServer && (updates.mcpRequireToken !== undefined || updates.mcpAllowedOrigins !== undefined)) {
+            state.mcpServer.setAccessPolicy(getMcpAccessPolicy(appSettings.profiles![profileIndex]));
+        }
+
+        // Applies to files indexed from now on; existing files are re-chunked when sync next starts
+        if (state?.processor && (updates.chunkSize !== undefined || updates.chunkOverlap !== undefined || updates.minChunkSize !== undefined)) {
+            state.processor.setChunkingOptions(getChunkingOptions(appSettings.profiles![profileIndex]));
+        }
+
+        if (state && (updates.includePatterns !== undefined || updates.excludePatterns !== undefined)) {
+            const profile = appSettings.profiles![profileIndex];
+            for (const fileFilter of state.fileFilters) {
+                fileFilter.setPatterns(getFilePatterns(profile));
+            }
+            pruneExcludedFiles(profileId, profile);
+        }
+
+        // Removed sources stop syncing and their documents leave the index; added ones sync when sync next starts
+        if (state && updates.additionalSources !== undefined) {
+            const sourceIds = getProfileSources(appSettings.profiles![profileIndex]).map(source => source.id);
+            for (const entry of [...(state.syncer?.entries || [])]) {
+                if (!sourceIds.includes(entry.source.id)) {
+                    await state.syncer!.removeSource(entry.source.id);
+                }
             }
+            pruneRemovedSources(profileId, sourceIds);
+        }
+
+        if (state?.processor && (updates.ocrEnabled !== undefined || updates.ocrLanguages !== undefined)) {
+            state.processor.setOcrEngine(getOcrEngine(appSettings.profiles![profileIndex]));
+        }
+
+        if (state?.mcpServer && (updates.rerankEnabled !== undefined || updates.rerankProvider !== undefined || updates.rerankTopN !== undefined)) {
+            state.mcpServer.setRerankOptions(getRerankOptions(appSettings.profiles![profileIndex]));
         }
         
         // If MCP server port changed and server is running, need to restart
@@ -803,6 +1033,11 @@ function setupIpcHandlers() {
             return { success: false, error: 'OpenAI API key required when using OpenAI embeddings' };
         }
 
+        const embeddingProblem = validateEmbeddingOptions(embeddingProvider, getEmbeddingOptions(profile));
+        if (embeddingProblem) {
+            return { success: false, error: embeddingProblem };
+        }
+
         // Check if port is already in use by another profile
         const portOwner = portUsage.get(port);
         if (portOwner && portOwner !== profileId) {
@@ -821,6 +1056,7 @@ function setupIpcHandlers() {
             const persistedCosts = appSettings.profileCosts?.[profileId];
             state = {
                 syncer: null,
+                fileFilters: [],
                 database: null,
                 processor: null,
                 embeddingService: null,
@@ -837,7 +1073,9 @@ function setupIpcHandlers() {
                 mapProjectionRunning: false,
                 mapProjectionPending: false,
                 mapProjectionTimer: null,
-                isInitialSyncing: false
+                isInitialSyncing: false,
+                embeddingThroughput: new ThroughputMeter(),
+                reembeddingDatabase: null
             };
             profileStates.set(profileId, state);
         }
@@ -852,7 +1090,10 @@ function setupIpcHandlers() {
             state.mcpServer = new McpServer(port, profile.embeddingContextLength);
             state.mcpServer.setDatabase(dbPath);
             state.mcpServer.setApiKey(apiKey);
-            state.mcpServer.setEmbeddingProvider(embeddingProvider);
+            state.mcpServer.setEmbeddingProvider(embeddingProvider, getEmbeddingOptions(profile));
+            state.mcpServer.setBindAddress(profile.mcpBindAddress);
+            state.mcpServer.setAccessPolicy(getMcpAccessPolicy(profile));
+            state.mcpServer.setRerankOptions(getRerankOptions(profile));
             // Track costs for MCP queries (only for OpenAI)
             state.mcpServer.setOnCostUpdate((tokens, cost) => {
                 if (state) {
@@ -882,7 +1123,7 @@ function setupIpcHandlers() {
             profile.mcpServerEnabled = true;
             store.store = appSettings;
             
-            return { success: true, port };
+            return { success: true, port, accessToken: state.mcpServer.getInternalToken() };
         } catch (error: any) {
             // Check if it's a port in use error
             if (error.code === 'EADDRINUSE' || error.message?.includes('EADDRINUSE') || error.message?.includes('address already in use')) {
@@ -928,10 +1169,43 @@ function setupIpcHandlers() {
         
         return {
             running: state?.mcpServer?.isRunning() ?? false,
-            port: profile.mcpServerPort || 3333
+            port: profile.mcpServerPort || 3333,
+            // Lets the renderer's Knowledge Map reach the server when tokens are required
+            accessToken: state?.mcpServer?.getInternalToken() ?? null
         };
     });
 
+    // Create an MCP access token for a profile. The token is returned once; only its hash is stored.
+    ipcMain.handle('create-mcp-token', (_event: IpcMainInvokeEvent, profileId: string, name: string) => {
+        const appSettings = store.store;
+        const profile = appSettings.profiles?.find(p => p.id === profileId);
+        if (!profile) {
+            return { success: false, error: 'Profile not found' };
+        }
+
+        const { token, record } = createAccessToken(name || '');
+        profile.mcpAccessTokens = [...(profile.mcpAccessTokens || []), record];
+        store.store = appSettings;
+
+        profileStates.get(profileId)?.mcpServer?.setAccessPolicy(getMcpAccessPolicy(profile));
+        return { success: true, token, record };
+    });
+
+    // Revoke an MCP access token; takes effect for the running server immediately
+    ipcMain.handle('revoke-mcp-token', (_event: IpcMainInvokeEvent, profileId: string, tokenId: string) => {
+        const appSettings = store.store;
+        const profile = appSettings.profiles?.find(p => p.id === profileId);
+        if (!profile) {
+            return { success: false, error: 'Profile not found' };
+        }
+
+        profile.mcpAccessTokens = (profile.mcpAccessTokens || []).filter(token => token.id !== tokenId);
+        store.store = appSettings;
+
+        profileStates.get(profileId)?.mcpServer?.setAccessPolicy(getMcpAccessPolicy(profile));
+        return { success: true };
+    });
+
     // Update MCP server port for a profile
     ipcMain.handle('update-mcp-port', (_event: IpcMainInvokeEvent, profileId: string, port: number) => {
         const appSettings = store.store;
@@ -988,6 +1262,19 @@ function setupIpcHandlers() {
         return null;
     });
 
+    // Select a GGUF embedding model file
+    ipcMain.handle('select-embedding-model', async () => {
+        const result = await dialog.showOpenDialog(mainWindow!, {
+            properties: ['openFile'],
+            filters: [{ name: 'GGUF Model', extensions: ['gguf'] }]
+        });
+
+        if (!result.canceled && result.filePaths.length > 0) {
+            return result.filePaths[0];
+        }
+        return null;
+    });
+
     ipcMain.handle('start-drive-auth', async (_event: IpcMainInvokeEvent, profileId: string) => {
         const appSettings = store.store;
         const profileIndex = appSettings.profiles?.findIndex(p => p.id === profileId);
@@ -1223,7 +1510,7 @@ function setupIpcHandlers() {
         
         if (profile?.databasePath) {
             try {
-                const embeddingDimension = getEmbeddingDimension(migrateEmbeddingProvider(profile.embeddingProvider));
+                const embeddingDimension = getProfileEmbeddingDimension(profile);
                 const db = new DatabaseManager(profile.databasePath, embeddingDimension);
                 trackedFiles = db.getTrackedFilesCount();
                 totalChunks = db.getTotalChunksCount();
@@ -1246,7 +1533,9 @@ function setupIpcHandlers() {
             totalChunks,
             totalTokens,
             totalCost,
-            embeddingProvider: profile?.embeddingProvider || 'local'
+            embeddingProvider: profile?.embeddingProvider || 'local',
+            throughput: state?.embeddingThroughput.getRate() ?? null,
+            reembed: state?.database?.getReembedProgress() ?? null
         };
     });
 
@@ -1268,7 +1557,7 @@ function setupIpcHandlers() {
         }
         
         try {
-            const embeddingDimension = getEmbeddingDimension(migrateEmbeddingProvider(profile.embeddingProvider));
+            const embeddingDimension = getProfileEmbeddingDimension(profile);
             const db = new DatabaseManager(profile.databasePath, embeddingDimension);
             const files = db.getAllTrackedFilesWithInfo();
             db.close();
@@ -1302,7 +1591,7 @@ function setupIpcHandlers() {
         }
         
         try {
-            const embeddingDimension = getEmbeddingDimension(migrateEmbeddingProvider(profile.embeddingProvider));
+            const embeddingDimension = getProfileEmbeddingDimension(profile);
             const db = new DatabaseManager(profile.databasePath, embeddingDimension);
             const chunks = isUrl
                 ? db.getChunksForUrl(filePath)
@@ -1362,7 +1651,9 @@ function setupIpcHandlers() {
         }
 
         state.database.clearAllData();
-        await performInitialSync(profileId, true); // Force reprocess all
+        for (const entry of [...(state.syncer?.entries || [])]) {
+            await performInitialSync(profileId, true, await entry.syncer.getSyncedFiles(), entry.source.id); // Force reprocess all
+        }
         sendStats(profileId);
         return { success: true };
     });
@@ -1419,6 +1710,8 @@ function setupIpcHandlers() {
                 store.set('profileCosts', appSettings.profileCosts);
                 console.log(`[${profileId}] Token/cost stats cleared`);
             }
+            // The next sync lists the Drive folders again
+            clearChangesPageTokens(profileId);
 
             return { success: true };
         } catch (error: any) {
@@ -1499,6 +1792,7 @@ function setupIpcHandlers() {
                 const persistedCosts = appSettings.profileCosts?.[profileId];
                 state = {
                     syncer: null,
+                    fileFilters: [],
                     database: null,
                     processor: null,
                     embeddingService: null,
@@ -1515,7 +1809,9 @@ function setupIpcHandlers() {
                     mapProjectionRunning: false,
                     mapProjectionPending: false,
                     mapProjectionTimer: null,
-                    isInitialSyncing: false
+                    isInitialSyncing: false,
+                    embeddingThroughput: new ThroughputMeter(),
+                    reembeddingDatabase: null
                 };
                 profileStates.set(profileId, state);
             }
@@ -1536,7 +1832,10 @@ function setupIpcHandlers() {
                 state.mcpServer = new McpServer(port, profile.embeddingContextLength);
                 state.mcpServer.setDatabase(profile.databasePath);
                 state.mcpServer.setApiKey(profile.openAIApiKey || null);
-                state.mcpServer.setEmbeddingProvider(embeddingProvider);
+                state.mcpServer.setEmbeddingProvider(embeddingProvider, getEmbeddingOptions(profile));
+                state.mcpServer.setBindAddress(profile.mcpBindAddress);
+                state.mcpServer.setAccessPolicy(getMcpAccessPolicy(profile));
+                state.mcpServer.setRerankOptions(getRerankOptions(profile));
 
                 // Track costs for MCP queries
                 state.mcpServer.setOnCostUpdate((tokens, cost) => {
@@ -1664,6 +1963,7 @@ function setupIpcHandlers() {
 
         try {
             const mcpPort = state.mcpServer?.getPort() || profile.mcpServerPort || 3333;
+            const mcpAccessToken = state.mcpServer?.getInternalToken();
 
             // Build chat options
             const chatOptions: any = {
@@ -1671,6 +1971,7 @@ function setupIpcHandlers() {
                 temperature,
                 maxTokens,
                 mcpServerPort: mcpPort,
+                mcpAccessToken,
                 onToolCall: (toolCall: { name: string; arguments: any; response: any }) => {
                     if (mainWindow && !mainWindow.isDestroyed()) {
                         mainWindow.webContents.send('chat-tool-call', {
@@ -1708,7 +2009,7 @@ function setupIpcHandlers() {
                 for (const toolCall of result.message.tool_calls) {
                     console.log(`[Chat] Executing tool: ${toolCall.function.name}`);
 
-                    const toolResult = await executeMcpToolCall(toolCall, mcpPort);
+                    const toolResult = await executeMcpToolCall(toolCall, mcpPort, mcpAccessToken);
 
                     // Store executed tool call for UI display
                     let parsedArgs;
@@ -1747,7 +2048,8 @@ function setupIpcHandlers() {
                     tools: chatOptions.tools,
                     temperature,
                     maxTokens,
-                    mcpServerPort: mcpPort
+                    mcpServerPort: mcpPort,
+                    mcpAccessToken
                 });
             }
 
@@ -1784,12 +2086,21 @@ async function startWatchingInternal(profileId: string): Promise<{ success: bool
         return { success: false, error: 'Profile not found' };
     }
 
-    const { watchedFolder, databasePath, openAIApiKey, fileExtensions, recursive } = profile;
+    const { databasePath, openAIApiKey } = profile;
     const syncSource = profile.syncSource || 'local';
     const embeddingProvider = migrateEmbeddingProvider(profile.embeddingProvider);
-
-    if (syncSource === 'local' && !watchedFolder) {
-        return { success: false, error: 'No folder selected' };
+    const sources = getProfileSources(profile);
+
+    if (sources.length === 0) {
+        const missingSourceErrors: Record<SyncSourceType, string> = {
+            local: 'No folder selected',
+            drive: 'No Google Drive folder selected',
+            webdav: 'No WebDAV folder URL configured',
+            s3: 'No S3 bucket configured',
+            smb: 'No SMB share configured',
+            web: 'No website start URL configured'
+        };
+        return { success: false, error: missingSourceErrors[syncSource] };
     }
 
     if (!databasePath) {
@@ -1801,6 +2112,12 @@ async function startWatchingInternal(profileId: string): Promise<{ success: bool
         return { success: false, error: 'OpenAI API key is required when using OpenAI embeddings' };
     }
 
+    const embeddingOptions = getEmbeddingOptions(profile);
+    const embeddingProblem = validateEmbeddingOptions(embeddingProvider, embeddingOptions);
+    if (embeddingProblem) {
+        return { success: false, error: embeddingProblem };
+    }
+
     try {
         // Get or create profile state
         let state = profileStates.get(profileId);
@@ -1811,6 +2128,7 @@ async function startWatchingInternal(profileId: string): Promise<{ success: bool
             const persistedCosts = appSettings.profileCosts?.[profileId];
             state = {
                 syncer: null,
+                fileFilters: [],
                 database: null,
                 processor: null,
                 embeddingService: null,
@@ -1827,22 +2145,34 @@ async function startWatchingInternal(profileId: string): Promise<{ success: bool
                 mapProjectionRunning: false,
                 mapProjectionPending: false,
                 mapProjectionTimer: null,
-                isInitialSyncing: false
+                isInitialSyncing: false,
+                embeddingThroughput: new ThroughputMeter(),
+                reembeddingDatabase: null
             };
             profileStates.set(profileId, state);
         }
 
-        // Determine embedding dimension based on provider
-        const embeddingDimension = getEmbeddingDimension(embeddingProvider);
+        // Determine embedding dimension based on provider and model
+        const embeddingDimension = getEmbeddingDimension(embeddingProvider, embeddingOptions);
+        const embeddingModelId = getEmbeddingModelId(embeddingProvider, embeddingOptions);
 
         // Initialize database
         if (state.database) {
             state.database.close();
         }
-        state.database = new DatabaseManager(databasePath, embeddingDimension);
+        state.database = new DatabaseManager(databasePath, embeddingDimension, embeddingModelId);
 
         // Initialize processor
-        state.processor = new ContentProcessor();
+        state.processor = new ContentProcessor(getChunkingOptions(profile));
+        state.processor.setOcrEngine(getOcrEngine(profile));
+
+        // Files chunked with other settings are re-chunked by the initial sync; older databases adopt the current ones
+        const chunkingSignature = state.processor.getChunkingSignature();
+        const recordedChunking = state.database.getChunkingSignature();
+        const rechunk = recordedChunking !== null && recordedChunking !== chunkingSignature;
+        if (recordedChunking === null) {
+            state.database.setChunkingSignature(chunkingSignature);
+        }
 
         if (state.database.getTotalChunksCount() > 0 && state.database.getChunkCoordsCount() === 0) {
             state.mapProjectionPending = true;
@@ -1857,16 +2187,17 @@ async function startWatchingInternal(profileId: string): Promise<{ success: bool
         }
 
         // Initialize embedding service
-        if (embeddingProvider === 'openai') {
-            state.embeddingService = new EmbeddingService('openai', openAIApiKey, profile.embeddingContextLength);
+        if (getEmbeddingProviderInfo(embeddingProvider).backend === 'openai') {
+            state.embeddingService = new EmbeddingService(embeddingProvider, openAIApiKey, profile.embeddingContextLength, embeddingOptions);
+            const { model, baseURL } = state.embeddingService.getResolvedModel();
             
-            // Validate API key before starting sync
-            console.log(`[${profile.name}] Validating OpenAI API key...`);
+            // Validate API key (and the endpoint's vector width) before starting sync
+            console.log(`[${profile.name}] Validating embedding endpoint: ${model}${baseURL ? ` at ${baseURL}` : ''}...`);
             try {
                 const isValid = await state.embeddingService.validateApiKey();
                 if (!isValid) {
                     state.embeddingService = null;
-                    return { success: false, error: 'Invalid OpenAI API key' };
+                    return { success: false, error: embeddingProvider === 'openai' ? 'Invalid OpenAI API key' : 'Embedding endpoint rejected the API key' };
                 }
                 console.log(`[${profile.name}] API key validated successfully`);
             } catch (error: any) {
@@ -1875,9 +2206,9 @@ async function startWatchingInternal(profileId: string): Promise<{ success: bool
             }
         } else {
             // Use local embeddings
-            const modelConfig = LOCAL_MODELS[embeddingProvider];
-            console.log(`[${profile.name}] Using local embedding model: ${modelConfig?.name || embeddingProvider}...`);
-            state.embeddingService = new EmbeddingService(embeddingProvider, undefined, profile.embeddingContextLength);
+            const modelName = embeddingProvider === 'local-gguf' ? profile.embeddingModelPath : LOCAL_MODELS[embeddingProvider]?.name;
+            console.log(`[${profile.name}] Using local embedding model: ${modelName || embeddingProvider}...`);
+            state.embeddingService = new EmbeddingService(embeddingProvider, undefined, profile.embeddingContextLength, embeddingOptions);
             
             // Set up download progress callback to notify UI
             state.embeddingService.setDownloadProgressCallback((progress) => {
@@ -1921,102 +2252,140 @@ async function startWatchingInternal(profileId: string): Promise<{ success: bool
             });
         }
 
-    // Parse extensions
-    const extensions = fileExtensions.split(',').map(e => e.trim().toLowerCase()).filter(e => e);
+        // Chunks embedded with another model are re-embedded in the background; until the tables
+        // are swapped, searches use keywords only
+        if (state.database.needsReembedding(embeddingModelId, embeddingDimension)) {
+            state.database.beginReembedding(embeddingModelId, embeddingDimension);
+            void runReembedding(profileId);
+        } else if (state.database.isReembedding()) {
+            // Switched back to the model the stored vectors already use
+            state.database.cancelReembedding();
+        }
+
+    // Documents indexed before sources were recorded come from the profile's own folder
+    state.database.assignUnsourcedFiles(PRIMARY_SOURCE_ID);
+    pruneRemovedSources(profileId, sources.map(source => source.id));
 
     // Stop existing syncer if any
     if (state.syncer) {
         await state.syncer.stop();
+        state.syncer = null;
     }
 
-    if (syncSource === 'drive') {
-        if (!profile.driveFolderId) {
-            return { success: false, error: 'No Google Drive folder selected' };
-        }
-
+    let drive: drive_v3.Drive | null = null;
+    if (sources.some(source => source.type === 'drive')) {
         if (!profile.driveRefreshToken) {
             return { success: false, error: 'Google Drive account not connected' };
         }
 
-        const drive = createDriveClient(profile);
+        drive = createDriveClient(profile);
         if (!drive) {
             return { success: false, error: 'Google Drive credentials not configured' };
         }
+    }
 
-        const cacheDir = path.join(app.getPath('userData'), 'drive-cache', profileId);
-        const rootName = profile.driveFolderName || 'My Drive';
-        let driveId = profile.driveFolderDriveId || null;
-
-        if (!driveId && profile.driveFolderId && profile.driveFolderId !== 'root') {
-            try {
-                const driveInfo = await drive.files.get({
-                    fileId: profile.driveFolderId,
-                    fields: 'driveId',
-                    supportsAllDrives: true
-                });
-                driveId = driveInfo.data.driveId || null;
-                if (driveId) {
-                    const appSettings = store.store;
-                    const profileIndex = appSettings.profiles?.findIndex(p => p.id === profileId) ?? -1;
-                    if (profileIndex >= 0) {
-                        appSettings.profiles![profileIndex] = {
-                            ...appSettings.profiles![profileIndex],
-                            driveFolderDriveId: driveId
-                        };
-                        store.store = appSettings;
-                    }
+    const entries: SourceSyncerEntry[] = [];
+    state.fileFilters = [];
+    for (const source of sources) {
+        const extensions = parseExtensions(source.fileExtensions);
+        const fileFilter = createFileFilter(profile, source);
+        state.fileFilters.push(fileFilter);
+
+        if (source.type === 'drive' && drive) {
+            const driveSyncer = new DriveSyncer(drive, source.driveFolderId!, getDriveCacheDir(profileId, source), {
+                recursive: source.recursive,
+                extensions,
+                fileFilter,
+                onFileAdd: async (filePath, sourceUrl, displayPath) => {
+                    await processFile(profileId, filePath, false, sourceUrl, displayPath, source.id);
+                    sendStats(profileId);
+                },
+                onFileChange: async (filePath, sourceUrl, displayPath) => {
+                    await processFile(profileId, filePath, false, sourceUrl, displayPath, source.id);
+                    sendStats(profileId);
+                },
+                onFileDelete: async (filePath) => {
+                    removeTrackedFile(profileId, filePath);
                 }
+            });
+            driveSyncer.setRootName(source.driveFolderName || 'My Drive');
+            driveSyncer.setDriveId(await resolveDriveId(profileId, drive, source));
+            entries.push({ source, syncer: driveSyncer });
+        } else if (REMOTE_SOURCE_TYPES.includes(source.type)) {
+            let backend: RemoteBackend;
+            try {
+                backend = createRemoteBackend(source);
             } catch (error) {
-                console.warn('Failed to resolve Drive ID for folder:', error);
-            }
+                // A malformed share or a missing optional client skips this source, not the whole profile
+                console.error(`[${profile.name}] Cannot sync source: ${source.type} ${describeSource(source)}:`, error);
+                continue;
+            }
+            entries.push({
+                source,
+                syncer: new RemoteSyncer(backend, getRemoteCacheDir(profileId, source), {
+                    recursive: source.recursive,
+                    extensions,
+                    fileFilter,
+                    onFileAdd: async (filePath, sourceUrl, displayPath) => {
+                        await processFile(profileId, filePath, false, sourceUrl, displayPath, source.id);
+                        sendStats(profileId);
+                    },
+                    onFileChange: async (filePath, sourceUrl, displayPath) => {
+                        await processFile(profileId, filePath, false, sourceUrl, displayPath, source.id);
+                        sendStats(profileId);
+                    },
+                    onFileDelete: async (filePath) => {
+                        removeTrackedFile(profileId, filePath);
+                    }
+                })
+            });
+        } else if (source.type === 'web') {
+            entries.push({
+                source,
+                syncer: new WebCrawler(source.web!, getRemoteCacheDir(profileId, source), html => state.processor!.convertHtmlToMarkdown(html), {
+                    recursive: source.recursive,
+                    extensions,
+                    fileFilter,
+                    onFileAdd: async (filePath, sourceUrl, displayPath) => {
+                        await processFile(profileId, filePath, false, sourceUrl, displayPath, source.id);
+                        sendStats(profileId);
+                    },
+                    onFileChange: async (filePath, sourceUrl, displayPath) => {
+                        await processFile(profileId, filePath, false, sourceUrl, displayPath, source.id);
+                        sendStats(profileId);
+                    },
+                    onFileDelete: async (filePath) => {
+                        removeTrackedFile(profileId, filePath);
+                    }
+                })
+            });
+        } else {
+            entries.push({
+                source,
+                syncer: new FolderSyncer(source.folderPath!, {
+                    recursive: source.recursive,
+                    extensions,
+                    fileFilter,
+                    onFileAdd: async (filePath) => {
+                        await processFile(profileId, filePath, false, undefined, undefined, source.id);
+                        sendStats(profileId);
+                    },
+                    onFileChange: async (filePath) => {
+                        await processFile(profileId, filePath, false, undefined, undefined, source.id);
+                        sendStats(profileId);
+                    },
+                    onFileDelete: async (filePath) => {
+                        removeTrackedFile(profileId, filePath);
+                    },
+                    onIgnoreFileChange: async () => {
+                        pruneExcludedFiles(profileId, profile);
+                    }
+                })
+            });
         }
-        const driveSyncer = new DriveSyncer(drive, profile.driveFolderId, cacheDir, {
-            recursive,
-            extensions,
-            onFileAdd: async (filePath, sourceUrl, displayPath) => {
-                await processFile(profileId, filePath, false, sourceUrl, displayPath);
-                sendStats(profileId);
-            },
-            onFileChange: async (filePath, sourceUrl, displayPath) => {
-                await processFile(profileId, filePath, false, sourceUrl, displayPath);
-                sendStats(profileId);
-            },
-            onFileDelete: async (filePath) => {
-                state.database?.removeChunksForFile(filePath);
-                state.database?.removeFileInfo(filePath);
-                state.mapProjectionPending = true;
-                if (!state.isInitialSyncing) {
-                    scheduleMapProjection(profileId);
-                }
-                sendStats(profileId);
-            }
-        });
-        driveSyncer.setRootName(rootName);
-        driveSyncer.setDriveId(driveId);
-        state.syncer = driveSyncer;
-    } else {
-        state.syncer = new FolderSyncer(watchedFolder, {
-            recursive,
-            extensions,
-            onFileAdd: async (filePath) => {
-                await processFile(profileId, filePath);
-                sendStats(profileId);
-            },
-            onFileChange: async (filePath) => {
-                await processFile(profileId, filePath);
-                sendStats(profileId);
-            },
-            onFileDelete: async (filePath) => {
-                state.database?.removeChunksForFile(filePath);
-                state.database?.removeFileInfo(filePath);
-                state.mapProjectionPending = true;
-                if (!state.isInitialSyncing) {
-                    scheduleMapProjection(profileId);
-                }
-                sendStats(profileId);
-            }
-        });
     }
+    const syncer = new MultiSourceSyncer(entries);
+    state.syncer = syncer;
 
     // Reset sync cancelled flag
     syncCancelled.set(profileId, false);
@@ -2026,76 +2395,45 @@ async function startWatchingInternal(profileId: string): Promise<{ success: bool
     state.filesProcessed = 0;
     sendStats(profileId);
 
-    if (syncSource === 'drive' && state.syncer instanceof DriveSyncer) {
-        const driveSyncer = state.syncer;
-        driveSyncer.beginSync();
+    // Folders are watched right away; Drive and remote folders start polling, and websites recrawling, once their
+    // initial sync is done
+    for (const entry of entries) {
+        if (entry.syncer instanceof DriveSyncer || entry.syncer instanceof RemoteSyncer || entry.syncer instanceof WebCrawler) {
+            entry.syncer.beginSync();
+        } else {
+            entry.syncer.start();
+        }
+    }
 
-        (async () => {
+    // Sources are synced one after the other so progress reflects one folder at a time
+    (async () => {
+        for (const { source, syncer: sourceSyncer } of entries) {
+            if (syncCancelled.get(profileId) || state.syncer !== syncer) {
+                break;
+            }
+            if (sourceSyncer instanceof DriveSyncer || sourceSyncer instanceof RemoteSyncer || sourceSyncer instanceof WebCrawler) {
+                await syncCachedSource(profileId, source, sourceSyncer, rechunk);
+                continue;
+            }
             try {
-                state.isInitialSyncing = true;
-                const driveFiles = await driveSyncer.listRemoteFiles();
-                console.log(`[${profile.name}] Sync source: ${syncSource} (${driveFiles.length} files)`);
-                state.totalFilesToSync = driveFiles.length;
+                const initialFiles = await sourceSyncer.getSyncedFiles();
+                console.log(`[${profile.name}] Sync source: ${source.type} ${source.folderPath} (${initialFiles.length} files)`);
+                state.totalFilesToSync = initialFiles.length;
                 state.filesProcessed = 0;
                 sendStats(profileId);
 
-                for (const file of driveFiles) {
-                    if (syncCancelled.get(profileId)) {
-                        break;
-                    }
-                    const cached = await driveSyncer.downloadToCache(file);
-                    if (!cached) {
-                        continue;
-                    }
-                    await processFile(profileId, cached.localPath, false, cached.sourceUrl, cached.displayPath);
-                    state.filesProcessed++;
-                    sendStats(profileId);
-                    await new Promise(resolve => setImmediate(resolve));
-                }
-
-                if (!syncCancelled.get(profileId)) {
-                    const hasCoords = state.database ? state.database.getChunkCoordsCount() > 0 : false;
-                    const hasChunks = state.database ? state.database.getTotalChunksCount() > 0 : false;
-                    if (state.mapProjectionPending || (hasChunks && !hasCoords)) {
-                        state.mapProjectionPending = false;
-                        await runMapProjection(profileId, 'initial-sync');
-                    }
-                }
-
-                if (!syncCancelled.get(profileId)) {
-                    state.totalFilesToSync = 0;
-                    state.filesProcessed = 0;
-                    sendStats(profileId);
-                }
+                await performInitialSync(profileId, rechunk, initialFiles, source.id);
             } catch (error: any) {
                 console.error(`[${profile.name}] Error during initial sync:`, error);
-            } finally {
-                state.isInitialSyncing = false;
-                if (!syncCancelled.get(profileId)) {
-                    driveSyncer.startPolling();
-                }
-                sendStats(profileId);
-                updateTray();
             }
-        })();
-    } else {
-        state.syncer.start();
-        state.syncer.getSyncedFiles().then((initialFiles) => {
-            console.log(`[${profile.name}] Sync source: ${syncSource} (${initialFiles.length} files)`);
-            state.totalFilesToSync = initialFiles.length;
-            state.filesProcessed = 0;
-            sendStats(profileId);
+        }
 
-            return performInitialSync(profileId, false, initialFiles);
-        }).then(() => {
-            sendStats(profileId);
-            updateTray();
-        }).catch((error: any) => {
-            console.error(`[${profile.name}] Error during initial sync:`, error);
-            sendStats(profileId);
-            updateTray();
-        });
-    }
+        if (rechunk && !syncCancelled.get(profileId)) {
+            state.database?.setChunkingSignature(chunkingSignature);
+        }
+        sendStats(profileId);
+        updateTray();
+    })();
 
     // Return immediately so UI can show "Stop Sync" button
     sendStats(profileId);
@@ -2107,6 +2445,208 @@ async function startWatchingInternal(profileId: string): Promise<{ success: bool
     }
 }
 
+// Look up the shared drive holding a Drive folder, and remember it in the profile
+async function resolveDriveId(profileId: string, drive: drive_v3.Drive, source: SyncSource): Promise<string | null> {
+    if (source.driveFolderDriveId || !source.driveFolderId || source.driveFolderId === 'root') {
+        return source.driveFolderDriveId || null;
+    }
+
+    try {
+        const driveInfo = await drive.files.get({
+            fileId: source.driveFolderId,
+            fields: 'driveId',
+            supportsAllDrives: true
+        });
+        const driveId = driveInfo.data.driveId || null;
+        if (driveId) {
+            const appSettings = store.store;
+            const profileIndex = appSettings.profiles?.findIndex(p => p.id === profileId) ?? -1;
+            if (profileIndex >= 0) {
+                const stored = appSettings.profiles![profileIndex];
+                appSettings.profiles![profileIndex] = source.id === PRIMARY_SOURCE_ID
+                    ? { ...stored, driveFolderDriveId: driveId }
+                    : {
+                        ...stored,
+                        additionalSources: (stored.additionalSources || []).map(candidate =>
+                            candidate.id === source.id ? { ...candidate, driveFolderDriveId: driveId } : candidate)
+                    };
+                store.store = appSettings;
+            }
+        }
+        return driveId;
+    } catch (error) {
+        console.warn('Failed to resolve Drive ID for folder:', error);
+        return null;
+    }
+}
+
+function describeSource(source: SyncSource): string {
+    switch (source.type) {
+        case 'drive':
+            return source.driveFolderName || source.driveFolderId || '';
+        case 'webdav':
+            return source.webdav?.url || '';
+        case 's3':
+            return [source.s3?.bucket, source.s3?.prefix].filter(part => part).join('/');
+        case 'smb':
+            return [source.smb?.share, source.smb?.path].filter(part => part).join('/');
+        case 'web':
+            return (source.web?.seedUrls || []).join(', ');
+        default:
+            return source.folderPath || '';
+    }
+}
+
+// Initial sync of a Drive or remote folder or a website: download and index every matching file, then poll for
+// changes. A Drive folder indexed by a previous sync with the same settings continues from the saved Changes API
+// page token instead.
+async function syncCachedSource(profileId: string, source: SyncSource, cachingSyncer: CachingSyncer, rechunk: boolean) {
+    const state = profileStates.get(profileId);
+    const profile = store.store.profiles?.find(p => p.id === profileId);
+    if (!state || !profile) return;
+    const profileName = profile.name;
+    const saveToken = (pageToken: string, folders: Record<string, DriveFolderEntry>) => saveChangesPageToken(profileId, profile, source, pageToken, folders);
+
+    const trackedFiles = state.database?.getAllTrackedFilesWithInfo().filter(file => file.sourceId === source.id) || [];
+    const trackedEntries = trackedFiles.map(file => ({ localPath: file.path, sourceUrl: file.sourceUrl, displayPath: file.displayPath }));
+    if (cachingSyncer instanceof DriveSyncer) {
+        const savedToken = rechunk ? null : getSavedChangesPageToken(profileId, profile, source);
+        if (savedToken && trackedFiles.length > 0) {
+            console.log(`[${profileName}] Sync source: ${source.type} ${describeSource(source)} (changes since last sync)`);
+            cachingSyncer.restoreIndex(trackedEntries);
+            cachingSyncer.restoreFolders(savedToken.folders!);
+            cachingSyncer.setChangesPageToken(savedToken.pageToken, saveToken);
+            cachingSyncer.startPolling();
+            return;
+        }
+        cachingSyncer.setChangesPageToken(null, saveToken);
+    } else if (cachingSyncer instanceof RemoteSyncer) {
+        // The poll that follows the initial sync deletes the files that are gone from the server
+        cachingSyncer.restoreIndex(trackedEntries);
+    }
+
+    try {
+        state.isInitialSyncing = true;
+        const remoteFiles = await cachingSyncer.listRemoteFiles();
+        console.log(`[${profileName}] Sync source: ${source.type} ${describeSource(source)} (${remoteFiles.length} files)`);
+        state.totalFilesToSync = remoteFiles.length;
+        state.filesProcessed = 0;
+        sendStats(profileId);
+
+        for (const file of remoteFiles) {
+            if (syncCancelled.get(profileId)) {
+                break;
+            }
+            let cached: CachedFile | null;
+            try {
+                cached = await cachingSyncer.downloadToCache(file);
+            } catch (error) {
+                // One file that can't be downloaded doesn't end the initial sync of the others
+                console.error(`[${profileName}] Failed to download a file from ${describeSource(source)}:`, error);
+                state.filesProcessed++;
+                sendStats(profileId);
+                continue;
+            }
+            if (!cached) {
+                continue;
+            }
+            await processFile(profileId, cached.localPath, rechunk, cached.sourceUrl, cached.displayPath, source.id);
+            state.filesProcessed++;
+            sendStats(profileId);
+            await new Promise(resolve => setImmediate(resolve));
+        }
+
+        if (!syncCancelled.get(profileId)) {
+            if (cachingSyncer instanceof DriveSyncer) {
+                const pageToken = cachingSyncer.getChangesPageToken();
+                if (pageToken) {
+                    saveToken(pageToken, cachingSyncer.getKnownFolders());
+                }
+            }
+            const hasCoords = state.database ? state.database.getChunkCoordsCount() > 0 : false;
+            const hasChunks = state.database ? state.database.getTotalChunksCount() > 0 : false;
+            if (state.mapProjectionPending || (hasChunks && !hasCoords)) {
+                state.mapProjectionPending = false;
+                await runMapProjection(profileId, 'initial-sync');
+            }
+        }
+
+        if (!syncCancelled.get(profileId)) {
+            state.totalFilesToSync = 0;
+            state.filesProcessed = 0;
+            sendStats(profileId);
+        }
+    } catch (error: any) {
+        console.error(`[${profileName}] Error during initial sync:`, error);
+    } finally {
+        state.isInitialSyncing = false;
+        if (!syncCancelled.get(profileId)) {
+            cachingSyncer.startPolling();
+        }
+        sendStats(profileId);
+        updateTray();
+    }
+}
+
+// Drop a document that was deleted or is no longer synced
+function removeTrackedFile(profileId: string, filePath: string) {
+    const state = profileStates.get(profileId);
+    if (!state) return;
+
+    state.database?.removeChunksForFile(filePath);
+    state.database?.removeFileInfo(filePath);
+    state.mcpServer?.notifyResourceUpdated(filePath);
+    state.mcpServer?.notifyResourceListChanged();
+    state.mapProjectionPending = true;
+    if (!state.isInitialSyncing) {
+        scheduleMapProjection(profileId);
+    }
+    sendStats(profileId);
+}
+
+/**
+ * Remove the indexed documents that the profile's include/exclude patterns or the folder's ignore files now
+ * exclude. Newly included files are indexed when sync next starts (Drive picks them up on its next poll).
+ */
+function pruneExcludedFiles(profileId: string, profile: ProfileSettings) {
+    const state = profileStates.get(profileId);
+    if (!state?.database) return;
+
+    const sources = getProfileSources(profile);
+    const filters = new Map(sources.map(source => [source.id, createFileFilter(profile, source)]));
+    let removed = 0;
+    for (const file of state.database.getAllTrackedFilesWithInfo()) {
+        const source = sources.find(candidate => candidate.id === (file.sourceId ?? PRIMARY_SOURCE_ID));
+        if (!source) continue;
+        // Patterns match paths inside the synced folder; Drive documents are cached under their file id
+        const relativePath = getSourceRelativePath(profileId, source, file);
+        if (!relativePath || relativePath.startsWith('..') || filters.get(source.id)!.accepts(relativePath)) continue;
+        removeTrackedFile(profileId, file.path);
+        removed++;
+    }
+    if (removed > 0) {
+        console.log(`[${profile.name}] Removed ${removed} excluded files from the index`);
+    }
+}
+
+/**
+ * Remove the indexed documents of sources that are no longer part of the profile
+ */
+function pruneRemovedSources(profileId: string, sourceIds: string[]) {
+    const state = profileStates.get(profileId);
+    if (!state?.database) return;
+
+    let removed = 0;
+    for (const file of state.database.getAllTrackedFilesWithInfo()) {
+        if (file.sourceId === null || sourceIds.includes(file.sourceId)) continue;
+        removeTrackedFile(profileId, file.path);
+        removed++;
+    }
+    if (removed > 0) {
+        console.log(`[${profileId}] Removed ${removed} files of removed sources from the index`);
+    }
+}
+
 function normalizeEmbedding(embedding: Float32Array | Buffer | number[]): Float32Array | null {
     if (!embedding) return null;
     if (embedding instanceof Float32Array) return embedding;
@@ -2213,7 +2753,110 @@ async function runMapProjection(profileId: string, reason: string) {
     }
 }
 
-    async function processFile(profileId: string, filePath: string, forceReprocess: boolean = false, sourceUrl?: string, displayPath?: string) {
+// Vectors shared by all profiles, keyed by model id and chunk hash; indexing works without it if it can't be opened
+function getEmbeddingCache(): EmbeddingCache | null {
+    if (!embeddingCache) {
+        try {
+            embeddingCache = new EmbeddingCache(path.join(app.getPath('userData'), 'embedding-cache.db'));
+        } catch (error) {
+            console.error('Could not open embedding cache:', error);
+            return null;
+        }
+    }
+    return embeddingCache;
+}
+
+function getOcrEngine(profile: ProfileSettings | undefined): OcrEngine | null {
+    if (profile?.ocrEnabled === false) {
+        return null;
+    }
+    const languages = parseOcrLanguages(profile?.ocrLanguages);
+    const key = languages.join('+');
+    let engine = ocrEngines.get(key);
+    if (!engine) {
+        engine = new OcrEngine(languages);
+        ocrEngines.set(key, engine);
+    }
+    return engine;
+}
+
+// Track tokens and cost (only for paid APIs - local and self-hosted are free)
+function recordEmbeddingCost(profileId: string, state: ProfileState, tokens: number, costPerMillion: number) {
+    if (costPerMillion <= 0) {
+        return;
+    }
+    state.totalTokens += tokens;
+    state.totalCost += (tokens / 1_000_000) * costPerMillion;
+
+    // Persist costs
+    const appSettings = store.store;
+    if (!appSettings.profileCosts) {
+        appSettings.profileCosts = {};
+    }
+    appSettings.profileCosts[profileId] = {
+        totalTokens: state.totalTokens,
+        totalCost: state.totalCost
+    };
+    store.store = appSettings;
+}
+
+// Re-embed the stored chunks with the profile's current model, then swap in the new vector table.
+// Stops when sync stops or the model changes again; the next start resumes from the queue.
+// A new API key or endpoint for the same model replaces the service, and the next batch uses it.
+async function runReembedding(profileId: string) {
+    const state = profileStates.get(profileId);
+    if (!state || !state.database || !state.embeddingService || state.reembeddingDatabase === state.database) return;
+
+    const database = state.database;
+    const modelId = state.embeddingService.getModelId();
+    const isCurrent = () => state.database === database && state.embeddingService?.getModelId() === modelId;
+    state.reembeddingDatabase = database;
+    sendStats(profileId);
+
+    try {
+        while (isCurrent()) {
+            const embeddingService = state.embeddingService!;
+            const batch = database.getReembedBatch(EMBEDDING_BATCH_SIZE);
+            if (batch.length === 0) {
+                break;
+            }
+
+            const startedAt = Date.now();
+            const result = await generateEmbeddingsWithCache(embeddingService, getEmbeddingCache(), batch);
+            if (!isCurrent()) {
+                return;
+            }
+            if (result.cachedCount < batch.length) {
+                state.embeddingThroughput.record(batch.length - result.cachedCount, result.totalTokens, Date.now() - startedAt);
+            }
+            recordEmbeddingCost(profileId, state, result.totalTokens, embeddingService.getCostPerMillionTokens());
+            database.writeReembeddedBatch(batch.map((chunk, i) => ({ rowid: chunk.rowid, embedding: result.embeddings[i] })));
+            sendStats(profileId);
+
+            // Yield to event loop between batches to keep UI responsive
+            await new Promise(resolve => setImmediate(resolve));
+        }
+
+        if (isCurrent() && database.finishReembedding()) {
+            console.log(`[${profileId}] Re-embedding finished, vector search uses the new model`);
+            scheduleMapProjection(profileId, 2000);
+        }
+    } catch (error) {
+        if (error instanceof InvalidApiKeyError) {
+            console.error(`[${profileId}] Invalid API key detected - stopping re-embedding`);
+            await handleInvalidApiKey(profileId);
+            return;
+        }
+        console.error(`[${profileId}] Re-embedding paused, it resumes on the next sync start:`, error);
+    } finally {
+        if (state.reembeddingDatabase === database) {
+            state.reembeddingDatabase = null;
+        }
+        sendStats(profileId);
+    }
+}
+
+    async function processFile(profileId: string, filePath: string, forceReprocess: boolean = false, sourceUrl?: string, displayPath?: string, sourceId?: string) {
     const state = profileStates.get(profileId);
     if (!state || !state.database || !state.processor) return;
     
@@ -2228,7 +2871,7 @@ async function runMapProjection(profileId: string, reason: string) {
                 // Get file's current modification time
                 const fs = require('fs');
                 try {
-                    const stats = fs.statSync(filePath);
+                    const stats = fs.statSync(getContainerPath(filePath));
                     const currentModTime = stats.mtime;
                     
                     // Skip if file hasn't been modified since last sync
@@ -2271,52 +2914,54 @@ async function runMapProjection(profileId: string, reason: string) {
             }
         }
 
+        // Size chunks with the model's own tokenizer; the estimate stays in place if the model can't load
+        if (state.embeddingService) {
+            try {
+                const countTokens = await state.embeddingService.getTokenCounter();
+                state.processor?.setTokenCounter(countTokens);
+            } catch (error) {
+                console.warn(`[${profileId}] Tokenizer unavailable, estimating chunk sizes:`, error);
+            }
+            if (syncCancelled.get(profileId) || !state.database || !state.processor) {
+                return;
+            }
+        }
+
         const chunks = state.processor.chunkContent(content, filePath, sourceUrl);
+        const isNewFile = !state.database.getFileInfo(filePath);
 
         // Remove old chunks
         state.database.removeChunksForFile(filePath);
 
-        // Generate embeddings and insert chunks
-        for (let chunkIdx = 0; chunkIdx < chunks.length; chunkIdx++) {
-            const chunk = chunks[chunkIdx];
-            let embedding: number[] | null = null;
+        // Generate embeddings in batches and insert chunks
+        for (let batchStart = 0; batchStart < chunks.length; batchStart += EMBEDDING_BATCH_SIZE) {
+            const batch = chunks.slice(batchStart, batchStart + EMBEDDING_BATCH_SIZE);
+            let embeddings: (number[] | null)[] = batch.map(() => null);
 
-            // Yield to event loop periodically to keep UI responsive (every 2 chunks for local models)
-            if (chunkIdx > 0 && chunkIdx % 2 === 0) {
+            // Yield to event loop between batches to keep UI responsive
+            if (batchStart > 0) {
                 await new Promise(resolve => setImmediate(resolve));
             }
 
             if (state.embeddingService && !syncCancelled.get(profileId)) {
                 try {
-                    const result = await state.embeddingService.generateEmbedding(chunk.content);
-                    embedding = result.embedding;
+                    // Chunks embedded before with the same model (any profile, any file) come from the cache
+                    const startedAt = Date.now();
+                    const result = await generateEmbeddingsWithCache(state.embeddingService, getEmbeddingCache(), batch);
+                    embeddings = result.embeddings;
+                    if (result.cachedCount < batch.length) {
+                        state.embeddingThroughput.record(batch.length - result.cachedCount, result.totalTokens, Date.now() - startedAt);
+                    }
                     
-                    // Track tokens and cost (only for OpenAI - local is free)
                     // Re-check embeddingService in case it was nullified during async operation
-                    if (state.embeddingService && state.embeddingService.getProvider() === 'openai') {
-                        const tokens = result.tokens;
-                        const cost = (tokens / 1_000_000) * 0.13; // $0.13 per million tokens
-                        state.totalTokens += tokens;
-                        state.totalCost += cost;
-                        
-                        // Persist costs
-                        const appSettings = store.store;
-                        if (!appSettings.profileCosts) {
-                            appSettings.profileCosts = {};
-                        }
-                        appSettings.profileCosts[profileId] = {
-                            totalTokens: state.totalTokens,
-                            totalCost: state.totalCost
-                        };
-                        store.store = appSettings;
-                    }
+                    recordEmbeddingCost(profileId, state, result.totalTokens, state.embeddingService?.getCostPerMillionTokens() ?? 0);
                 } catch (error) {
                     if (error instanceof InvalidApiKeyError) {
                         console.error(`[${profileId}] Invalid API key detected - stopping sync`);
                         await handleInvalidApiKey(profileId);
                         return; // Stop processing this file
                     }
-                    console.error(`[${profileId}] Error generating embedding:`, error);
+                    console.error(`[${profileId}] Error generating embeddings:`, error);
                 }
             }
 
@@ -2325,7 +2970,9 @@ async function runMapProjection(profileId: string, reason: string) {
                 return;
             }
 
-            state.database.insertChunk(chunk, embedding);
+            for (let i = 0; i < batch.length; i++) {
+                state.database.insertChunk(batch[i], embeddings[i]);
+            }
         }
 
         // Final check before updating file info
@@ -2334,7 +2981,14 @@ async function runMapProjection(profileId: string, reason: string) {
         }
 
         // Update file info with current timestamp
-        state.database.upsertFileInfo(filePath, hash, new Date(), chunks.length, displayPath, sourceUrl);
+        state.database.upsertFileInfo(filePath, hash, new Date(), chunks.length, displayPath, sourceUrl, sourceId);
+
+        // Let MCP clients know the corpus changed
+        if (isNewFile) {
+            state.mcpServer?.notifyResourceListChanged();
+        } else {
+            state.mcpServer?.notifyResourceUpdated(filePath);
+        }
 
         state.mapProjectionPending = true;
         if (!state.isInitialSyncing) {
@@ -2350,7 +3004,7 @@ async function runMapProjection(profileId: string, reason: string) {
     }
 }
 
-async function performInitialSync(profileId: string, forceReprocess: boolean = false, initialFiles?: string[]) {
+async function performInitialSync(profileId: string, forceReprocess: boolean = false, initialFiles?: string[], sourceId?: string) {
     const state = profileStates.get(profileId);
     if (!state || !state.syncer || !state.database) return;
 
@@ -2395,7 +3049,7 @@ async function performInitialSync(profileId: string, forceReprocess: boolean = f
             if (!needsProcessing && fileInfo) {
                 const fs = require('fs');
                 try {
-                    const stats = fs.statSync(filePath);
+                    const stats = fs.statSync(getContainerPath(filePath));
                     if (stats.mtime <= fileInfo.modifiedAt) {
                         skipped++;
                         // Still count skipped files as processed for progress
@@ -2408,7 +3062,7 @@ async function performInitialSync(profileId: string, forceReprocess: boolean = f
             }
             
             console.log(`[${profileName}] Processing ${i + 1}/${files.length}: ${filePath}`);
-            await processFile(profileId, filePath, forceReprocess);
+            await processFile(profileId, filePath, forceReprocess, undefined, undefined, sourceId);
             processed++;
             state.filesProcessed = processed + skipped;
             // Update stats after each file during initial sync
@@ -2464,7 +3118,7 @@ function sendStats(profileId?: string) {
         
         if (profile?.databasePath) {
             try {
-                const embeddingDimension = getEmbeddingDimension(migrateEmbeddingProvider(profile.embeddingProvider));
+                const embeddingDimension = getProfileEmbeddingDimension(profile);
                 const db = new DatabaseManager(profile.databasePath, embeddingDimension);
                 trackedFiles = db.getTrackedFilesCount();
                 totalChunks = db.getTotalChunksCount();
@@ -2488,6 +3142,8 @@ function sendStats(profileId?: string) {
             totalTokens,
             totalCost,
             embeddingProvider: profile?.embeddingProvider || 'local',
+            throughput: state?.embeddingThroughput.getRate() ?? null,
+            reembed: state?.database?.getReembedProgress() ?? null,
             syncProgress: state ? {
                 filesProcessed: state.filesProcessed || 0,
                 totalFiles: state.totalFilesToSync || 0
@@ -2529,7 +3185,7 @@ function sendStats(profileId?: string) {
             
             if (profile.databasePath) {
                 try {
-                    const embeddingDimension = getEmbeddingDimension(migrateEmbeddingProvider(profile.embeddingProvider));
+                    const embeddingDimension = getProfileEmbeddingDimension(profile);
                     const db = new DatabaseManager(profile.databasePath, embeddingDimension);
                     trackedFiles = db.getTrackedFilesCount();
                     totalChunks = db.getTotalChunksCount();
@@ -2553,6 +3209,8 @@ function sendStats(profileId?: string) {
                 totalTokens,
                 totalCost,
                 embeddingProvider: migrateEmbeddingProvider(profile.embeddingProvider),
+                throughput: state?.embeddingThroughput.getRate() ?? null,
+                reembed: state?.database?.getReembedProgress() ?? null,
                 syncProgress: state ? {
                     filesProcessed: state.filesProcessed || 0,
                     totalFiles: state.totalFilesToSync || 0
@@ -2606,7 +3264,51 @@ async function handleInvalidApiKey(profileId: string) {
     updateTray();
 }
 
+async function runMcpStdio(options: McpStdioOptions): Promise<void> {
+    if (process.platform === 'darwin') {
+        app.dock.hide();
+    }
+
+    const appSettings = store.store;
+    const profiles = appSettings.profiles || [];
+    const profile = options.profile
+        ? profiles.find(p => p.id === options.profile || p.name === options.profile)
+        : profiles.find(p => p.id === appSettings.activeProfileId) || profiles[0];
+
+    if (options.profile && !profile) {
+        console.error(`MCP stdio: profile not found: ${options.profile}`);
+        app.exit(1);
+        return;
+    }
+
+    const dbPath = options.databasePath || profile?.databasePath;
+    if (!dbPath) {
+        console.error('MCP stdio: no database configured. Pass --profile <id|name> or --db <path>.');
+        app.exit(1);
+        return;
+    }
+
+    console.log(`MCP stdio: serving ${dbPath}${profile ? ` (profile "${profile.name}")` : ''}`);
+
+    // Port is unused: the server is driven through handleJsonRpc, never started
+    const server = new McpServer(0, profile?.embeddingContextLength);
+    server.setDatabase(dbPath);
+    server.setApiKey(profile?.openAIApiKey || null);
+    server.setEmbeddingProvider(migrateEmbeddingProvider(profile?.embeddingProvider), getEmbeddingOptions(profile));
+    server.setRerankOptions(getRerankOptions(profile));
+
+    await serveStdio(server);
+
+    await server.stop();
+    app.exit(0);
+}
+
 app.whenReady().then(async () => {
+    if (mcpStdioOptions) {
+        await runMcpStdio(mcpStdioOptions);
+        return;
+    }
+
     const appIconPath = getAppIconPath();
     if (appIconPath && process.platform === 'darwin') {
         app.dock.setIcon(appIconPath);
@@ -2622,6 +3324,7 @@ app.whenReady().then(async () => {
                 const persistedCosts = appSettings.profileCosts?.[profile.id];
                 profileStates.set(profile.id, {
                     syncer: null,
+                    fileFilters: [],
                     database: null,
                     processor: null,
                     embeddingService: null,
@@ -2638,7 +3341,9 @@ app.whenReady().then(async () => {
                     mapProjectionRunning: false,
                     mapProjectionPending: false,
                     mapProjectionTimer: null,
-                    isInitialSyncing: false
+                    isInitialSyncing: false,
+                    embeddingThroughput: new ThroughputMeter(),
+                    reembeddingDatabase: null
                 });
             }
         }
@@ -2725,6 +3430,12 @@ app.on('before-quit', async (event) => {
     profileStates.clear();
     syncCancelled.clear();
     portUsage.clear();
+    embeddingCache?.close();
+    embeddingCache = null;
+    for (const engine of ocrEngines.values()) {
+        await engine.terminate().catch(error => console.error('Error terminating OCR worker:', error));
+    }
+    ocrEngines.clear();
 
     tray?.destroy();
     console.log('Cleanup complete');
@@ -0,0 +1,172 @@
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { isIP } from 'net';
+import { hostname } from 'os';
+
+export const DEFAULT_BIND_ADDRESS = '127.0.0.1';
+
+const TOKEN_PREFIX = 'd4a_';
+// Origin of the app's own renderer (loaded from file://), always allowed
+const APP_ORIGINS = ['file://'];
+// Host names that always reach the server from this machine
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1'];
+const WILDCARD_ADDRESSES = ['0.0.0.0', '::'];
+// Routes that stay reachable without a token (liveness checks only)
+const PUBLIC_PATHS = new Set(['/health']);
+
+export interface McpAccessToken {
+    id: string;
+    name: string;
+    tokenHash: string;   // SHA-256 of the token; the token itself is only shown once
+    hint: string;        // Last characters of the token, to tell tokens apart in the UI
+    createdAt: string;
+}
+
+export interface McpAccessPolicy {
+    requireToken: boolean;
+    tokenHashes: string[];
+    allowedOrigins: string[]; // Exact origins, or '*' to allow any
+}
+
+export function hashAccessToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+export function generateAccessToken(): string {
+    return `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Create a token and the record to persist for it. The plain token is returned once and never stored.
+ */
+export function createAccessToken(name: string): { token: string; record: McpAccessToken } {
+    const token = generateAccessToken();
+    return {
+        token,
+        record: {
+            id: randomBytes(8).toString('hex'),
+            name: name.trim() || 'Token',
+            tokenHash: hashAccessToken(token),
+            hint: token.slice(-4),
+            createdAt: new Date().toISOString()
+        }
+    };
+}
+
+/**
+ * Normalize a comma/newline separated origin list to exact origins (scheme://host[:port])
+ */
+export function parseAllowedOrigins(value: string | string[] | undefined): string[] {
+    const entries = Array.isArray(value) ? value : (value || '').split(/[\s,]+/);
+    const origins = new Set<string>();
+    for (const entry of entries) {
+        const trimmed = entry.trim();
+        if (!trimmed) continue;
+        if (trimmed === '*') {
+            origins.add('*');
+            continue;
+        }
+        try {
+            origins.add(new URL(trimmed).origin);
+        } catch {
+            // Ignore entries that are not valid origins
+        }
+    }
+    return Array.from(origins);
+}
+
+function isOriginAllowed(origin: string, policy: McpAccessPolicy): boolean {
+    return APP_ORIGINS.includes(origin) || policy.allowedOrigins.includes('*') || policy.allowedOrigins.includes(origin);
+}
+
+// Host header without the port; IPv6 literals lose their brackets
+function getHostName(host: string): string {
+    const bracketed = /^\[([^\]]+)\]/.exec(host);
+    return (bracketed ? bracketed[1] : host.replace(/:\d+$/, '')).toLowerCase();
+}
+
+/**
+ * Guard against DNS rebinding: a page on an attacker's domain that resolves to this machine sends its own
+ * domain as Host. Loopback names and the bind address are accepted; when listening on every interface,
+ * IP literals and this machine's name are too, since clients on the network use those.
+ */
+function isHostAllowed(host: string | undefined, bindAddress: string): boolean {
+    if (!host) return true;
+    const name = getHostName(host);
+    if (LOOPBACK_HOSTS.includes(name) || name === bindAddress.toLowerCase()) {
+        return true;
+    }
+    if (!WILDCARD_ADDRESSES.includes(bindAddress)) {
+        return false;
+    }
+    const machineName = hostname().toLowerCase();
+    return isIP(name) !== 0 || name === machineName || name === `${machineName}.local`;
+}
+
+function getBearerToken(req: Request): string | null {
+    const header = req.headers.authorization;
+    if (!header) return null;
+    const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+    return match ? match[1].trim() : null;
+}
+
+function matchesAnyHash(token: string, hashes: string[]): boolean {
+    const candidate = Buffer.from(hashAccessToken(token), 'hex');
+    let matched = false;
+    for (const hash of hashes) {
+        const expected = Buffer.from(hash, 'hex');
+        if (expected.length === candidate.length && timingSafeEqual(expected, candidate)) {
+            matched = true;
+        }
+    }
+    return matched;
+}
+
+/**
+ * CORS + authentication middleware for the MCP/REST server.
+ * Requests for another host name and browser requests from origins outside the allow-list are rejected before any route runs,
+ * and when tokens are required every non-public route needs `Authorization: Bearer <token>`.
+ * internalTokenHash lets the app's own renderer and chat tools through regardless of the policy.
+ */
+export function createAccessControl(getPolicy: () => McpAccessPolicy, internalTokenHash: string, getBindAddress: () => string = () => DEFAULT_BIND_ADDRESS): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const policy = getPolicy();
+        const origin = req.headers.origin;
+
+        if (!isHostAllowed(req.headers.host, getBindAddress())) {
+            res.status(403).json({ error: 'Host not allowed' });
+            return;
+        }
+
+        if (origin) {
+            if (!isOriginAllowed(origin, policy)) {
+                res.status(403).json({ error: 'Origin not allowed' });
+                return;
+            }
+            res.setHeader('Access-Control-Allow-Origin', origin);
+            res.setHeader('Vary', 'Origin');
+            res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+            res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID');
+            res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+        }
+
+        if (req.method === 'OPTIONS') {
+            res.sendStatus(204);
+            return;
+        }
+
+        if (!policy.requireToken || PUBLIC_PATHS.has(req.path)) {
+            next();
+            return;
+        }
+
+        const token = getBearerToken(req);
+        if (!token || !matchesAnyHash(token, [internalTokenHash, ...policy.tokenHashes])) {
+            res.setHeader('WWW-Authenticate', 'Bearer realm="docs4ai"');
+            res.status(401).json({ error: 'Missing or invalid access token' });
+            return;
+        }
+
+        next();
+    };
+}
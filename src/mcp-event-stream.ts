@@ -0,0 +1,91 @@
+import type { Response } from 'express';
+
+const MAX_BUFFERED_EVENTS = 200; // Events kept per session for Last-Event-ID replay
+
+interface BufferedEvent {
+    id: number;
+    data: string;
+}
+
+/**
+ * Server-to-client SSE channel for one MCP session.
+ * Every message gets a monotonically increasing event ID and is kept in a bounded
+ * buffer, so a client reconnecting with Last-Event-ID receives what it missed.
+ */
+export class McpEventStream {
+    private clients: Set<Response> = new Set();
+    private buffer: BufferedEvent[] = [];
+    private nextEventId = 1;
+
+    /**
+     * Attach an HTTP response as an SSE client, replaying events after lastEventId
+     */
+    attach(res: Response, lastEventId?: string, preamble?: { event: string; data: string }): void {
+        res.status(200);
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache, no-transform');
+        res.setHeader('Connection', 'keep-alive');
+        res.setHeader('X-Accel-Buffering', 'no');
+        res.flushHeaders();
+
+        if (preamble) {
+            res.write(`event: ${preamble.event}\ndata: ${preamble.data}\n\n`);
+        }
+
+        const lastId = lastEventId ? parseInt(lastEventId, 10) : NaN;
+        if (!Number.isNaN(lastId)) {
+            for (const event of this.buffer) {
+                if (event.id > lastId) {
+                    this.writeEvent(res, event);
+                }
+            }
+        }
+
+        this.clients.add(res);
+        res.on('close', () => {
+            this.clients.delete(res);
+        });
+    }
+
+    /**
+     * Send a JSON-RPC message to every connected client (buffered for replay)
+     */
+    send(message: object): void {
+        const event: BufferedEvent = {
+            id: this.nextEventId++,
+            data: JSON.stringify(message)
+        };
+        this.buffer.push(event);
+        if (this.buffer.length > MAX_BUFFERED_EVENTS) {
+            this.buffer.splice(0, this.buffer.length - MAX_BUFFERED_EVENTS);
+        }
+
+        for (const client of this.clients) {
+            this.writeEvent(client, event);
+        }
+    }
+
+    /**
+     * Write an SSE comment to keep idle connections (and proxies) from timing out
+     */
+    ping(): void {
+        for (const client of this.clients) {
+            client.write(': ping\n\n');
+        }
+    }
+
+    hasClients(): boolean {
+        return this.clients.size > 0;
+    }
+
+    close(): void {
+        for (const client of this.clients) {
+            client.end();
+        }
+        this.clients.clear();
+    }
+
+    private writeEvent(res: Response, event: BufferedEvent): void {
+        res.write(`id: ${event.id}\nevent: message\ndata: ${event.data}\n\n`);
+    }
+}
@@ -0,0 +1,136 @@
+import { buildFileResourceUri, McpResourceContents } from './mcp-resources';
+
+export interface McpPromptArgument {
+    name: string;
+    description: string;
+    required: boolean;
+}
+
+export interface McpPrompt {
+    name: string;
+    description: string;
+    arguments: McpPromptArgument[];
+}
+
+export type McpPromptContent =
+    | { type: 'text'; text: string }
+    | { type: 'resource'; resource: McpResourceContents };
+
+export interface McpPromptMessage {
+    role: 'user' | 'assistant';
+    content: McpPromptContent;
+}
+
+export class PromptArgumentError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PromptArgumentError';
+    }
+}
+
+// Built-in prompt templates exposed through prompts/list
+export const MCP_PROMPTS: McpPrompt[] = [
+    {
+        name: 'answer_with_citations',
+        description: 'Answer a question using only the synced documents, citing the file and section of every source.',
+        arguments: [
+            { name: 'question', description: 'The question to answer', required: true }
+        ]
+    },
+    {
+        name: 'summarize_document',
+        description: 'Summarize a single synced document. The document text is embedded in the prompt.',
+        arguments: [
+            { name: 'file_path', description: 'The tracked file path of the document to summarize', required: true }
+        ]
+    },
+    {
+        name: 'find_related_documents',
+        description: 'List the synced documents that are most relevant to a topic, with a one-line reason for each.',
+        arguments: [
+            { name: 'topic', description: 'The topic to look for', required: true }
+        ]
+    }
+];
+
+function requireArgument(args: Record<string, string> | undefined, name: string): string {
+    const value = args?.[name];
+    if (!value || !String(value).trim()) {
+        throw new PromptArgumentError(`Missing required argument: ${name}`);
+    }
+    return String(value).trim();
+}
+
+/**
+ * Render a built-in prompt. readResource is used to embed document text for prompts that need it.
+ */
+export function getPrompt(
+    name: string,
+    args: Record<string, string> | undefined,
+    readResource: (uri: string) => McpResourceContents
+): { description: string; messages: McpPromptMessage[] } {
+    const prompt = MCP_PROMPTS.find(p => p.name === name);
+    if (!prompt) {
+        throw new PromptArgumentError(`Unknown prompt: ${name}`);
+    }
+
+    switch (prompt.name) {
+        case 'answer_with_citations': {
+            const question = requireArgument(args, 'question');
+            return {
+                description: prompt.description,
+                messages: [{
+                    role: 'user',
+                    content: {
+                        type: 'text',
+                        text: 'Answer the question below using only the documents indexed in Docs4ai.\n' +
+                            '- Search with the query_documents tool; use get_chunks to read surrounding chunks when a result is cut off.\n' +
+                            '- Cite every claim as [File § Section] using the File and Section fields of the results.\n' +
+                            '- If the documents do not contain the answer, say so instead of guessing.\n\n' +
+                            `Question: ${question}`
+                    }
+                }]
+            };
+        }
+
+        case 'summarize_document': {
+            const filePath = requireArgument(args, 'file_path');
+            const resource = readResource(buildFileResourceUri(filePath));
+            return {
+                description: prompt.description,
+                messages: [
+                    {
+                        role: 'user',
+                        content: { type: 'resource', resource }
+                    },
+                    {
+                        role: 'user',
+                        content: {
+                            type: 'text',
+                            text: `Summarize the document "${filePath}" above. Start with a one-paragraph overview, then list its main sections with their key points.`
+                        }
+                    }
+                ]
+            };
+        }
+
+        case 'find_related_documents': {
+            const topic = requireArgument(args, 'topic');
+            return {
+                description: prompt.description,
+                messages: [{
+                    role: 'user',
+                    content: {
+                        type: 'text',
+                        text: `Find the documents in Docs4ai that are most relevant to: ${topic}\n\n` +
+                            'Run query_documents with a few different phrasings of the topic, group the results by File, ' +
+                            'and list each document once with a one-line explanation of why it is relevant.'
+                    }
+                }]
+            };
+        }
+
+        default:
+            throw new PromptArgumentError(`Unknown prompt: ${name}`);
+    }
+}
@@ -0,0 +1,134 @@
+import type Database from 'better-sqlite3';
+
+export const FILE_RESOURCE_PREFIX = 'docs4ai://file/';
+export const CHUNK_RESOURCE_PREFIX = 'docs4ai://chunk/';
+
+const RESOURCE_PAGE_SIZE = 100;
+const RESOURCE_MIME_TYPE = 'text/markdown';
+
+export interface McpResource {
+    uri: string;
+    name: string;
+    description?: string;
+    mimeType?: string;
+}
+
+export interface McpResourceTemplate {
+    uriTemplate: string;
+    name: string;
+    description: string;
+    mimeType: string;
+}
+
+export interface McpResourceContents {
+    uri: string;
+    mimeType: string;
+    text: string;
+}
+
+export class ResourceNotFoundError extends Error {
+    constructor(uri: string) {
+        super(`Resource not found: ${uri}`);
+        this.name = 'ResourceNotFoundError';
+    }
+}
+
+export const RESOURCE_TEMPLATES: McpResourceTemplate[] = [
+    {
+        uriTemplate: `${FILE_RESOURCE_PREFIX}{path}`,
+        name: 'Document',
+        description: 'Full text of a synced document, reassembled from its chunks. The path is the URL-encoded tracked file path.',
+        mimeType: RESOURCE_MIME_TYPE
+    },
+    {
+        uriTemplate: `${CHUNK_RESOURCE_PREFIX}{chunk_id}`,
+        name: 'Document chunk',
+        description: 'A single indexed chunk, as returned by query_documents and get_chunks.',
+        mimeType: RESOURCE_MIME_TYPE
+    }
+];
+
+export function buildFileResourceUri(filePath: string): string {
+    return `${FILE_RESOURCE_PREFIX}${encodeURIComponent(filePath)}`;
+}
+
+export function buildChunkResourceUri(chunkId: string): string {
+    return `${CHUNK_RESOURCE_PREFIX}${encodeURIComponent(chunkId)}`;
+}
+
+/**
+ * List tracked files as MCP resources, paginated with an opaque offset cursor
+ */
+export function listResources(db: Database.Database, cursor?: string): { resources: McpResource[]; nextCursor?: string } {
+    const offset = cursor ? Math.max(parseInt(cursor, 10) || 0, 0) : 0;
+    const rows = db.prepare(`
+        SELECT path, display_path, chunk_count, modified_at
+        FROM files
+        ORDER BY path
+        LIMIT ? OFFSET ?
+    `).all(RESOURCE_PAGE_SIZE + 1, offset) as { path: string; display_path: string | null; chunk_count: number; modified_at: string }[];
+
+    const page = rows.slice(0, RESOURCE_PAGE_SIZE);
+    const resources = page.map(row => ({
+        uri: buildFileResourceUri(row.path),
+        name: row.display_path || row.path,
+        description: `${row.chunk_count} chunk(s), last synced ${row.modified_at}`,
+        mimeType: RESOURCE_MIME_TYPE
+    }));
+
+    return rows.length > RESOURCE_PAGE_SIZE
+        ? { resources, nextCursor: String(offset + RESOURCE_PAGE_SIZE) }
+        : { resources };
+}
+
+// A malformed escape such as %E0 can't name any file or chunk
+function decodeResourceId(uri: string, prefix: string): string {
+    try {
+        return decodeURIComponent(uri.slice(prefix.length));
+    } catch (error) {
+        if (error instanceof URIError) {
+            throw new ResourceNotFoundError(uri);
+        }
+        throw error;
+    }
+}
+
+export function readResource(db: Database.Database, uri: string): McpResourceContents {
+    if (uri.startsWith(FILE_RESOURCE_PREFIX)) {
+        const filePath = decodeResourceId(uri, FILE_RESOURCE_PREFIX);
+        const file = db.prepare('SELECT path, source_url FROM files WHERE path = ?').get(filePath) as { path: string; source_url: string | null } | undefined;
+        if (!file) {
+            throw new ResourceNotFoundError(uri);
+        }
+
+        const url = file.source_url || `file://${file.path}`;
+        const chunks = db.prepare(`
+            SELECT content
+            FROM vec_items
+            WHERE url = ?
+            ORDER BY chunk_index
+        `).all(url) as { content: string }[];
+
+        return {
+            uri,
+            mimeType: RESOURCE_MIME_TYPE,
+            text: chunks.map(chunk => chunk.content).join('\n\n')
+        };
+    }
+
+    if (uri.startsWith(CHUNK_RESOURCE_PREFIX)) {
+        const chunkId = decodeResourceId(uri, CHUNK_RESOURCE_PREFIX);
+        const chunk = db.prepare('SELECT content FROM vec_items WHERE chunk_id = ?').get(chunkId) as { content: string } | undefined;
+        if (!chunk) {
+            throw new ResourceNotFoundError(uri);
+        }
+
+        return {
+            uri,
+            mimeType: RESOURCE_MIME_TYPE,
+            text: chunk.content
+        };
+    }
+
+    throw new ResourceNotFoundError(uri);
+}
@@ -3,26 +3,38 @@ import { Server } from 'http';
 import Database from 'better-sqlite3';
 import { loadSqliteVec } from "./sqliteVec";
 import { randomUUID } from 'crypto';
-import { EmbeddingService, EmbeddingProvider } from './embeddings';
+import { EmbeddingService, EmbeddingProvider, EmbeddingOptions, getEmbeddingModelId, getEmbeddingProviderInfo } from './embeddings';
 import { MapService } from './map-service';
 import { createMapRouter } from './map-routes';
 import { createSearchRouter } from './search-routes';
+import { buildFileResourceUri, listResources, readResource, RESOURCE_TEMPLATES, ResourceNotFoundError } from './mcp-resources';
+import { getPrompt, MCP_PROMPTS, PromptArgumentError } from './mcp-prompts';
+import { McpEventStream } from './mcp-event-stream';
+import { DEFAULT_RERANK_TOP_N, normalizeRerankTopN, RerankOptions, RerankService } from './reranker';
+import { buildSearchScope, parseSearchFilters, SEARCH_FILTER_PROPERTIES, SearchFilterError, SearchFilters } from './search-filters';
+import { createAccessControl, DEFAULT_BIND_ADDRESS, generateAccessToken, hashAccessToken, McpAccessPolicy } from './mcp-auth';
 
 // Configuration constants
 const EMBEDDING_TIMEOUT_MS = 30000; // 30 second timeout for embedding generation
 const SESSION_EXPIRY_MS = 30 * 60 * 1000; // 30 minutes
 const SESSION_CLEANUP_INTERVAL_MS = 5 * 60 * 1000; // Clean up every 5 minutes
 const MAX_SESSIONS = 1000; // Maximum number of concurrent sessions
+const SSE_HEARTBEAT_INTERVAL_MS = 25000; // Keep-alive comment on open SSE streams
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-03-26', '2024-11-05']; // Newest first
 
 interface SessionData {
     createdAt: number;
     lastAccessedAt: number;
+    events: McpEventStream;
+    subscriptions: Set<string>; // Resource URIs that get notifications/resources/updated
+    legacySse?: boolean; // Opened through the 2024-11-05 HTTP+SSE transport
 }
 
 interface QueryResult {
     chunk_id: string;
     distance: number | null;
     rrf_score: number;
+    rerank_score?: number;
     match_type?: 'semantic' | 'keyword' | 'hybrid';
     content: string;
     url: string;
@@ -30,6 +42,9 @@ interface QueryResult {
     heading_hierarchy: string;
     chunk_index: number;
     total_chunks: number;
+    page_start: number | null;
+    page_end: number | null;
+    slide: number | null;
 }
 
 interface ChunkResult {
@@ -39,6 +54,9 @@ interface ChunkResult {
     heading_hierarchy: string;
     chunk_index: number;
     total_chunks: number;
+    page_start: number | null;
+    page_end: number | null;
+    slide: number | null;
 }
 
 interface JsonRpcRequest {
@@ -48,6 +66,36 @@ interface JsonRpcRequest {
     params?: any;
 }
 
+interface JsonRpcResponse {
+    jsonrpc: '2.0';
+    id: string | number | null;
+    result?: any;
+    error?: { code: number; message: string; data?: any };
+}
+
+const RERANK_PROPERTY = {
+    type: 'boolean',
+    description: 'Re-score the top fused results with a reranker model for better precision (slower). Defaults to the profile setting.'
+};
+
+// "Page: 12", "Pages: 12-13" or "Slide: 4" line for chunks of PDF, DOCX and PPTX files
+function formatChunkLocation(chunk: { page_start: number | null; page_end: number | null; slide: number | null }): string {
+    if (chunk.slide !== null) {
+        return `Slide: ${chunk.slide}\n`;
+    }
+    if (chunk.page_start === null) {
+        return '';
+    }
+    return chunk.page_end !== null && chunk.page_end !== chunk.page_start
+        ? `Pages: ${chunk.page_start}-${chunk.page_end}\n`
+        : `Page: ${chunk.page_start}\n`;
+}
+
+// Chunks are stored under file:// urls for local files; get_chunks also takes their plain (or virtual) path
+function toChunkUrl(filePath: string): string {
+    return /^[a-z][a-z0-9+.-]*:\/\//i.test(filePath) ? filePath : `file://${filePath}`;
+}
+
 function buildFtsQuery(text: string): { query: string; termCount: number } {
     const cleaned = text.replace(/[^\p{L}\p{N}\s]/gu, ' ');
     const words = cleaned.trim().split(/\s+/).filter(Boolean);
@@ -67,11 +115,18 @@ export class McpServer {
     private db: Database.Database | null = null; // Cached database connection
     private openaiApiKey: string | null = null;
     private embeddingProvider: EmbeddingProvider = 'local';
+    private embeddingOptions: EmbeddingOptions = {};
     private embeddingService: EmbeddingService | null = null;
     private embeddingContextLength: number = 2048;
+    private rerankOptions: RerankOptions = { enabled: false, provider: 'local', topN: DEFAULT_RERANK_TOP_N };
+    private rerankService: RerankService | null = null;
     private port: number;
+    private bindAddress: string = DEFAULT_BIND_ADDRESS;
+    private accessPolicy: McpAccessPolicy = { requireToken: false, tokenHashes: [], allowedOrigins: [] };
+    private internalToken: string = generateAccessToken(); // Used by the app itself; never persisted
     private sessions: Map<string, SessionData> = new Map();
     private sessionCleanupInterval: NodeJS.Timeout | null = null;
+    private heartbeatInterval: NodeJS.Timeout | null = null;
     private onCostUpdate: ((tokens: number, cost: number) => void) | null = null;
     private isStopping = false; // Prevent multiple concurrent stop calls
     private stopPromise: Promise<void> | null = null;
@@ -82,17 +137,8 @@ export class McpServer {
         this.embeddingContextLength = embeddingContextLength ?? 8192;
         this.mapService = new MapService();
         this.app = express();
+        this.app.use(createAccessControl(() => this.accessPolicy, hashAccessToken(this.internalToken), () => this.bindAddress));
         this.app.use(express.json());
-        this.app.use((_req, res, next) => {
-            res.setHeader('Access-Control-Allow-Origin', '*');
-            res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-            res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-            if (_req.method === 'OPTIONS') {
-                res.sendStatus(204);
-                return;
-            }
-            next();
-        });
         this.app.use(createMapRouter({
             getDatabase: () => this.getDatabase(),
             mapService: this.mapService,
@@ -104,7 +150,8 @@ export class McpServer {
             hasDatabase: () => Boolean(this.dbPath),
             hasOpenAiKey: () => Boolean(this.openaiApiKey),
             isOpenAiProvider: () => this.embeddingProvider === 'openai',
-            queryDatabase: (queryText: string, limit: number) => this.queryDatabase(queryText, limit)
+            queryDatabase: (queryText: string, limit: number, filters?: SearchFilters, rerank?: boolean) =>
+                this.queryDatabase(queryText, limit, filters, rerank)
         }));
         this.setupRoutes();
         this.startSessionCleanup();
@@ -150,6 +197,13 @@ export class McpServer {
             this.cleanupExpiredSessions();
         }, SESSION_CLEANUP_INTERVAL_MS);
         this.sessionCleanupInterval.unref();
+
+        this.heartbeatInterval = setInterval(() => {
+            for (const session of this.sessions.values()) {
+                session.events.ping();
+            }
+        }, SSE_HEARTBEAT_INTERVAL_MS);
+        this.heartbeatInterval.unref();
     }
 
     /**
@@ -160,6 +214,10 @@ export class McpServer {
             clearInterval(this.sessionCleanupInterval);
             this.sessionCleanupInterval = null;
         }
+        if (this.heartbeatInterval) {
+            clearInterval(this.heartbeatInterval);
+            this.heartbeatInterval = null;
+        }
     }
 
     /**
@@ -170,7 +228,13 @@ export class McpServer {
         let expiredCount = 0;
 
         for (const [sessionId, data] of this.sessions) {
+            // Sessions with an open SSE stream stay alive until the client disconnects
+            if (data.events.hasClients()) {
+                data.lastAccessedAt = now;
+                continue;
+            }
             if (now - data.lastAccessedAt > SESSION_EXPIRY_MS) {
+                data.events.close();
                 this.sessions.delete(sessionId);
                 expiredCount++;
             }
@@ -203,13 +267,16 @@ export class McpServer {
                     }
                 }
                 if (oldestId) {
+                    this.sessions.get(oldestId)?.events.close();
                     this.sessions.delete(oldestId);
                 }
             }
 
             this.sessions.set(sessionId, {
                 createdAt: now,
-                lastAccessedAt: now
+                lastAccessedAt: now,
+                events: new McpEventStream(),
+                subscriptions: new Set()
             });
         }
     }
@@ -241,11 +308,13 @@ export class McpServer {
             return this.embeddingService;
         }
 
-        if (this.embeddingProvider === 'openai' && this.openaiApiKey) {
-            this.embeddingService = new EmbeddingService('openai', this.openaiApiKey, this.embeddingContextLength);
+        if (getEmbeddingProviderInfo(this.embeddingProvider).backend === 'openai') {
+            this.embeddingService = new EmbeddingService(
+                this.embeddingProvider, this.openaiApiKey || undefined, this.embeddingContextLength, this.embeddingOptions
+            );
         } else {
             // Use the specified local model
-            this.embeddingService = new EmbeddingService(this.embeddingProvider, undefined, this.embeddingContextLength);
+            this.embeddingService = new EmbeddingService(this.embeddingProvider, undefined, this.embeddingContextLength, this.embeddingOptions);
             await this.embeddingService.validateApiKey(); // Ensures model is loaded
         }
 
@@ -279,7 +348,9 @@ export class McpServer {
                                 type: 'number',
                                 description: 'Maximum number of results to return (1-20). Defaults to 5.',
                                 default: 5
-                            }
+                            },
+                            ...SEARCH_FILTER_PROPERTIES,
+                            rerank: RERANK_PROPERTY
                         },
                         required: ['query']
                     }
@@ -293,297 +364,539 @@ export class McpServer {
 
         // MCP Streamable HTTP endpoint - proper JSON-RPC handling
         this.app.post('/mcp', async (req: Request, res: Response) => {
-            try {
-                const request = req.body as JsonRpcRequest;
-                const { jsonrpc, id, method, params } = request;
+            const request = req.body as JsonRpcRequest;
 
-                // Get or create session
-                let sessionId = req.headers['mcp-session-id'] as string;
-                if (!sessionId && method === 'initialize') {
-                    sessionId = randomUUID();
-                }
+            // Get or create session
+            let sessionId = req.headers['mcp-session-id'] as string;
+            if (!sessionId && request?.method === 'initialize') {
+                sessionId = randomUUID();
+            }
 
-                // Touch session to track activity
-                if (sessionId) {
-                    this.touchSession(sessionId);
-                    res.setHeader('mcp-session-id', sessionId);
-                }
+            // Touch session to track activity
+            if (sessionId) {
+                this.touchSession(sessionId);
+                res.setHeader('mcp-session-id', sessionId);
+            }
 
-                console.log(`MCP Request: ${method}`, params ? JSON.stringify(params).substring(0, 100) : '');
+            const response = await this.handleJsonRpc(request, sessionId);
+            if (!response) {
+                // Notifications and client responses are acknowledged without a body
+                res.status(202).send();
+                return;
+            }
+            res.json(response);
+        });
 
-                // Handle MCP methods
-                switch (method) {
-                    case 'initialize':
-                        res.json({
-                            jsonrpc: '2.0',
-                            id,
-                            result: {
-                                protocolVersion: '2024-11-05',
-                                capabilities: {
-                                    tools: {}
-                                },
-                                serverInfo: {
-                                    name: 'docs4ai',
-                                    version: '1.0.0'
-                                }
-                            }
-                        });
-                        return;
+        // Streamable HTTP: server-to-client SSE stream for notifications
+        this.app.get('/mcp', (req: Request, res: Response) => {
+            const accept = req.headers['accept'] || '';
+            if (!accept.includes('text/event-stream')) {
+                res.status(406).json({ error: 'GET /mcp requires Accept: text/event-stream' });
+                return;
+            }
 
-                    case 'notifications/initialized':
-                        // Client acknowledged initialization - no response needed for notifications
-                        res.status(204).send();
-                        return;
+            const sessionId = req.headers['mcp-session-id'] as string;
+            if (!sessionId) {
+                res.status(400).json({ error: 'Mcp-Session-Id header is required. Send an initialize request first.' });
+                return;
+            }
 
-                    case 'tools/list':
-                        res.json({
-                            jsonrpc: '2.0',
-                            id,
-                            result: {
-                                tools: [
-                                    {
-                                        name: 'query_documents',
-                                        description: 'Search through synced documents using hybrid search (semantic vectors + keyword FTS5). Returns relevant document chunks with their chunk_index and total_chunks so you can retrieve additional chunks from the same document using get_chunks.',
-                                        inputSchema: {
-                                            type: 'object',
-                                            properties: {
-                                                query: { 
-                                                    type: 'string', 
-                                                    description: 'The natural language search query' 
-                                                },
-                                                limit: { 
-                                                    type: 'number', 
-                                                    description: 'Maximum number of results to return (1-20)',
-                                                    default: 5
-                                                }
+            const session = this.sessions.get(sessionId);
+            if (!session) {
+                res.status(404).json({ error: 'Session not found or expired. Send a new initialize request.' });
+                return;
+            }
+
+            this.touchSession(sessionId);
+            res.setHeader('mcp-session-id', sessionId);
+            session.events.attach(res, req.headers['last-event-id'] as string | undefined);
+            console.log(`MCP Server: SSE stream opened for session ${sessionId}`);
+        });
+
+        // Streamable HTTP: explicit session termination
+        this.app.delete('/mcp', (req: Request, res: Response) => {
+            const sessionId = req.headers['mcp-session-id'] as string;
+            const session = sessionId ? this.sessions.get(sessionId) : undefined;
+            if (!session) {
+                res.status(404).json({ error: 'Session not found' });
+                return;
+            }
+            session.events.close();
+            this.sessions.delete(sessionId);
+            res.status(204).send();
+        });
+
+        // Legacy HTTP+SSE transport (protocol 2024-11-05) for clients that only speak SSE
+        this.app.get('/sse', (_req: Request, res: Response) => {
+            const sessionId = randomUUID();
+            this.touchSession(sessionId);
+            const session = this.sessions.get(sessionId)!;
+            session.legacySse = true;
+            session.events.attach(res, undefined, {
+                event: 'endpoint',
+                data: `/messages?sessionId=${sessionId}`
+            });
+            res.on('close', () => {
+                // Legacy sessions live exactly as long as their stream
+                this.sessions.delete(sessionId);
+            });
+            console.log(`MCP Server: Legacy SSE session opened ${sessionId}`);
+        });
+
+        this.app.post('/messages', async (req: Request, res: Response) => {
+            const sessionId = req.query.sessionId as string;
+            const session = sessionId ? this.sessions.get(sessionId) : undefined;
+            if (!session || !session.legacySse) {
+                res.status(404).json({ error: 'Session not found' });
+                return;
+            }
+
+            this.touchSession(sessionId);
+            res.status(202).send();
+
+            const response = await this.handleJsonRpc(req.body as JsonRpcRequest, sessionId);
+            if (response) {
+                session.events.send(response);
+            }
+        });
+    }
+
+    /**
+     * Handle one JSON-RPC message independent of transport.
+     * Returns null for notifications, which get no response.
+     */
+    async handleJsonRpc(request: JsonRpcRequest, sessionId?: string): Promise<JsonRpcResponse | null> {
+        const { id, method, params } = request || ({} as JsonRpcRequest);
+
+        if (!method) {
+            // Responses from the client (e.g. to pings) and malformed bodies
+            return id === undefined
+                ? null
+                : { jsonrpc: '2.0', id, error: { code: -32600, message: 'Invalid Request' } };
+        }
+
+        try {
+            console.log(`MCP Request: ${method}`, params ? JSON.stringify(params).substring(0, 100) : '');
+
+            if (id === undefined) {
+                // Client notifications such as notifications/initialized need no response
+                return null;
+            }
+
+            // Handle MCP methods
+            switch (method) {
+                case 'initialize':
+                    return {
+                        jsonrpc: '2.0',
+                        id,
+                        result: {
+                            protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(params?.protocolVersion)
+                                ? params.protocolVersion
+                                : SUPPORTED_PROTOCOL_VERSIONS[0],
+                            capabilities: {
+                                tools: { listChanged: true },
+                                resources: { subscribe: true, listChanged: true },
+                                prompts: {}
+                            },
+                            serverInfo: {
+                                name: 'docs4ai',
+                                version: '1.0.0'
+                            }
+                        }
+                    };
+
+                case 'ping':
+                    return { jsonrpc: '2.0', id, result: {} };
+
+                case 'tools/list':
+                    return {
+                        jsonrpc: '2.0',
+                        id,
+                        result: {
+                            tools: [
+                                {
+                                    name: 'query_documents',
+                                    description: 'Search through synced documents using hybrid search (semantic vectors + keyword FTS5). Returns relevant document chunks with their chunk_index and total_chunks so you can retrieve additional chunks from the same document using get_chunks. Chunks of PDF, Word and PowerPoint files also give the page(s) or slide they come from, for citations.',
+                                    inputSchema: {
+                                        type: 'object',
+                                        properties: {
+                                            query: { 
+                                                type: 'string', 
+                                                description: 'The natural language search query' 
                                             },
-                                            required: ['query']
-                                        }
-                                    },
-                                    {
-                                        name: 'get_chunks',
-                                        description: 'Retrieve a range of chunks from a document by file path. Use this to get more context from a document after finding it with query_documents. Chunks are 0-indexed. If startIndex and endIndex are not provided, all chunks are returned.',
-                                        inputSchema: {
-                                            type: 'object',
-                                            properties: {
-                                                file_path: {
-                                                    type: 'string',
-                                                    description: 'The file path (url) of the document to retrieve chunks from'
-                                                },
-                                                startIndex: {
-                                                    type: 'number',
-                                                    description: 'The starting chunk index (0-based, inclusive). If not provided, starts from the first chunk (index 0).'
-                                                },
-                                                endIndex: {
-                                                    type: 'number',
-                                                    description: 'The ending chunk index (0-based, inclusive). If not provided, retrieves all chunks from startIndex to the end.'
-                                                }
+                                            limit: { 
+                                                type: 'number', 
+                                                description: 'Maximum number of results to return (1-20)',
+                                                default: 5
                                             },
-                                            required: ['file_path']
-                                        }
+                                            ...SEARCH_FILTER_PROPERTIES,
+                                            rerank: RERANK_PROPERTY
+                                        },
+                                        required: ['query']
                                     }
-                                ]
-                            }
-                        });
-                        return;
-
-                    case 'tools/call':
-                        const { name, arguments: args } = params || {};
-                        
-                        if (name === 'query_documents') {
-                            if (!this.dbPath) {
-                                res.json({
-                                    jsonrpc: '2.0',
-                                    id,
-                                    result: {
-                                        content: [{ type: 'text', text: 'Error: Database not configured in Docs4ai app. Please configure it in the app settings.' }],
-                                        isError: true
+                                },
+                                {
+                                    name: 'get_chunks',
+                                    description: 'Retrieve a range of chunks from a document by file path. Use this to get more context from a document after finding it with query_documents. Chunks are 0-indexed. If startIndex and endIndex are not provided, all chunks are returned.',
+                                    inputSchema: {
+                                        type: 'object',
+                                        properties: {
+                                            file_path: {
+                                                type: 'string',
+                                                description: 'The file path (url) of the document to retrieve chunks from, as shown by query_documents. Local paths are accepted too, including files inside archives ("/docs/bundle.zip!/guide/intro.md").'
+                                            },
+                                            startIndex: {
+                                                type: 'number',
+                                                description: 'The starting chunk index (0-based, inclusive). If not provided, starts from the first chunk (index 0).'
+                                            },
+                                            endIndex: {
+                                                type: 'number',
+                                                description: 'The ending chunk index (0-based, inclusive). If not provided, retrieves all chunks from startIndex to the end.'
+                                            }
+                                        },
+                                        required: ['file_path']
                                     }
-                                });
-                                return;
-                            }
+                                }
+                            ]
+                        }
+                    };
+
+                case 'tools/call': {
+                    const { name, arguments: args } = params || {};
+                    
+                    if (name === 'query_documents') {
+                        if (!this.dbPath) {
+                            return this.toolError(id, 'Error: Database not configured in Docs4ai app. Please configure it in the app settings.');
+                        }
 
-                            // Check if we need API key (only for OpenAI)
-                            if (this.embeddingProvider === 'openai' && !this.openaiApiKey) {
-                                res.json({
-                                    jsonrpc: '2.0',
-                                    id,
-                                    result: {
-                                        content: [{ type: 'text', text: 'Error: OpenAI API key not configured. Please add your API key in the app or switch to local embeddings.' }],
-                                        isError: true
-                                    }
-                                });
-                                return;
+                        // Check if we need API key (only for OpenAI)
+                        if (this.embeddingProvider === 'openai' && !this.openaiApiKey) {
+                            return this.toolError(id, 'Error: OpenAI API key not configured. Please add your API key in the app or switch to local embeddings.');
+                        }
+
+                        const query = args?.query || args?.queryText || '';
+                        if (!query) {
+                            return this.toolError(id, 'Error: query parameter is required');
+                        }
+
+                        let filters: SearchFilters;
+                        try {
+                            filters = parseSearchFilters(args);
+                        } catch (filterError) {
+                            if (filterError instanceof SearchFilterError) {
+                                return this.toolError(id, `Error: ${filterError.message}`);
                             }
+                            throw filterError;
+                        }
 
-                            const query = args?.query || args?.queryText || '';
-                            if (!query) {
-                                res.json({
+                        try {
+                            const rerank = typeof args?.rerank === 'boolean' ? args.rerank : undefined;
+                            const results = await this.queryDatabase(query, Math.min(args?.limit || 5, 20), filters, rerank);
+                            
+                            if (results.length === 0) {
+                                return {
                                     jsonrpc: '2.0',
                                     id,
                                     result: {
-                                        content: [{ type: 'text', text: 'Error: query parameter is required' }],
-                                        isError: true
+                                        content: [{ type: 'text', text: `No results found for "${query}"` }]
                                     }
-                                });
-                                return;
+                                };
                             }
 
-                            try {
-                                const results = await this.queryDatabase(query, Math.min(args?.limit || 5, 20));
-                                
-                                if (results.length === 0) {
-                                    res.json({
-                                        jsonrpc: '2.0',
-                                        id,
-                                        result: {
-                                            content: [{ type: 'text', text: `No results found for "${query}"` }]
-                                        }
-                                    });
-                                    return;
+                            const formatted = results.map((r, i) => {
+                                const distance = r.distance === null ? 'n/a' : r.distance.toFixed(4);
+                                const matchType = r.match_type || 'semantic';
+                                const rerankScore = r.rerank_score === undefined ? '' : `, rerank: ${r.rerank_score.toFixed(4)}`;
+                                return `**Result ${i + 1}** (rrf: ${r.rrf_score.toFixed(4)}${rerankScore}, distance: ${distance}, match: ${matchType})\n` +
+                                `File: ${r.url}\n` +
+                                `Section: ${r.section}\n` +
+                                formatChunkLocation(r) +
+                                `Chunk: ${r.chunk_index + 1} of ${r.total_chunks}\n` +
+                                `${r.content}\n` +
+                                `---`;
+                            }).join('\n\n');
+
+                            return {
+                                jsonrpc: '2.0',
+                                id,
+                                result: {
+                                    content: [{ type: 'text', text: `Found ${results.length} results for "${query}":\n\n${formatted}` }]
                                 }
+                            };
+                        } catch (queryError: any) {
+                            return this.toolError(id, `Error querying database: ${queryError.message}`);
+                        }
+                    }
 
-                                const formatted = results.map((r, i) => {
-                                    const distance = r.distance === null ? 'n/a' : r.distance.toFixed(4);
-                                    const matchType = r.match_type || 'semantic';
-                                    return `**Result ${i + 1}** (rrf: ${r.rrf_score.toFixed(4)}, distance: ${distance}, match: ${matchType})\n` +
-                                    `File: ${r.url}\n` +
-                                    `Section: ${r.section}\n` +
-                                    `Chunk: ${r.chunk_index + 1} of ${r.total_chunks}\n` +
-                                    `${r.content}\n` +
-                                    `---`;
-                                }).join('\n\n');
-
-                                res.json({
-                                    jsonrpc: '2.0',
-                                    id,
-                                    result: {
-                                        content: [{ type: 'text', text: `Found ${results.length} results for "${query}":\n\n${formatted}` }]
-                                    }
-                                });
-                                return;
-                            } catch (queryError: any) {
-                                res.json({
-                                    jsonrpc: '2.0',
-                                    id,
-                                    result: {
-                                        content: [{ type: 'text', text: `Error querying database: ${queryError.message}` }],
-                                        isError: true
-                                    }
-                                });
-                                return;
-                            }
+                    if (name === 'get_chunks') {
+                        if (!this.dbPath) {
+                            return this.toolError(id, 'Error: Database not configured in Docs4ai app.');
                         }
 
-                        if (name === 'get_chunks') {
-                            if (!this.dbPath) {
-                                res.json({
-                                    jsonrpc: '2.0',
-                                    id,
-                                    result: {
-                                        content: [{ type: 'text', text: 'Error: Database not configured in Docs4ai app.' }],
-                                        isError: true
-                                    }
-                                });
-                                return;
-                            }
+                        const filePath = args?.file_path || '';
+                        if (!filePath) {
+                            return this.toolError(id, 'Error: file_path parameter is required');
+                        }
 
-                            const filePath = args?.file_path || '';
-                            if (!filePath) {
-                                res.json({
+                        try {
+                            const chunks = this.getChunksForFile(filePath, args?.startIndex, args?.endIndex);
+                            
+                            if (chunks.length === 0) {
+                                return {
                                     jsonrpc: '2.0',
                                     id,
                                     result: {
-                                        content: [{ type: 'text', text: 'Error: file_path parameter is required' }],
-                                        isError: true
+                                        content: [{ type: 'text', text: `No chunks found for file: ${filePath}` }]
                                     }
-                                });
-                                return;
+                                };
                             }
 
-                            try {
-                                const chunks = this.getChunksForFile(filePath, args?.startIndex, args?.endIndex);
-                                
-                                if (chunks.length === 0) {
-                                    res.json({
-                                        jsonrpc: '2.0',
-                                        id,
-                                        result: {
-                                            content: [{ type: 'text', text: `No chunks found for file: ${filePath}` }]
-                                        }
-                                    });
-                                    return;
+                            this.trackReadForUrl(sessionId, filePath);
+
+                            const formatted = chunks.map((c) => 
+                                `**Chunk ${c.chunk_index + 1} of ${c.total_chunks}**\n` +
+                                `Section: ${c.section}\n` +
+                                formatChunkLocation(c) +
+                                `${c.content}\n` +
+                                `---`
+                            ).join('\n\n');
+
+                            return {
+                                jsonrpc: '2.0',
+                                id,
+                                result: {
+                                    content: [{ type: 'text', text: `Retrieved ${chunks.length} chunk(s) from "${filePath}":\n\n${formatted}` }]
                                 }
+                            };
+                        } catch (chunkError: any) {
+                            return this.toolError(id, `Error retrieving chunks: ${chunkError.message}`);
+                        }
+                    }
 
-                                const formatted = chunks.map((c) => 
-                                    `**Chunk ${c.chunk_index + 1} of ${c.total_chunks}**\n` +
-                                    `Section: ${c.section}\n` +
-                                    `${c.content}\n` +
-                                    `---`
-                                ).join('\n\n');
-
-                                res.json({
-                                    jsonrpc: '2.0',
-                                    id,
-                                    result: {
-                                        content: [{ type: 'text', text: `Retrieved ${chunks.length} chunk(s) from "${filePath}":\n\n${formatted}` }]
-                                    }
-                                });
-                                return;
-                            } catch (chunkError: any) {
-                                res.json({
-                                    jsonrpc: '2.0',
-                                    id,
-                                    result: {
-                                        content: [{ type: 'text', text: `Error retrieving chunks: ${chunkError.message}` }],
-                                        isError: true
-                                    }
-                                });
-                                return;
-                            }
+                    return {
+                        jsonrpc: '2.0',
+                        id,
+                        error: {
+                            code: -32601,
+                            message: `Unknown tool: ${name}`
                         }
+                    };
+                }
 
-                        res.json({
+                case 'resources/list':
+                    if (!this.dbPath) {
+                        return {
                             jsonrpc: '2.0',
                             id,
-                            error: {
-                                code: -32601,
-                                message: `Unknown tool: ${name}`
-                            }
-                        });
-                        return;
+                            error: { code: -32603, message: 'Database not configured in Docs4ai app.' }
+                        };
+                    }
+                    return {
+                        jsonrpc: '2.0',
+                        id,
+                        result: listResources(this.getDatabase(), params?.cursor)
+                    };
+
+                case 'resources/templates/list':
+                    return {
+                        jsonrpc: '2.0',
+                        id,
+                        result: { resourceTemplates: RESOURCE_TEMPLATES }
+                    };
+
+                case 'resources/read':
+                    if (!this.dbPath) {
+                        return {
+                            jsonrpc: '2.0',
+                            id,
+                            error: { code: -32603, message: 'Database not configured in Docs4ai app.' }
+                        };
+                    }
+                    if (!params?.uri) {
+                        return {
+                            jsonrpc: '2.0',
+                            id,
+                            error: { code: -32602, message: 'uri parameter is required' }
+                        };
+                    }
+                    try {
+                        const contents = readResource(this.getDatabase(), params.uri);
+                        this.trackRead(sessionId, params.uri);
+                        return {
+                            jsonrpc: '2.0',
+                            id,
+                            result: { contents: [contents] }
+                        };
+                    } catch (resourceError: any) {
+                        if (!(resourceError instanceof ResourceNotFoundError)) {
+                            throw resourceError;
+                        }
+                        return {
+                            jsonrpc: '2.0',
+                            id,
+                            error: { code: -32002, message: resourceError.message, data: { uri: params.uri } }
+                        };
+                    }
 
-                    default:
-                        res.json({
+                case 'resources/subscribe':
+                case 'resources/unsubscribe': {
+                    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+                    if (!session) {
+                        return {
                             jsonrpc: '2.0',
                             id,
-                            error: {
-                                code: -32601,
-                                message: `Method not found: ${method}`
+                            error: { code: -32600, message: 'Subscriptions require an MCP session' }
+                        };
+                    }
+                    if (!params?.uri) {
+                        return {
+                            jsonrpc: '2.0',
+                            id,
+                            error: { code: -32602, message: 'uri parameter is required' }
+                        };
+                    }
+                    if (method === 'resources/subscribe') {
+                        session.subscriptions.add(params.uri);
+                    } else {
+                        session.subscriptions.delete(params.uri);
+                    }
+                    return { jsonrpc: '2.0', id, result: {} };
+                }
+
+                case 'prompts/list':
+                    return {
+                        jsonrpc: '2.0',
+                        id,
+                        result: { prompts: MCP_PROMPTS }
+                    };
+
+                case 'prompts/get':
+                    try {
+                        const prompt = getPrompt(params?.name, params?.arguments, (uri) => {
+                            if (!this.dbPath) {
+                                throw new Error('Database not configured in Docs4ai app.');
                             }
+                            return readResource(this.getDatabase(), uri);
                         });
-                        return;
-                }
-            } catch (error: any) {
-                console.error('MCP error:', error);
-                res.json({
-                    jsonrpc: '2.0',
-                    id: req.body?.id,
-                    error: {
-                        code: -32603,
-                        message: error.message
+                        return {
+                            jsonrpc: '2.0',
+                            id,
+                            result: prompt
+                        };
+                    } catch (promptError: any) {
+                        if (!(promptError instanceof PromptArgumentError) && !(promptError instanceof ResourceNotFoundError)) {
+                            throw promptError;
+                        }
+                        return {
+                            jsonrpc: '2.0',
+                            id,
+                            error: { code: -32602, message: promptError.message }
+                        };
                     }
-                });
+
+                default:
+                    return {
+                        jsonrpc: '2.0',
+                        id,
+                        error: {
+                            code: -32601,
+                            message: `Method not found: ${method}`
+                        }
+                    };
             }
-        });
+        } catch (error: any) {
+            console.error('MCP error:', error);
+            return {
+                jsonrpc: '2.0',
+                id: id ?? null,
+                error: {
+                    code: -32603,
+                    message: error.message
+                }
+            };
+        }
+    }
 
-        // Handle GET for SSE (not implemented, return 404)
-        this.app.get('/mcp', (_req: Request, res: Response) => {
-            res.status(404).json({ error: 'SSE not supported, use POST for Streamable HTTP' });
-        });
+    private toolError(id: string | number, text: string): JsonRpcResponse {
+        return {
+            jsonrpc: '2.0',
+            id,
+            result: {
+                content: [{ type: 'text', text }],
+                isError: true
+            }
+        };
     }
 
-    private async queryDatabase(queryText: string, limit: number): Promise<QueryResult[]> {
+    /**
+     * Remember that a session read a resource so it is told when the file is re-indexed
+     */
+    private trackRead(sessionId: string | undefined, uri: string): void {
+        const session = sessionId ? this.sessions.get(sessionId) : undefined;
+        if (session) {
+            session.subscriptions.add(uri);
+        }
+    }
+
+    private trackReadForUrl(sessionId: string | undefined, url: string): void {
+        if (!sessionId || !this.sessions.has(sessionId)) return;
+        const row = this.getDatabase().prepare('SELECT path FROM files WHERE source_url = ? OR path = ?')
+            .get(url, url.replace(/^file:\/\//, '')) as { path: string } | undefined;
+        if (row) {
+            this.trackRead(sessionId, buildFileResourceUri(row.path));
+        }
+    }
+
+    /**
+     * Broadcast a server notification to every session
+     */
+    private broadcast(method: string, params?: object): void {
+        const message = params ? { jsonrpc: '2.0', method, params } : { jsonrpc: '2.0', method };
+        for (const session of this.sessions.values()) {
+            session.events.send(message);
+        }
+    }
+
+    /**
+     * Tell sessions that read or subscribed to a file that it was re-indexed or removed
+     */
+    notifyResourceUpdated(filePath: string): void {
+        const uri = buildFileResourceUri(filePath);
+        for (const session of this.sessions.values()) {
+            if (session.subscriptions.has(uri)) {
+                session.events.send({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri } });
+            }
+        }
+    }
+
+    notifyResourceListChanged(): void {
+        this.broadcast('notifications/resources/list_changed');
+    }
+
+    notifyToolsListChanged(): void {
+        this.broadcast('notifications/tools/list_changed');
+    }
+
+    /**
+     * Whether vec_items holds vectors from the current embedding model (not the case while a re-embed is pending)
+     */
+    private isVectorIndexCurrent(db: Database.Database, queryDimension: number): boolean {
+        const rows = db.prepare(
+            "SELECT key, value FROM metadata WHERE key IN ('embedding_dimension', 'embedding_model', 'reembed_model')"
+        ).all() as { key: string; value: string }[];
+        const metadata = new Map(rows.map(row => [row.key, row.value]));
+        if (metadata.has('reembed_model')) {
+            return false;
+        }
+        const dimension = metadata.get('embedding_dimension');
+        if (dimension && parseInt(dimension, 10) !== queryDimension) {
+            return false;
+        }
+        const modelId = metadata.get('embedding_model');
+        return !modelId || modelId === getEmbeddingModelId(this.embeddingProvider, this.embeddingOptions);
+    }
+
+    private async queryDatabase(queryText: string, limit: number, filters: SearchFilters = {}, rerank?: boolean): Promise<QueryResult[]> {
         if (!this.dbPath) {
             throw new Error('Database not configured');
         }
@@ -599,11 +912,11 @@ export class McpServer {
         );
         const queryEmbedding = result.embedding;
 
-        // Track tokens and cost for query (only for OpenAI)
-        if (this.embeddingProvider === 'openai' && this.onCostUpdate) {
+        // Track tokens and cost for query (only for paid APIs)
+        const costPerMillion = embeddingService.getCostPerMillionTokens();
+        if (costPerMillion > 0 && this.onCostUpdate) {
             const tokens = result.tokens;
-            const cost = (tokens / 1_000_000) * 0.13; // $0.13 per million tokens
-            this.onCostUpdate(tokens, cost);
+            this.onCostUpdate(tokens, (tokens / 1_000_000) * costPerMillion);
         }
 
         // Query database using cached connection
@@ -615,20 +928,51 @@ export class McpServer {
         const vectorWeight = termCount >= 5 ? 1.2 : 1.0;
         const ftsWeight = termCount > 0 && termCount <= 2 ? 1.2 : 1.0;
 
-        const vectorStmt = db.prepare(`
-            SELECT
-                chunk_id,
-                distance,
-                content,
-                url,
-                section,
-                heading_hierarchy,
-                chunk_index,
-                total_chunks
-            FROM vec_items
-            WHERE embedding MATCH ? AND k = ?
-            ORDER BY distance
-        `);
+        // Filters apply to both legs of the fusion
+        const scope = buildSearchScope(db, filters);
+        if (scope === 'empty') {
+            return [];
+        }
+        const scopeParams = scope ? scope.params : [];
+
+        // vec0 KNN cannot be constrained by arbitrary SQL, so a filtered search ranks the
+        // matching chunks by exact distance instead
+        const vectorStmt = scope
+            ? db.prepare(`
+                SELECT
+                    chunk_id,
+                    vec_distance_l2(embedding, ?) AS distance,
+                    content,
+                    url,
+                    section,
+                    heading_hierarchy,
+                    chunk_index,
+                    total_chunks,
+                    page_start,
+                    page_end,
+                    slide
+                FROM vec_items
+                WHERE ${scope.clause}
+                ORDER BY distance
+                LIMIT ?
+            `)
+            : db.prepare(`
+                SELECT
+                    chunk_id,
+                    distance,
+                    content,
+                    url,
+                    section,
+                    heading_hierarchy,
+                    chunk_index,
+                    total_chunks,
+                    page_start,
+                    page_end,
+                    slide
+                FROM vec_items
+                WHERE embedding MATCH ? AND k = ?
+                ORDER BY distance
+            `);
 
         const ftsStmt = db.prepare(`
             SELECT
@@ -638,20 +982,26 @@ export class McpServer {
                 vec_items.section,
                 vec_items.heading_hierarchy,
                 vec_items.chunk_index,
-                vec_items.total_chunks
+                vec_items.total_chunks,
+                vec_items.page_start,
+                vec_items.page_end,
+                vec_items.slide
             FROM fts_chunks
             JOIN vec_items ON vec_items.chunk_id = fts_chunks.chunk_id
-            WHERE fts_chunks MATCH ?
+            WHERE fts_chunks MATCH ?${scope ? ` AND ${scope.clause}` : ''}
             ORDER BY bm25(fts_chunks)
             LIMIT ?
         `);
 
-        const vectorResults = vectorStmt.all(
-            new Float32Array(queryEmbedding),
-            candidateLimit
-        ) as QueryResult[];
+        // Until a re-embed finishes the stored vectors belong to the previous model, so only keywords can match
+        const vectorResults = !this.isVectorIndexCurrent(db, queryEmbedding.length)
+            ? []
+            : (scope
+                ? vectorStmt.all(new Float32Array(queryEmbedding), ...scopeParams, candidateLimit)
+                : vectorStmt.all(new Float32Array(queryEmbedding), candidateLimit)
+            ) as QueryResult[];
         const ftsResults = ftsQuery
-            ? (ftsStmt.all(ftsQuery, candidateLimit) as QueryResult[])
+            ? (ftsStmt.all(ftsQuery, ...scopeParams, candidateLimit) as QueryResult[])
             : [];
 
         const combined = new Map<string, QueryResult>();
@@ -692,11 +1042,55 @@ export class McpServer {
             });
         });
 
-        const results = Array.from(combined.values())
-            .sort((a, b) => b.rrf_score - a.rrf_score)
-            .slice(0, limit);
+        const fused = Array.from(combined.values())
+            .sort((a, b) => b.rrf_score - a.rrf_score);
 
-        return results;
+        if (rerank ?? this.rerankOptions.enabled) {
+            return this.rerankResults(queryText, fused, limit);
+        }
+
+        return fused.slice(0, limit);
+    }
+
+    /**
+     * Re-score the top fused candidates with the reranker. Falls back to the RRF order if reranking fails.
+     */
+    private async rerankResults(queryText: string, fused: QueryResult[], limit: number): Promise<QueryResult[]> {
+        const candidates = fused.slice(0, Math.max(this.rerankOptions.topN, limit));
+        if (candidates.length === 0) {
+            return [];
+        }
+
+        try {
+            const rerankService = this.getRerankService();
+            const result = await this.withTimeout(
+                rerankService.rerank(queryText, candidates.map(candidate => candidate.content)),
+                EMBEDDING_TIMEOUT_MS,
+                'Reranking'
+            );
+
+            if (result.tokens > 0 && this.onCostUpdate) {
+                this.onCostUpdate(result.tokens, result.cost);
+            }
+
+            return candidates
+                .map((candidate, index) => ({ ...candidate, rerank_score: result.scores[index] }))
+                .sort((a, b) => b.rerank_score - a.rerank_score)
+                .slice(0, limit);
+        } catch (error) {
+            console.error('MCP Server: Reranking failed, using fused ranking:', error);
+            return fused.slice(0, limit);
+        }
+    }
+
+    private getRerankService(): RerankService {
+        if (!this.rerankService) {
+            if (this.rerankOptions.provider === 'openai' && !this.openaiApiKey) {
+                throw new Error('OpenAI API key not configured for reranking');
+            }
+            this.rerankService = new RerankService(this.rerankOptions.provider, this.openaiApiKey || undefined);
+        }
+        return this.rerankService;
     }
 
     private getChunksForFile(filePath: string, startIndex?: number, endIndex?: number): ChunkResult[] {
@@ -706,6 +1100,7 @@ export class McpServer {
 
         // Use cached database connection
         const db = this.getDatabase();
+        const url = toChunkUrl(filePath);
 
         let rows: ChunkResult[];
 
@@ -722,12 +1117,15 @@ export class McpServer {
                         section,
                         heading_hierarchy,
                         chunk_index,
-                        total_chunks
+                        total_chunks,
+                        page_start,
+                        page_end,
+                        slide
                     FROM vec_items
                     WHERE url = ? AND chunk_index >= ? AND chunk_index <= ?
                     ORDER BY chunk_index
                 `);
-                rows = stmt.all(filePath, start, endIndex) as ChunkResult[];
+                rows = stmt.all(url, start, endIndex) as ChunkResult[];
             } else {
                 // Only start specified, get from start to end
                 const stmt = db.prepare(`
@@ -737,12 +1135,15 @@ export class McpServer {
                         section,
                         heading_hierarchy,
                         chunk_index,
-                        total_chunks
+                        total_chunks,
+                        page_start,
+                        page_end,
+                        slide
                     FROM vec_items
                     WHERE url = ? AND chunk_index >= ?
                     ORDER BY chunk_index
                 `);
-                rows = stmt.all(filePath, start) as ChunkResult[];
+                rows = stmt.all(url, start) as ChunkResult[];
             }
         } else {
             // Get all chunks for the file
@@ -753,12 +1154,15 @@ export class McpServer {
                     section,
                     heading_hierarchy,
                     chunk_index,
-                    total_chunks
+                    total_chunks,
+                    page_start,
+                    page_end,
+                    slide
                 FROM vec_items
                 WHERE url = ?
                 ORDER BY chunk_index
             `);
-            rows = stmt.all(filePath) as ChunkResult[];
+            rows = stmt.all(url) as ChunkResult[];
         }
 
         return rows;
@@ -766,11 +1170,16 @@ export class McpServer {
 
     setDatabase(dbPath: string | null) {
         // Close existing connection if database path changes
-        if (this.dbPath !== dbPath) {
+        const changed = this.dbPath !== dbPath;
+        if (changed) {
             this.closeDatabase();
         }
         this.dbPath = dbPath;
         console.log(`MCP Server: Database set to ${dbPath}`);
+        if (changed) {
+            this.notifyToolsListChanged();
+            this.notifyResourceListChanged();
+        }
     }
 
     setApiKey(apiKey: string | null) {
@@ -779,13 +1188,70 @@ export class McpServer {
         if (this.embeddingProvider === 'openai') {
             this.embeddingService = null;
         }
+        if (this.rerankOptions.provider === 'openai') {
+            this.resetRerankService();
+        }
+    }
+
+    /**
+     * Per-profile rerank settings; `rerank` on a query overrides `enabled`
+     */
+    setRerankOptions(options: Partial<RerankOptions>) {
+        const previousProvider = this.rerankOptions.provider;
+        this.rerankOptions = {
+            ...this.rerankOptions,
+            ...options,
+            topN: normalizeRerankTopN(options.topN ?? this.rerankOptions.topN)
+        };
+        if (this.rerankOptions.provider !== previousProvider) {
+            this.resetRerankService();
+        }
+    }
+
+    private resetRerankService() {
+        if (this.rerankService) {
+            this.rerankService.terminate().catch((error) => {
+                console.error('Error terminating rerank service:', error);
+            });
+            this.rerankService = null;
+        }
     }
 
-    setEmbeddingProvider(provider: EmbeddingProvider) {
+    setEmbeddingProvider(provider: EmbeddingProvider, options: EmbeddingOptions = {}) {
+        const changed = this.embeddingProvider !== provider;
         this.embeddingProvider = provider;
+        this.embeddingOptions = options;
         // Reset embedding service so it gets recreated with new provider
         this.embeddingService = null;
         console.log(`MCP Server: Embedding provider set to ${provider}`);
+        if (changed) {
+            this.notifyToolsListChanged();
+        }
+    }
+
+    /**
+     * Address to listen on; takes effect on the next start()
+     */
+    setBindAddress(address: string | undefined) {
+        this.bindAddress = address?.trim() || DEFAULT_BIND_ADDRESS;
+    }
+
+    getBindAddress(): string {
+        return this.bindAddress;
+    }
+
+    /**
+     * Token requirement and origin allow-list; applies to requests immediately
+     */
+    setAccessPolicy(policy: McpAccessPolicy) {
+        this.accessPolicy = policy;
+    }
+
+    /**
+     * Token accepted in addition to the profile's tokens, for the app's own requests
+     */
+    getInternalToken(): string {
+        return this.internalToken;
     }
 
     setOnCostUpdate(callback: (tokens: number, cost: number) => void) {
@@ -795,8 +1261,8 @@ export class McpServer {
     start(): Promise<void> {
         return new Promise((resolve, reject) => {
             try {
-                const server = this.app.listen(this.port, () => {
-                    console.log(`MCP Server running on http://localhost:${this.port} (embeddings: ${this.embeddingProvider})`);
+                const server = this.app.listen(this.port, this.bindAddress, () => {
+                    console.log(`MCP Server running on http://${this.bindAddress}:${this.port} (embeddings: ${this.embeddingProvider})`);
                     resolve();
                 });
                 
@@ -821,7 +1287,7 @@ export class McpServer {
         }
 
         // If already stopped, return immediately
-        if (!this.server && !this.embeddingService && !this.sessionCleanupInterval) {
+        if (!this.server && !this.embeddingService && !this.rerankService && !this.sessionCleanupInterval) {
             return Promise.resolve();
         }
 
@@ -841,10 +1307,22 @@ export class McpServer {
                 this.embeddingService = null;
             }
 
+            if (this.rerankService) {
+                try {
+                    await this.rerankService.terminate();
+                } catch (error) {
+                    console.error('Error terminating rerank service:', error);
+                }
+                this.rerankService = null;
+            }
+
             // Close database connection
             this.closeDatabase();
 
-            // Clear sessions
+            // Close open SSE streams so the HTTP server can shut down, then clear sessions
+            for (const session of this.sessions.values()) {
+                session.events.close();
+            }
             this.sessions.clear();
 
             // Close HTTP server
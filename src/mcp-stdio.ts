@@ -0,0 +1,100 @@
+import * as readline from 'readline';
+import type { Readable, Writable } from 'stream';
+import type { McpServer } from './mcp-server';
+
+export interface McpStdioOptions {
+    profile?: string;       // Profile id or name; defaults to the active profile
+    databasePath?: string;  // Overrides the profile's databasePath
+}
+
+/**
+ * Parse `--mcp-stdio [--profile <id|name>] [--db <path>]` from the process arguments.
+ * Returns null when the app should start normally.
+ */
+export function parseMcpStdioArgs(argv: string[]): McpStdioOptions | null {
+    if (!argv.includes('--mcp-stdio')) {
+        return null;
+    }
+
+    const options: McpStdioOptions = {};
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const eq = arg.indexOf('=');
+        const flag = eq === -1 ? arg : arg.slice(0, eq);
+        const inlineValue = eq === -1 ? undefined : arg.slice(eq + 1);
+        if (flag !== '--profile' && flag !== '--db') continue;
+
+        const value = inlineValue ?? argv[++i];
+        if (!value) continue;
+        if (flag === '--profile') {
+            options.profile = value;
+        } else {
+            options.databasePath = value;
+        }
+    }
+    return options;
+}
+
+/**
+ * stdout carries the JSON-RPC stream, so all logging has to go to stderr
+ */
+export function redirectConsoleToStderr(): void {
+    const toStderr = (...args: unknown[]) => console.error(...args);
+    console.log = toStderr;
+    console.info = toStderr;
+    console.warn = toStderr;
+    console.debug = toStderr;
+}
+
+/**
+ * Serve MCP over newline-delimited JSON-RPC on the given streams.
+ * Resolves when the input stream ends.
+ */
+export function serveStdio(server: McpServer, input: Readable = process.stdin, output: Writable = process.stdout): Promise<void> {
+    const write = (message: object) => {
+        output.write(JSON.stringify(message) + '\n');
+    };
+
+    const pending = new Set<Promise<void>>();
+    const rl = readline.createInterface({ input, crlfDelay: Infinity });
+
+    rl.on('line', (line) => {
+        const trimmed = line.trim();
+        if (!trimmed) return;
+
+        let parsed: any;
+        try {
+            parsed = JSON.parse(trimmed);
+        } catch {
+            write({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+            return;
+        }
+
+        const task = (async () => {
+            if (Array.isArray(parsed)) {
+                const responses = (await Promise.all(parsed.map(request => server.handleJsonRpc(request))))
+                    .filter(response => response !== null);
+                if (responses.length > 0) {
+                    write(responses);
+                }
+                return;
+            }
+
+            const response = await server.handleJsonRpc(parsed);
+            if (response) {
+                write(response);
+            }
+        })();
+
+        pending.add(task);
+        task.finally(() => pending.delete(task));
+    });
+
+    return new Promise((resolve) => {
+        rl.on('close', async () => {
+            // Let in-flight requests (e.g. a slow embedding) finish before reporting the end of input
+            await Promise.allSettled(Array.from(pending));
+            resolve();
+        });
+    });
+}
@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const NOTEBOOK_EXTENSIONS = ['.ipynb'];
+
+export interface NotebookCell {
+    type: 'markdown' | 'code' | 'raw';
+    source: string;
+    outputs: string[];      // Textual outputs of a code cell; images and other binary outputs are dropped
+}
+
+export interface Notebook {
+    language: string;
+    cells: NotebookCell[];
+}
+
+// A formatted cell as parsed back by parseNotebookCells()
+export interface NotebookCellText {
+    type: NotebookCell['type'];
+    text: string;
+}
+
+// Written before each cell by formatNotebook(), so the chunker can keep cells whole
+export const NOTEBOOK_CELL_MARKER = /^<!-- (markdown|code|raw) cell -->$/;
+
+// Outputs longer than this are cut; a printed DataFrame or training log says little past its first lines
+const MAX_OUTPUT_LINES = 50;
+
+// Rich outputs are kept in this order of preference when they have a textual form
+const TEXT_OUTPUT_TYPES = ['text/plain', 'text/markdown', 'text/latex', 'application/json'];
+
+const ANSI_ESCAPE = /\x1b\[[0-9;]*[A-Za-z]/g;
+
+export function isNotebookFile(filePath: string): boolean {
+    return NOTEBOOK_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+// Notebook text fields are a string or a list of lines
+function joinText(value: unknown): string {
+    if (Array.isArray(value)) return value.join('');
+    return typeof value === 'string' ? value : '';
+}
+
+function readOutput(output: any): string {
+    switch (output.output_type) {
+        case 'stream':
+            return joinText(output.text);
+        case 'error':
+        case 'pyerr':
+            // Tracebacks are mostly library frames; the exception is what a search would look for
+            return `${output.ename}: ${output.evalue}`;
+        default: {
+            // execute_result and display_data (pyout in nbformat 3, which has no data wrapper)
+            const data = output.data ?? output;
+            const type = TEXT_OUTPUT_TYPES.find(mimeType => data[mimeType] !== undefined)
+                ?? (data.text !== undefined ? 'text' : undefined);
+            if (!type) return '';
+            const value = data[type];
+            return typeof value === 'object' && !Array.isArray(value) ? JSON.stringify(value, null, 2) : joinText(value);
+        }
+    }
+}
+
+function trimOutput(text: string): string {
+    const lines = text.replace(ANSI_ESCAPE, '').replace(/\r\n?/g, '\n').trimEnd().split('\n');
+    if (lines.length <= MAX_OUTPUT_LINES) {
+        return lines.join('\n');
+    }
+    return [...lines.slice(0, MAX_OUTPUT_LINES), `... (${lines.length - MAX_OUTPUT_LINES} more lines)`].join('\n');
+}
+
+/**
+ * Parse an .ipynb file (nbformat 4, and the worksheets of nbformat 3)
+ */
+export function parseNotebook(json: string): Notebook {
+    const notebook = JSON.parse(json);
+    const metadata = notebook.metadata || {};
+    const language = String(metadata.kernelspec?.language || metadata.language_info?.name || metadata.language || 'python').toLowerCase();
+    const rawCells: any[] = notebook.cells ?? (notebook.worksheets || []).flatMap((sheet: any) => sheet.cells || []);
+
+    const cells = rawCells.map((cell): NotebookCell => {
+        const source = joinText(cell.source ?? cell.input);
+        if (cell.cell_type === 'heading') {
+            return { type: 'markdown', source: `${'#'.repeat(cell.level || 1)} ${source.trim()}`, outputs: [] };
+        }
+        if (cell.cell_type === 'code') {
+            const outputs = (cell.outputs || []).map(readOutput).map(trimOutput).filter((text: string) => text.trim());
+            return { type: 'code', source, outputs };
+        }
+        return { type: cell.cell_type === 'markdown' ? 'markdown' : 'raw', source, outputs: [] };
+    });
+    return { language, cells: cells.filter(cell => cell.source.trim() || cell.outputs.length > 0) };
+}
+
+export function readNotebookFile(filePath: string): Notebook {
+    return parseNotebook(fs.readFileSync(filePath, 'utf-8'));
+}
+
+// A fence longer than any backtick run in the text, so code containing ``` stays inside its block
+function fence(text: string, info: string): string {
+    const longest = Math.max(2, ...(text.match(/`+/g) || []).map(run => run.length));
+    const marker = '`'.repeat(longest + 1);
+    return `${marker}${info}\n${text}\n${marker}`;
+}
+
+/**
+ * Render a notebook as Markdown: markdown cells as prose (embedded images dropped), code cells as fenced code
+ * in the notebook's language followed by their outputs in "output" blocks
+ */
+export function formatNotebook(notebook: Notebook): string {
+    return notebook.cells.map(cell => {
+        let text: string;
+        if (cell.type === 'code') {
+            text = [cell.source.trim() ? fence(cell.source.trimEnd(), notebook.language) : '', ...cell.outputs.map(output => fence(output, 'output'))]
+                .filter(block => block)
+                .join('\n\n');
+        } else {
+            text = cell.source.replace(/!\[[^\]]*\]\((?:data:|attachment:)[^)]*\)/g, '').trim();
+        }
+        return `<!-- ${cell.type} cell -->\n${text}`;
+    }).join('\n\n');
+}
+
+/**
+ * Inverse of formatNotebook() for chunking: the text of each cell
+ */
+export function parseNotebookCells(content: string): NotebookCellText[] {
+    const cells: NotebookCellText[] = [];
+    for (const line of content.split('\n')) {
+        const marker = line.match(NOTEBOOK_CELL_MARKER);
+        if (marker) {
+            cells.push({ type: marker[1] as NotebookCell['type'], text: '' });
+        } else if (cells.length > 0) {
+            cells[cells.length - 1].text += `${line}\n`;
+        }
+    }
+    return cells.map(cell => ({ ...cell, text: cell.text.trim() })).filter(cell => cell.text);
+}
@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export const OCR_IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.tif', '.tiff', '.bmp'];
+export const DEFAULT_OCR_LANGUAGES = 'eng';
+
+// Images smaller than this on either side are logos or rules, not scanned text
+const MIN_OCR_IMAGE_SIZE = 64;
+
+// Decoded image as pdf.js hands it out (ImageKind: 1 = 1-bit gray, 2 = RGB, 3 = RGBA)
+export interface RawImage {
+    width: number;
+    height: number;
+    kind: number;
+    data: Uint8Array | Uint8ClampedArray;
+}
+
+export function isOcrImageFile(filePath: string): boolean {
+    return OCR_IMAGE_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Tesseract language codes from a profile setting such as "eng+fra" (commas and spaces also separate)
+ */
+export function parseOcrLanguages(value: string | undefined): string[] {
+    const codes = (value || DEFAULT_OCR_LANGUAGES).split(/[+,\s]+/).filter(code => /^[a-z]{3}(_[a-z]+)?$/i.test(code));
+    return codes.length > 0 ? Array.from(new Set(codes)) : [DEFAULT_OCR_LANGUAGES];
+}
+
+/**
+ * Encode raw pixels as binary PGM/PPM, which Tesseract reads without an image codec
+ */
+export function encodePnm(image: RawImage): Buffer {
+    const { width, height, kind, data } = image;
+    if (kind === 1) {
+        // Rows are packed bits padded to whole bytes; a set bit is white
+        const rowBytes = Math.ceil(width / 8);
+        const pixels = Buffer.alloc(width * height);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const bit = data[y * rowBytes + (x >> 3)] & (0x80 >> (x & 7));
+                pixels[y * width + x] = bit ? 255 : 0;
+            }
+        }
+        return Buffer.concat([Buffer.from(`P5\n${width} ${height}\n255\n`), pixels]);
+    }
+
+    const channels = kind === 3 ? 4 : 3;
+    const pixels = Buffer.alloc(width * height * 3);
+    for (let i = 0, j = 0; j < pixels.length; i += channels, j += 3) {
+        pixels[j] = data[i];
+        pixels[j + 1] = data[i + 1];
+        pixels[j + 2] = data[i + 2];
+    }
+    return Buffer.concat([Buffer.from(`P6\n${width} ${height}\n255\n`), pixels]);
+}
+
+/**
+ * Images painted on a PDF page (a PDFPageProxy from pdf.js), in drawing order
+ */
+export async function extractPageImages(page: any, ops: Record<string, number>): Promise<RawImage[]> {
+    const operatorList = await page.getOperatorList();
+    const images: RawImage[] = [];
+    for (let i = 0; i < operatorList.fnArray.length; i++) {
+        const fn = operatorList.fnArray[i];
+        let image: RawImage | null = null;
+        if (fn === ops.paintImageXObject || fn === ops.paintJpegXObject) {
+            image = page.objs.get(operatorList.argsArray[i][0]);
+        } else if (fn === ops.paintInlineImageXObject) {
+            image = operatorList.argsArray[i][0];
+        }
+        if (image?.data && image.width >= MIN_OCR_IMAGE_SIZE && image.height >= MIN_OCR_IMAGE_SIZE) {
+            images.push(image);
+        }
+    }
+    return images;
+}
+
+// Traineddata ships as one npm package per language (@tesseract.js-data/<code>), so nothing is downloaded at runtime
+function resolveLanguageDir(languages: string[]): string {
+    const dirs = languages.map(code =>
+        path.join(path.dirname(require.resolve(`@tesseract.js-data/${code}/package.json`)), '4.0.0_best_int')
+    );
+    if (dirs.length === 1) {
+        return dirs[0];
+    }
+
+    // tesseract.js reads every language from a single directory
+    const shared = path.join(os.tmpdir(), 'docs4ai-ocr', languages.join('+'));
+    fs.mkdirSync(shared, { recursive: true });
+    languages.forEach((code, i) => {
+        const target = path.join(shared, `${code}.traineddata.gz`);
+        if (!fs.existsSync(target)) {
+            fs.copyFileSync(path.join(dirs[i], `${code}.traineddata.gz`), target);
+        }
+    });
+    return shared;
+}
+
+/**
+ * Offline OCR with tesseract.js. The worker (and its language data) is created on first use and kept
+ * for later pages; throws MODULE_NOT_FOUND when tesseract.js or a language package isn't installed.
+ */
+export class OcrEngine {
+    private languages: string[];
+    private worker: Promise<any> | null = null;
+
+    constructor(languages: string[] = [DEFAULT_OCR_LANGUAGES]) {
+        this.languages = languages;
+    }
+
+    getLanguages(): string[] {
+        return this.languages;
+    }
+
+    async recognize(image: Buffer): Promise<string> {
+        if (!this.worker) {
+            this.worker = this.createWorker();
+            // A failed start (e.g. missing language data) is retried on the next call
+            this.worker.catch(() => {
+                this.worker = null;
+            });
+        }
+        const worker = await this.worker;
+        const result = await worker.recognize(image);
+        return (result.data.text as string).trim();
+    }
+
+    async terminate(): Promise<void> {
+        const worker = this.worker;
+        this.worker = null;
+        if (worker) {
+            await (await worker.catch(() => null))?.terminate();
+        }
+    }
+
+    private async createWorker(): Promise<any> {
+        const langPath = resolveLanguageDir(this.languages);
+        const Tesseract = require('tesseract.js');
+        return Tesseract.createWorker(this.languages.join('+'), Tesseract.OEM.LSTM_ONLY, {
+            langPath,
+            gzip: true,
+            cacheMethod: 'none'
+        });
+    }
+}
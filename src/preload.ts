@@ -56,6 +56,7 @@ contextBridge.exposeInMainWorld('api', {
     setActiveProfile: (profileId: string) => ipcRenderer.invoke('set-active-profile', profileId),
     selectFolder: () => ipcRenderer.invoke('select-folder'),
     selectDatabase: () => ipcRenderer.invoke('select-database'),
+    selectEmbeddingModel: () => ipcRenderer.invoke('select-embedding-model'),
     startDriveAuth: (profileId: string) => ipcRenderer.invoke('start-drive-auth', profileId),
     disconnectDrive: (profileId: string) => ipcRenderer.invoke('disconnect-drive', profileId),
     listDriveFolders: (profileId: string, parentId: string | null, query: string | null, pageToken?: string) =>
@@ -77,6 +78,8 @@ contextBridge.exposeInMainWorld('api', {
     stopMcpServer: (profileId: string) => ipcRenderer.invoke('stop-mcp-server', profileId),
     getMcpStatus: (profileId: string) => ipcRenderer.invoke('get-mcp-status', profileId),
     updateMcpPort: (profileId: string, port: number) => ipcRenderer.invoke('update-mcp-port', profileId, port),
+    createMcpToken: (profileId: string, name: string) => ipcRenderer.invoke('create-mcp-token', profileId, name),
+    revokeMcpToken: (profileId: string, tokenId: string) => ipcRenderer.invoke('revoke-mcp-token', profileId, tokenId),
     onStatsUpdate: (callback: (stats: ProfileStats) => void) => {
         ipcRenderer.on('stats-update', (_event: IpcRendererEvent, stats: ProfileStats) => callback(stats));
     },
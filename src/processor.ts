@@ -1,8 +1,18 @@
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import TurndownService from 'turndown';
 import sanitizeHtml from 'sanitize-html';
+import { ARCHIVE_EXTENSIONS, expandArchive, getArchiveEntryFile, isArchiveFile, parseArchiveEntryPath, removeExpandedArchive } from './archive';
+import { CodeLanguage, CodeSegment, getCodeLanguage, splitCodeIntoSegments } from './code-chunker';
+import { EpubTocEntry, getChapterBody, readEpub } from './epub';
+import { MAIL_EXTENSIONS, MailAttachment, MailMessage, parseMessage, parseMessageDocumentPath, readMailbox, readMsgFile } from './mail';
+import { formatNotebook, isNotebookFile, NOTEBOOK_CELL_MARKER, NOTEBOOK_EXTENSIONS, NotebookCellText, parseNotebookCells, readNotebookFile } from './notebook';
+import { encodePnm, extractPageImages, isOcrImageFile, OCR_IMAGE_EXTENSIONS, OcrEngine } from './ocr';
+import { formatSheets, isSpreadsheetFile, parseSheetTables, readDelimitedFile, readWorkbookFile, SheetTable, SPREADSHEET_EXTENSIONS } from './spreadsheet';
+import { API_OPERATION_MARKER, formatApiSpec, formatStructured, getStructuredFormat, isApiSpec, isStructuredFile, readStructuredFile, splitApiSpec, STRUCTURED_EXTENSIONS } from './structured';
+import { estimateTokens, TokenCounter } from './tokenizer';
 
 export interface DocumentChunk {
     chunkId: string;
@@ -13,15 +23,101 @@ export interface DocumentChunk {
     totalChunks: number;
     url: string;
     hash: string;
+    pageStart?: number;     // First and last page the chunk's text comes from (PDF, DOCX)
+    pageEnd?: number;
+    slide?: number;         // Slide the chunk comes from (PPTX)
 }
 
+export const DEFAULT_CHUNK_SIZE = 1000;
+export const DEFAULT_CHUNK_OVERLAP = 100;
+export const DEFAULT_MIN_CHUNK_SIZE = 150;
+
+export interface ChunkingOptions {
+    chunkSize?: number;       // Maximum tokens per chunk (default: 1000)
+    chunkOverlap?: number;    // Tokens repeated between consecutive pieces of a split section (default: 100)
+    minChunkSize?: number;    // Sections below this many tokens are merged with the next one (default: 150)
+}
+
+interface TextUnit {
+    text: string;
+    tokens: number;
+}
+
+// Emitted by the readers before each page's (PDF, DOCX) or slide's (PPTX) text; chunkContent() turns them
+// into pageStart/pageEnd and slide
+const LOCATION_MARKER = /^<!-- (page|slide) (\d+) -->$/;
+
+// Stands in for Word's page breaks while a DOCX goes through mammoth and Turndown, which drop them
+const DOCX_PAGE_TOKEN = 'DOCS4AIPAGEBREAK';
+const DOCX_PAGE_TOKEN_PATTERN = new RegExp(`(\\*{1,2}|_{1,2})${DOCX_PAGE_TOKEN}\\1|${DOCX_PAGE_TOKEN}`, 'g');
+
+// Marks where a table of contents entry points into an EPUB chapter while it goes through Turndown
+const EPUB_TOC_TOKEN = 'DOCS4AITOCENTRY';
+const EPUB_TOC_TOKEN_PATTERN = new RegExp(`(\\*{1,2}|_{1,2})?${EPUB_TOC_TOKEN}(\\d+)\\1`, 'g');
+
+type ChunkLocation = Pick<DocumentChunk, 'pageStart' | 'pageEnd' | 'slide'>;
+
+// Text of an officeparser AST node: runs are concatenated, paragraphs and shapes go on separate lines
+function officeNodeText(node: { text?: string; children?: any[] }): string {
+    if (!node.children) {
+        return node.text || '';
+    }
+    const separator = node.children[0]?.children ? '\n' : '';
+    return node.children.map(officeNodeText).filter(text => text).join(separator);
+}
+
+// Files of these types are read when they come inside another one: email attachments, and the files of
+// an archive read as a whole
+const EMBEDDED_EXTENSIONS = [
+    '.md', '.txt', '.html', '.htm', '.pdf', '.doc', '.docx', '.pptx', '.rtf', '.odt', '.epub',
+    ...SPREADSHEET_EXTENSIONS, ...OCR_IMAGE_EXTENSIONS, ...MAIL_EXTENSIONS, ...ARCHIVE_EXTENSIONS, ...NOTEBOOK_EXTENSIONS,
+    ...STRUCTURED_EXTENSIONS
+];
+
+// Headings of a Markdown text, skipping # lines inside fenced code
+function findMarkdownHeadings(markdown: string): { level: number; text: string }[] {
+    const headings: { level: number; text: string }[] = [];
+    let fence: string | null = null;
+    for (const line of markdown.split('\n')) {
+        const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+        if (fenceMatch) {
+            if (!fence) {
+                fence = fenceMatch[1];
+            } else if (fenceMatch[1].startsWith(fence)) {
+                fence = null;
+            }
+            continue;
+        }
+        const heading = !fence && line.match(/^(#{1,6})\s+(.+)$/);
+        if (heading) {
+            headings.push({ level: heading[1].length, text: heading[2].replace(/\[.*?\]\(#[^)]*\)/g, '').trim() });
+        }
+    }
+    return headings;
+}
+
+function isEmbeddedFile(fileName: string): boolean {
+    const name = fileName.toLowerCase();
+    return EMBEDDED_EXTENSIONS.some(ext => name.endsWith(ext));
+}
+
+// Sentence boundaries follow Unicode rules, so CJK full stops (。！？) end sentences too
+const sentenceSegmenter = new Intl.Segmenter(undefined, { granularity: 'sentence' });
+const wordSegmenter = new Intl.Segmenter(undefined, { granularity: 'word' });
+
 export class ContentProcessor {
-    private maxTokens = 1000;
-    private minTokens = 150;
-    private overlapPercent = 0.1;
+    private maxTokens = DEFAULT_CHUNK_SIZE;
+    private minTokens = DEFAULT_MIN_CHUNK_SIZE;
+    private overlapTokens = DEFAULT_CHUNK_OVERLAP;
+    private countTokens: TokenCounter;
+    private ocrEngine: OcrEngine | null = null;
     private turndownService: TurndownService;
+    // Last mailbox split into messages; its messages are read one after another during a sync
+    private mailboxCache: { filePath: string; modifiedAt: number; size: number; messages: Map<string, Buffer> } | null = null;
 
-    constructor() {
+    constructor(options: ChunkingOptions = {}, countTokens: TokenCounter = estimateTokens) {
+        this.setChunkingOptions(options);
+        this.countTokens = countTokens;
         this.turndownService = new TurndownService({
             codeBlockStyle: 'fenced',
             headingStyle: 'atx'
@@ -29,6 +125,32 @@ export class ContentProcessor {
         this.setupTurndownRules();
     }
 
+    setChunkingOptions(options: ChunkingOptions): void {
+        this.maxTokens = Math.max(16, Math.floor(options.chunkSize ?? DEFAULT_CHUNK_SIZE));
+        this.minTokens = Math.min(this.maxTokens, Math.max(0, Math.floor(options.minChunkSize ?? DEFAULT_MIN_CHUNK_SIZE)));
+        // More than half a chunk of overlap would make splitting crawl
+        this.overlapTokens = Math.min(Math.floor(this.maxTokens / 2), Math.max(0, Math.floor(options.chunkOverlap ?? DEFAULT_CHUNK_OVERLAP)));
+    }
+
+    // Changes whenever chunks would be cut differently; stored with the index to detect stale chunks
+    getChunkingSignature(): string {
+        return `${this.maxTokens}/${this.overlapTokens}/${this.minTokens}`;
+    }
+
+    /**
+     * Size chunks with the embedding model's tokenizer (see EmbeddingService.getTokenCounter())
+     */
+    setTokenCounter(countTokens: TokenCounter): void {
+        this.countTokens = countTokens;
+    }
+
+    /**
+     * OCR scanned PDF pages and image files with this engine; null skips images and leaves scanned pages empty
+     */
+    setOcrEngine(engine: OcrEngine | null): void {
+        this.ocrEngine = engine;
+    }
+
     private setupTurndownRules(): void {
         // Rule for code blocks - preserve formatting and detect language
         this.turndownService.addRule('codeBlocks', {
@@ -163,6 +285,20 @@ export class ContentProcessor {
         const ext = path.extname(filePath).toLowerCase();
 
         try {
+            const archiveEntry = parseArchiveEntryPath(filePath);
+            if (archiveEntry) {
+                return await this.readArchiveEntry(archiveEntry.archivePath, archiveEntry.entryName);
+            }
+            const message = parseMessageDocumentPath(filePath);
+            if (message) {
+                return await this.readMailboxMessage(message.mailboxPath, message.key);
+            }
+            if (isOcrImageFile(filePath)) {
+                return await this.readImage(filePath);
+            }
+            if (isArchiveFile(filePath)) {
+                return await this.readArchiveFile(filePath);
+            }
             switch (ext) {
                 case '.pdf':
                     return await this.readPdf(filePath);
@@ -176,6 +312,26 @@ export class ContentProcessor {
                     return await this.readRtf(filePath);
                 case '.odt':
                     return await this.readOdt(filePath);
+                case '.epub':
+                    return await this.readEpub(filePath);
+                case '.ipynb':
+                    return formatNotebook(readNotebookFile(filePath));
+                case '.json':
+                case '.yaml':
+                case '.yml':
+                    return this.readStructuredFile(filePath);
+                case '.csv':
+                case '.tsv':
+                    return formatSheets(readDelimitedFile(filePath));
+                case '.xlsx':
+                case '.ods':
+                    return this.readWorkbook(filePath);
+                case '.eml':
+                    return await this.formatMessage(parseMessage(fs.readFileSync(filePath)));
+                case '.msg':
+                    return await this.readMsg(filePath);
+                case '.mbox':
+                    return await this.readMailboxFile(filePath);
                 case '.html':
                 case '.htm':
                     const html = fs.readFileSync(filePath, 'utf-8');
@@ -191,10 +347,30 @@ export class ContentProcessor {
 
     private async readPdf(filePath: string): Promise<string> {
         try {
-            const pdfParse = require('pdf-parse');
-            const buffer = fs.readFileSync(filePath);
-            const data = await pdfParse(buffer);
-            return `# ${path.basename(filePath, '.pdf')}\n\n${data.text}`;
+            // pdf-parse bundles pdf.js; using it directly gives per-page text and the page images for OCR
+            const pdfjs = require('pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js');
+            pdfjs.disableWorker = true;
+            const doc = await pdfjs.getDocument({ data: new Uint8Array(fs.readFileSync(filePath)), nativeImageDecoderSupport: 'none' });
+            const pages: string[] = [];
+            let ocrPages = 0;
+            try {
+                for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+                    const page = await doc.getPage(pageNumber);
+                    let text = this.joinPdfTextItems((await page.getTextContent()).items);
+                    // No text layer: the page is a scan
+                    if (!text.trim() && this.ocrEngine) {
+                        text = await this.ocrPdfPage(page, pdfjs.OPS, filePath, pageNumber);
+                        ocrPages += text ? 1 : 0;
+                    }
+                    pages.push(`<!-- page ${pageNumber} -->\n${text}`);
+                }
+            } finally {
+                doc.destroy();
+            }
+            if (ocrPages > 0) {
+                console.log(`OCR recognized text on ${ocrPages} scanned page(s) of ${filePath}`);
+            }
+            return `# ${path.basename(filePath, '.pdf')}\n\n${pages.join('\n\n')}`;
         } catch (error: any) {
             if (error.code === 'MODULE_NOT_FOUND') {
                 console.warn(`PDF parsing not available for ${filePath}. Install pdf-parse for PDF support.`);
@@ -204,6 +380,56 @@ export class ContentProcessor {
         }
     }
 
+    // Same line breaking as pdf-parse: a new line whenever the baseline moves
+    private joinPdfTextItems(items: { str: string; transform: number[] }[]): string {
+        let lastY: number | undefined;
+        let text = '';
+        for (const item of items) {
+            if (lastY === undefined || lastY === item.transform[5]) {
+                text += item.str;
+            } else {
+                text += '\n' + item.str;
+            }
+            lastY = item.transform[5];
+        }
+        return text;
+    }
+
+    private async ocrPdfPage(page: any, ops: Record<string, number>, filePath: string, pageNumber: number): Promise<string> {
+        try {
+            const texts: string[] = [];
+            for (const image of await extractPageImages(page, ops)) {
+                texts.push(await this.ocrEngine!.recognize(encodePnm(image)));
+            }
+            return texts.filter(text => text).join('\n\n');
+        } catch (error: any) {
+            if (error.code === 'MODULE_NOT_FOUND') {
+                console.warn(`OCR not available for ${filePath}. Install tesseract.js and @tesseract.js-data/${this.ocrEngine!.getLanguages().join(', ')}.`);
+            } else {
+                console.error(`OCR failed on page ${pageNumber} of ${filePath}:`, error);
+            }
+            return '';
+        }
+    }
+
+    private async readImage(filePath: string): Promise<string | null> {
+        const ext = path.extname(filePath);
+        if (!this.ocrEngine) {
+            console.log(`Skipping ${filePath}: OCR is disabled`);
+            return null;
+        }
+        try {
+            const text = await this.ocrEngine.recognize(fs.readFileSync(filePath));
+            return `# ${path.basename(filePath, ext)}\n\n${text}`;
+        } catch (error: any) {
+            if (error.code === 'MODULE_NOT_FOUND') {
+                console.warn(`OCR not available for ${filePath}. Install tesseract.js and @tesseract.js-data/${this.ocrEngine.getLanguages().join(', ')}.`);
+                return `# ${path.basename(filePath, ext)}\n\n[Image content - install tesseract.js for OCR]`;
+            }
+            throw error;
+        }
+    }
+
     private async readDoc(filePath: string): Promise<string> {
         try {
             const WordExtractor = require('word-extractor');
@@ -234,7 +460,17 @@ export class ContentProcessor {
     private async readDocx(filePath: string): Promise<string> {
         try {
             const mammoth = require('mammoth');
-            const result = await mammoth.convertToHtml({ path: filePath });
+            const JSZip = require('jszip');
+            const zip = await JSZip.loadAsync(fs.readFileSync(filePath));
+            const documentXml: string | undefined = await zip.file('word/document.xml')?.async('string');
+            const markedXml = documentXml && this.markDocxPageBreaks(documentXml);
+            const paginated = !!markedXml && markedXml !== documentXml;
+            if (paginated) {
+                zip.file('word/document.xml', markedXml);
+            }
+            const result = paginated
+                ? await mammoth.convertToHtml({ buffer: await zip.generateAsync({ type: 'nodebuffer' }) })
+                : await mammoth.convertToHtml({ path: filePath });
             const html = result.value;
             
             // Log any warnings
@@ -246,7 +482,8 @@ export class ContentProcessor {
             let content = `# ${path.basename(filePath, '.docx')}\n\n`;
             
             // Convert HTML to Markdown for better formatting
-            content += this.convertHtmlToMarkdown(html);
+            const markdown = this.convertHtmlToMarkdown(html);
+            content += paginated ? this.placeDocxPageMarkers(markdown) : markdown;
             
             // Clean up excessive line breaks
             content = content.replace(/\n{3,}/g, '\n\n').trim();
@@ -261,14 +498,63 @@ export class ContentProcessor {
         }
     }
 
+    /**
+     * Replace page breaks in word/document.xml with a text token mammoth keeps. Word records where it broke
+     * pages when the file was last saved (w:lastRenderedPageBreak); files from other tools only have manual breaks.
+     */
+    private markDocxPageBreaks(documentXml: string): string {
+        const token = `<w:t>${DOCX_PAGE_TOKEN}</w:t>`;
+        if (documentXml.includes('<w:lastRenderedPageBreak')) {
+            return documentXml.replace(/<w:lastRenderedPageBreak\s*\/>/g, token);
+        }
+        return documentXml.replace(/<w:br\b[^>]*\bw:type="page"[^>]*\/>/g, token);
+    }
+
+    /**
+     * Turn the page tokens back into page markers. A paragraph that starts a page is marked before it;
+     * a page break inside a paragraph is marked after it, so the paragraph cites the page it starts on.
+     */
+    private placeDocxPageMarkers(markdown: string): string {
+        let page = 1;
+        const lines = [`<!-- page ${page} -->`];
+        for (const line of markdown.split('\n')) {
+            const position = line.indexOf(DOCX_PAGE_TOKEN);
+            if (position === -1) {
+                lines.push(line);
+                continue;
+            }
+            let breaks = line.split(DOCX_PAGE_TOKEN).length - 1;
+            if (!/[\p{L}\p{N}]/u.test(line.slice(0, position))) {
+                lines.push(`<!-- page ${++page} -->`);
+                breaks--;
+            }
+            lines.push(line.replace(DOCX_PAGE_TOKEN_PATTERN, ''));
+            if (breaks > 0) {
+                page += breaks;
+                lines.push(`<!-- page ${page} -->`);
+            }
+        }
+        return lines.join('\n');
+    }
+
     private async readPptx(filePath: string): Promise<string> {
         try {
             const officeparser = require('officeparser');
-            const result = await officeparser.parseOfficeAsync(filePath);
+            const ast = await officeparser.parseOffice(filePath);
+
+            // Speaker notes carry their slide's number and follow the slide's own text
+            const slides = new Map<number, string[]>();
+            for (const node of ast.content) {
+                const text = officeNodeText(node).trim();
+                const slideNumber: number = node.metadata?.slideNumber ?? 0;
+                if (text) {
+                    slides.set(slideNumber, [...(slides.get(slideNumber) ?? []), text]);
+                }
+            }
 
             // Create content with filename as title
             let content = `# ${path.basename(filePath, '.pptx')}\n\n`;
-            content += result.trim();
+            content += Array.from(slides, ([slideNumber, texts]) => `<!-- slide ${slideNumber} -->\n${texts.join('\n\n')}`).join('\n\n');
 
             return content;
         } catch (error: any) {
@@ -280,10 +566,81 @@ export class ContentProcessor {
         }
     }
 
+    /**
+     * Read an EPUB chapter by chapter in reading order. The table of contents supplies the headings: the book
+     * title is the top heading and each entry is placed where it points to, one level deeper per nesting level.
+     * A chapter's own headings go below the current entry, and are dropped when they repeat its title;
+     * the headings after such a repeat keep their depth relative to it.
+     */
+    private async readEpub(filePath: string): Promise<string> {
+        try {
+            const book = await readEpub(filePath);
+            const lines = [`# ${book.title || path.basename(filePath, '.epub')}`, ''];
+            let tocLevel = 1;
+            let tocTitle = '';
+            let tocHeadingLevel = 0;
+
+            for (const chapter of book.chapters) {
+                const entries = book.toc.filter(entry => entry.href === chapter.href);
+                const markdown = this.convertHtmlToMarkdown(this.markEpubTocEntries(getChapterBody(chapter.html), entries));
+                for (const line of markdown.split('\n')) {
+                    const tokens = Array.from(line.matchAll(EPUB_TOC_TOKEN_PATTERN));
+                    for (const token of tokens) {
+                        const entry = entries[parseInt(token[2], 10)];
+                        tocLevel = Math.min(entry.depth + 1, 6);
+                        tocTitle = entry.title;
+                        tocHeadingLevel = 0;
+                        lines.push('', `${'#'.repeat(tocLevel)} ${entry.title}`, '');
+                    }
+
+                    const text = tokens.length > 0 ? line.replace(EPUB_TOC_TOKEN_PATTERN, '').trim() : line;
+                    const heading = text.match(/^(#{1,6})\s+(.*)$/);
+                    if (heading) {
+                        const level = heading[1].length;
+                        if (heading[2].trim().toLowerCase() === tocTitle.toLowerCase()) {
+                            tocHeadingLevel = level;
+                        } else {
+                            const depth = Math.max(level - tocHeadingLevel, 1);
+                            lines.push(`${'#'.repeat(Math.min(tocLevel + depth, 6))} ${heading[2].trim()}`);
+                        }
+                    } else if (text || tokens.length === 0) {
+                        lines.push(text);
+                    }
+                }
+                lines.push('');
+            }
+
+            return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+        } catch (error: any) {
+            if (error.code === 'MODULE_NOT_FOUND') {
+                console.warn(`EPUB parsing not available for ${filePath}. Install jszip for EPUB support.`);
+                return `# ${path.basename(filePath, '.epub')}\n\n[EPUB content - install jszip for extraction]`;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Put a token where each table of contents entry points: before the element with the entry's anchor,
+     * or at the start of the chapter. Entries pointing to the same place keep their order.
+     */
+    private markEpubTocEntries(body: string, entries: EpubTocEntry[]): string {
+        const positions = entries.map((entry, index) => {
+            const anchor = entry.fragment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            const match = entry.fragment ? new RegExp(`<[a-zA-Z][^>]*\\s(?:id|name)\\s*=\\s*["']${anchor}["']`).exec(body) : null;
+            return { index, offset: match ? match.index : 0 };
+        });
+        positions.sort((a, b) => b.offset - a.offset || b.index - a.index);
+        for (const { index, offset } of positions) {
+            body = `${body.slice(0, offset)}<p>${EPUB_TOC_TOKEN}${index}</p>${body.slice(offset)}`;
+        }
+        return body;
+    }
+
     private async readRtf(filePath: string): Promise<string> {
         try {
             const officeparser = require('officeparser');
-            const result = await officeparser.parseOfficeAsync(filePath);
+            const result: string = (await officeparser.parseOffice(filePath)).toText();
 
             // Create content with filename as title
             let content = `# ${path.basename(filePath, '.rtf')}\n\n`;
@@ -302,7 +659,7 @@ export class ContentProcessor {
     private async readOdt(filePath: string): Promise<string> {
         try {
             const officeparser = require('officeparser');
-            const result = await officeparser.parseOfficeAsync(filePath);
+            const result: string = (await officeparser.parseOffice(filePath)).toText();
 
             // Create content with filename as title
             let content = `# ${path.basename(filePath, '.odt')}\n\n`;
@@ -318,6 +675,180 @@ export class ContentProcessor {
         }
     }
 
+    private async readMsg(filePath: string): Promise<string> {
+        try {
+            return await this.formatMessage(readMsgFile(filePath));
+        } catch (error: any) {
+            if (error.code === 'MODULE_NOT_FOUND') {
+                console.warn(`MSG parsing not available for ${filePath}. Install @kenjiuno/msgreader for Outlook message support.`);
+                return `# ${path.basename(filePath, '.msg')}\n\n[MSG content - install @kenjiuno/msgreader for extraction]`;
+            }
+            throw error;
+        }
+    }
+
+    private async readMailboxMessage(mailboxPath: string, key: string): Promise<string | null> {
+        const stats = fs.statSync(mailboxPath);
+        const cache = this.mailboxCache;
+        if (!cache || cache.filePath !== mailboxPath || cache.modifiedAt !== stats.mtimeMs || cache.size !== stats.size) {
+            this.mailboxCache = {
+                filePath: mailboxPath,
+                modifiedAt: stats.mtimeMs,
+                size: stats.size,
+                messages: new Map(readMailbox(mailboxPath).map(entry => [entry.key, entry.raw]))
+            };
+        }
+        const raw = this.mailboxCache!.messages.get(key);
+        return raw ? this.formatMessage(parseMessage(raw)) : null;
+    }
+
+    // A mailbox that isn't split into messages by the syncer (e.g. from Google Drive) is read as one document
+    private async readMailboxFile(filePath: string): Promise<string> {
+        const messages: string[] = [];
+        for (const entry of readMailbox(filePath)) {
+            messages.push(await this.formatMessage(parseMessage(entry.raw)));
+        }
+        return messages.join('\n\n');
+    }
+
+    /**
+     * Render a message as Markdown: the subject is the top heading and From/To/Date the one below it,
+     * so every chunk of the message carries them in its topic. Readable attachments follow as subsections.
+     */
+    private async formatMessage(message: MailMessage): Promise<string> {
+        const oneLine = (text: string) => text.replace(/\s+/g, ' ').trim();
+        const envelope = [
+            message.from && `From: ${message.from}`,
+            message.to && `To: ${message.to}`,
+            message.date && `Date: ${message.date}`
+        ].filter(Boolean).join(' | ');
+
+        const sections = [`# ${oneLine(message.subject) || '(no subject)'}`];
+        if (envelope) {
+            sections.push(`## ${oneLine(envelope)}`);
+        }
+        if (message.cc) {
+            sections.push(`Cc: ${oneLine(message.cc)}`);
+        }
+        // Plain-text lines starting with # are not headings
+        const body = message.text
+            ? message.text.replace(/\r\n?/g, '\n').replace(/^#/gm, '\\#').trim()
+            : message.html ? this.convertHtmlToMarkdown(message.html) : '';
+        if (body) {
+            sections.push(body);
+        }
+        for (const attachment of message.attachments) {
+            const content = await this.readAttachment(attachment);
+            if (content) {
+                sections.push(`### Attachment: ${oneLine(attachment.fileName)}`, content);
+            }
+        }
+        return sections.join('\n\n');
+    }
+
+    // Attachments go through the same readers as files on disk, nested below the message's headings
+    private async readAttachment(attachment: MailAttachment): Promise<string | null> {
+        const fileName = path.basename(attachment.fileName.replace(/[\\/:*?"<>|\x00-\x1f]/g, '_')) || 'attachment';
+        if (!isEmbeddedFile(fileName)) {
+            return null;
+        }
+
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'docs4ai-mail-'));
+        try {
+            const filePath = path.join(dir, fileName);
+            fs.writeFileSync(filePath, attachment.content);
+            const content = await this.readFile(filePath);
+            return content && this.nestDocument(content, fileName, '###');
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Fit a document read from an embedded file below its container's headings: its title heading is dropped
+     * (the container names the file) and the other headings are pushed down by the given prefix
+     */
+    private nestDocument(content: string, fileName: string, headingPrefix: string): string {
+        // Page and slide numbers of an embedded file would be attributed to its container
+        const title = `# ${path.basename(fileName, path.extname(fileName))}`;
+        return content.split('\n')
+            .filter((line, i) => !(i === 0 && line === title) && !LOCATION_MARKER.test(line) && !NOTEBOOK_CELL_MARKER.test(line) && line !== API_OPERATION_MARKER)
+            .map(line => line.startsWith('#') ? `${headingPrefix}${line}` : line)
+            .join('\n')
+            .trim();
+    }
+
+    private async readArchiveEntry(archivePath: string, entryName: string): Promise<string | null> {
+        const archive = await expandArchive(archivePath);
+        if (!archive.entries.includes(entryName)) {
+            return null;
+        }
+        return this.readFile(getArchiveEntryFile(archive, entryName));
+    }
+
+    /**
+     * An archive that isn't expanded by the syncer (e.g. from Google Drive, or attached to an email) is read
+     * as one document with a section per file. Archives inside it are skipped.
+     */
+    private async readArchiveFile(filePath: string): Promise<string> {
+        const title = path.basename(filePath).replace(/\.(zip|tar\.gz|tgz)$/i, '');
+        try {
+            const archive = await expandArchive(filePath);
+            const sections = [`# ${title}`];
+            for (const entryName of archive.entries) {
+                if (!isEmbeddedFile(entryName) || isArchiveFile(entryName)) continue;
+                const content = await this.readFile(getArchiveEntryFile(archive, entryName));
+                if (content) {
+                    sections.push(`## ${entryName}`, this.nestDocument(content, entryName, '##'));
+                }
+            }
+            return sections.join('\n\n');
+        } catch (error: any) {
+            if (error.code === 'MODULE_NOT_FOUND') {
+                console.warn(`ZIP extraction not available for ${filePath}. Install jszip for ZIP support.`);
+                return `# ${title}\n\n[ZIP content - install jszip for extraction]`;
+            }
+            throw error;
+        } finally {
+            // Nothing reads the files of an archive read as a whole again
+            removeExpandedArchive(filePath);
+        }
+    }
+
+    /**
+     * OpenAPI/AsyncAPI specs are rendered one operation per section; other JSON and YAML documents as
+     * sections headed by their key path, going one key deeper wherever a value doesn't fit in a chunk
+     */
+    private readStructuredFile(filePath: string): string {
+        const format = getStructuredFormat(filePath);
+        try {
+            const value = readStructuredFile(filePath);
+            if (isApiSpec(value)) {
+                return formatApiSpec(value, format);
+            }
+            return formatStructured(value, format, text => this.countTokens(text) <= this.maxTokens);
+        } catch (error: any) {
+            if (error.code === 'MODULE_NOT_FOUND') {
+                console.warn(`YAML parsing not available for ${filePath}. Install yaml for YAML support.`);
+                return fs.readFileSync(filePath, 'utf-8');
+            }
+            throw error;
+        }
+    }
+
+    private readWorkbook(filePath: string): string {
+        const ext = path.extname(filePath).toLowerCase();
+        try {
+            return formatSheets(readWorkbookFile(filePath));
+        } catch (error: any) {
+            if (error.code === 'MODULE_NOT_FOUND') {
+                console.warn(`Spreadsheet parsing not available for ${filePath}. Install xlsx for XLSX/ODS support.`);
+                return `# ${path.basename(filePath, ext)}\n\n[${ext.slice(1).toUpperCase()} content - install xlsx for extraction]`;
+            }
+            throw error;
+        }
+    }
+
     private stripHtml(html: string): string {
         return html
             .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
@@ -336,18 +867,72 @@ export class ContentProcessor {
         return crypto.createHash('sha256').update(content).digest('hex');
     }
 
-    private tokenize(text: string): string[] {
-        return text.split(/(\s+)/).filter(token => token.length > 0);
+    private buildChunk(
+        content: string,
+        hierarchy: string[],
+        chunkIndex: number,
+        filePath: string,
+        sourceUrl?: string,
+        location: ChunkLocation = {}
+    ): DocumentChunk {
+        const breadcrumbs = hierarchy.filter(h => h).join(' > ');
+        const contextPrefix = breadcrumbs ? `[Topic: ${breadcrumbs}]\n` : '';
+        const searchableText = contextPrefix + content.trim();
+        const chunkId = this.generateHash(searchableText);
+
+        return {
+            chunkId,
+            content: searchableText,
+            section: hierarchy[hierarchy.length - 1] || 'Introduction',
+            headingHierarchy: hierarchy.filter(h => h),
+            chunkIndex,
+            totalChunks: 0,
+            url: sourceUrl || `file://${filePath}`,
+            hash: chunkId,
+            ...location
+        };
     }
 
     chunkContent(content: string, filePath: string, sourceUrl?: string): DocumentChunk[] {
+        // Source files are split on declarations; # comments are not headings there
+        const language = getCodeLanguage(filePath);
+        if (language) {
+            return this.chunkCode(content, filePath, language, sourceUrl);
+        }
+
+        // Spreadsheets are read as one Markdown table per sheet and chunked by rows
+        if (isSpreadsheetFile(filePath)) {
+            const tables = parseSheetTables(content);
+            if (tables.length > 0) {
+                return this.chunkSheets(tables, filePath, sourceUrl);
+            }
+        }
+
+        // Notebooks are read as marked cells and chunked by whole cells
+        if (isNotebookFile(filePath)) {
+            const cells = parseNotebookCells(content);
+            if (cells.length > 0) {
+                return this.chunkNotebook(cells, filePath, sourceUrl);
+            }
+        }
+
+        // API specs are read as one marked section per operation and chunked by operation
+        if (isStructuredFile(filePath) && content.includes(API_OPERATION_MARKER)) {
+            return this.chunkApiSpec(content, filePath, sourceUrl);
+        }
+
         const chunks: DocumentChunk[] = [];
         const lines = content.split('\n');
         
         let buffer = '';
+        let bufferTokens = 0;
         let headingHierarchy: string[] = [];
         let bufferHeadings: { level: number; text: string }[] = [];
         let chunkCounter = 0;
+        let currentPage: number | undefined;
+        let bufferPages: { start: number; end: number } | undefined;
+        let currentSlide: number | undefined;
+        let bufferSlide: number | undefined;
 
         const computeTopicHierarchy = (): string[] => {
             if (bufferHeadings.length === 0) return headingHierarchy;
@@ -362,51 +947,66 @@ export class ContentProcessor {
             return headingHierarchy;
         };
 
+        const appendLine = (line: string) => {
+            buffer += line + '\n';
+            bufferTokens += this.countTokens(line + '\n');
+            if (currentPage !== undefined && line.trim()) {
+                bufferPages = { start: bufferPages?.start ?? currentPage, end: currentPage };
+            }
+            if (currentSlide !== undefined && line.trim()) {
+                bufferSlide = bufferSlide ?? currentSlide;
+            }
+        };
+
         const createChunk = (content: string, hierarchy: string[]): DocumentChunk => {
-            const breadcrumbs = hierarchy.filter(h => h).join(' > ');
-            const contextPrefix = breadcrumbs ? `[Topic: ${breadcrumbs}]\n` : '';
-            const searchableText = contextPrefix + content.trim();
-            const chunkId = this.generateHash(searchableText);
-
-            return {
-                chunkId,
-                content: searchableText,
-                section: hierarchy[hierarchy.length - 1] || 'Introduction',
-                headingHierarchy: hierarchy.filter(h => h),
-                chunkIndex: chunkCounter++,
-                totalChunks: 0,
-                url: sourceUrl || `file://${filePath}`,
-                hash: chunkId
+            const location: ChunkLocation = {
+                ...(bufferPages ? { pageStart: bufferPages.start, pageEnd: bufferPages.end } : {}),
+                ...(bufferSlide !== undefined ? { slide: bufferSlide } : {})
             };
+            return this.buildChunk(content, hierarchy, chunkCounter++, filePath, sourceUrl, location);
         };
 
         const flushBuffer = (force = false) => {
             const trimmed = buffer.trim();
             if (!trimmed) return;
 
-            const tokenCount = this.tokenize(trimmed).length;
+            const tokenCount = this.countTokens(trimmed);
             
             if (tokenCount < this.minTokens && !force) return;
 
             const hierarchy = computeTopicHierarchy();
 
             if (tokenCount > this.maxTokens) {
-                const tokens = this.tokenize(trimmed);
-                const overlapSize = Math.floor(this.maxTokens * this.overlapPercent);
-                
-                for (let i = 0; i < tokens.length; i += (this.maxTokens - overlapSize)) {
-                    const subTokens = tokens.slice(i, i + this.maxTokens);
-                    chunks.push(createChunk(subTokens.join(''), hierarchy));
+                for (const piece of this.packUnits(this.splitIntoUnits(trimmed))) {
+                    chunks.push(createChunk(piece, hierarchy));
                 }
             } else {
                 chunks.push(createChunk(trimmed, hierarchy));
             }
 
             buffer = '';
+            bufferTokens = 0;
             bufferHeadings = [];
+            bufferPages = undefined;
+            bufferSlide = undefined;
         };
 
         for (const line of lines) {
+            const marker = line.match(LOCATION_MARKER);
+            if (marker) {
+                const number = parseInt(marker[2], 10);
+                if (marker[1] === 'page') {
+                    currentPage = number;
+                } else {
+                    // Chunks never span slides, so each one cites a single slide
+                    if (bufferSlide !== undefined) {
+                        flushBuffer(true);
+                    }
+                    currentSlide = number;
+                }
+                continue;
+            }
+
             const isHeading = line.startsWith('#');
 
             if (isHeading) {
@@ -418,9 +1018,8 @@ export class ContentProcessor {
                     .replace(/\[\]\(#[^)]*\)/g, '')     // Remove [](#anchor) patterns
                     .trim();
 
-                const currentTokens = this.tokenize(buffer.trim()).length;
-                const hasContent = currentTokens > 0;
-                const isSmall = currentTokens < this.minTokens;
+                const hasContent = buffer.trim().length > 0;
+                const isSmall = bufferTokens < this.minTokens;
                 const deepestLevel = bufferHeadings.length > 0 
                     ? Math.max(...bufferHeadings.map(h => h.level)) 
                     : 0;
@@ -433,11 +1032,12 @@ export class ContentProcessor {
                 headingHierarchy = headingHierarchy.slice(0, level - 1);
                 headingHierarchy[level - 1] = headingText;
                 bufferHeadings.push({ level, text: headingText });
-                buffer += line + '\n';
+                appendLine(line);
             } else {
-                buffer += line + '\n';
+                // Line-by-line counts keep this linear; flushBuffer() counts the whole text again
+                appendLine(line);
                 
-                if (this.tokenize(buffer).length >= this.maxTokens) {
+                if (bufferTokens >= this.maxTokens) {
                     flushBuffer();
                 }
             }
@@ -453,4 +1053,270 @@ export class ContentProcessor {
 
         return chunks;
     }
+
+    /**
+     * Chunk source code along declarations. The hierarchy is the symbol path (file > class > method);
+     * small neighbouring declarations are merged under the path of the largest one, and oversized
+     * declarations are split on line boundaries.
+     */
+    private chunkCode(content: string, filePath: string, language: CodeLanguage, sourceUrl?: string): DocumentChunk[] {
+        const moduleName = path.basename(filePath);
+        const chunks: DocumentChunk[] = [];
+        let buffer: { segment: CodeSegment; tokens: number }[] = [];
+        let bufferTokens = 0;
+
+        const pushChunk = (text: string, symbolPath: string[]) => {
+            chunks.push(this.buildChunk(text, [moduleName, ...symbolPath], chunks.length, filePath, sourceUrl));
+        };
+
+        const flushBuffer = () => {
+            if (buffer.length === 0) return;
+            const largest = buffer.reduce((best, entry) => entry.tokens > best.tokens ? entry : best);
+            pushChunk(buffer.map(entry => entry.segment.text).join('\n\n'), largest.segment.symbolPath);
+            buffer = [];
+            bufferTokens = 0;
+        };
+
+        for (const segment of splitCodeIntoSegments(content, language)) {
+            const tokens = this.countTokens(segment.text);
+            if (tokens > this.maxTokens) {
+                flushBuffer();
+                for (const piece of this.splitLines(segment.text)) {
+                    pushChunk(piece, segment.symbolPath);
+                }
+                continue;
+            }
+            if (bufferTokens >= this.minTokens || bufferTokens + tokens > this.maxTokens) {
+                flushBuffer();
+            }
+            buffer.push({ segment, tokens });
+            bufferTokens += tokens;
+        }
+        flushBuffer();
+
+        chunks.forEach(chunk => {
+            chunk.totalChunks = chunks.length;
+        });
+        return chunks;
+    }
+
+    /**
+     * Chunk tables by groups of whole rows, repeating the header row in every chunk so each row keeps its
+     * column names. The section is the sheet name for workbooks and the file name for CSV/TSV.
+     */
+    private chunkSheets(tables: SheetTable[], filePath: string, sourceUrl?: string): DocumentChunk[] {
+        const fileName = path.basename(filePath);
+        const isWorkbook = !['.csv', '.tsv'].includes(path.extname(filePath).toLowerCase());
+        const chunks: DocumentChunk[] = [];
+
+        for (const table of tables) {
+            const hierarchy = isWorkbook ? [fileName, table.name] : [fileName];
+            // Keep room for the rows even when the header alone is large
+            const rowBudget = Math.max(Math.floor(this.maxTokens / 4), this.maxTokens - this.countTokens(table.header + '\n'));
+            let rows: string[] = [];
+            let rowTokens = 0;
+
+            const pushChunk = (body: string) => {
+                chunks.push(this.buildChunk(`${table.header}\n${body}`, hierarchy, chunks.length, filePath, sourceUrl));
+            };
+            const flushRows = () => {
+                if (rows.length === 0) return;
+                pushChunk(rows.join('\n'));
+                rows = [];
+                rowTokens = 0;
+            };
+
+            if (table.rows.length === 0) {
+                chunks.push(this.buildChunk(table.header, hierarchy, chunks.length, filePath, sourceUrl));
+                continue;
+            }
+            for (const row of table.rows) {
+                const tokens = this.countTokens(row + '\n');
+                if (tokens > rowBudget) {
+                    // A row with long text cells is split like prose, each piece under the header
+                    flushRows();
+                    for (const piece of this.packUnits(this.splitIntoUnits(row))) {
+                        pushChunk(piece);
+                    }
+                    continue;
+                }
+                if (rowTokens + tokens > rowBudget) {
+                    flushRows();
+                }
+                rows.push(row);
+                rowTokens += tokens;
+            }
+            flushRows();
+        }
+
+        chunks.forEach(chunk => {
+            chunk.totalChunks = chunks.length;
+        });
+        return chunks;
+    }
+
+    /**
+     * Chunk notebooks by whole cells, so a code cell stays with its outputs; only a cell larger than a chunk
+     * is split. Headings in markdown cells set the hierarchy; small sections are merged like in chunkContent().
+     */
+    private chunkNotebook(cells: NotebookCellText[], filePath: string, sourceUrl?: string): DocumentChunk[] {
+        const chunks: DocumentChunk[] = [];
+        let hierarchy: string[] = [];
+        let buffer: string[] = [];
+        let bufferTokens = 0;
+        let bufferLevels: number[] = [];
+
+        const pushChunk = (text: string, chunkHierarchy: string[]) => {
+            chunks.push(this.buildChunk(text, chunkHierarchy, chunks.length, filePath, sourceUrl));
+        };
+        const flushBuffer = () => {
+            if (buffer.length === 0) return;
+            // Sibling sections merged into one chunk are labelled with their parent
+            const deepestLevel = Math.max(0, ...bufferLevels);
+            const siblings = bufferLevels.filter(level => level === deepestLevel).length > 1 && deepestLevel > 1;
+            pushChunk(buffer.join('\n\n'), siblings ? hierarchy.slice(0, deepestLevel - 1) : hierarchy);
+            buffer = [];
+            bufferTokens = 0;
+            bufferLevels = [];
+        };
+
+        for (const cell of cells) {
+            const headings = cell.type === 'markdown' ? findMarkdownHeadings(cell.text) : [];
+            // A heading starts a new chunk unless the one being built is still too small to stand alone
+            if (headings.length > 0 && bufferTokens >= this.minTokens) {
+                flushBuffer();
+            }
+            for (const heading of headings) {
+                hierarchy = hierarchy.slice(0, heading.level - 1);
+                hierarchy[heading.level - 1] = heading.text;
+                bufferLevels.push(heading.level);
+            }
+
+            const tokens = this.countTokens(cell.text);
+            if (tokens > this.maxTokens) {
+                flushBuffer();
+                for (const piece of this.splitLines(cell.text)) {
+                    pushChunk(piece, hierarchy);
+                }
+                continue;
+            }
+            if (bufferTokens + tokens > this.maxTokens) {
+                flushBuffer();
+            }
+            buffer.push(cell.text);
+            bufferTokens += tokens;
+        }
+        flushBuffer();
+
+        chunks.forEach(chunk => {
+            chunk.totalChunks = chunks.length;
+        });
+        return chunks;
+    }
+
+    /**
+     * One chunk per API operation under the spec's title, with "GET /pets/{id}" as its section, and one for the
+     * overview. An operation larger than a chunk is split on lines, each piece keeping the operation's topic.
+     */
+    private chunkApiSpec(content: string, filePath: string, sourceUrl?: string): DocumentChunk[] {
+        const chunks: DocumentChunk[] = [];
+        const { overview, operations } = splitApiSpec(content);
+        const title = findMarkdownHeadings(overview).find(heading => heading.level === 1)?.text || '';
+
+        const pushSection = (text: string, hierarchy: string[]) => {
+            const pieces = this.countTokens(text) > this.maxTokens ? this.splitLines(text) : [text];
+            for (const piece of pieces) {
+                chunks.push(this.buildChunk(piece, hierarchy, chunks.length, filePath, sourceUrl));
+            }
+        };
+        if (overview) {
+            pushSection(overview, [title]);
+        }
+        for (const operation of operations) {
+            const heading = operation.match(/^## (.+)$/m);
+            pushSection(operation, [title, heading ? heading[1].trim() : '']);
+        }
+
+        chunks.forEach(chunk => {
+            chunk.totalChunks = chunks.length;
+        });
+        return chunks;
+    }
+
+    // Windows of whole lines up to maxTokens with the usual overlap; an oversized line is split like prose
+    private splitLines(text: string): string[] {
+        const units = text.split('\n').flatMap(line => {
+            const unit = { text: line + '\n', tokens: this.countTokens(line + '\n') };
+            return unit.tokens > this.maxTokens ? this.splitIntoUnits(unit.text) : [unit];
+        });
+        return this.packUnits(units);
+    }
+
+    /**
+     * Break text into units of at most maxTokens: sentences, then words for run-on sentences
+     * (dictionary-based for CJK), then characters for a single oversized word such as a base64 blob
+     */
+    private splitIntoUnits(text: string): TextUnit[] {
+        const units: TextUnit[] = [];
+        for (const { segment } of sentenceSegmenter.segment(text)) {
+            const tokens = this.countTokens(segment);
+            if (tokens <= this.maxTokens) {
+                units.push({ text: segment, tokens });
+                continue;
+            }
+
+            // Whitespace and punctuation stay attached to the preceding word
+            const words: string[] = [];
+            for (const word of wordSegmenter.segment(segment)) {
+                if (word.isWordLike || words.length === 0) {
+                    words.push(word.segment);
+                } else {
+                    words[words.length - 1] += word.segment;
+                }
+            }
+            for (const word of words) {
+                const wordTokens = this.countTokens(word);
+                if (wordTokens <= this.maxTokens) {
+                    units.push({ text: word, tokens: wordTokens });
+                    continue;
+                }
+                const sliceLength = Math.max(1, Math.floor(word.length * this.maxTokens / wordTokens));
+                for (let i = 0; i < word.length; i += sliceLength) {
+                    const slice = word.slice(i, i + sliceLength);
+                    units.push({ text: slice, tokens: Math.min(this.maxTokens, this.countTokens(slice)) });
+                }
+            }
+        }
+        return units;
+    }
+
+    // Pack units into pieces of at most maxTokens; each piece starts with up to overlapTokens of the previous one's tail
+    private packUnits(units: TextUnit[]): string[] {
+        const pieces: string[] = [];
+        let window: TextUnit[] = [];
+        let windowTokens = 0;
+
+        for (const unit of units) {
+            if (window.length > 0 && windowTokens + unit.tokens > this.maxTokens) {
+                pieces.push(window.map(entry => entry.text).join(''));
+                // Carry the last units over as overlap, leaving room for the new one
+                const carried: TextUnit[] = [];
+                let carriedTokens = 0;
+                for (let i = window.length - 1; i > 0; i--) {
+                    const next = carriedTokens + window[i].tokens;
+                    if (next > this.overlapTokens || next + unit.tokens > this.maxTokens) break;
+                    carried.unshift(window[i]);
+                    carriedTokens = next;
+                }
+                window = carried;
+                windowTokens = carriedTokens;
+            }
+            window.push(unit);
+            windowTokens += unit.tokens;
+        }
+        if (window.some(entry => entry.text.trim())) {
+            pieces.push(window.map(entry => entry.text).join(''));
+        }
+        return pieces.filter(piece => piece.trim());
+    }
 }
@@ -0,0 +1,248 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CachedFile, CachingSyncer, SyncerOptions } from './syncer';
+
+// A file on a remote server, by its path below the synced folder ("/" separated)
+export interface RemoteFile {
+    path: string;
+    modifiedTimeMs: number;
+    size?: number;
+}
+
+export interface RemoteDirectoryListing {
+    files: RemoteFile[];
+    directories: string[];  // Paths below the synced folder
+}
+
+/**
+ * Access to a remote folder (WebDAV, S3 bucket, SMB share). Paths are relative to the synced folder, with "/"
+ * separators and no leading slash; "" is the folder itself.
+ */
+export interface RemoteBackend {
+    readonly rootName: string;  // Shown as the first segment of display paths
+    list(directory: string): Promise<RemoteDirectoryListing>;
+    download(remotePath: string, destPath: string): Promise<void>;
+    getSourceUrl(remotePath: string): string;
+    close?(): Promise<void>;
+}
+
+interface RemoteIndexEntry extends CachedFile {
+    modifiedTimeMs: number;
+}
+
+/**
+ * Syncs a remote folder through a local cache that mirrors its layout, like DriveSyncer. Each poll lists the
+ * folder again and compares modified times with the index of cached files.
+ */
+export class RemoteSyncer implements CachingSyncer<RemoteFile> {
+    private backend: RemoteBackend;
+    private options: SyncerOptions;
+    private cacheDir: string;
+    private pollIntervalMs = 60000;
+    private pollTimer: NodeJS.Timeout | null = null;
+    private fileIndex: Map<string, RemoteIndexEntry> = new Map();
+    private _isSyncing = false;
+    private isRefreshing = false;
+
+    constructor(backend: RemoteBackend, cacheDir: string, options: SyncerOptions) {
+        this.backend = backend;
+        this.cacheDir = cacheDir;
+        this.options = options;
+        fs.mkdirSync(this.cacheDir, { recursive: true });
+    }
+
+    /**
+     * Files cached by a previous sync, so the first poll also deletes those removed from the server while the
+     * app was closed. Files missing from the cache are downloaded again if they still exist.
+     */
+    restoreIndex(entries: { localPath: string; sourceUrl?: string; displayPath?: string }[]) {
+        for (const entry of entries) {
+            if (!entry.localPath.startsWith(this.cacheDir + path.sep)) continue;
+            let modifiedTimeMs = 0;
+            try {
+                modifiedTimeMs = fs.statSync(entry.localPath).mtimeMs;
+            } catch {
+                // Cache file removed since the last sync
+            }
+            const remotePath = path.relative(this.cacheDir, entry.localPath).split(path.sep).join('/');
+            this.fileIndex.set(remotePath, { ...entry, modifiedTimeMs });
+        }
+    }
+
+    get isSyncing(): boolean {
+        return this._isSyncing;
+    }
+
+    beginSync() {
+        if (this._isSyncing) return;
+        this._isSyncing = true;
+        fs.mkdirSync(this.cacheDir, { recursive: true });
+    }
+
+    start() {
+        this.startPolling();
+    }
+
+    startPolling() {
+        if (this.pollTimer) return;
+        if (!this._isSyncing) {
+            this.beginSync();
+        }
+        this.refreshAndEmit().catch((error) => {
+            console.error(`${this.backend.rootName} sync refresh failed:`, error);
+        });
+        this.pollTimer = setInterval(() => {
+            this.refreshAndEmit().catch((error) => {
+                console.error(`${this.backend.rootName} sync refresh failed:`, error);
+            });
+        }, this.pollIntervalMs);
+    }
+
+    async stop(): Promise<void> {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = null;
+        }
+        this._isSyncing = false;
+        await this.backend.close?.();
+    }
+
+    async listRemoteFiles(): Promise<RemoteFile[]> {
+        const files: RemoteFile[] = [];
+        await this.listDirectory('', files);
+        return files;
+    }
+
+    async downloadToCache(file: RemoteFile): Promise<CachedFile | null> {
+        if (!this._isSyncing || !this.accepts(file.path)) return null;
+        const cached = await this.ensureCached(file);
+        if (cached) {
+            this.fileIndex.set(file.path, cached);
+        }
+        return cached;
+    }
+
+    async getSyncedFiles(): Promise<string[]> {
+        const localPaths: string[] = [];
+        for (const file of await this.listRemoteFiles()) {
+            if (!this._isSyncing) break;
+            try {
+                const cached = await this.downloadToCache(file);
+                if (cached) {
+                    localPaths.push(cached.localPath);
+                }
+            } catch (error) {
+                console.warn(`[RemoteSyncer] Failed to download ${this.backend.rootName}/${file.path}:`, error);
+            }
+        }
+        return localPaths;
+    }
+
+    private async refreshAndEmit(): Promise<void> {
+        if (this.isRefreshing || !this._isSyncing) return;
+        this.isRefreshing = true;
+
+        try {
+            const files = await this.listRemoteFiles();
+            const seen = new Set<string>();
+
+            for (const file of files) {
+                if (!this._isSyncing) return;
+                if (!this.accepts(file.path)) continue;
+                seen.add(file.path);
+
+                const previous = this.fileIndex.get(file.path);
+                if (previous && previous.modifiedTimeMs >= file.modifiedTimeMs && fs.existsSync(previous.localPath)) {
+                    continue;
+                }
+                let cached: RemoteIndexEntry | null;
+                try {
+                    cached = await this.ensureCached(file);
+                } catch (error) {
+                    // Tried again on the next poll; the rest of the folder is still synced
+                    console.warn(`[RemoteSyncer] Failed to download ${this.backend.rootName}/${file.path}:`, error);
+                    continue;
+                }
+                if (!cached) continue;
+                this.fileIndex.set(file.path, cached);
+                if (previous) {
+                    await this.options.onFileChange(cached.localPath, cached.sourceUrl, cached.displayPath);
+                } else {
+                    await this.options.onFileAdd(cached.localPath, cached.sourceUrl, cached.displayPath);
+                }
+            }
+
+            for (const [remotePath, entry] of this.fileIndex.entries()) {
+                if (seen.has(remotePath)) continue;
+                this.fileIndex.delete(remotePath);
+                await this.options.onFileDelete(entry.localPath);
+                fs.rmSync(entry.localPath, { force: true });
+            }
+        } finally {
+            this.isRefreshing = false;
+        }
+    }
+
+    private async listDirectory(directory: string, files: RemoteFile[]): Promise<void> {
+        const listing = await this.backend.list(directory);
+        files.push(...listing.files.filter(file => !this.isHidden(file.path)));
+        if (!this.options.recursive) return;
+
+        for (const subdirectory of listing.directories) {
+            if (!this._isSyncing) return;
+            if (this.isHidden(subdirectory) || this.options.fileFilter?.isExcluded(subdirectory, true)) continue;
+            await this.listDirectory(subdirectory, files);
+        }
+    }
+
+    // Hidden files are skipped, as in local folders
+    private isHidden(remotePath: string): boolean {
+        return path.posix.basename(remotePath).startsWith('.');
+    }
+
+    private accepts(remotePath: string): boolean {
+        const name = path.posix.basename(remotePath).toLowerCase();
+        if (this.options.extensions.length > 0 && !this.options.extensions.some(ext => name.length > ext.length && name.endsWith(ext.toLowerCase()))) {
+            return false;
+        }
+        return !this.options.fileFilter || this.options.fileFilter.accepts(remotePath);
+    }
+
+    // Cached files keep the remote layout; paths that would land outside the cache are skipped
+    private getLocalPath(remotePath: string): string | null {
+        const localPath = path.join(this.cacheDir, ...remotePath.split('/'));
+        return localPath.startsWith(this.cacheDir + path.sep) ? localPath : null;
+    }
+
+    private async ensureCached(file: RemoteFile): Promise<RemoteIndexEntry | null> {
+        const localPath = this.getLocalPath(file.path);
+        if (!localPath) return null;
+
+        let needsDownload = true;
+        try {
+            needsDownload = fs.statSync(localPath).mtimeMs < file.modifiedTimeMs;
+        } catch {
+            // Not cached yet
+        }
+
+        if (needsDownload) {
+            console.log(`[RemoteSyncer] Downloading ${this.backend.rootName}/${file.path}`);
+            fs.mkdirSync(path.dirname(localPath), { recursive: true });
+            await this.backend.download(file.path, localPath);
+            if (!this._isSyncing) return null;
+            const modifiedTime = (file.modifiedTimeMs || Date.now()) / 1000;
+            try {
+                fs.utimesSync(localPath, modifiedTime, modifiedTime);
+            } catch (error) {
+                console.warn('Failed to update cached file timestamps:', error);
+            }
+        }
+
+        return {
+            localPath,
+            modifiedTimeMs: file.modifiedTimeMs,
+            sourceUrl: this.backend.getSourceUrl(file.path),
+            displayPath: `${this.backend.rootName}/${file.path}`
+        };
+    }
+}
@@ -0,0 +1,161 @@
+import OpenAI from 'openai';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { LlamaModel, LlamaRankingContext } from 'node-llama-cpp';
+import { getModelCacheDir } from './embeddings';
+import { BGE_RERANKER_MODEL, LlamaServer } from './llama-server';
+
+// 'local' uses a GGUF cross-encoder in-process, 'openai' asks a chat model to score the passages
+export type RerankProvider = 'local' | 'openai';
+
+export interface RerankOptions {
+    enabled: boolean;       // Default for queries that don't pass `rerank`
+    provider: RerankProvider;
+    topN: number;           // Fused candidates to re-score
+}
+
+export interface RerankResult {
+    scores: number[];       // One score per document, higher is more relevant
+    tokens: number;
+    cost: number;
+}
+
+export const DEFAULT_RERANK_TOP_N = 20;
+export const MAX_RERANK_TOP_N = 100;
+
+const OPENAI_RERANK_MODEL = 'gpt-4o-mini';
+const OPENAI_INPUT_COST_PER_MILLION = 0.15;
+const OPENAI_OUTPUT_COST_PER_MILLION = 0.6;
+const MAX_PASSAGE_CHARS = 2000; // Keeps LLM prompts and cross-encoder inputs bounded
+
+export function normalizeRerankTopN(topN: number | undefined): number {
+    if (!topN || !Number.isFinite(topN)) {
+        return DEFAULT_RERANK_TOP_N;
+    }
+    return Math.min(Math.max(Math.round(topN), 1), MAX_RERANK_TOP_N);
+}
+
+export class RerankService {
+    private provider: RerankProvider;
+    private client: OpenAI | null = null;
+    private model: LlamaModel | null = null;
+    private rankingContext: LlamaRankingContext | null = null;
+    private initPromise: Promise<void> | null = null;
+
+    constructor(provider: RerankProvider = 'local', apiKey?: string) {
+        this.provider = provider;
+        if (provider === 'openai') {
+            if (!apiKey) {
+                throw new Error('OpenAI API key is required when using OpenAI reranking');
+            }
+            this.client = new OpenAI({ apiKey });
+        }
+    }
+
+    getProvider(): RerankProvider {
+        return this.provider;
+    }
+
+    async rerank(query: string, documents: string[]): Promise<RerankResult> {
+        if (documents.length === 0) {
+            return { scores: [], tokens: 0, cost: 0 };
+        }
+
+        const passages = documents.map(doc => doc.slice(0, MAX_PASSAGE_CHARS));
+        if (this.provider === 'openai') {
+            return this.rerankWithOpenAI(query, passages);
+        }
+
+        await this.ensureLocalModelReady();
+        const scores = await this.rankingContext!.rankAll(query, passages);
+        return { scores, tokens: 0, cost: 0 };
+    }
+
+    private async ensureLocalModelReady(): Promise<void> {
+        if (!this.initPromise) {
+            this.initPromise = this.initializeLocalModel().catch((error) => {
+                this.initPromise = null;
+                throw error;
+            });
+        }
+        await this.initPromise;
+    }
+
+    private async initializeLocalModel(): Promise<void> {
+        const modelPath = path.join(getModelCacheDir(), BGE_RERANKER_MODEL.filename);
+
+        if (process.env.DOCS4AI_SKIP_MODEL_DOWNLOAD !== '1' && !fs.existsSync(modelPath)) {
+            console.log(`Downloading reranker model: ${BGE_RERANKER_MODEL.name}...`);
+            await new LlamaServer().downloadModel(BGE_RERANKER_MODEL.repoId, BGE_RERANKER_MODEL.filename, modelPath);
+        }
+
+        const nodeLlama = await this.loadNodeLlama();
+        const llama = await nodeLlama.getLlama();
+        const model = await llama.loadModel({ modelPath });
+        this.rankingContext = await model.createRankingContext();
+        this.model = model;
+        console.log(`Reranker model ready: ${BGE_RERANKER_MODEL.name}`);
+    }
+
+    private async loadNodeLlama(): Promise<typeof import('node-llama-cpp')> {
+        const globalMock = (globalThis as any).__docs4aiNodeLlamaMock;
+        if (globalMock) {
+            return globalMock as typeof import('node-llama-cpp');
+        }
+
+        const loader = new Function('specifier', 'return import(specifier);');
+        return loader('node-llama-cpp') as Promise<typeof import('node-llama-cpp')>;
+    }
+
+    private async rerankWithOpenAI(query: string, passages: string[]): Promise<RerankResult> {
+        const numbered = passages.map((passage, i) => `[${i}]\n${passage}`).join('\n\n');
+        const response = await this.client!.chat.completions.create({
+            model: OPENAI_RERANK_MODEL,
+            temperature: 0,
+            response_format: { type: 'json_object' },
+            messages: [
+                {
+                    role: 'system',
+                    content: 'You rate how well passages answer a search query. ' +
+                        'Reply with JSON {"scores": [...]} containing one number from 0 (irrelevant) to 10 (answers the query) per passage, in passage order.'
+                },
+                {
+                    role: 'user',
+                    content: `Query: ${query}\n\nPassages:\n${numbered}`
+                }
+            ]
+        });
+
+        const text = response.choices[0]?.message?.content || '';
+        let scores: unknown;
+        try {
+            scores = JSON.parse(text).scores;
+        } catch {
+            throw new Error(`Invalid rerank response: ${text.slice(0, 200)}`);
+        }
+        if (!Array.isArray(scores) || scores.length !== passages.length || scores.some(score => typeof score !== 'number')) {
+            throw new Error(`Rerank response has ${Array.isArray(scores) ? scores.length : 0} scores for ${passages.length} passages`);
+        }
+
+        const promptTokens = response.usage?.prompt_tokens || 0;
+        const completionTokens = response.usage?.completion_tokens || 0;
+        return {
+            scores: scores as number[],
+            tokens: promptTokens + completionTokens,
+            cost: (promptTokens / 1_000_000) * OPENAI_INPUT_COST_PER_MILLION +
+                (completionTokens / 1_000_000) * OPENAI_OUTPUT_COST_PER_MILLION
+        };
+    }
+
+    async terminate(): Promise<void> {
+        if (this.rankingContext) {
+            await this.rankingContext.dispose();
+            this.rankingContext = null;
+        }
+        if (this.model) {
+            await this.model.dispose();
+            this.model = null;
+        }
+        this.initPromise = null;
+    }
+}
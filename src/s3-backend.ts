@@ -0,0 +1,156 @@
+import * as crypto from 'crypto';
+import { decodeXmlEntities } from './epub';
+import { HttpError, httpDownload, httpRequest } from './http-request';
+import type { RemoteBackend, RemoteDirectoryListing } from './remote-syncer';
+
+export interface S3Settings {
+    endpoint?: string;          // S3-compatible server such as MinIO (path-style URLs); AWS when empty
+    region?: string;            // Default: us-east-1
+    bucket: string;
+    prefix?: string;            // Folder inside the bucket
+    accessKeyId: string;
+    secretAccessKey: string;
+}
+
+export interface S3Credentials {
+    accessKeyId: string;
+    secretAccessKey: string;
+}
+
+const EMPTY_PAYLOAD_HASH = crypto.createHash('sha256').update('').digest('hex');
+
+// RFC 3986 encoding as Signature Version 4 expects it
+function encodeRfc3986(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function hmac(key: crypto.BinaryLike, value: string): Buffer {
+    return crypto.createHmac('sha256', key).update(value).digest();
+}
+
+/**
+ * Headers for an AWS Signature Version 4 request with an empty body. The URL path must already be encoded.
+ */
+export function signS3Request(method: string, url: URL, headers: Record<string, string>, region: string, credentials: S3Credentials, date: Date = new Date()): Record<string, string> {
+    const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const day = amzDate.slice(0, 8);
+    const signed: Record<string, string> = {
+        ...headers,
+        host: url.host,
+        'x-amz-content-sha256': EMPTY_PAYLOAD_HASH,
+        'x-amz-date': amzDate
+    };
+
+    const headerNames = Object.keys(signed).map(name => name.toLowerCase()).sort();
+    const lowerCased = Object.fromEntries(Object.entries(signed).map(([name, value]) => [name.toLowerCase(), value]));
+    const canonicalHeaders = headerNames.map(name => `${name}:${lowerCased[name].trim().replace(/\s+/g, ' ')}\n`).join('');
+    const canonicalQuery = [...url.searchParams.entries()]
+        .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+        .sort(([a, aValue], [b, bValue]) => a === b ? (aValue < bValue ? -1 : 1) : (a < b ? -1 : 1))
+        .map(([key, value]) => `${key}=${value}`)
+        .join('&');
+    const canonicalRequest = [method, url.pathname || '/', canonicalQuery, canonicalHeaders, headerNames.join(';'), EMPTY_PAYLOAD_HASH].join('\n');
+
+    const scope = `${day}/${region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, crypto.createHash('sha256').update(canonicalRequest).digest('hex')].join('\n');
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, day), region), 's3'), 'aws4_request');
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return {
+        ...signed,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${headerNames.join(';')}, Signature=${signature}`
+    };
+}
+
+export interface S3ListResult {
+    objects: { key: string; modifiedTimeMs: number; size: number }[];
+    prefixes: string[];
+    nextContinuationToken: string | null;
+}
+
+export function parseListObjectsResult(xml: string): S3ListResult {
+    const text = (block: string, name: string) => {
+        const match = block.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`));
+        return match ? decodeXmlEntities(match[1]) : null;
+    };
+    const objects = [...xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)].map(match => ({
+        key: text(match[1], 'Key') || '',
+        modifiedTimeMs: Date.parse(text(match[1], 'LastModified') || '') || 0,
+        size: parseInt(text(match[1], 'Size') || '0', 10)
+    }));
+    const prefixes = [...xml.matchAll(/<CommonPrefixes>([\s\S]*?)<\/CommonPrefixes>/g)].map(match => text(match[1], 'Prefix') || '');
+    return {
+        objects: objects.filter(object => object.key),
+        prefixes: prefixes.filter(prefix => prefix),
+        nextContinuationToken: text(xml, 'IsTruncated') === 'true' ? text(xml, 'NextContinuationToken') : null
+    };
+}
+
+export class S3Backend implements RemoteBackend {
+    readonly rootName: string;
+    private settings: S3Settings;
+    private region: string;
+    private prefix: string;  // "" or ending with "/"
+
+    constructor(settings: S3Settings) {
+        this.settings = settings;
+        this.region = settings.region || 'us-east-1';
+        const prefix = (settings.prefix || '').replace(/^\/+|\/+$/g, '');
+        this.prefix = prefix ? `${prefix}/` : '';
+        this.rootName = prefix ? `${settings.bucket}/${prefix}` : settings.bucket;
+    }
+
+    async list(directory: string): Promise<RemoteDirectoryListing> {
+        const listPrefix = `${this.prefix}${directory ? `${directory}/` : ''}`;
+        const listing: RemoteDirectoryListing = { files: [], directories: [] };
+        let continuationToken: string | null = null;
+
+        do {
+            const url = this.getObjectUrl('');
+            url.searchParams.set('list-type', '2');
+            url.searchParams.set('prefix', listPrefix);
+            url.searchParams.set('delimiter', '/');
+            if (continuationToken) {
+                url.searchParams.set('continuation-token', continuationToken);
+            }
+            const response = await httpRequest(url.toString(), { headers: this.sign('GET', url) });
+            if (response.status !== 200) {
+                throw new HttpError(response.status, url.toString(), `S3 listing of ${this.settings.bucket}/${listPrefix} failed with HTTP ${response.status}`);
+            }
+
+            const result = parseListObjectsResult(response.body.toString('utf-8'));
+            for (const object of result.objects) {
+                // Folder placeholder objects created by consoles end with "/"
+                if (object.key.endsWith('/')) continue;
+                listing.files.push({ path: object.key.slice(this.prefix.length), modifiedTimeMs: object.modifiedTimeMs, size: object.size });
+            }
+            listing.directories.push(...result.prefixes.map(prefix => prefix.slice(this.prefix.length).replace(/\/$/, '')));
+            continuationToken = result.nextContinuationToken;
+        } while (continuationToken);
+
+        return listing;
+    }
+
+    async download(remotePath: string, destPath: string): Promise<void> {
+        const url = this.getObjectUrl(`${this.prefix}${remotePath}`);
+        await httpDownload(url.toString(), destPath, { headers: this.sign('GET', url), maxRedirects: 0 });
+    }
+
+    getSourceUrl(remotePath: string): string {
+        return `s3://${this.settings.bucket}/${this.prefix}${remotePath}`;
+    }
+
+    // Path-style URLs for custom endpoints, virtual-hosted ones for AWS
+    private getObjectUrl(key: string): URL {
+        const encodedKey = key.split('/').map(segment => encodeRfc3986(segment)).join('/');
+        if (this.settings.endpoint) {
+            const endpoint = this.settings.endpoint.replace(/\/+$/, '');
+            return new URL(`${endpoint}/${encodeRfc3986(this.settings.bucket)}/${encodedKey}`);
+        }
+        return new URL(`https://${this.settings.bucket}.s3.${this.region}.amazonaws.com/${encodedKey}`);
+    }
+
+    private sign(method: string, url: URL): Record<string, string> {
+        return signS3Request(method, url, {}, this.region, this.settings);
+    }
+}
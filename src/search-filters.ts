@@ -0,0 +1,248 @@
+import type Database from 'better-sqlite3';
+
+/**
+ * Optional filters for query_documents / POST /query.
+ * File-level filters (path, glob, extensions, dates) are resolved against the files table;
+ * section is matched on the chunks themselves.
+ */
+export interface SearchFilters {
+    pathPrefix?: string;
+    glob?: string;
+    extensions?: string[];
+    modifiedAfter?: Date;
+    modifiedBefore?: Date;
+    section?: string;
+}
+
+export class SearchFilterError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SearchFilterError';
+    }
+}
+
+// JSON schema properties shared by every tool definition that accepts filters
+export const SEARCH_FILTER_PROPERTIES = {
+    path_prefix: {
+        type: 'string',
+        description: 'Only search documents whose path starts with this prefix (e.g. "/Users/me/docs/specs" or a Drive folder path).'
+    },
+    glob: {
+        type: 'string',
+        description: 'Only search documents whose path matches this glob (e.g. "specs/**/*.md"). Patterns without a "/" match the file name.'
+    },
+    extensions: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only search documents with these file extensions (e.g. [".md", ".pdf"]).'
+    },
+    modified_after: {
+        type: 'string',
+        description: 'Only search documents synced at or after this ISO 8601 date/time.'
+    },
+    modified_before: {
+        type: 'string',
+        description: 'Only search documents synced at or before this ISO 8601 date/time.'
+    },
+    section: {
+        type: 'string',
+        description: 'Only return chunks whose section or heading path contains this text (case-insensitive).'
+    }
+};
+
+function optionalString(args: Record<string, any>, name: string): string | undefined {
+    const value = args[name];
+    if (value === undefined || value === null || value === '') {
+        return undefined;
+    }
+    if (typeof value !== 'string') {
+        throw new SearchFilterError(`${name} must be a string`);
+    }
+    return value.trim() || undefined;
+}
+
+function optionalDate(args: Record<string, any>, name: string): Date | undefined {
+    const value = optionalString(args, name);
+    if (!value) {
+        return undefined;
+    }
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+        throw new SearchFilterError(`${name} must be an ISO 8601 date`);
+    }
+    return date;
+}
+
+function normalizeExtension(extension: string): string {
+    const trimmed = extension.trim().toLowerCase();
+    return trimmed.startsWith('.') ? trimmed : `.${trimmed}`;
+}
+
+/**
+ * Read filters from tool arguments or a request body (snake_case keys)
+ */
+export function parseSearchFilters(args: Record<string, any> | undefined): SearchFilters {
+    if (!args) {
+        return {};
+    }
+
+    const filters: SearchFilters = {};
+    const pathPrefix = optionalString(args, 'path_prefix');
+    if (pathPrefix) {
+        filters.pathPrefix = pathPrefix.replace(/^file:\/\//, '');
+    }
+    const glob = optionalString(args, 'glob');
+    if (glob) {
+        // Fails here rather than in the search for unbalanced braces
+        globToRegExp(glob);
+        filters.glob = glob;
+    }
+    const section = optionalString(args, 'section');
+    if (section) {
+        filters.section = section;
+    }
+    const modifiedAfter = optionalDate(args, 'modified_after');
+    if (modifiedAfter) {
+        filters.modifiedAfter = modifiedAfter;
+    }
+    const modifiedBefore = optionalDate(args, 'modified_before');
+    if (modifiedBefore) {
+        filters.modifiedBefore = modifiedBefore;
+    }
+
+    const extensions = args.extensions;
+    if (extensions !== undefined && extensions !== null) {
+        const list = typeof extensions === 'string' ? extensions.split(',') : extensions;
+        if (!Array.isArray(list) || list.some(ext => typeof ext !== 'string')) {
+            throw new SearchFilterError('extensions must be an array of strings');
+        }
+        const normalized = list.filter(ext => ext.trim()).map(normalizeExtension);
+        if (normalized.length > 0) {
+            filters.extensions = normalized;
+        }
+    }
+
+    return filters;
+}
+
+export function hasFileFilters(filters: SearchFilters): boolean {
+    return Boolean(filters.pathPrefix || filters.glob || filters.extensions || filters.modifiedAfter || filters.modifiedBefore);
+}
+
+/**
+ * Convert a glob to a RegExp. `**` crosses directories, `*` and `?` do not, `{a,b}` is an alternation.
+ * Patterns without a slash match the file name; other relative patterns may start at any directory.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let source = '';
+    let braceDepth = 0;
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                // "**/" also matches zero directories
+                if (glob[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i++;
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            braceDepth++;
+            source += '(?:';
+        } else if (char === '}' && braceDepth > 0) {
+            braceDepth--;
+            source += ')';
+        } else if (char === ',' && braceDepth > 0) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+        }
+    }
+    if (braceDepth > 0) {
+        throw new SearchFilterError('glob is not a valid pattern');
+    }
+
+    const anchored = glob.startsWith('/') ? '^' : '(?:^|/)';
+    return new RegExp(`${anchored}${source}$`);
+}
+
+interface FileRow {
+    path: string;
+    display_path: string | null;
+    source_url: string | null;
+    modified_at: string;
+}
+
+function matchesFile(row: FileRow, filters: SearchFilters, globPattern: RegExp | null): boolean {
+    const filePath = (row.display_path || row.path).replace(/\\/g, '/');
+
+    if (filters.pathPrefix && !filePath.startsWith(filters.pathPrefix.replace(/\\/g, '/'))) {
+        return false;
+    }
+    if (globPattern && !globPattern.test(filePath)) {
+        return false;
+    }
+    if (filters.extensions) {
+        const lower = filePath.toLowerCase();
+        if (!filters.extensions.some(ext => lower.endsWith(ext))) {
+            return false;
+        }
+    }
+    if (filters.modifiedAfter || filters.modifiedBefore) {
+        const modifiedAt = new Date(row.modified_at).getTime();
+        if (filters.modifiedAfter && !(modifiedAt >= filters.modifiedAfter.getTime())) {
+            return false;
+        }
+        if (filters.modifiedBefore && !(modifiedAt <= filters.modifiedBefore.getTime())) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Chunk URLs (vec_items.url) of the tracked files that pass the file-level filters
+ */
+export function resolveScopedUrls(db: Database.Database, filters: SearchFilters): string[] {
+    const rows = db.prepare('SELECT path, display_path, source_url, modified_at FROM files').all() as FileRow[];
+    const globPattern = filters.glob ? globToRegExp(filters.glob) : null;
+    return rows
+        .filter(row => matchesFile(row, filters, globPattern))
+        .map(row => row.source_url || `file://${row.path}`);
+}
+
+/**
+ * SQL condition on vec_items for the given filters, or null when nothing needs filtering.
+ * Returns an empty-match marker when the file filters exclude every document.
+ */
+export function buildSearchScope(
+    db: Database.Database,
+    filters: SearchFilters
+): { clause: string; params: string[] } | 'empty' | null {
+    const clauses: string[] = [];
+    const params: string[] = [];
+
+    if (hasFileFilters(filters)) {
+        const urls = resolveScopedUrls(db, filters);
+        if (urls.length === 0) {
+            return 'empty';
+        }
+        clauses.push('vec_items.url IN (SELECT value FROM json_each(?))');
+        params.push(JSON.stringify(urls));
+    }
+
+    if (filters.section) {
+        const pattern = `%${filters.section.replace(/[\\%_]/g, '\\$&')}%`;
+        clauses.push("(vec_items.section LIKE ? ESCAPE '\\' OR vec_items.heading_hierarchy LIKE ? ESCAPE '\\')");
+        params.push(pattern, pattern);
+    }
+
+    return clauses.length > 0 ? { clause: clauses.join(' AND '), params } : null;
+}
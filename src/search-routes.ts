@@ -2,6 +2,7 @@ import type { Request, Response } from 'express';
 import type Database from 'better-sqlite3';
 import express from 'express';
 import { MapService } from './map-service';
+import { parseSearchFilters, SearchFilterError, SearchFilters } from './search-filters';
 
 interface QueryResult {
     chunk_id: string;
@@ -14,7 +15,7 @@ interface SearchRouteDeps {
     hasDatabase: () => boolean;
     hasOpenAiKey: () => boolean;
     isOpenAiProvider: () => boolean;
-    queryDatabase: (queryText: string, limit: number) => Promise<QueryResult[]>;
+    queryDatabase: (queryText: string, limit: number, filters?: SearchFilters, rerank?: boolean) => Promise<QueryResult[]>;
 }
 
 export function createSearchRouter({
@@ -29,7 +30,7 @@ export function createSearchRouter({
 
     router.post('/query', async (req: Request, res: Response) => {
         try {
-            const { query, queryText, limit = 5, includeVisualization = false } = req.body;
+            const { query, queryText, limit = 5, includeVisualization = false, rerank } = req.body;
             const searchQuery = query || queryText;
 
             if (!searchQuery) {
@@ -47,7 +48,23 @@ export function createSearchRouter({
                 return;
             }
 
-            const results = await queryDatabase(searchQuery, Math.min(limit, 20));
+            let filters: SearchFilters;
+            try {
+                filters = parseSearchFilters(req.body);
+            } catch (filterError) {
+                if (filterError instanceof SearchFilterError) {
+                    res.status(400).json({ error: filterError.message });
+                    return;
+                }
+                throw filterError;
+            }
+
+            const results = await queryDatabase(
+                searchQuery,
+                Math.min(limit, 20),
+                filters,
+                typeof rerank === 'boolean' ? rerank : undefined
+            );
             const responsePayload: any = {
                 query: searchQuery,
                 count: results.length,
@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import type { Readable } from 'stream';
+import type { RemoteBackend, RemoteDirectoryListing } from './remote-syncer';
+
+export interface SmbSettings {
+    share: string;          // \\server\share or smb://server/share
+    path?: string;          // Folder inside the share
+    domain?: string;
+    username: string;
+    password?: string;
+}
+
+export interface SmbDirectoryEntry {
+    name: string;
+    mtime: Date;
+    size?: number;
+    isDirectory(): boolean;
+}
+
+// The part of @marsaud/smb2 the backend uses
+export interface SmbClient {
+    readdir(path: string, options: { stats: true }): Promise<SmbDirectoryEntry[]>;
+    createReadStream(path: string): Promise<Readable>;
+    disconnect(): void;
+}
+
+/**
+ * Split a share given as \\server\share or smb://server/share (optionally followed by a folder) into its parts
+ */
+export function parseSmbShare(share: string): { server: string; share: string; path: string } {
+    const segments = share.trim().replace(/^smb:\/\//i, '').replace(/\\/g, '/').split('/').filter(segment => segment);
+    if (segments.length < 2) {
+        throw new Error(`Invalid SMB share "${share}": expected \\\\server\\share or smb://server/share`);
+    }
+    return { server: segments[0], share: segments[1], path: segments.slice(2).join('/') };
+}
+
+/**
+ * SMB/CIFS shares through the optional @marsaud/smb2 package (SMB2 protocol, NTLM authentication)
+ */
+export class SmbBackend implements RemoteBackend {
+    readonly rootName: string;
+    private client: SmbClient;
+    private server: string;
+    private share: string;
+    private basePath: string;  // Folder inside the share, "/" separated
+
+    constructor(settings: SmbSettings, client?: SmbClient) {
+        const parsed = parseSmbShare(settings.share);
+        this.server = parsed.server;
+        this.share = parsed.share;
+        this.basePath = [parsed.path, (settings.path || '').replace(/\\/g, '/')]
+            .join('/').split('/').filter(segment => segment).join('/');
+        this.rootName = [this.server, this.share, this.basePath].filter(segment => segment).join('/');
+        this.client = client || SmbBackend.connect(settings, parsed.server, parsed.share);
+    }
+
+    private static connect(settings: SmbSettings, server: string, share: string): SmbClient {
+        let SMB2: any;
+        try {
+            SMB2 = require('@marsaud/smb2');
+        } catch (error: any) {
+            if (error.code === 'MODULE_NOT_FOUND') {
+                throw new Error('SMB shares need the optional @marsaud/smb2 package. Install it to sync SMB sources.');
+            }
+            throw error;
+        }
+        return new SMB2({
+            share: `\\\\${server}\\${share}`,
+            domain: settings.domain || 'WORKGROUP',
+            username: settings.username,
+            password: settings.password || '',
+            autoCloseTimeout: 0
+        });
+    }
+
+    async list(directory: string): Promise<RemoteDirectoryListing> {
+        const entries = await this.client.readdir(this.toSharePath(directory), { stats: true });
+        const listing: RemoteDirectoryListing = { files: [], directories: [] };
+        for (const entry of entries) {
+            if (entry.name === '.' || entry.name === '..') continue;
+            const remotePath = directory ? `${directory}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                listing.directories.push(remotePath);
+            } else {
+                listing.files.push({ path: remotePath, modifiedTimeMs: entry.mtime.getTime(), size: entry.size });
+            }
+        }
+        return listing;
+    }
+
+    async download(remotePath: string, destPath: string): Promise<void> {
+        const source = await this.client.createReadStream(this.toSharePath(remotePath));
+        const tempPath = `${destPath}.${Date.now()}.tmp`;
+        try {
+            await new Promise<void>((resolve, reject) => {
+                const dest = fs.createWriteStream(tempPath);
+                source.on('error', reject);
+                dest.on('error', reject);
+                dest.on('finish', resolve);
+                source.pipe(dest);
+            });
+            fs.renameSync(tempPath, destPath);
+        } catch (error) {
+            fs.rmSync(tempPath, { force: true });
+            throw error;
+        }
+    }
+
+    getSourceUrl(remotePath: string): string {
+        const segments = [this.share, ...this.basePath.split('/'), ...remotePath.split('/')].filter(segment => segment);
+        return `smb://${this.server}/${segments.map(segment => encodeURIComponent(segment)).join('/')}`;
+    }
+
+    async close(): Promise<void> {
+        this.client.disconnect();
+    }
+
+    // The client takes backslash paths relative to the share, "" being its root
+    private toSharePath(remotePath: string): string {
+        return [this.basePath, remotePath].filter(segment => segment).join('/').replace(/\//g, '\\');
+    }
+}
@@ -0,0 +1,141 @@
+import type { S3Settings } from './s3-backend';
+import type { SmbSettings } from './smb-backend';
+import type { Syncer } from './syncer';
+import type { WebCrawlerSettings } from './web-crawler';
+import type { WebDavSettings } from './webdav-backend';
+
+export type SyncSourceType = 'local' | 'drive' | 'webdav' | 's3' | 'smb' | 'web';
+
+// Sources cached locally by a RemoteSyncer
+export const REMOTE_SOURCE_TYPES: readonly SyncSourceType[] = ['webdav', 's3', 'smb'];
+
+// A folder synced into a profile's database: on disk, in Google Drive, or on a WebDAV server, S3 bucket or SMB
+// share; or a website crawled from start URLs
+export interface SyncSource {
+    id: string;
+    type: SyncSourceType;
+    folderPath?: string;            // Local folder
+    driveFolderId?: string;         // Drive folder ('root' for My Drive)
+    driveFolderName?: string;
+    driveFolderDriveId?: string;    // Shared drive holding the folder
+    webdav?: WebDavSettings;
+    s3?: S3Settings;
+    smb?: SmbSettings;
+    web?: WebCrawlerSettings;
+    recursive: boolean;
+    fileExtensions: string;         // Comma separated, like the profile setting
+}
+
+// The profile's own folder (or Drive folder) is its first source. Documents indexed before sources were
+// recorded in the database belong to it.
+export const PRIMARY_SOURCE_ID = 'primary';
+
+// Profile fields that describe its sources
+export interface SourceSettings {
+    watchedFolder: string;
+    fileExtensions: string;
+    recursive: boolean;
+    syncSource?: SyncSourceType;
+    driveFolderId?: string;
+    driveFolderName?: string;
+    driveFolderDriveId?: string;
+    webdav?: WebDavSettings;
+    s3?: S3Settings;
+    smb?: SmbSettings;
+    web?: WebCrawlerSettings;
+    additionalSources?: SyncSource[];
+}
+
+export function isSourceConfigured(source: SyncSource): boolean {
+    switch (source.type) {
+        case 'drive':
+            return !!source.driveFolderId;
+        case 'webdav':
+            return !!source.webdav?.url;
+        case 's3':
+            return !!source.s3?.bucket;
+        case 'smb':
+            return !!source.smb?.share;
+        case 'web':
+            return (source.web?.seedUrls || []).some(url => url.trim());
+        default:
+            return !!source.folderPath;
+    }
+}
+
+/**
+ * The sources a profile syncs: its own folder followed by the additional sources, skipping any without a folder
+ */
+export function getProfileSources(profile: SourceSettings): SyncSource[] {
+    const primary: SyncSource = {
+        id: PRIMARY_SOURCE_ID,
+        type: profile.syncSource || 'local',
+        folderPath: profile.watchedFolder,
+        driveFolderId: profile.driveFolderId,
+        driveFolderName: profile.driveFolderName,
+        driveFolderDriveId: profile.driveFolderDriveId,
+        webdav: profile.webdav,
+        s3: profile.s3,
+        smb: profile.smb,
+        web: profile.web,
+        recursive: profile.recursive,
+        fileExtensions: profile.fileExtensions
+    };
+    return [primary, ...(profile.additionalSources || [])].filter(isSourceConfigured);
+}
+
+export function parseExtensions(fileExtensions: string): string[] {
+    return (fileExtensions || '').split(',').map(e => e.trim().toLowerCase()).filter(e => e);
+}
+
+export interface SourceSyncerEntry {
+    source: SyncSource;
+    syncer: Syncer;
+}
+
+/**
+ * The syncers of all sources of a profile, started and stopped together
+ */
+export class MultiSourceSyncer implements Syncer {
+    private _entries: SourceSyncerEntry[];
+
+    constructor(entries: SourceSyncerEntry[]) {
+        this._entries = entries;
+    }
+
+    get entries(): readonly SourceSyncerEntry[] {
+        return this._entries;
+    }
+
+    get isSyncing(): boolean {
+        return this._entries.some(entry => entry.syncer.isSyncing);
+    }
+
+    start(): void {
+        for (const entry of this._entries) {
+            entry.syncer.start();
+        }
+    }
+
+    async stop(): Promise<void> {
+        await Promise.all(this._entries.map(entry => entry.syncer.stop()));
+    }
+
+    async getSyncedFiles(): Promise<string[]> {
+        const files: string[] = [];
+        for (const entry of this._entries) {
+            files.push(...await entry.syncer.getSyncedFiles());
+        }
+        return files;
+    }
+
+    /**
+     * Stop syncing a source that was removed from the profile
+     */
+    async removeSource(sourceId: string): Promise<void> {
+        const entry = this._entries.find(candidate => candidate.source.id === sourceId);
+        if (!entry) return;
+        this._entries = this._entries.filter(candidate => candidate !== entry);
+        await entry.syncer.stop();
+    }
+}
@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const SPREADSHEET_EXTENSIONS = ['.csv', '.tsv', '.xlsx', '.ods'];
+
+export interface Sheet {
+    name: string;
+    rows: string[][];
+}
+
+// A sheet as rendered by formatSheets(): the header and separator lines, then one line per row
+export interface SheetTable {
+    name: string;
+    header: string;
+    rows: string[];
+}
+
+export function isSpreadsheetFile(filePath: string): boolean {
+    return SPREADSHEET_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Parse CSV/TSV text: quoted fields may contain delimiters, doubled quotes and line breaks
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (inQuotes) {
+            if (char === '"' && source[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+}
+
+export function readDelimitedFile(filePath: string): Sheet[] {
+    const delimiter = path.extname(filePath).toLowerCase() === '.tsv' ? '\t' : ',';
+    const rows = parseDelimited(fs.readFileSync(filePath, 'utf-8'), delimiter);
+    return [{ name: path.basename(filePath, path.extname(filePath)), rows }];
+}
+
+/**
+ * Every sheet of an .xlsx/.ods workbook with cells as displayed (formatted numbers and dates)
+ */
+export function readWorkbookFile(filePath: string): Sheet[] {
+    const XLSX = require('xlsx');
+    const workbook = XLSX.readFile(filePath, { cellDates: true });
+    return workbook.SheetNames.map((name: string) => ({
+        name,
+        rows: XLSX.utils.sheet_to_json(workbook.Sheets[name], { header: 1, raw: false, defval: '', blankrows: false })
+            .map((row: unknown[]) => row.map(cell => String(cell ?? '')))
+    }));
+}
+
+function formatCell(value: string): string {
+    return value.replace(/\r?\n/g, ' ').replace(/\|/g, '\\|').trim();
+}
+
+/**
+ * Render sheets as one Markdown table per sheet under a "## <sheet name>" heading.
+ * The first non-empty row is the header; empty rows and trailing empty columns are dropped.
+ */
+export function formatSheets(sheets: Sheet[]): string {
+    const sections: string[] = [];
+    for (const sheet of sheets) {
+        const rows = sheet.rows
+            .map(row => row.map(formatCell))
+            .filter(row => row.some(cell => cell));
+        if (rows.length === 0) continue;
+
+        const width = Math.max(...rows.map(row => {
+            let last = row.length;
+            while (last > 0 && !row[last - 1]) last--;
+            return last;
+        }));
+        const toLine = (row: string[]) => '| ' + Array.from({ length: width }, (_, i) => row[i] || '').join(' | ') + ' |';
+        const lines = [
+            toLine(rows[0]),
+            '|' + ' --- |'.repeat(width),
+            ...rows.slice(1).map(toLine)
+        ];
+        sections.push(`## ${sheet.name.replace(/\s+/g, ' ').trim()}\n\n${lines.join('\n')}`);
+    }
+    return sections.join('\n\n');
+}
+
+/**
+ * Inverse of formatSheets() for chunking: split the text back into sheets of table lines
+ */
+export function parseSheetTables(content: string): SheetTable[] {
+    const tables: SheetTable[] = [];
+    let current: { name: string; lines: string[] } | null = null;
+    const finish = () => {
+        if (current && current.lines.length >= 2) {
+            tables.push({ name: current.name, header: current.lines.slice(0, 2).join('\n'), rows: current.lines.slice(2) });
+        }
+    };
+
+    for (const line of content.split('\n')) {
+        if (line.startsWith('## ')) {
+            finish();
+            current = { name: line.slice(3).trim(), lines: [] };
+        } else if (current && line.startsWith('|')) {
+            current.lines.push(line);
+        }
+    }
+    finish();
+    return tables;
+}
@@ -0,0 +1,247 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const STRUCTURED_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+export type StructuredFormat = 'json' | 'yaml';
+
+// Written before each operation by formatApiSpec(), so the chunker gives every operation a chunk of its own
+export const API_OPERATION_MARKER = '<!-- api operation -->';
+
+// Deepest key path used as headings; values below it stay in their parent's block
+const MAX_KEY_DEPTH = 6;
+// $refs resolved inside one another before a schema is shown as a reference
+const MAX_REF_DEPTH = 8;
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+export function isStructuredFile(filePath: string): boolean {
+    return STRUCTURED_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+export function getStructuredFormat(filePath: string): StructuredFormat {
+    return path.extname(filePath).toLowerCase() === '.json' ? 'json' : 'yaml';
+}
+
+/**
+ * Parse JSON, or YAML with the yaml package (throws MODULE_NOT_FOUND when it isn't installed).
+ * A YAML stream with several documents is read as a list of them.
+ */
+export function parseStructured(text: string, format: StructuredFormat): unknown {
+    if (format === 'json') {
+        return JSON.parse(text);
+    }
+    const YAML = require('yaml');
+    const documents = YAML.parseAllDocuments(text) as any[];
+    const error = documents.flatMap(document => document.errors)[0];
+    if (error) {
+        throw error;
+    }
+    const values = documents.map(document => document.toJS({ maxAliasCount: 1000 }));
+    return values.length === 1 ? values[0] : values;
+}
+
+export function readStructuredFile(filePath: string): unknown {
+    return parseStructured(fs.readFileSync(filePath, 'utf-8'), getStructuredFormat(filePath));
+}
+
+export function renderStructured(value: unknown, format: StructuredFormat): string {
+    if (format === 'json') {
+        return JSON.stringify(value, null, 2) ?? 'null';
+    }
+    return require('yaml').stringify(value).trimEnd();
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+    return typeof value === 'object' && value !== null;
+}
+
+function childEntries(value: Record<string, unknown> | unknown[]): [string, unknown][] {
+    return Array.isArray(value) ? value.map((item, i) => [`[${i}]`, item]) : Object.entries(value);
+}
+
+function fenced(text: string, format: StructuredFormat): string {
+    return '```' + format + '\n' + text + '\n```';
+}
+
+/**
+ * Render generic JSON/YAML as sections headed by their key path. A value is shown whole under its key
+ * when it fits (as decided by the caller), otherwise its keys (or list items, as [0], [1]...) get sections
+ * one heading level deeper. Values without nested objects or lists, such as a long list of strings, are
+ * kept whole and left to the chunker to split.
+ */
+export function formatStructured(value: unknown, format: StructuredFormat, fits: (text: string) => boolean): string {
+    if (!isContainer(value)) {
+        return fenced(renderStructured(value, format), format);
+    }
+
+    const sections: string[] = [];
+    const visit = (node: unknown, keyPath: string[]) => {
+        const level = keyPath.length;
+        const children = isContainer(node) && level < MAX_KEY_DEPTH ? childEntries(node) : [];
+        const split = level === 0 || (children.some(([, child]) => isContainer(child)) && !fits(renderStructured(node, format)));
+        if (level > 0) {
+            const heading = `${'#'.repeat(level)} ${keyPath[level - 1].replace(/\s+/g, ' ')}`;
+            sections.push(split ? heading : `${heading}\n\n${fenced(renderStructured(node, format), format)}`);
+        }
+        if (split) {
+            for (const [key, child] of children) {
+                visit(child, [...keyPath, key]);
+            }
+        }
+    };
+    visit(value, []);
+    return sections.join('\n\n');
+}
+
+export function isApiSpec(value: unknown): value is Record<string, any> {
+    return isContainer(value) && !Array.isArray(value) && ['openapi', 'swagger', 'asyncapi'].some(key => key in value);
+}
+
+/**
+ * Replace local $refs ("#/components/schemas/Pet") with what they point to. References to a schema that is
+ * being expanded (recursive schemas) and references too deep or outside the document are kept as "$ref".
+ */
+function resolveRefs(spec: Record<string, any>, value: unknown, seen: string[] = []): any {
+    if (Array.isArray(value)) {
+        return value.map(item => resolveRefs(spec, item, seen));
+    }
+    if (!isContainer(value)) {
+        return value;
+    }
+
+    const ref = (value as Record<string, unknown>).$ref;
+    if (typeof ref === 'string') {
+        if (!ref.startsWith('#/') || seen.includes(ref) || seen.length >= MAX_REF_DEPTH) {
+            return { $ref: ref };
+        }
+        let target: any = spec;
+        for (const segment of ref.slice(2).split('/')) {
+            target = target?.[decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~')];
+        }
+        return target === undefined ? { $ref: ref } : resolveRefs(spec, target, [...seen, ref]);
+    }
+
+    const resolved: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+        resolved[key] = resolveRefs(spec, child, seen);
+    }
+    return resolved;
+}
+
+function formatParameter(parameter: any): string {
+    const type = parameter.schema?.type ?? parameter.type;
+    const details = [parameter.in, parameter.required ? 'required' : '', type].filter(Boolean).join(', ');
+    const description = parameter.description ? ` - ${String(parameter.description).replace(/\s+/g, ' ').trim()}` : '';
+    return `- ${parameter.name} (${details})${description}`;
+}
+
+// The schemas of a request body or response: OpenAPI 3 has one per media type, Swagger 2 a single one
+function formatContent(label: string, body: any, format: StructuredFormat): string[] {
+    const lines: string[] = [];
+    const description = body.description ? `: ${String(body.description).replace(/\s+/g, ' ').trim()}` : '';
+    const content = body.content && typeof body.content === 'object' ? Object.entries(body.content as Record<string, any>) : [];
+    if (content.length === 0) {
+        lines.push(`${label}${description}`);
+        if (body.schema) {
+            lines.push(fenced(renderStructured(body.schema, format), format));
+        }
+        return lines;
+    }
+    for (const [mediaType, media] of content) {
+        lines.push(`${label} (${mediaType})${description}`);
+        if (media?.schema) {
+            lines.push(fenced(renderStructured(media.schema, format), format));
+        }
+    }
+    return lines;
+}
+
+function formatOperation(heading: string, operation: any, sharedParameters: any[], format: StructuredFormat): string {
+    const lines = [API_OPERATION_MARKER, `## ${heading}`];
+    if (operation.operationId) lines.push(`Operation ID: ${operation.operationId}`);
+    if (operation.summary) lines.push(`Summary: ${operation.summary}`);
+    if (Array.isArray(operation.tags) && operation.tags.length > 0) lines.push(`Tags: ${operation.tags.join(', ')}`);
+    if (operation.deprecated) lines.push('Deprecated');
+    if (operation.description) lines.push(String(operation.description).trim());
+
+    // Operation parameters override path parameters with the same name and location
+    const parameters = new Map<string, any>();
+    for (const parameter of [...sharedParameters, ...(operation.parameters || [])]) {
+        if (parameter?.name) {
+            parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+        }
+    }
+    const bodyParameter = Array.from(parameters.values()).find(parameter => parameter.in === 'body');
+    const listed = Array.from(parameters.values()).filter(parameter => parameter !== bodyParameter);
+    if (listed.length > 0) {
+        lines.push(`Parameters:\n${listed.map(formatParameter).join('\n')}`);
+    }
+
+    const requestBody = operation.requestBody ?? bodyParameter;
+    if (requestBody) {
+        lines.push(...formatContent('Request body', requestBody, format));
+    }
+    // AsyncAPI 2 operations carry one message, AsyncAPI 3 a list
+    const messages = operation.message ? [operation.message] : (operation.messages || []);
+    for (const message of messages) {
+        lines.push(`Message${message.name ? ` ${message.name}` : ''}${message.summary ? `: ${message.summary}` : ''}`);
+        if (message.payload) {
+            lines.push(fenced(renderStructured(message.payload, format), format));
+        }
+    }
+    for (const [status, response] of Object.entries(operation.responses || {})) {
+        lines.push(...formatContent(`Response ${status}`, response || {}, format));
+    }
+    return lines.join('\n\n');
+}
+
+/**
+ * Render an OpenAPI (or Swagger 2) or AsyncAPI document with $refs resolved: an overview from its info,
+ * then one section per operation ("GET /pets/{id}", "PUBLISH user/signedup") with its parameters, request
+ * and message schemas and responses
+ */
+export function formatApiSpec(spec: Record<string, any>, format: StructuredFormat): string {
+    const resolved = resolveRefs(spec, spec);
+    const info = resolved.info || {};
+    const version = resolved.openapi ? `OpenAPI ${resolved.openapi}` : resolved.swagger ? `Swagger ${resolved.swagger}` : `AsyncAPI ${resolved.asyncapi}`;
+    const overview = [`# ${info.title || 'API'}`, `${version}${info.version ? `, API version ${info.version}` : ''}`];
+    if (info.description) overview.push(String(info.description).trim());
+    const servers = Array.isArray(resolved.servers)
+        ? resolved.servers.map((server: any) => server?.url).filter(Boolean)
+        : Object.values(resolved.servers || {}).map((server: any) => server?.url ?? server?.host).filter(Boolean);
+    if (resolved.host) servers.push(`${resolved.host}${resolved.basePath || ''}`);
+    if (servers.length > 0) overview.push(`Servers: ${servers.join(', ')}`);
+
+    const sections = [overview.join('\n\n')];
+    for (const [route, item] of Object.entries(resolved.paths || {}) as [string, any][]) {
+        for (const method of HTTP_METHODS) {
+            if (item?.[method]) {
+                sections.push(formatOperation(`${method.toUpperCase()} ${route}`, item[method], item.parameters || [], format));
+            }
+        }
+    }
+    for (const [channel, item] of Object.entries(resolved.channels || {}) as [string, any][]) {
+        for (const action of ['publish', 'subscribe']) {
+            if (item?.[action]) {
+                sections.push(formatOperation(`${action.toUpperCase()} ${channel}`, item[action], [], format));
+            }
+        }
+    }
+    // AsyncAPI 3 lists operations apart from channels; the channel is already resolved in place
+    if (resolved.asyncapi && !String(resolved.asyncapi).startsWith('2')) {
+        for (const [id, operation] of Object.entries(resolved.operations || {}) as [string, any][]) {
+            const channel = operation?.channel?.address ?? id;
+            sections.push(formatOperation(`${String(operation?.action || 'operation').toUpperCase()} ${channel}`, { operationId: id, ...operation }, [], format));
+        }
+    }
+    return sections.join('\n\n');
+}
+
+/**
+ * Inverse of formatApiSpec() for chunking: the overview, then the text of each operation
+ */
+export function splitApiSpec(content: string): { overview: string; operations: string[] } {
+    const [overview, ...operations] = content.split(`${API_OPERATION_MARKER}\n`);
+    return { overview: overview.trim(), operations: operations.map(operation => operation.trim()).filter(operation => operation) };
+}
@@ -1,13 +1,18 @@
 import chokidar from 'chokidar';
 import * as path from 'path';
 import * as fs from 'fs';
+import { expandArchive, getArchiveEntryPath, isArchiveFile, removeExpandedArchive } from './archive';
+import { FileFilter, IGNORE_FILE_NAMES } from './file-filter';
+import { getMessageDocumentPath, isMailboxFile, readMailbox } from './mail';
 
 export interface SyncerOptions {
     recursive: boolean;
     extensions: string[];
+    fileFilter?: FileFilter;    // Include/exclude patterns and ignore files, matched against paths relative to the synced folder
     onFileAdd: (filePath: string, sourceUrl?: string, displayPath?: string) => Promise<void>;
     onFileChange: (filePath: string, sourceUrl?: string, displayPath?: string) => Promise<void>;
     onFileDelete: (filePath: string) => Promise<void>;
+    onIgnoreFileChange?: () => Promise<void>;  // A .gitignore or .docs4aiignore was added, edited or deleted
 }
 
 export interface Syncer {
@@ -17,11 +22,31 @@ export interface Syncer {
     getSyncedFiles(): Promise<string[]>;
 }
 
+// A remote file downloaded into a syncer's cache
+export interface CachedFile {
+    localPath: string;
+    sourceUrl?: string;
+    displayPath?: string;
+}
+
+/**
+ * A syncer that downloads remote files into a local cache before they are indexed. The initial sync lists the
+ * files and downloads them one at a time so progress can be reported; polling then emits the changes.
+ */
+export interface CachingSyncer<T = any> extends Syncer {
+    beginSync(): void;
+    startPolling(): void;
+    listRemoteFiles(): Promise<T[]>;
+    downloadToCache(file: T): Promise<CachedFile | null>;
+}
+
 export class FolderSyncer {
     private fsWatcher: chokidar.FSWatcher | null = null;
     private folderPath: string;
     private options: SyncerOptions;
     private _isSyncing = false;
+    // Documents last seen in each mbox file ("<mailbox>#<message>") and archive ("<archive>!/<entry>")
+    private containers = new Map<string, string[]>();
 
     constructor(folderPath: string, options: SyncerOptions) {
         this.folderPath = folderPath;
@@ -40,7 +65,7 @@ export class FolderSyncer {
             : path.join(this.folderPath, '*');
 
         this.fsWatcher = chokidar.watch(globPattern, {
-            ignored: /(^|[\/\\])\../, // ignore dotfiles
+            ignored: (filePath: string, stats?: fs.Stats) => this.isIgnored(filePath, stats),
             persistent: true,
             ignoreInitial: true,
             awaitWriteFinish: {
@@ -50,23 +75,46 @@ export class FolderSyncer {
         });
 
         this.fsWatcher
+            .on('all', async (event: string, filePath: string) => {
+                if (IGNORE_FILE_NAMES.includes(path.basename(filePath)) && ['add', 'change', 'unlink'].includes(event)) {
+                    console.log(`Ignore file ${event === 'unlink' ? 'deleted' : 'changed'}: ${filePath}`);
+                    this.options.fileFilter?.clearIgnoreFiles();
+                    await this.options.onIgnoreFileChange?.();
+                }
+            })
             .on('add', async (filePath: string) => {
                 if (this.shouldProcess(filePath)) {
                     console.log(`File added: ${filePath}`);
-                    await this.options.onFileAdd(filePath);
+                    for (const documentPath of await this.expandFile(filePath)) {
+                        await this.options.onFileAdd(documentPath);
+                    }
                 }
             })
             .on('change', async (filePath: string) => {
                 if (this.shouldProcess(filePath)) {
                     console.log(`File changed: ${filePath}`);
-                    await this.options.onFileChange(filePath);
+                    const previous = this.containers.get(filePath) ?? [];
+                    const documentPaths = await this.expandFile(filePath);
+                    for (const removed of previous.filter(documentPath => !documentPaths.includes(documentPath))) {
+                        await this.options.onFileDelete(removed);
+                    }
+                    for (const documentPath of documentPaths) {
+                        await this.options.onFileChange(documentPath);
+                    }
                 }
             })
             .on('unlink', async (filePath: string) => {
                 // For delete events, only check extension (file no longer exists)
                 if (this.hasValidExtension(filePath)) {
                     console.log(`File deleted: ${filePath}`);
-                    await this.options.onFileDelete(filePath);
+                    const documentPaths = this.containers.get(filePath) ?? [filePath];
+                    this.containers.delete(filePath);
+                    if (isArchiveFile(filePath)) {
+                        removeExpandedArchive(filePath);
+                    }
+                    for (const documentPath of documentPaths) {
+                        await this.options.onFileDelete(documentPath);
+                    }
                 }
             })
             .on('error', (error: Error) => {
@@ -86,6 +134,48 @@ export class FolderSyncer {
         console.log('Stopped syncing');
     }
 
+    /**
+     * Documents a file stands for: each message of an mbox file and each file of an archive (with an
+     * extension the profile syncs, archives inside it excepted) is tracked on its own, anything else is one document
+     */
+    private async expandFile(filePath: string): Promise<string[]> {
+        if (!isMailboxFile(filePath) && !isArchiveFile(filePath)) {
+            return [filePath];
+        }
+        try {
+            const documentPaths = isMailboxFile(filePath)
+                ? readMailbox(filePath).map(entry => getMessageDocumentPath(filePath, entry.key))
+                : (await expandArchive(filePath)).entries
+                    .filter(entryName => !isArchiveFile(entryName) && this.hasValidExtension(entryName))
+                    .map(entryName => getArchiveEntryPath(filePath, entryName));
+            this.containers.set(filePath, documentPaths);
+            return documentPaths;
+        } catch (error) {
+            console.error(`Error expanding ${filePath}:`, error);
+            return [];
+        }
+    }
+
+    private getRelativePath(filePath: string): string {
+        return path.relative(this.folderPath, filePath).split(path.sep).join('/');
+    }
+
+    /**
+     * Paths the watcher skips: dotfiles other than ignore files, and excluded directories so that
+     * node_modules and the like aren't watched at all. Chokidar may ask before it has stat'ed the path.
+     */
+    private isIgnored(filePath: string, stats?: fs.Stats): boolean {
+        const name = path.basename(filePath);
+        if (name.startsWith('.') && !IGNORE_FILE_NAMES.includes(name)) {
+            return true;
+        }
+        const relativePath = this.getRelativePath(filePath);
+        if (!relativePath || relativePath.startsWith('..') || !this.options.fileFilter) {
+            return false;
+        }
+        return stats?.isDirectory() ? this.options.fileFilter.isExcluded(relativePath, true) : false;
+    }
+
     private shouldProcess(filePath: string): boolean {
         // Check if it's a file (not directory)
         try {
@@ -95,6 +185,8 @@ export class FolderSyncer {
             return false;
         }
 
+        if (path.basename(filePath).startsWith('.')) return false;
+        if (this.options.fileFilter && !this.options.fileFilter.accepts(this.getRelativePath(filePath))) return false;
         return this.hasValidExtension(filePath);
     }
     
@@ -102,8 +194,9 @@ export class FolderSyncer {
         // Check extension
         if (this.options.extensions.length === 0) return true;
         
-        const ext = path.extname(filePath).toLowerCase();
-        return this.options.extensions.includes(ext);
+        // Compared as a suffix so compound extensions such as .tar.gz match
+        const name = path.basename(filePath).toLowerCase();
+        return this.options.extensions.some(ext => name.length > ext.length && name.endsWith(ext.toLowerCase()));
     }
 
     async getSyncedFiles(): Promise<string[]> {
@@ -119,6 +212,7 @@ export class FolderSyncer {
                     const fullPath = path.join(dir, entry.name);
                     
                     if (entry.isDirectory() && this.options.recursive) {
+                        if (this.options.fileFilter?.isExcluded(this.getRelativePath(fullPath), true)) continue;
                         walkDir(fullPath);
                     } else if (entry.isFile() && this.shouldProcess(fullPath)) {
                         files.push(fullPath);
@@ -130,6 +224,11 @@ export class FolderSyncer {
         };
 
         walkDir(this.folderPath);
-        return files;
+
+        const documentPaths: string[] = [];
+        for (const filePath of files) {
+            documentPaths.push(...await this.expandFile(filePath));
+        }
+        return documentPaths;
     }
 }
@@ -0,0 +1,56 @@
+export interface EmbeddingThroughput {
+    chunksPerSecond: number;
+    tokensPerSecond: number;
+}
+
+interface ThroughputSample {
+    at: number;
+    chunks: number;
+    tokens: number;
+    durationMs: number;
+}
+
+// Rates are averaged over this window so they react to slowdowns (e.g. rate limits) within seconds
+const WINDOW_MS = 30_000;
+
+/**
+ * Sliding-window embedding throughput for one profile.
+ * Only time spent embedding counts, so file reading and parsing don't dilute the rate.
+ */
+export class ThroughputMeter {
+    private samples: ThroughputSample[] = [];
+
+    record(chunks: number, tokens: number, durationMs: number, at: number = Date.now()): void {
+        this.samples.push({ at, chunks, tokens, durationMs });
+        this.prune(at);
+    }
+
+    getRate(now: number = Date.now()): EmbeddingThroughput {
+        this.prune(now);
+        let chunks = 0;
+        let tokens = 0;
+        let durationMs = 0;
+        for (const sample of this.samples) {
+            chunks += sample.chunks;
+            tokens += sample.tokens;
+            durationMs += sample.durationMs;
+        }
+        if (durationMs <= 0) {
+            return { chunksPerSecond: 0, tokensPerSecond: 0 };
+        }
+        return {
+            chunksPerSecond: Math.round((chunks / durationMs) * 10_000) / 10,
+            tokensPerSecond: Math.round((tokens / durationMs) * 1000)
+        };
+    }
+
+    reset(): void {
+        this.samples = [];
+    }
+
+    private prune(now: number): void {
+        while (this.samples.length > 0 && now - this.samples[0].at > WINDOW_MS) {
+            this.samples.shift();
+        }
+    }
+}
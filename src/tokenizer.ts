@@ -0,0 +1,35 @@
+import type { Tiktoken } from 'js-tiktoken';
+
+// Number of tokens the embedding model sees for a text; used to size chunks
+export type TokenCounter = (text: string) => number;
+
+// CJK punctuation, kana, Han, Hangul and fullwidth forms: models spend about one token per character on these
+const DENSE_SCRIPT = /[\u3000-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g;
+// Other non-ASCII letters (Arabic, Devanagari, accented Latin...) take more tokens than English text
+const OTHER_NON_ASCII = /[^\x00-\x7f]/g;
+
+/**
+ * Tokenizer-free estimate for endpoints whose vocabulary we can't see:
+ * one token per CJK character, two characters per token for other non-ASCII text and four for ASCII
+ */
+export function estimateTokens(text: string): number {
+    const dense = text.match(DENSE_SCRIPT)?.length ?? 0;
+    const nonAscii = (text.match(OTHER_NON_ASCII)?.length ?? 0) - dense;
+    const ascii = text.length - dense - nonAscii;
+    return dense + Math.ceil(nonAscii / 2) + Math.ceil(ascii / 4);
+}
+
+let cl100k: Tiktoken | null = null;
+
+/**
+ * Exact count for OpenAI embedding models (text-embedding-3-* and ada-002 all use cl100k_base).
+ * The encoding is loaded on first use since its rank table is several megabytes.
+ */
+export const countOpenAITokens: TokenCounter = (text) => {
+    if (!cl100k) {
+        const { getEncoding } = require('js-tiktoken') as typeof import('js-tiktoken');
+        cl100k = getEncoding('cl100k_base');
+    }
+    // Special-token markers in documents are counted as plain text rather than rejected
+    return cl100k.encode(text, [], []).length;
+};
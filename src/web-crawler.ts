@@ -0,0 +1,628 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import * as zlib from 'zlib';
+import { decodeXmlEntities } from './epub';
+import { HttpResponse, httpRequest } from './http-request';
+import type { CachedFile, CachingSyncer, SyncerOptions } from './syncer';
+
+export interface WebCrawlerSettings {
+    seedUrls: string[];
+    scope?: 'prefix' | 'domain';    // Pages below each start URL's folder (default), or anywhere on its host
+    maxDepth?: number;              // Links followed from a start URL (default: 3)
+    maxPages?: number;              // Pages requested per crawl (default: 500)
+    useSitemaps?: boolean;          // Start from the sitemaps of robots.txt or /sitemap.xml too (default: true)
+    recrawlIntervalHours?: number;  // Default: 24
+    requestDelayMs?: number;        // Between requests to a host, unless robots.txt asks for more (default: 500)
+}
+
+// A crawled page, cached as Markdown
+export interface CrawledPage {
+    url: string;
+    localPath: string;
+    displayPath: string;
+}
+
+interface PageIndexEntry {
+    url: string;
+    file: string;               // Relative to the cache folder
+    etag?: string;
+    lastModified?: string;
+    links: string[];            // Followed again when the page is not modified
+}
+
+interface CrawlFetchResult {
+    status: 'fetched' | 'unchanged' | 'gone' | 'failed' | 'skipped';
+    url: string;                // After redirects
+    entry?: PageIndexEntry;
+    contentChanged?: boolean;
+    nofollow?: boolean;
+}
+
+export const CRAWLER_USER_AGENT = 'docs4ai';
+const INDEX_FILE = 'crawl-index.json';
+const MAX_SITEMAPS = 20;
+// Largest uncompressed sitemap the sitemap protocol allows; also caps what a .xml.gz sitemap inflates to
+const MAX_SITEMAP_SIZE = 50 * 1024 * 1024;
+// Larger pages are left out rather than read into memory
+const MAX_PAGE_SIZE = 10 * 1024 * 1024;
+const gunzip = promisify(zlib.gunzip);
+// Links to these are never pages
+const ASSET_EXTENSIONS = /\.(png|jpe?g|gif|svg|webp|ico|bmp|css|js|mjs|map|json|xml|txt|zip|gz|tgz|tar|rar|7z|pdf|docx?|xlsx?|pptx?|mp3|mp4|webm|mov|avi|woff2?|ttf|otf|eot|exe|dmg|deb|rpm|apk)$/i;
+
+interface RobotsRule {
+    allow: boolean;
+    pattern: RegExp;
+    length: number;
+}
+
+/**
+ * robots.txt rules for one user agent (RFC 9309): the group naming the agent, or the "*" group. The longest
+ * matching rule wins, and Allow wins a tie.
+ */
+export class RobotsTxt {
+    readonly sitemaps: string[] = [];
+    readonly crawlDelayMs: number = 0;
+    private rules: RobotsRule[] = [];
+
+    constructor(text: string, userAgent: string = CRAWLER_USER_AGENT) {
+        const agent = userAgent.toLowerCase();
+        const groups: { agents: string[]; rules: RobotsRule[]; crawlDelayMs: number }[] = [];
+        let current: typeof groups[number] | null = null;
+        let inAgentLines = false;
+
+        for (const rawLine of text.split(/\r?\n/)) {
+            const line = rawLine.replace(/#.*$/, '').trim();
+            const separator = line.indexOf(':');
+            if (separator < 0) continue;
+            const field = line.slice(0, separator).trim().toLowerCase();
+            const value = line.slice(separator + 1).trim();
+
+            if (field === 'sitemap') {
+                if (value) this.sitemaps.push(value);
+                continue;
+            }
+            if (field === 'user-agent') {
+                if (!current || !inAgentLines) {
+                    current = { agents: [], rules: [], crawlDelayMs: 0 };
+                    groups.push(current);
+                }
+                current.agents.push(value.toLowerCase());
+                inAgentLines = true;
+                continue;
+            }
+            if (!current) continue;
+            inAgentLines = false;
+            if ((field === 'allow' || field === 'disallow') && value) {
+                current.rules.push({ allow: field === 'allow', pattern: RobotsTxt.compile(value), length: value.length });
+            } else if (field === 'crawl-delay' && !Number.isNaN(parseFloat(value))) {
+                current.crawlDelayMs = parseFloat(value) * 1000;
+            }
+        }
+
+        const matching = groups.filter(group => group.agents.some(name => name !== '*' && agent.includes(name)));
+        const selected = matching.length > 0 ? matching : groups.filter(group => group.agents.includes('*'));
+        for (const group of selected) {
+            this.rules.push(...group.rules);
+            this.crawlDelayMs = Math.max(this.crawlDelayMs, group.crawlDelayMs);
+        }
+    }
+
+    private static compile(pattern: string): RegExp {
+        const anchored = pattern.endsWith('$');
+        const body = (anchored ? pattern.slice(0, -1) : pattern)
+            .split('*')
+            .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+            .join('.*');
+        return new RegExp(`^${body}${anchored ? '$' : ''}`);
+    }
+
+    /**
+     * Whether a URL path (with its query) may be crawled
+     */
+    isAllowed(pathAndQuery: string): boolean {
+        if (pathAndQuery === '/robots.txt') return true;
+        let best: RobotsRule | null = null;
+        for (const rule of this.rules) {
+            if (!rule.pattern.test(pathAndQuery)) continue;
+            if (!best || rule.length > best.length || (rule.length === best.length && rule.allow)) {
+                best = rule;
+            }
+        }
+        return !best || best.allow;
+    }
+}
+
+/**
+ * The page URLs of a sitemap, or the sitemaps listed by a sitemap index
+ */
+export function parseSitemap(xml: string): { urls: string[]; sitemaps: string[] } {
+    const locations = [...xml.matchAll(/<loc>\s*([\s\S]*?)\s*<\/loc>/gi)].map(match => decodeXmlEntities(match[1]));
+    return /<sitemapindex\b/i.test(xml) ? { urls: [], sitemaps: locations } : { urls: locations, sitemaps: [] };
+}
+
+/**
+ * Absolute http(s) URLs of the links of a page, without fragments
+ */
+export function extractLinks(html: string, pageUrl: string): string[] {
+    const baseHref = html.match(/<base\b[^>]*\bhref\s*=\s*(?:"([^"]*)"|'([^']*)')/i);
+    let base = pageUrl;
+    try {
+        base = baseHref ? new URL(decodeXmlEntities(baseHref[1] ?? baseHref[2]), pageUrl).toString() : pageUrl;
+    } catch {
+        // Keep the page URL
+    }
+
+    const links = new Set<string>();
+    for (const match of html.matchAll(/<a\b([^>]*)>/gi)) {
+        const attributes = match[1];
+        if (/\brel\s*=\s*["'][^"']*\bnofollow\b/i.test(attributes)) continue;
+        const href = attributes.match(/\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/i);
+        if (!href) continue;
+        const normalized = normalizeUrl(decodeXmlEntities(href[1] ?? href[2] ?? href[3]), base);
+        if (normalized) {
+            links.add(normalized);
+        }
+    }
+    return [...links];
+}
+
+function normalizeUrl(href: string, base?: string): string | null {
+    try {
+        const url = new URL(href.trim(), base);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+        url.hash = '';
+        return url.toString();
+    } catch {
+        return null;
+    }
+}
+
+function getMetaRobots(html: string): { noindex: boolean; nofollow: boolean } {
+    const content = [...html.matchAll(/<meta\b[^>]*>/gi)]
+        .map(match => match[0])
+        .filter(tag => /\bname\s*=\s*["']?(robots|docs4ai)["'\s>]/i.test(tag))
+        .map((tag) => {
+            const content = tag.match(/\bcontent\s*=\s*(?:"([^"]*)"|'([^']*)')/i);
+            return content ? content[1] ?? content[2] : '';
+        })
+        .join(',')
+        .toLowerCase();
+    return { noindex: /\b(noindex|none)\b/.test(content), nofollow: /\b(nofollow|none)\b/.test(content) };
+}
+
+// The page's main content when it marks one, so navigation and footers stay out of the index
+function getMainContent(html: string): string {
+    for (const pattern of [/<main\b[^>]*>([\s\S]*)<\/main>/i, /<article\b[^>]*>([\s\S]*)<\/article>/i, /<body\b[^>]*>([\s\S]*)<\/body>/i]) {
+        const match = html.match(pattern);
+        if (match) return match[1];
+    }
+    return html;
+}
+
+function decodeBody(response: HttpResponse): string {
+    const charset = String(response.headers['content-type'] || '').match(/charset=["']?([\w-]+)/i)?.[1];
+    try {
+        return new TextDecoder(charset || 'utf-8').decode(response.body);
+    } catch {
+        return response.body.toString('utf-8');
+    }
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Crawls documentation sites from start URLs into a cache of Markdown files, one per page. Each crawl follows
+ * links within scope up to the depth limit, and revalidates pages fetched before with their ETag or
+ * Last-Modified date so unchanged pages are neither downloaded nor indexed again. Recrawls run on a schedule
+ * and emit the pages that were added, changed or are no longer reachable.
+ */
+export class WebCrawler implements CachingSyncer<CrawledPage> {
+    private settings: WebCrawlerSettings;
+    private cacheDir: string;
+    private convertHtml: (html: string) => string;
+    private options: SyncerOptions;
+    private pollTimer: NodeJS.Timeout | null = null;
+    private pageIndex: Map<string, PageIndexEntry> = new Map();
+    private robots: Map<string, RobotsTxt | null> = new Map();  // null when robots.txt couldn't be read
+    private lastRequestAt: Map<string, number> = new Map();
+    private _isSyncing = false;
+    private isCrawling = false;
+
+    constructor(settings: WebCrawlerSettings, cacheDir: string, convertHtml: (html: string) => string, options: SyncerOptions) {
+        this.settings = settings;
+        this.cacheDir = cacheDir;
+        this.convertHtml = convertHtml;
+        this.options = options;
+        fs.mkdirSync(this.cacheDir, { recursive: true });
+        this.loadIndex();
+    }
+
+    get isSyncing(): boolean {
+        return this._isSyncing;
+    }
+
+    beginSync() {
+        if (this._isSyncing) return;
+        this._isSyncing = true;
+        fs.mkdirSync(this.cacheDir, { recursive: true });
+    }
+
+    start() {
+        this.startPolling();
+    }
+
+    // The initial sync has just crawled, so the first recrawl waits for the interval
+    startPolling() {
+        if (this.pollTimer) return;
+        if (!this._isSyncing) {
+            this.beginSync();
+        }
+        const intervalMs = Math.max(1, this.settings.recrawlIntervalHours ?? 24) * 3600000;
+        this.pollTimer = setInterval(() => {
+            this.recrawlAndEmit().catch((error) => {
+                console.error('Website recrawl failed:', error);
+            });
+        }, intervalMs);
+    }
+
+    async stop(): Promise<void> {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = null;
+        }
+        this._isSyncing = false;
+    }
+
+    /**
+     * Crawl the site: pages are fetched (or revalidated) and cached as they are found. Pages of a previous crawl
+     * that are no longer reached are removed.
+     */
+    async listRemoteFiles(): Promise<CrawledPage[]> {
+        const { pages, removed } = await this.crawl();
+        for (const localPath of removed) {
+            await this.options.onFileDelete(localPath);
+        }
+        return pages;
+    }
+
+    async downloadToCache(page: CrawledPage): Promise<CachedFile | null> {
+        if (!this._isSyncing || !fs.existsSync(page.localPath)) return null;
+        return { localPath: page.localPath, sourceUrl: page.url, displayPath: page.displayPath };
+    }
+
+    async getSyncedFiles(): Promise<string[]> {
+        return (await this.listRemoteFiles()).map(page => page.localPath);
+    }
+
+    /**
+     * Crawl again, then report new and changed pages and remove the ones that are gone
+     */
+    async recrawlAndEmit(): Promise<void> {
+        if (this.isCrawling || !this._isSyncing) return;
+        const previous = new Set(this.pageIndex.keys());
+        const { pages, changed, removed } = await this.crawl();
+
+        for (const page of pages) {
+            if (!this._isSyncing) return;
+            if (!previous.has(page.url)) {
+                await this.options.onFileAdd(page.localPath, page.url, page.displayPath);
+            } else if (changed.has(page.url)) {
+                await this.options.onFileChange(page.localPath, page.url, page.displayPath);
+            }
+        }
+        for (const localPath of removed) {
+            if (!this._isSyncing) return;
+            await this.options.onFileDelete(localPath);
+        }
+    }
+
+    // Pages reached, the URLs of those whose content changed, and the cached files of pages no longer reached
+    private async crawl(): Promise<{ pages: CrawledPage[]; changed: Set<string>; removed: string[] }> {
+        if (this.isCrawling) {
+            return { pages: [], changed: new Set(), removed: [] };
+        }
+        this.isCrawling = true;
+        this.robots.clear();
+
+        const maxDepth = this.settings.maxDepth ?? 3;
+        const maxPages = this.settings.maxPages ?? 500;
+        const previous = this.pageIndex;
+        const reached = new Map<string, PageIndexEntry>();
+        // URLs like /docs/ and /docs/index.html share a cache file, which belongs to the first one reached
+        const reachedFiles = new Set<string>();
+        const changed = new Set<string>();
+        const visited = new Set<string>();
+        const queue: { url: string; depth: number }[] = [];
+        let requests = 0;
+
+        try {
+            const seeds = this.settings.seedUrls.map(url => normalizeUrl(url)).filter((url): url is string => !!url);
+            queue.push(...seeds.map(url => ({ url, depth: 0 })));
+            if (this.settings.useSitemaps !== false) {
+                for (const url of await this.readSitemaps(seeds)) {
+                    queue.push({ url, depth: 0 });
+                }
+            }
+
+            while (queue.length > 0 && requests < maxPages && this._isSyncing) {
+                const { url, depth } = queue.shift()!;
+                if (visited.has(url) || !this.isInScope(url) || this.isExcluded(url)) continue;
+                visited.add(url);
+
+                const robots = await this.getRobots(url);
+                const target = new URL(url);
+                if (robots && !robots.isAllowed(target.pathname + target.search)) continue;
+
+                let result: CrawlFetchResult;
+                if (robots === null) {
+                    // Unknown rules: keep what was crawled before without requesting it
+                    result = { status: 'failed', url };
+                } else {
+                    requests++;
+                    await this.waitForHost(target.host, robots.crawlDelayMs);
+                    result = await this.fetchPage(url, previous.get(url), reachedFiles);
+                }
+                // A redirect to a page that was crawled already adds nothing
+                if (result.url !== url) {
+                    if (visited.has(result.url)) continue;
+                    visited.add(result.url);
+                }
+
+                // Pages that failed to load keep their last version; noindex pages are still followed
+                const entry = result.status === 'failed' ? previous.get(url) : result.entry;
+                if (!entry) continue;
+
+                if (result.status !== 'skipped' && !reachedFiles.has(entry.file) && this.options.fileFilter?.accepts(this.getPatternPath(entry.file)) !== false) {
+                    if (result.status === 'fetched' && result.contentChanged) {
+                        changed.add(entry.url);
+                    }
+                    reached.set(entry.url, entry);
+                    reachedFiles.add(entry.file);
+                }
+                if (depth < maxDepth && !result.nofollow) {
+                    for (const link of entry.links) {
+                        if (!visited.has(link)) {
+                            queue.push({ url: link, depth: depth + 1 });
+                        }
+                    }
+                }
+            }
+
+            if (!this._isSyncing) {
+                return { pages: [], changed, removed: [] };
+            }
+
+            this.pageIndex = reached;
+            const removed: string[] = [];
+            for (const entry of previous.values()) {
+                if (!reached.has(entry.url) && !reachedFiles.has(entry.file)) {
+                    const localPath = this.toPage(entry).localPath;
+                    fs.rmSync(localPath, { force: true });
+                    removed.push(localPath);
+                }
+            }
+            this.saveIndex();
+            console.log(`[WebCrawler] Crawled ${reached.size} pages (${requests} requests, ${changed.size} changed)`);
+            return { pages: [...reached.values()].map(entry => this.toPage(entry)), changed, removed };
+        } finally {
+            this.isCrawling = false;
+        }
+    }
+
+    private async fetchPage(url: string, previous: PageIndexEntry | undefined, reachedFiles: Set<string>): Promise<CrawlFetchResult> {
+        const headers: Record<string, string> = { 'User-Agent': `${CRAWLER_USER_AGENT}-crawler`, Accept: 'text/html,application/xhtml+xml' };
+        if (previous && fs.existsSync(path.join(this.cacheDir, previous.file))) {
+            if (previous.etag) headers['If-None-Match'] = previous.etag;
+            if (previous.lastModified) headers['If-Modified-Since'] = previous.lastModified;
+        }
+
+        let response: HttpResponse;
+        try {
+            response = await httpRequest(url, { headers, timeoutMs: 30000, maxBytes: MAX_PAGE_SIZE });
+        } catch (error: any) {
+            console.warn(`[WebCrawler] Failed to fetch ${url}: ${error.message}`);
+            return { status: 'failed', url };
+        }
+
+        const finalUrl = normalizeUrl(response.url) || url;
+        if (finalUrl !== url && (!this.isInScope(finalUrl) || this.isExcluded(finalUrl))) {
+            return { status: 'skipped', url: finalUrl };
+        }
+        if (response.status === 304 && previous) {
+            return { status: 'unchanged', url: finalUrl, entry: previous };
+        }
+        if (response.status === 404 || response.status === 410) {
+            return { status: 'gone', url: finalUrl };
+        }
+        if (response.status < 200 || response.status >= 300) {
+            console.warn(`[WebCrawler] HTTP ${response.status} for ${url}`);
+            return { status: 'failed', url: finalUrl };
+        }
+        const contentType = String(response.headers['content-type'] || '');
+        if (contentType && !/html/i.test(contentType)) {
+            return { status: 'gone', url: finalUrl };
+        }
+
+        const html = decodeBody(response);
+        const robots = getMetaRobots(html);
+        const entry: PageIndexEntry = {
+            url: finalUrl,
+            file: this.getCacheFile(finalUrl),
+            etag: typeof response.headers.etag === 'string' ? response.headers.etag : undefined,
+            lastModified: typeof response.headers['last-modified'] === 'string' ? response.headers['last-modified'] : undefined,
+            links: robots.nofollow ? [] : extractLinks(html, finalUrl)
+        };
+        // Another URL's page is cached in the same file; its links are still followed
+        if (robots.noindex || reachedFiles.has(entry.file)) {
+            return { status: 'skipped', url: finalUrl, entry, nofollow: robots.nofollow };
+        }
+
+        const contentChanged = this.writePage(entry.file, html);
+        return { status: 'fetched', url: finalUrl, entry, contentChanged, nofollow: robots.nofollow };
+    }
+
+    // Cached pages are only rewritten when their Markdown changes, so their modified time tells the indexer
+    private writePage(file: string, html: string): boolean {
+        const title = decodeXmlEntities((html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1] || '').replace(/\s+/g, ' ').trim());
+        const body = this.convertHtml(getMainContent(html));
+        const markdown = title && !body.startsWith('# ') ? `# ${title}\n\n${body}\n` : `${body}\n`;
+
+        const localPath = path.join(this.cacheDir, file);
+        try {
+            if (fs.readFileSync(localPath, 'utf-8') === markdown) return false;
+        } catch {
+            // Not cached yet
+        }
+        fs.mkdirSync(path.dirname(localPath), { recursive: true });
+        fs.writeFileSync(localPath, markdown, 'utf-8');
+        return true;
+    }
+
+    private async readSitemaps(seeds: string[]): Promise<string[]> {
+        const pending: string[] = [];
+        for (const origin of new Set(seeds.map(url => new URL(url).origin))) {
+            const robots = await this.getRobots(origin);
+            pending.push(...(robots?.sitemaps.length ? robots.sitemaps : [`${origin}/sitemap.xml`]));
+        }
+
+        const urls: string[] = [];
+        const read = new Set<string>();
+        while (pending.length > 0 && read.size < MAX_SITEMAPS && this._isSyncing) {
+            const sitemapUrl = pending.shift()!;
+            if (read.has(sitemapUrl)) continue;
+            read.add(sitemapUrl);
+            try {
+                const target = new URL(sitemapUrl);
+                const robots = await this.getRobots(sitemapUrl);
+                if (!robots || !robots.isAllowed(target.pathname + target.search)) continue;
+                await this.waitForHost(target.host, robots.crawlDelayMs);
+
+                const response = await httpRequest(sitemapUrl, {
+                    headers: { 'User-Agent': `${CRAWLER_USER_AGENT}-crawler` },
+                    timeoutMs: 30000,
+                    maxBytes: MAX_SITEMAP_SIZE
+                });
+                if (response.status !== 200) continue;
+                const gzipped = response.body[0] === 0x1f && response.body[1] === 0x8b;
+                const xml = gzipped ? await gunzip(response.body, { maxOutputLength: MAX_SITEMAP_SIZE }) : response.body;
+                const sitemap = parseSitemap(xml.toString('utf-8'));
+                pending.push(...sitemap.sitemaps);
+                urls.push(...sitemap.urls.map(url => normalizeUrl(url)).filter((url): url is string => !!url && this.isInScope(url)));
+            } catch (error: any) {
+                const reason = error.code === 'ERR_BUFFER_TOO_LARGE' ? `more than ${MAX_SITEMAP_SIZE} bytes uncompressed` : error.message;
+                console.warn(`[WebCrawler] Failed to read sitemap ${sitemapUrl}: ${reason}`);
+            }
+        }
+        return urls;
+    }
+
+    // Missing robots.txt allows everything; a server error or an unreachable host leaves the rules unknown
+    private async getRobots(url: string): Promise<RobotsTxt | null> {
+        const origin = new URL(url).origin;
+        if (this.robots.has(origin)) {
+            return this.robots.get(origin)!;
+        }
+        let robots: RobotsTxt | null;
+        try {
+            // Its own Crawl-delay isn't known yet, so only the configured delay applies
+            await this.waitForHost(new URL(origin).host, 0);
+            const response = await httpRequest(`${origin}/robots.txt`, { headers: { 'User-Agent': `${CRAWLER_USER_AGENT}-crawler` }, timeoutMs: 30000 });
+            if (response.status >= 500) {
+                robots = null;
+            } else {
+                robots = new RobotsTxt(response.status >= 200 && response.status < 300 ? response.body.toString('utf-8') : '');
+            }
+        } catch (error: any) {
+            console.warn(`[WebCrawler] Failed to read ${origin}/robots.txt: ${error.message}`);
+            robots = null;
+        }
+        this.robots.set(origin, robots);
+        return robots;
+    }
+
+    // Every request to a host (pages, robots.txt and sitemaps) waits for the configured delay or the robots.txt Crawl-delay
+    private async waitForHost(host: string, crawlDelayMs: number): Promise<void> {
+        const minIntervalMs = Math.max(this.settings.requestDelayMs ?? 500, crawlDelayMs);
+        const last = this.lastRequestAt.get(host);
+        if (last !== undefined && minIntervalMs > 0) {
+            const waitMs = last + minIntervalMs - Date.now();
+            if (waitMs > 0) {
+                await delay(waitMs);
+            }
+        }
+        this.lastRequestAt.set(host, Date.now());
+    }
+
+    private isInScope(url: string): boolean {
+        const target = new URL(url);
+        if (ASSET_EXTENSIONS.test(target.pathname)) return false;
+        return this.settings.seedUrls.some((seedUrl) => {
+            const seed = normalizeUrl(seedUrl);
+            if (!seed) return false;
+            const scope = new URL(seed);
+            if (scope.host !== target.host) return false;
+            return this.settings.scope === 'domain' || target.pathname.startsWith(scope.pathname.slice(0, scope.pathname.lastIndexOf('/') + 1));
+        });
+    }
+
+    // Excluded folders aren't crawled; include patterns only decide which pages are indexed
+    private isExcluded(url: string): boolean {
+        return !!this.options.fileFilter?.isExcluded(this.getPatternPath(this.getCacheFile(url)));
+    }
+
+    /**
+     * Path of a page's Markdown file: the host, the URL path (index.md for folders), and a hash of the query
+     */
+    private getCacheFile(url: string): string {
+        const target = new URL(url);
+        const segments = target.pathname.split('/').map(segment => {
+            let decoded = segment;
+            try {
+                decoded = decodeURIComponent(segment);
+            } catch {
+                // Keep the encoded segment
+            }
+            return decoded.replace(/[<>:"\\|?*\x00-\x1f]/g, '_');
+        }).filter(segment => segment && segment !== '.' && segment !== '..');
+        if (target.pathname.endsWith('/') || segments.length === 0) {
+            segments.push('index');
+        }
+        let name = segments.pop()!.replace(/\.(html?|php|aspx?)$/i, '');
+        if (target.search) {
+            name += `_${crypto.createHash('sha256').update(target.search).digest('hex').slice(0, 8)}`;
+        }
+        return [target.host.replace(/:/g, '_'), ...segments, `${name}.md`].join('/');
+    }
+
+    // Patterns match the page's path below its host
+    private getPatternPath(file: string): string {
+        return file.split('/').slice(1).join('/');
+    }
+
+    private toPage(entry: PageIndexEntry): CrawledPage {
+        return {
+            url: entry.url,
+            localPath: path.join(this.cacheDir, ...entry.file.split('/')),
+            displayPath: entry.file
+        };
+    }
+
+    private loadIndex() {
+        try {
+            const saved = JSON.parse(fs.readFileSync(path.join(this.cacheDir, INDEX_FILE), 'utf-8'));
+            for (const entry of saved.pages || []) {
+                this.pageIndex.set(entry.url, entry);
+            }
+        } catch {
+            // No crawl yet
+        }
+    }
+
+    private saveIndex() {
+        fs.writeFileSync(path.join(this.cacheDir, INDEX_FILE), JSON.stringify({ pages: [...this.pageIndex.values()] }, null, 2), 'utf-8');
+    }
+}
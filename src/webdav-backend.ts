@@ -0,0 +1,107 @@
+import { decodeXmlEntities } from './epub';
+import { HttpError, httpDownload, httpRequest } from './http-request';
+import type { RemoteBackend, RemoteDirectoryListing } from './remote-syncer';
+
+export interface WebDavSettings {
+    url: string;            // Folder URL, e.g. https://cloud.example.com/remote.php/dav/files/alice/Documents
+    username?: string;
+    password?: string;      // App password for Nextcloud accounts with two-factor authentication
+}
+
+export interface WebDavEntry {
+    href: string;           // Decoded path of the resource on the server
+    isDirectory: boolean;
+    modifiedTimeMs: number;
+    size?: number;
+}
+
+const PROPFIND_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:"><d:prop><d:resourcetype/><d:getlastmodified/><d:getcontentlength/></d:prop></d:propfind>`;
+
+function getElementText(xml: string, name: string): string | null {
+    const match = xml.match(new RegExp(`<(?:[\\w-]+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`, 'i'));
+    return match ? decodeXmlEntities(match[1].trim()) : null;
+}
+
+/**
+ * Read the resources of a PROPFIND multistatus response. Namespace prefixes vary between servers, so elements
+ * are matched by local name.
+ */
+export function parseMultiStatus(xml: string): WebDavEntry[] {
+    const entries: WebDavEntry[] = [];
+    for (const match of xml.matchAll(/<(?:[\w-]+:)?response\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?response>/gi)) {
+        const response = match[1];
+        const href = getElementText(response, 'href');
+        if (!href) continue;
+        const modified = getElementText(response, 'getlastmodified');
+        const size = getElementText(response, 'getcontentlength');
+        let pathname = href;
+        try {
+            pathname = decodeURIComponent(new URL(href, 'http://host').pathname);
+        } catch {
+            // Keep the href as sent
+        }
+        entries.push({
+            href: pathname,
+            isDirectory: /<(?:[\w-]+:)?collection\b/i.test(getElementText(response, 'resourcetype') ?? response),
+            modifiedTimeMs: modified ? Date.parse(modified) || 0 : 0,
+            size: size ? parseInt(size, 10) : undefined
+        });
+    }
+    return entries;
+}
+
+export class WebDavBackend implements RemoteBackend {
+    readonly rootName: string;
+    private baseUrl: URL;
+    private headers: Record<string, string> = {};
+
+    constructor(settings: WebDavSettings) {
+        this.baseUrl = new URL(settings.url.endsWith('/') ? settings.url : `${settings.url}/`);
+        if (settings.username) {
+            this.headers.Authorization = `Basic ${Buffer.from(`${settings.username}:${settings.password || ''}`).toString('base64')}`;
+        }
+        const folderName = decodeURIComponent(this.baseUrl.pathname.split('/').filter(segment => segment).pop() || '');
+        this.rootName = folderName ? `${this.baseUrl.host}/${folderName}` : this.baseUrl.host;
+    }
+
+    async list(directory: string): Promise<RemoteDirectoryListing> {
+        const url = this.getUrl(directory ? `${directory}/` : '');
+        const response = await httpRequest(url, {
+            method: 'PROPFIND',
+            headers: { ...this.headers, Depth: '1', 'Content-Type': 'application/xml; charset=utf-8' },
+            body: PROPFIND_BODY
+        });
+        if (response.status !== 207) {
+            throw new HttpError(response.status, url, `WebDAV listing of ${url} failed with HTTP ${response.status}`);
+        }
+
+        const basePath = decodeURIComponent(this.baseUrl.pathname);
+        const listing: RemoteDirectoryListing = { files: [], directories: [] };
+        for (const entry of parseMultiStatus(response.body.toString('utf-8'))) {
+            if (!entry.href.startsWith(basePath)) continue;
+            const remotePath = entry.href.slice(basePath.length).replace(/\/+$/, '');
+            // The listed folder itself is part of the response
+            if (remotePath === directory || !remotePath) continue;
+            if (entry.isDirectory) {
+                listing.directories.push(remotePath);
+            } else {
+                listing.files.push({ path: remotePath, modifiedTimeMs: entry.modifiedTimeMs, size: entry.size });
+            }
+        }
+        return listing;
+    }
+
+    async download(remotePath: string, destPath: string): Promise<void> {
+        await httpDownload(this.getUrl(remotePath), destPath, { headers: this.headers });
+    }
+
+    getSourceUrl(remotePath: string): string {
+        return this.getUrl(remotePath);
+    }
+
+    private getUrl(remotePath: string): string {
+        const encoded = remotePath.split('/').map(segment => encodeURIComponent(segment)).join('/');
+        return new URL(encoded, this.baseUrl).toString();
+    }
+}
@@ -0,0 +1,53 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ArchiveLimitError, expandArchive, getArchiveEntryFile, getArchiveEntryPath, parseArchiveEntryPath } from '../src/archive';
+import { buildTestTarGz, buildTestZip, createTempDir } from './helpers';
+
+describe('archive expansion', () => {
+  it('extracts zip entries into the cache, skipping hidden files', async () => {
+    const archivePath = path.join(createTempDir('archive-zip'), 'bundle.zip');
+    fs.writeFileSync(archivePath, await buildTestZip({
+      'docs/intro.md': '# Intro',
+      'docs/.DS_Store': 'x',
+      '__MACOSX/docs/._intro.md': 'x',
+      'notes.txt': 'Notes'
+    }));
+
+    const archive = await expandArchive(archivePath);
+
+    expect(archive.entries.sort()).toEqual(['docs/intro.md', 'notes.txt']);
+    expect(fs.readFileSync(getArchiveEntryFile(archive, 'docs/intro.md'), 'utf-8')).toBe('# Intro');
+    expect((await expandArchive(archivePath)).dir).toBe(archive.dir);
+  });
+
+  it('extracts tar.gz entries, skipping paths outside the archive', async () => {
+    const archivePath = path.join(createTempDir('archive-tar'), 'drop.tar.gz');
+    fs.writeFileSync(archivePath, buildTestTarGz({ 'guide/setup.md': '# Setup', '../escape.md': 'x', '/etc/motd': 'x', 'guide/faq.txt': 'FAQ' }));
+
+    const archive = await expandArchive(archivePath);
+
+    expect(archive.entries).toEqual(['guide/setup.md', 'guide/faq.txt']);
+    expect(fs.readFileSync(getArchiveEntryFile(archive, 'guide/faq.txt'), 'utf-8')).toBe('FAQ');
+  });
+
+  it('refuses archives over the entry count and size limits', async () => {
+    const dir = createTempDir('archive-limits');
+    const zipPath = path.join(dir, 'bomb.zip');
+    fs.writeFileSync(zipPath, await buildTestZip({ 'zeros.txt': Buffer.alloc(64 * 1024) }));
+    const tarPath = path.join(dir, 'many.tgz');
+    fs.writeFileSync(tarPath, buildTestTarGz({ 'a.md': 'a', 'b.md': 'b', 'c.md': 'c' }));
+
+    await expect(expandArchive(zipPath, { maxEntries: 10, maxEntrySize: 1024, maxTotalSize: 1024 * 1024 })).rejects.toThrow(ArchiveLimitError);
+    await expect(expandArchive(zipPath, { maxEntries: 10, maxEntrySize: 1024 * 1024, maxTotalSize: 1024 })).rejects.toThrow('more than 1024 bytes uncompressed');
+    await expect(expandArchive(tarPath, { maxEntries: 2, maxEntrySize: 1024, maxTotalSize: 1024 })).rejects.toThrow('more than 2 entries');
+    // Checked before the archive is read
+    await expect(expandArchive(zipPath, { maxEntries: 10, maxEntrySize: 1024, maxTotalSize: 64 })).rejects.toThrow('the file is larger than 64 bytes');
+  });
+
+  it('builds and parses virtual paths of archive entries', () => {
+    const documentPath = getArchiveEntryPath('/drops/bundle.tar.gz', 'docs/intro.md');
+    expect(documentPath).toBe('/drops/bundle.tar.gz!/docs/intro.md');
+    expect(parseArchiveEntryPath(documentPath)).toEqual({ archivePath: '/drops/bundle.tar.gz', entryName: 'docs/intro.md' });
+    expect(parseArchiveEntryPath('/drops/notes!/intro.md')).toBeNull();
+  });
+});
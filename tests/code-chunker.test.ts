@@ -0,0 +1,164 @@
+import { getCodeLanguage, splitCodeIntoSegments } from '../src/code-chunker';
+
+const paths = (source: string, language: Parameters<typeof splitCodeIntoSegments>[1]) =>
+  splitCodeIntoSegments(source, language).map(segment => segment.symbolPath.join(' > '));
+
+describe('splitCodeIntoSegments', () => {
+  it('detects languages by extension', () => {
+    expect(getCodeLanguage('/src/app.TS')).toBe('javascript');
+    expect(getCodeLanguage('/scripts/build.sh')).toBe('shell');
+    expect(getCodeLanguage('/docs/readme.md')).toBeNull();
+  });
+
+  it('splits TypeScript into declarations and class methods', () => {
+    const source = [
+      "import { x } from './x';",
+      '',
+      '/** Parses things */',
+      'export class Parser {',
+      '    private cache = new Map<string, string>();',
+      '',
+      '    constructor(private name: string) {}',
+      '',
+      '    // Reads a value, even with braces in strings: "}"',
+      '    async read(input: string): Promise<string> {',
+      '        if (input) {',
+      '            return `${input} }`;',
+      '        }',
+      "        return '{';",
+      '    }',
+      '}',
+      '',
+      'export const helper = (value: number) => value * 2;',
+      '',
+      'export function main() {',
+      '    return new Parser("x");',
+      '}',
+      '',
+      'main();'
+    ].join('\n');
+
+    const segments = splitCodeIntoSegments(source, 'javascript');
+    expect(segments.map(segment => segment.symbolPath.join(' > '))).toEqual([
+      '',
+      'Parser',
+      'Parser > constructor',
+      'Parser > read',
+      'helper',
+      'main',
+      ''
+    ]);
+    expect(segments[1].text.startsWith('/** Parses things */')).toBe(true);
+    expect(segments[3].text.startsWith('    // Reads a value')).toBe(true);
+    expect(segments[3].text.endsWith('}')).toBe(true);
+  });
+
+  it('does not treat Python comments as headings', () => {
+    const source = [
+      '# Utilities for parsing',
+      'import os',
+      '',
+      '@dataclass',
+      'class Config:',
+      '    """Settings.',
+      '',
+      '    def not_a_method(self):',
+      '    """',
+      '    name: str',
+      '',
+      '    # Loads the file',
+      '    def load(',
+      '        self,',
+      '        path,',
+      '    ):',
+      '        return open(path)',
+      '',
+      '    @staticmethod',
+      '    async def default():',
+      '        return Config()',
+      '',
+      'def run():',
+      '    pass',
+      '',
+      "if __name__ == '__main__':",
+      '    run()'
+    ].join('\n');
+
+    const segments = splitCodeIntoSegments(source, 'python');
+    expect(segments.map(segment => segment.symbolPath.join(' > '))).toEqual([
+      '',
+      'Config',
+      'Config > load',
+      'Config > default',
+      'run',
+      ''
+    ]);
+    expect(segments[1].text.startsWith('@dataclass')).toBe(true);
+    expect(segments[3].text.trimStart().startsWith('@staticmethod')).toBe(true);
+  });
+
+  it('groups Go methods under their receiver and Rust impl blocks', () => {
+    expect(paths([
+      'package main',
+      '',
+      'type Server struct {',
+      '    port int',
+      '}',
+      '',
+      'func (s *Server) Start() error {',
+      '    return nil',
+      '}',
+      '',
+      'func main() {',
+      '}'
+    ].join('\n'), 'go')).toEqual(['', 'Server', 'Server > Start', 'main']);
+
+    expect(paths([
+      'use std::fmt;',
+      '',
+      '#[derive(Debug)]',
+      'pub struct Point { x: i32 }',
+      '',
+      "impl<'a> fmt::Display for Point {",
+      "    fn fmt(&self, f: &mut fmt::Formatter<'_>) -> fmt::Result {",
+      '        write!(f, "{}", self.x)',
+      '    }',
+      '}'
+    ].join('\n'), 'rust')).toEqual(['', 'Point', 'Point', 'Point > fmt']);
+  });
+
+  it('splits Java classes into methods and shell scripts into functions', () => {
+    expect(paths([
+      'package demo;',
+      '',
+      'public class Greeter {',
+      '    private final String name;',
+      '',
+      '    public Greeter(String name) {',
+      '        this.name = name;',
+      '    }',
+      '',
+      '    @Override',
+      '    public String toString() {',
+      '        return name;',
+      '    }',
+      '}'
+    ].join('\n'), 'java')).toEqual(['', 'Greeter', 'Greeter > Greeter', 'Greeter > toString']);
+
+    expect(paths([
+      '#!/bin/bash',
+      '# Deploy script',
+      'set -e',
+      '',
+      'build() {',
+      '  echo "${#ARGS} args"',
+      '}',
+      '',
+      'function deploy {',
+      '  build',
+      '}',
+      '',
+      'deploy'
+    ].join('\n'), 'shell')).toEqual(['', 'build', 'deploy', '']);
+  });
+});
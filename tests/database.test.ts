@@ -84,6 +84,49 @@ describe('DatabaseManager', () => {
     warnSpy.mockRestore();
   });
 
+  it('adds page columns to older tables and stores page and slide numbers', () => {
+    const dbPath = createTestDbPath('pages');
+    const legacy = new Database(dbPath);
+    sqliteVec.load(legacy);
+    legacy.exec(`
+      CREATE VIRTUAL TABLE vec_items USING vec0(
+        embedding FLOAT[3],
+        heading_hierarchy TEXT,
+        section TEXT,
+        chunk_id TEXT UNIQUE,
+        content TEXT,
+        url TEXT,
+        hash TEXT,
+        chunk_index INTEGER,
+        total_chunks INTEGER
+      );
+      CREATE TABLE metadata (key TEXT PRIMARY KEY, value TEXT);
+      INSERT INTO metadata (key, value) VALUES ('embedding_dimension', '3');
+    `);
+    legacy.prepare(`
+      INSERT INTO vec_items (embedding, heading_hierarchy, section, chunk_id, content, url, hash, chunk_index, total_chunks)
+      VALUES (?, '[]', 'Intro', 'legacy-chunk', 'Legacy content', 'file:///legacy.txt', 'legacy-hash', ?, ?)
+    `).run(new Float32Array([1, 2, 3]), BigInt(0), BigInt(1));
+    legacy.close();
+
+    const db = new DatabaseManager(dbPath, 3);
+    expect(db.getTotalChunksCount()).toBe(1);
+    const [chunk] = new ContentProcessor().chunkContent('# contract\n\n<!-- page 4 -->\nTerms\n<!-- page 5 -->\nSignatures', '/docs/contract.pdf');
+    db.insertChunk(chunk, [0, 0, 1]);
+    db.insertChunk({ ...chunk, chunkId: 'slide-chunk', pageStart: undefined, pageEnd: undefined, slide: 2 }, [0, 1, 0]);
+    db.close();
+
+    const raw = new Database(dbPath);
+    sqliteVec.load(raw);
+    const rows = raw.prepare('SELECT chunk_id, content, page_start, page_end, slide FROM vec_items ORDER BY rowid').all();
+    raw.close();
+    expect(rows).toEqual([
+      { chunk_id: 'legacy-chunk', content: 'Legacy content', page_start: null, page_end: null, slide: null },
+      { chunk_id: chunk.chunkId, content: chunk.content, page_start: 4, page_end: 5, slide: null },
+      { chunk_id: 'slide-chunk', content: chunk.content, page_start: null, page_end: null, slide: 2 }
+    ]);
+  });
+
   it('updates file info without duplicating tracked counts', () => {
     const dbPath = createTestDbPath('file-info');
     const db = new DatabaseManager(dbPath, 3);
@@ -100,4 +143,131 @@ describe('DatabaseManager', () => {
     expect(info?.hash).toBe(firstHash);
     db.close();
   });
+
+  it('records the source of each file and keeps it on updates', () => {
+    const dbPath = createTestDbPath('file-source');
+    const db = new DatabaseManager(dbPath, 3);
+
+    db.upsertFileInfo('/tmp/legacy.txt', 'hash-1', new Date('2024-01-01T00:00:00Z'), 1);
+    db.upsertFileInfo('/tmp/docs/guide.md', 'hash-2', new Date('2024-01-01T00:00:00Z'), 1, undefined, undefined, 'source-docs');
+    db.upsertFileInfo('/tmp/docs/guide.md', 'hash-3', new Date('2024-01-02T00:00:00Z'), 2);
+    expect(db.getFileInfo('/tmp/legacy.txt')?.sourceId).toBeNull();
+    expect(db.getFileInfo('/tmp/docs/guide.md')?.sourceId).toBe('source-docs');
+
+    db.assignUnsourcedFiles('primary');
+    const sources = Object.fromEntries(db.getAllTrackedFilesWithInfo().map(file => [file.path, file.sourceId]));
+    expect(sources).toEqual({ '/tmp/legacy.txt': 'primary', '/tmp/docs/guide.md': 'source-docs' });
+    db.close();
+  });
+
+  describe('re-embedding', () => {
+    const processor = new ContentProcessor();
+    const chunkFor = (filePath: string, word: string) =>
+      processor.chunkContent(`# ${word}\n\n${new Array(50).fill(word).join(' ')}`, filePath)[0];
+    const readEmbedding = (dbPath: string, chunkId: string): number[] => {
+      const raw = new Database(dbPath);
+      sqliteVec.load(raw);
+      const row = raw.prepare('SELECT embedding FROM vec_items WHERE chunk_id = ?').get(chunkId) as { embedding: Buffer };
+      raw.close();
+      return Array.from(new Float32Array(row.embedding.buffer, row.embedding.byteOffset, row.embedding.byteLength / 4));
+    };
+
+    it('records the model id and detects model changes', () => {
+      const dbPath = createTestDbPath('model-id');
+      const db = new DatabaseManager(dbPath, 3, 'ollama:small@3');
+      expect(db.getEmbeddingModelId()).toBe('ollama:small@3');
+      expect(db.needsReembedding('ollama:small@3', 3)).toBe(false);
+      expect(db.needsReembedding('ollama:other@3', 3)).toBe(true);
+      expect(db.needsReembedding('openai:large@4', 4)).toBe(true);
+      db.close();
+    });
+
+    it('re-embeds into a new width and swaps tables when done', () => {
+      const dbPath = createTestDbPath('reembed');
+      const db = new DatabaseManager(dbPath, 3, 'old@3');
+      const alpha = chunkFor('/docs/alpha.md', 'alpha');
+      const beta = chunkFor('/docs/beta.md', 'beta');
+      db.insertChunk(alpha, [1, 0, 0]);
+      db.insertChunk(beta, [0, 1, 0]);
+      db.close();
+
+      // Reopening with the new width keeps the old vectors searchable
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const migrating = new DatabaseManager(dbPath, 4, 'new@4');
+      warnSpy.mockRestore();
+      expect(migrating.getEmbeddingDimension()).toBe(3);
+      expect(migrating.needsReembedding('new@4', 4)).toBe(true);
+
+      migrating.beginReembedding('new@4', 4);
+      expect(migrating.getReembedProgress()).toEqual({ modelId: 'new@4', dimension: 4, done: 0, total: 2 });
+      const first = migrating.getReembedBatch(1);
+      expect(first.map(chunk => chunk.chunkId)).toEqual([alpha.chunkId]);
+      migrating.writeReembeddedBatch(first.map(chunk => ({ rowid: chunk.rowid, embedding: [0, 0, 0, 1] })));
+      expect(migrating.getReembedProgress()?.done).toBe(1);
+      expect(migrating.finishReembedding()).toBe(false);
+      migrating.close();
+
+      // A restart resumes where the migration stopped
+      const resumed = new DatabaseManager(dbPath, 4, 'new@4');
+      resumed.beginReembedding('new@4', 4);
+      const rest = resumed.getReembedBatch(10);
+      expect(rest.map(chunk => chunk.chunkId)).toEqual([beta.chunkId]);
+      resumed.writeReembeddedBatch(rest.map(chunk => ({ rowid: chunk.rowid, embedding: [0, 0, 1, 0] })));
+      expect(resumed.finishReembedding()).toBe(true);
+
+      expect(resumed.getEmbeddingDimension()).toBe(4);
+      expect(resumed.getEmbeddingModelId()).toBe('new@4');
+      expect(resumed.getReembedProgress()).toBeNull();
+      expect(resumed.getTotalChunksCount()).toBe(2);
+      expect(resumed.getChunksForUrl(alpha.url)[0].content).toBe(alpha.content);
+      resumed.close();
+
+      expect(readEmbedding(dbPath, alpha.chunkId)).toEqual([0, 0, 0, 1]);
+      expect(readEmbedding(dbPath, beta.chunkId)).toEqual([0, 0, 1, 0]);
+    });
+
+    it('keeps chunks synced during a migration', () => {
+      const dbPath = createTestDbPath('reembed-sync');
+      const db = new DatabaseManager(dbPath, 3, 'old@3');
+      const alpha = chunkFor('/docs/alpha.md', 'alpha');
+      const beta = chunkFor('/docs/beta.md', 'beta');
+      db.insertChunk(alpha, [1, 0, 0]);
+      db.insertChunk(beta, [0, 1, 0]);
+
+      db.beginReembedding('new@2', 2);
+      const batch = db.getReembedBatch(10);
+      expect(batch).toHaveLength(2);
+
+      // A sync rewrites alpha with the new model and deletes beta while the batch is being embedded
+      db.insertChunk(alpha, [0.5, 0.5]);
+      db.removeChunksForFile('/docs/beta.md');
+      const gamma = chunkFor('/docs/gamma.md', 'gamma');
+      db.insertChunk(gamma, [1, 1]);
+
+      db.writeReembeddedBatch(batch.map(chunk => ({ rowid: chunk.rowid, embedding: [9, 9] })));
+      expect(db.getReembedBatch(10)).toEqual([]);
+      expect(db.finishReembedding()).toBe(true);
+      expect(db.getTotalChunksCount()).toBe(2);
+      db.close();
+
+      expect(readEmbedding(dbPath, alpha.chunkId)).toEqual([0.5, 0.5]);
+      expect(readEmbedding(dbPath, gamma.chunkId)).toEqual([1, 1]);
+    });
+
+    it('discards a pending migration when the target model changes', () => {
+      const dbPath = createTestDbPath('reembed-cancel');
+      const db = new DatabaseManager(dbPath, 3, 'old@3');
+      db.insertChunk(chunkFor('/docs/alpha.md', 'alpha'), [1, 0, 0]);
+
+      db.beginReembedding('new@2', 2);
+      db.writeReembeddedBatch(db.getReembedBatch(10).map(chunk => ({ rowid: chunk.rowid, embedding: [1, 1] })));
+      db.beginReembedding('other@5', 5);
+      expect(db.getReembedProgress()).toEqual({ modelId: 'other@5', dimension: 5, done: 0, total: 1 });
+
+      db.cancelReembedding();
+      expect(db.isReembedding()).toBe(false);
+      expect(db.getEmbeddingDimension()).toBe(3);
+      db.close();
+    });
+  });
 });
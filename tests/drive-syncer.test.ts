@@ -2,7 +2,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { PassThrough } from 'stream';
 import { DriveSyncer } from '../src/drive-syncer';
-import { createTempDir } from './helpers';
+import { FileFilter } from '../src/file-filter';
+import { createTempDir, waitFor } from './helpers';
 
 function createStream(content: string) {
   const stream = new PassThrough();
@@ -13,10 +14,11 @@ function createStream(content: string) {
   return stream;
 }
 
-function createDriveMock(structure: Record<string, any[]>) {
+function createDriveMock(structure: Record<string, any[]>, folders: Record<string, any> = {}, changePages: Record<string, any> = {}) {
   const listCalls: any[] = [];
   const getCalls: any[] = [];
   const exportCalls: any[] = [];
+  const changeCalls: any[] = [];
 
   const files = {
     list: jest.fn(async (params: any) => {
@@ -28,6 +30,9 @@ function createDriveMock(structure: Record<string, any[]>) {
     }),
     get: jest.fn(async (params: any) => {
       getCalls.push(params);
+      if (params.alt !== 'media') {
+        return { data: folders[params.fileId] || { id: params.fileId, parents: [] } };
+      }
       return { data: createStream(`file:${params.fileId}`) };
     }),
     export: jest.fn(async (params: any) => {
@@ -36,11 +41,24 @@ function createDriveMock(structure: Record<string, any[]>) {
     })
   };
 
+  const changes = {
+    getStartPageToken: jest.fn(async () => ({ data: { startPageToken: 'token-1' } })),
+    list: jest.fn(async (params: any) => {
+      changeCalls.push(params);
+      const page = changePages[params.pageToken];
+      if (!page) {
+        throw new Error('Invalid page token');
+      }
+      return { data: page };
+    })
+  };
+
   return {
-    drive: { files } as any,
+    drive: { files, changes } as any,
     listCalls,
     getCalls,
-    exportCalls
+    exportCalls,
+    changeCalls
   };
 }
 
@@ -98,6 +116,35 @@ describe('DriveSyncer', () => {
     expect(fs.existsSync(txtEntry!.localPath)).toBe(true);
   });
 
+  it('applies include/exclude patterns to Drive paths and skips excluded folders', async () => {
+    const rootFolder = 'root-folder';
+    const now = new Date().toISOString();
+    const { drive, listCalls } = createDriveMock({
+      [rootFolder]: [
+        { id: 'doc1', name: 'Roadmap', mimeType: 'application/vnd.google-apps.document', modifiedTime: now },
+        { id: 'pdf1', name: 'Scan.pdf', mimeType: 'application/pdf', modifiedTime: now },
+        { id: 'archive-folder', name: 'Archive', mimeType: 'application/vnd.google-apps.folder' }
+      ],
+      'archive-folder': [
+        { id: 'old1', name: 'Old.docx', mimeType: 'application/octet-stream', modifiedTime: now }
+      ]
+    });
+
+    const syncer = new DriveSyncer(drive, rootFolder, createTempDir('drive-cache'), {
+      recursive: true,
+      extensions: ['.docx', '.pdf'],
+      fileFilter: new FileFilter(null, { include: ['*.docx'], exclude: ['Archive/'] }),
+      onFileAdd: async () => {},
+      onFileChange: async () => {},
+      onFileDelete: async () => {}
+    });
+    syncer.setRootName('Team');
+    syncer.beginSync();
+
+    expect((await syncer.listRemoteFiles()).map(file => file.id)).toEqual(['doc1']);
+    expect(listCalls.map(call => call.q)).toEqual([`'${rootFolder}' in parents and trashed = false`]);
+  });
+
   it('includes driveId and corpora when set for shared drives', async () => {
     const { drive, listCalls } = createDriveMock({ root: [] });
     const cacheDir = createTempDir('drive-cache');
@@ -149,4 +196,168 @@ describe('DriveSyncer', () => {
     expect(getCalls).toHaveLength(0);
     expect(exportCalls).toHaveLength(0);
   });
+
+  it('polls the Changes API and emits only changed, moved and trashed files', async () => {
+    const rootFolder = 'root-folder';
+    const before = new Date(Date.now() - 60_000).toISOString();
+    const after = new Date().toISOString();
+    const file = (id: string, name: string, parent: string, modifiedTime: string = before) =>
+      ({ id, name, mimeType: 'text/plain', modifiedTime, parents: [parent] });
+    const { drive, listCalls, changeCalls } = createDriveMock({
+      [rootFolder]: [
+        file('a', 'A.txt', rootFolder),
+        file('b', 'B.txt', rootFolder),
+        file('c', 'C.txt', rootFolder),
+        file('d', 'D.txt', rootFolder),
+        { id: 'sub', name: 'Sub', mimeType: 'application/vnd.google-apps.folder' }
+      ],
+      sub: [],
+      'new-folder': [file('e', 'E.txt', 'new-folder')]
+    }, {
+      elsewhere: { id: 'elsewhere', name: 'Elsewhere', parents: [] }
+    }, {
+      'token-1': {
+        nextPageToken: 'token-1b',
+        changes: [
+          { fileId: 'a', file: file('a', 'A.txt', rootFolder, after) },
+          { fileId: 'b', file: { ...file('b', 'B.txt', rootFolder), trashed: true } },
+          { fileId: 'c', file: file('c', 'C.txt', 'sub') }
+        ]
+      },
+      'token-1b': {
+        newStartPageToken: 'token-2',
+        changes: [
+          { fileId: 'd', file: file('d', 'D.txt', 'elsewhere') },
+          { fileId: 'new-folder', file: { id: 'new-folder', name: 'New', mimeType: 'application/vnd.google-apps.folder', parents: ['sub'] } },
+          { fileId: 'unrelated', file: file('unrelated', 'Other.txt', 'elsewhere') }
+        ]
+      }
+    });
+
+    const events: string[] = [];
+    const syncer = new DriveSyncer(drive, rootFolder, createTempDir('drive-cache'), {
+      recursive: true,
+      extensions: ['.txt'],
+      onFileAdd: async (_filePath, _sourceUrl, displayPath) => { events.push(`add ${displayPath}`); },
+      onFileChange: async (_filePath, _sourceUrl, displayPath) => { events.push(`change ${displayPath}`); },
+      onFileDelete: async (filePath) => { events.push(`delete ${path.basename(filePath)}`); }
+    });
+    const savedTokens: string[] = [];
+
+    syncer.beginSync();
+    await syncer.getSyncedFiles();
+    expect(syncer.getChangesPageToken()).toBe('token-1');
+    syncer.setChangesPageToken(syncer.getChangesPageToken(), token => savedTokens.push(token));
+    listCalls.length = 0;
+
+    syncer.startPolling();
+    await waitFor(() => savedTokens.length > 0);
+    await syncer.stop();
+
+    expect(events).toEqual([
+      'change My Drive/A.txt',
+      'delete b.txt',
+      'delete c.txt',
+      'add My Drive/Sub/C.txt',
+      'delete d.txt',
+      'add My Drive/Sub/New/E.txt'
+    ]);
+    expect(savedTokens).toEqual(['token-2']);
+    expect(changeCalls.map(call => call.pageToken)).toEqual(['token-1', 'token-1b']);
+    // Only the folder moved into the synced folder is listed
+    expect(listCalls.map(call => call.q)).toEqual([`'new-folder' in parents and trashed = false`]);
+  });
+
+  it('continues from a saved token with a restored index and rescans when the token is rejected', async () => {
+    const rootFolder = 'root-folder';
+    const modifiedTime = new Date(Date.now() - 60_000).toISOString();
+    const { drive, listCalls } = createDriveMock({
+      [rootFolder]: [{ id: 'a', name: 'A.txt', mimeType: 'text/plain', modifiedTime }]
+    }, {}, {
+      'saved-token': {
+        newStartPageToken: 'token-3',
+        changes: [{ fileId: 'gone', removed: true }]
+      }
+    });
+
+    const cacheDir = createTempDir('drive-cache');
+    fs.writeFileSync(path.join(cacheDir, 'gone.txt'), 'cached');
+    const deleted: string[] = [];
+    const syncer = new DriveSyncer(drive, rootFolder, cacheDir, {
+      recursive: true,
+      extensions: ['.txt'],
+      onFileAdd: async () => {},
+      onFileChange: async () => {},
+      onFileDelete: async (filePath) => { deleted.push(filePath); }
+    });
+    syncer.restoreIndex([{ localPath: path.join(cacheDir, 'gone.txt'), displayPath: 'My Drive/Gone.txt' }]);
+    syncer.setChangesPageToken('saved-token');
+    syncer.startPolling();
+    await waitFor(() => syncer.getChangesPageToken() === 'token-3');
+    await syncer.stop();
+
+    expect(deleted).toEqual([path.join(cacheDir, 'gone.txt')]);
+    expect(fs.existsSync(path.join(cacheDir, 'gone.txt'))).toBe(false);
+    expect(listCalls).toHaveLength(0);
+
+    // An unknown token falls back to listing the folder, which takes a new token
+    syncer.setChangesPageToken('expired-token');
+    syncer.startPolling();
+    await waitFor(() => syncer.getChangesPageToken() === 'token-1');
+    await syncer.stop();
+    expect(listCalls.map(call => call.q)).toEqual([`'${rootFolder}' in parents and trashed = false`]);
+  });
+
+  it('removes the files of a folder moved out after continuing from a saved token', async () => {
+    const rootFolder = 'root-folder';
+    const modifiedTime = new Date(Date.now() - 60_000).toISOString();
+    const structure: Record<string, any[]> = {
+      [rootFolder]: [
+        { id: 'a', name: 'A.txt', mimeType: 'text/plain', modifiedTime },
+        { id: 'sub', name: 'Sub', mimeType: 'application/vnd.google-apps.folder' }
+      ],
+      sub: [{ id: 's', name: 'S.txt', mimeType: 'text/plain', modifiedTime }]
+    };
+    const { drive, listCalls } = createDriveMock(structure, {
+      elsewhere: { id: 'elsewhere', name: 'Elsewhere', parents: [] }
+    }, {
+      'token-1': {
+        newStartPageToken: 'token-2',
+        changes: [{ fileId: 'sub', file: { id: 'sub', name: 'Sub', mimeType: 'application/vnd.google-apps.folder', parents: ['elsewhere'] } }]
+      }
+    });
+    const cacheDir = createTempDir('drive-cache');
+    const deleted: string[] = [];
+    const createSyncer = () => new DriveSyncer(drive, rootFolder, cacheDir, {
+      recursive: true,
+      extensions: ['.txt'],
+      onFileAdd: async () => {},
+      onFileChange: async () => {},
+      onFileDelete: async (filePath) => { deleted.push(path.basename(filePath)); }
+    });
+
+    const first = createSyncer();
+    first.beginSync();
+    const localPaths = await first.getSyncedFiles();
+    const folders = first.getKnownFolders();
+    await first.stop();
+    expect(folders).toEqual({ sub: { name: 'Sub', path: 'My Drive/Sub', parentId: rootFolder } });
+
+    // The next run only has the saved token, folders and the indexed files
+    structure[rootFolder] = structure[rootFolder].filter(file => file.id !== 'sub');
+    listCalls.length = 0;
+    const syncer = createSyncer();
+    syncer.restoreIndex(localPaths.map(localPath => ({ localPath })));
+    syncer.restoreFolders(folders);
+    syncer.setChangesPageToken('token-1');
+    syncer.startPolling();
+    try {
+      await waitFor(() => deleted.length > 0);
+    } finally {
+      await syncer.stop();
+    }
+
+    expect(deleted).toEqual(['s.txt']);
+    expect(listCalls.map(call => call.q)).toEqual([`'${rootFolder}' in parents and trashed = false`]);
+  });
 });
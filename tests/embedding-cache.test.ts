@@ -0,0 +1,77 @@
+import { EmbeddingCache, generateEmbeddingsWithCache } from '../src/embedding-cache';
+import type { EmbeddingService } from '../src/embeddings';
+import { createTestDbPath } from './helpers';
+
+function createService(modelId: string) {
+  const generateEmbeddings = jest.fn(async (texts: string[]) => ({
+    embeddings: texts.map(text => [text.length, 0.5]),
+    totalTokens: texts.length * 10
+  }));
+  const service = { getModelId: () => modelId, generateEmbeddings } as unknown as EmbeddingService;
+  return { service, generateEmbeddings };
+}
+
+describe('EmbeddingCache', () => {
+  it('stores vectors per model and hash across reopen', () => {
+    const dbPath = createTestDbPath('embedding-cache');
+    const cache = new EmbeddingCache(dbPath);
+    cache.putMany('model-a@2', [{ hash: 'h1', embedding: [0.25, -1] }]);
+    cache.close();
+
+    const reopened = new EmbeddingCache(dbPath);
+    expect(reopened.getMany('model-a@2', ['h1', 'h2'])).toEqual(new Map([['h1', [0.25, -1]]]));
+    expect(reopened.getMany('model-b@2', ['h1']).size).toBe(0);
+    reopened.close();
+  });
+
+  it('drops the least recently used entries beyond the limit when opened', () => {
+    const dbPath = createTestDbPath('embedding-cache-prune');
+    const nowSpy = jest.spyOn(Date, 'now');
+    const cache = new EmbeddingCache(dbPath, 2);
+    nowSpy.mockReturnValue(1000);
+    cache.putMany('m', [{ hash: 'old', embedding: [1] }, { hash: 'used', embedding: [2] }]);
+    nowSpy.mockReturnValue(2000);
+    cache.putMany('m', [{ hash: 'new', embedding: [3] }]);
+    nowSpy.mockReturnValue(3000);
+    cache.getMany('m', ['used']);
+    cache.close();
+    nowSpy.mockRestore();
+
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const reopened = new EmbeddingCache(dbPath, 2);
+    logSpy.mockRestore();
+    expect(reopened.getEntryCount()).toBe(2);
+    expect(Array.from(reopened.getMany('m', ['old', 'used', 'new']).keys()).sort()).toEqual(['new', 'used']);
+    reopened.close();
+  });
+
+  it('only sends cache misses to the embedding service', async () => {
+    const cache = new EmbeddingCache(createTestDbPath('embedding-cache-service'));
+    const { service, generateEmbeddings } = createService('openai:text-embedding-3-small@2');
+
+    const first = await generateEmbeddingsWithCache(service, cache, [
+      { hash: 'a', content: 'alpha' },
+      { hash: 'b', content: 'beta!' },
+      { hash: 'a', content: 'alpha' }
+    ]);
+    expect(generateEmbeddings).toHaveBeenLastCalledWith(['alpha', 'beta!']);
+    expect(first).toEqual({ embeddings: [[5, 0.5], [5, 0.5], [5, 0.5]], totalTokens: 20, cachedCount: 1 });
+
+    const second = await generateEmbeddingsWithCache(service, cache, [
+      { hash: 'b', content: 'beta!' },
+      { hash: 'c', content: 'gamma' }
+    ]);
+    expect(generateEmbeddings).toHaveBeenLastCalledWith(['gamma']);
+    expect(second.totalTokens).toBe(10);
+    expect(second.cachedCount).toBe(1);
+
+    await generateEmbeddingsWithCache(service, cache, [{ hash: 'c', content: 'gamma' }]);
+    expect(generateEmbeddings).toHaveBeenCalledTimes(2);
+
+    // Without a cache every text is embedded
+    const uncached = await generateEmbeddingsWithCache(service, null, [{ hash: 'c', content: 'gamma' }]);
+    expect(uncached.cachedCount).toBe(0);
+    expect(generateEmbeddings).toHaveBeenCalledTimes(3);
+    cache.close();
+  });
+});
@@ -1,18 +1,29 @@
-import { EmbeddingService, getEmbeddingDimension, MINILM_EMBEDDING_DIMENSION, OPENAI_EMBEDDING_DIMENSION } from '../src/embeddings';
+import {
+  EmbeddingService,
+  getEmbeddingDimension,
+  validateEmbeddingOptions,
+  planEmbeddingBatches,
+  MINILM_EMBEDDING_DIMENSION,
+  OPENAI_EMBEDDING_DIMENSION
+} from '../src/embeddings';
 
 const openAiCreateMock = jest.fn();
+const openAiConstructorMock = jest.fn();
 
 jest.mock('openai', () => ({
   __esModule: true,
   default: class OpenAI {
     embeddings = { create: openAiCreateMock };
-    constructor() {}
+    constructor(options: any) {
+      openAiConstructorMock(options);
+    }
   }
 }));
 
 describe('EmbeddingService', () => {
   beforeEach(() => {
     openAiCreateMock.mockReset();
+    openAiConstructorMock.mockReset();
   });
 
   it('returns expected dimensions for providers', () => {
@@ -20,6 +31,128 @@ describe('EmbeddingService', () => {
     expect(getEmbeddingDimension('openai')).toBe(OPENAI_EMBEDDING_DIMENSION);
   });
 
+  it('resolves dimensions from the provider registry', () => {
+    expect(getEmbeddingDimension('openai', { model: 'text-embedding-3-small' })).toBe(1536);
+    expect(getEmbeddingDimension('openai', { model: 'text-embedding-3-small', dimensions: 512 })).toBe(512);
+    expect(getEmbeddingDimension('ollama')).toBe(768);
+    expect(getEmbeddingDimension('openai-compatible', { model: 'e5', baseURL: 'http://gpu:8000/v1', dimensions: 384 })).toBe(384);
+    expect(() => getEmbeddingDimension('openai-compatible', { model: 'e5', baseURL: 'http://gpu:8000/v1' })).toThrow('dimension');
+  });
+
+  it('validates provider settings', () => {
+    expect(validateEmbeddingOptions('local')).toBeNull();
+    expect(validateEmbeddingOptions('local-gguf', { dimensions: 768 })).toContain('GGUF');
+    expect(validateEmbeddingOptions('openai-compatible', { model: 'e5', dimensions: 384 })).toContain('URL');
+    expect(validateEmbeddingOptions('openai', { dimensions: 4096 })).toContain('at most 3072');
+    expect(validateEmbeddingOptions('ollama', { model: 'nomic-embed-text', dimensions: 256 })).toContain('only produces 768');
+  });
+
+  it('truncates text-embedding-3-small through the dimensions parameter', async () => {
+    openAiCreateMock.mockResolvedValue({ data: [{ embedding: new Array(256).fill(0.1) }], usage: { total_tokens: 4 } });
+
+    const service = new EmbeddingService('openai', 'sk-test', undefined, { model: 'text-embedding-3-small', dimensions: 256 });
+    const result = await service.generateEmbedding('hello');
+
+    expect(openAiCreateMock).toHaveBeenCalledWith({ model: 'text-embedding-3-small', input: 'hello', dimensions: 256 });
+    expect(result.embedding).toHaveLength(256);
+    expect(service.embeddingDimension).toBe(256);
+    expect(service.getCostPerMillionTokens()).toBe(0.02);
+  });
+
+  it('calls OpenAI-compatible endpoints with their base URL and checks the width', async () => {
+    openAiCreateMock.mockResolvedValue({ data: [{ embedding: [0.1, 0.2, 0.3] }], usage: { total_tokens: 2 } });
+
+    const service = new EmbeddingService('openai-compatible', undefined, undefined, {
+      model: 'bge-small',
+      baseURL: 'http://gpu-box:8000/v1',
+      dimensions: 384
+    });
+
+    expect(openAiConstructorMock).toHaveBeenCalledWith(expect.objectContaining({ baseURL: 'http://gpu-box:8000/v1' }));
+    expect(service.getCostPerMillionTokens()).toBe(0);
+    await expect(service.generateEmbedding('hello')).rejects.toThrow('returned 3-dimension embeddings, expected 384');
+    expect(openAiCreateMock).toHaveBeenCalledWith({ model: 'bge-small', input: 'hello' });
+  });
+
+  it('reports a missing custom GGUF file', async () => {
+    const service = new EmbeddingService('local-gguf', undefined, undefined, {
+      modelPath: '/nonexistent/model.gguf',
+      dimensions: 768
+    });
+    await expect(service.validateApiKey()).rejects.toThrow('Embedding model file not found');
+    await service.terminate();
+  });
+
+  it('splits batches by input count and estimated tokens', () => {
+    const texts = ['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40), 'd'.repeat(400)];
+    expect(planEmbeddingBatches(texts, 2, 1000).map(batch => batch.length)).toEqual([2, 2]);
+    // 10 + 10 + 10 estimated tokens fit in 30; the 100-token text starts a new batch
+    expect(planEmbeddingBatches(texts, 10, 30).map(batch => batch.length)).toEqual([3, 1]);
+  });
+
+  it('embeds many texts in one request and keeps input order', async () => {
+    openAiCreateMock.mockResolvedValue({
+      data: [
+        { index: 1, embedding: new Array(3072).fill(2) },
+        { index: 0, embedding: new Array(3072).fill(1) }
+      ],
+      usage: { total_tokens: 12 }
+    });
+
+    const service = new EmbeddingService('openai', 'sk-test');
+    const result = await service.generateEmbeddings(['first', 'second']);
+
+    expect(openAiCreateMock).toHaveBeenCalledTimes(1);
+    expect(openAiCreateMock).toHaveBeenCalledWith({ model: 'text-embedding-3-large', input: ['first', 'second'] });
+    expect(result.embeddings.map(embedding => embedding[0])).toEqual([1, 2]);
+    expect(result.totalTokens).toBe(12);
+  });
+
+  it('retries rate-limited requests after the requested delay', async () => {
+    openAiCreateMock
+      .mockRejectedValueOnce({ status: 429, headers: { 'retry-after-ms': '5' } })
+      .mockResolvedValueOnce({ data: [{ index: 0, embedding: new Array(3072).fill(0) }], usage: { total_tokens: 1 } });
+
+    const service = new EmbeddingService('openai', 'sk-test');
+    const result = await service.generateEmbeddings(['hello']);
+
+    expect(openAiCreateMock).toHaveBeenCalledTimes(2);
+    expect(result.embeddings).toHaveLength(1);
+  });
+
+  it('does not retry when the quota is exhausted', async () => {
+    openAiCreateMock.mockRejectedValue({ status: 429, code: 'insufficient_quota', message: 'quota' });
+
+    const service = new EmbeddingService('openai', 'sk-test');
+    await expect(service.generateEmbeddings(['hello'])).rejects.toMatchObject({ code: 'insufficient_quota' });
+    expect(openAiCreateMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('embeds local batches across parallel contexts', async () => {
+    const service = new EmbeddingService('local');
+    const result = await service.generateEmbeddings(['one', 'two words', 'three more words']);
+
+    expect(result.embeddings).toHaveLength(3);
+    expect(result.embeddings[2]).toHaveLength(1024);
+    expect(result.totalTokens).toBe(6);
+    await service.terminate();
+  });
+
+  it('counts tokens with the tokenizer of the configured model', async () => {
+    const local = new EmbeddingService('local');
+    // The mocked GGUF model splits on whitespace
+    expect((await local.getTokenCounter())('three more words')).toBe(3);
+    await local.terminate();
+
+    const openai = await new EmbeddingService('openai', 'sk-test').getTokenCounter();
+    expect(openai('hello world')).toBe(2);
+
+    // No tokenizer for self-hosted endpoints: CJK characters count one token each
+    const ollama = await new EmbeddingService('ollama', undefined, undefined, { model: 'nomic-embed-text' }).getTokenCounter();
+    expect(ollama('日本語のテキスト')).toBe(8);
+    expect(ollama('abcdefgh')).toBe(2);
+  });
+
   it('normalizes legacy local providers to local', async () => {
     const service = new EmbeddingService('local-e5');
     expect(service.getProvider()).toBe('local');
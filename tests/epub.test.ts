@@ -0,0 +1,37 @@
+import { getChapterBody, parseNavDocument, parseNcx } from '../src/epub';
+
+describe('EPUB reading', () => {
+  it('reads nested entries from an EPUB 3 nav document', () => {
+    const nav = '<html><body><nav epub:type="landmarks"><ol><li><a href="cover.xhtml">Cover</a></li></ol></nav>' +
+      '<nav epub:type="toc"><ol>' +
+      '<li><a href="text/ch%201.xhtml">Getting <em>Started</em></a><ol><li><a href="text/ch%201.xhtml#setup">Setup &amp; Install</a></li></ol></li>' +
+      '<li><a href="../appendix.xhtml">Appendix</a></li>' +
+      '</ol></nav></body></html>';
+
+    expect(parseNavDocument(nav, 'OEBPS/nav.xhtml')).toEqual([
+      { title: 'Getting Started', href: 'OEBPS/text/ch 1.xhtml', fragment: '', depth: 1 },
+      { title: 'Setup & Install', href: 'OEBPS/text/ch 1.xhtml', fragment: 'setup', depth: 2 },
+      { title: 'Appendix', href: 'appendix.xhtml', fragment: '', depth: 1 }
+    ]);
+  });
+
+  it('reads nested navPoints from an EPUB 2 toc.ncx', () => {
+    const ncx = '<ncx><navMap>' +
+      '<navPoint id="p1" playOrder="1"><navLabel><text>Part One</text></navLabel><content src="part1.xhtml"/>' +
+      '<navPoint id="p2" playOrder="2"><navLabel><text>Chapter 1</text></navLabel><content src="ch1.xhtml#start"/></navPoint>' +
+      '</navPoint>' +
+      '<navPoint id="p3" playOrder="3"><navLabel><text>Index</text></navLabel><content src="index.xhtml"/></navPoint>' +
+      '</navMap></ncx>';
+
+    expect(parseNcx(ncx, 'toc.ncx')).toEqual([
+      { title: 'Part One', href: 'part1.xhtml', fragment: '', depth: 1 },
+      { title: 'Chapter 1', href: 'ch1.xhtml', fragment: 'start', depth: 2 },
+      { title: 'Index', href: 'index.xhtml', fragment: '', depth: 1 }
+    ]);
+  });
+
+  it('extracts chapter bodies with self-closing elements written out', () => {
+    const xhtml = '<html><head><title>Ignored</title></head><body class="x"><p>One<br/>two<a id="n1"/></p><div/></body></html>';
+    expect(getChapterBody(xhtml)).toBe('<p>One<br/>two<a id="n1"></a></p><div></div>');
+  });
+});
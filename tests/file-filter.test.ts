@@ -0,0 +1,55 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileFilter, parsePatterns } from '../src/file-filter';
+import { createTempDir } from './helpers';
+
+describe('FileFilter', () => {
+  it('matches profile patterns with .gitignore syntax', () => {
+    const filter = new FileFilter(null, {
+      include: ['docs/**', '*.md'],
+      exclude: ['node_modules/', '/dist', 'drafts/**/*.md', '!drafts/**/keep.md', 'tmp-?.md', '*.[ot]xt']
+    });
+
+    expect(filter.accepts('README.md')).toBe(true);
+    expect(filter.accepts('src/notes/design.md')).toBe(true);
+    expect(filter.accepts('docs/guide/setup.pdf')).toBe(true);
+    expect(filter.accepts('src/index.ts')).toBe(false);
+    // A directory pattern excludes everything below it, at any depth unless anchored
+    expect(filter.accepts('packages/app/node_modules/lib/README.md')).toBe(false);
+    expect(filter.accepts('dist/README.md')).toBe(false);
+    expect(filter.accepts('packages/dist/README.md')).toBe(true);
+    expect(filter.accepts('drafts/2024/idea.md')).toBe(false);
+    expect(filter.accepts('drafts/2024/keep.md')).toBe(true);
+    expect(filter.accepts('tmp-1.md')).toBe(false);
+    expect(filter.accepts('docs/notes.txt')).toBe(false);
+    expect(filter.isExcluded('node_modules', true)).toBe(true);
+    expect(filter.isExcluded('node_modules', false)).toBe(false);
+  });
+
+  it('reads .gitignore and .docs4aiignore in nested directories', () => {
+    const root = createTempDir('file-filter');
+    fs.mkdirSync(path.join(root, 'site', 'build'), { recursive: true });
+    fs.writeFileSync(path.join(root, '.gitignore'), '# build output\nbuild/\n*.log\n');
+    fs.writeFileSync(path.join(root, 'site', '.gitignore'), '!debug.log\n/generated.md\n');
+    fs.writeFileSync(path.join(root, 'site', '.docs4aiignore'), 'vendor\n');
+    const filter = new FileFilter(root, { include: [], exclude: [] });
+
+    expect(filter.accepts('notes.md')).toBe(true);
+    expect(filter.accepts('site/build/index.md')).toBe(false);
+    expect(filter.accepts('server.log')).toBe(false);
+    expect(filter.accepts('site/debug.log')).toBe(true);
+    expect(filter.accepts('site/generated.md')).toBe(false);
+    expect(filter.accepts('site/docs/generated.md')).toBe(true);
+    expect(filter.accepts('site/vendor/lib.md')).toBe(false);
+
+    fs.writeFileSync(path.join(root, '.gitignore'), '');
+    expect(filter.accepts('server.log')).toBe(false);
+    filter.clearIgnoreFiles();
+    expect(filter.accepts('server.log')).toBe(true);
+  });
+
+  it('parses pattern settings', () => {
+    expect(parsePatterns('node_modules/\n# comment\n\n dist , *.log')).toEqual(['node_modules/', 'dist', '*.log']);
+    expect(parsePatterns(undefined)).toEqual([]);
+  });
+});
@@ -1,6 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import * as zlib from 'zlib';
 import { randomUUID } from 'crypto';
+import JSZip from 'jszip';
 
 export interface TestProfile {
   id: string;
@@ -135,3 +137,231 @@ export async function findAvailablePort(startPort: number = 3333): Promise<numbe
   }
   throw new Error(`Could not find available port starting from ${startPort}`);
 }
+
+export interface SseMessage {
+  id?: string;
+  event?: string;
+  data: string;
+}
+
+/**
+ * Opens a Server-Sent Events stream and returns a reader for its events
+ */
+export async function openSseStream(url: string, headers: Record<string, string> = {}): Promise<{ status: number; next: (timeout?: number) => Promise<SseMessage>; close: () => void }> {
+  const controller = new AbortController();
+  const response = await fetch(url, {
+    headers: { Accept: 'text/event-stream', ...headers },
+    signal: controller.signal,
+  });
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const next = async (timeout: number = 5000): Promise<SseMessage> => {
+    const deadline = Date.now() + timeout;
+    while (true) {
+      const boundary = buffer.indexOf('\n\n');
+      if (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        const message: SseMessage = { data: '' };
+        for (const line of block.split('\n')) {
+          if (line.startsWith(':')) continue;
+          const [field, ...rest] = line.split(':');
+          const value = rest.join(':').replace(/^ /, '');
+          if (field === 'id') message.id = value;
+          if (field === 'event') message.event = value;
+          if (field === 'data') message.data += value;
+        }
+        if (message.data || message.event) {
+          return message;
+        }
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timeout waiting for SSE event after ${timeout}ms`);
+      }
+      const { value, done } = await reader.read();
+      if (done) {
+        throw new Error('SSE stream closed');
+      }
+      buffer += decoder.decode(value, { stream: true });
+    }
+  };
+
+  return {
+    status: response.status,
+    next,
+    close: () => controller.abort(),
+  };
+}
+
+export interface TestPdfPage {
+  text?: string;
+  image?: { width: number; height: number; gray: Buffer };  // 8-bit grayscale pixels, as a scanner would produce
+}
+
+/**
+ * Builds a minimal PDF with a text layer and/or a full-page image per page
+ */
+export function buildTestPdf(pages: TestPdfPage[]): Buffer {
+  const objects: Buffer[] = [];
+  const add = (body: string | Buffer) => {
+    objects.push(typeof body === 'string' ? Buffer.from(body) : body);
+    return objects.length;
+  };
+  const stream = (dict: string, data: Buffer) =>
+    Buffer.concat([Buffer.from(`<< ${dict} /Length ${data.length} >>\nstream\n`), data, Buffer.from('\nendstream')]);
+
+  add('<< /Type /Catalog /Pages 2 0 R >>');
+  add('');  // Page tree, filled in once the page ids are known
+  const font = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>');
+  const pageIds = pages.map(page => {
+    const ops: string[] = [];
+    let resources = `/Font << /F1 ${font} 0 R >>`;
+    if (page.text) {
+      ops.push(`BT /F1 12 Tf 72 720 Td (${page.text.replace(/[()\\]/g, '\\$&')}) Tj ET`);
+    }
+    if (page.image) {
+      const { width, height, gray } = page.image;
+      const image = add(stream(`/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode`, zlib.deflateSync(gray)));
+      resources += ` /XObject << /Im1 ${image} 0 R >>`;
+      ops.push(`q ${width} 0 0 ${height} 72 300 cm /Im1 Do Q`);
+    }
+    const contents = add(stream('', Buffer.from(ops.join('\n'))));
+    return add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << ${resources} >> /Contents ${contents} 0 R >>`);
+  });
+  objects[1] = Buffer.from(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+
+  const parts: Buffer[] = [Buffer.from('%PDF-1.4\n')];
+  const offsets: number[] = [];
+  let length = parts[0].length;
+  objects.forEach((body, i) => {
+    const object = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`), body, Buffer.from('\nendobj\n')]);
+    offsets.push(length);
+    parts.push(object);
+    length += object.length;
+  });
+  const xref = `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  parts.push(Buffer.from(`${xref}trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${length}\n%%EOF\n`));
+  return Buffer.concat(parts);
+}
+
+const OOXML_CONTENT_TYPES = '<?xml version="1.0" encoding="UTF-8"?>' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/></Types>';
+
+/**
+ * Builds a minimal DOCX, one paragraph per entry. A "\f" in a paragraph is a page break at that point,
+ * written the way Word records pagination (rendered) or as a manual break
+ */
+export async function buildTestDocx(paragraphs: string[], pageBreaks: 'rendered' | 'manual' = 'rendered'): Promise<Buffer> {
+  const pageBreak = pageBreaks === 'rendered' ? '<w:lastRenderedPageBreak/>' : '<w:br w:type="page"/>';
+  const body = paragraphs.map(paragraph => {
+    const runs = paragraph.split('\f').map(text => `<w:t xml:space="preserve">${text}</w:t>`).join(pageBreak);
+    return `<w:p><w:r>${runs}</w:r></w:p>`;
+  }).join('');
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', OOXML_CONTENT_TYPES);
+  zip.file('_rels/.rels', '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+    '</Relationships>');
+  zip.file('word/document.xml', '<?xml version="1.0" encoding="UTF-8"?>' +
+    `<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`);
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+/**
+ * Builds a minimal PPTX with one text box per slide
+ */
+export async function buildTestPptx(slides: string[]): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', OOXML_CONTENT_TYPES);
+  slides.forEach((text, i) => {
+    zip.file(`ppt/slides/slide${i + 1}.xml`, '<?xml version="1.0" encoding="UTF-8"?>' +
+      '<p:sld xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main">' +
+      `<p:cSld><p:spTree><p:sp><p:txBody><a:p><a:r><a:t>${text}</a:t></a:r></a:p></p:txBody></p:sp></p:spTree></p:cSld></p:sld>`);
+  });
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+export interface TestEpubChapter {
+  href: string;   // Relative to OEBPS/
+  body: string;   // XHTML inside <body>
+}
+
+/**
+ * Builds a minimal EPUB with the chapters in spine order and either an EPUB 3 nav document (the markup
+ * inside <nav epub:type="toc">) or an EPUB 2 toc.ncx (the navPoints inside <navMap>)
+ */
+export async function buildTestEpub(title: string, chapters: TestEpubChapter[], toc: { nav: string } | { ncx: string }): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/epub+zip');
+  zip.file('META-INF/container.xml', '<?xml version="1.0"?>' +
+    '<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">' +
+    '<rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>');
+
+  const items = chapters.map((chapter, i) =>
+    `<item id="c${i}" href="${chapter.href}" media-type="application/xhtml+xml"/>`);
+  const itemrefs = chapters.map((_, i) => `<itemref idref="c${i}"/>`);
+  if ('nav' in toc) {
+    items.push('<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>');
+    itemrefs.unshift('<itemref idref="nav"/>');
+    zip.file('OEBPS/nav.xhtml', '<?xml version="1.0" encoding="UTF-8"?>' +
+      '<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops"><head><title>Contents</title></head>' +
+      `<body><nav epub:type="toc"><h1>Contents</h1>${toc.nav}</nav></body></html>`);
+  } else {
+    items.push('<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>');
+    zip.file('OEBPS/toc.ncx', '<?xml version="1.0" encoding="UTF-8"?>' +
+      `<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1"><navMap>${toc.ncx}</navMap></ncx>`);
+  }
+  zip.file('OEBPS/content.opf', '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<package xmlns="http://www.idpf.org/2007/opf" version="3.0"><metadata xmlns:dc="http://purl.org/dc/elements/1.1/">' +
+    `<dc:title>${title}</dc:title></metadata><manifest>${items.join('')}</manifest>` +
+    `<spine${'ncx' in toc ? ' toc="ncx"' : ''}>${itemrefs.join('')}</spine></package>`);
+  chapters.forEach(chapter => {
+    zip.file(`OEBPS/${chapter.href}`, '<?xml version="1.0" encoding="UTF-8"?>' +
+      `<html xmlns="http://www.w3.org/1999/xhtml"><head><title>${chapter.href}</title></head><body>${chapter.body}</body></html>`);
+  });
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+/**
+ * Builds a zip archive from entry names and contents
+ */
+export async function buildTestZip(files: Record<string, string | Buffer>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) {
+    zip.file(name, content, { createFolders: false });
+  }
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+/**
+ * Builds a gzipped ustar archive from entry names (up to 100 characters) and contents
+ */
+export function buildTestTarGz(files: Record<string, string | Buffer>): Buffer {
+  const blocks: Buffer[] = [];
+  for (const [name, content] of Object.entries(files)) {
+    const data = Buffer.from(content);
+    const header = Buffer.alloc(512);
+    header.write(name, 0, 100, 'utf-8');
+    header.write('0000644\0', 100);
+    header.write('0000000\0', 108);
+    header.write('0000000\0', 116);
+    header.write(data.length.toString(8).padStart(11, '0') + '\0', 124);
+    header.write('00000000000\0', 136);
+    header.write('0', 156);
+    header.write('ustar\0' + '00', 257, 'latin1');
+    header.fill(' ', 148, 156);
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    header.write(checksum.toString(8).padStart(6, '0') + '\0 ', 148);
+    blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return zlib.gzipSync(Buffer.concat(blocks));
+}
@@ -0,0 +1,42 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { httpRequest } from '../src/http-request';
+
+describe('httpRequest', () => {
+  let server: http.Server;
+  let origin: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const body = Buffer.alloc(1000, 'a');
+      if (req.url === '/chunked') {
+        // No Content-Length: the limit applies while the body is read
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        for (let i = 0; i < body.length; i += 100) {
+          res.write(body.subarray(i, i + 100));
+        }
+        res.end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/plain', 'Content-Length': body.length });
+      res.end(body);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  it('reads responses up to the size limit', async () => {
+    expect((await httpRequest(`${origin}/sized`, { maxBytes: 1000 })).body).toHaveLength(1000);
+    expect((await httpRequest(`${origin}/chunked`, { maxBytes: 1000 })).body).toHaveLength(1000);
+    expect((await httpRequest(`${origin}/chunked`)).body).toHaveLength(1000);
+  });
+
+  it('fails once a response is larger than the size limit', async () => {
+    await expect(httpRequest(`${origin}/sized`, { maxBytes: 999 })).rejects.toThrow(`Response from ${origin}/sized is larger than 999 bytes`);
+    await expect(httpRequest(`${origin}/chunked`, { maxBytes: 250 })).rejects.toThrow('larger than 250 bytes');
+  });
+});
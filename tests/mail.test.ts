@@ -0,0 +1,92 @@
+import { decodeHeaderWords, getMessageDocumentPath, parseMessage, parseMessageDocumentPath, splitMailbox } from '../src/mail';
+
+describe('mail reading', () => {
+  it('decodes encoded words in headers', () => {
+    expect(decodeHeaderWords('=?utf-8?Q?Caf=C3=A9_menu?= =?utf-8?B?IPCfjbU=?= today')).toBe('Café menu 🍵 today');
+    expect(decodeHeaderWords('=?iso-8859-1?q?r=E9sum=E9?=')).toBe('résumé');
+    expect(decodeHeaderWords('plain subject')).toBe('plain subject');
+  });
+
+  it('parses multipart messages with bodies, attachments and forwarded messages', () => {
+    const raw = [
+      'From: Ann <ann@example.com>',
+      'To: Bob <bob@example.com>',
+      'Subject: =?utf-8?Q?Q3_r=C3=A9sum=C3=A9?=',
+      'Date: Tue, 1 Oct 2024 09:30:00 +0000',
+      'Message-ID: <abc.123@example.com>',
+      'Content-Type: multipart/mixed; boundary="outer"',
+      '',
+      'preamble',
+      '--outer',
+      'Content-Type: multipart/alternative; boundary=inner',
+      '',
+      '--inner',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Caf=C3=A9 numbers are a=',
+      'ttached.',
+      '--inner',
+      'Content-Type: text/html',
+      '',
+      '<p>Café numbers are attached.</p>',
+      '--inner--',
+      '--outer',
+      'Content-Type: text/csv; name="sales.csv"',
+      'Content-Disposition: attachment; filename*=utf-8\'\'ventes%20%C3%A9t%C3%A9.csv',
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from('region,total\nNorth,12\n').toString('base64'),
+      '--outer',
+      'Content-Type: message/rfc822',
+      '',
+      'Subject: Original',
+      '',
+      'Forwarded body',
+      '--outer--',
+      ''
+    ].join('\r\n');
+
+    const message = parseMessage(Buffer.from(raw));
+
+    expect(message.subject).toBe('Q3 résumé');
+    expect(message.from).toBe('Ann <ann@example.com>');
+    expect(message.messageId).toBe('abc.123@example.com');
+    expect(message.text.trim()).toBe('Café numbers are attached.');
+    expect(message.html).toContain('<p>Café');
+    expect(message.attachments.map(attachment => attachment.fileName)).toEqual(['ventes été.csv', 'Original.eml']);
+    expect(message.attachments[0].content.toString()).toBe('region,total\nNorth,12\n');
+    expect(parseMessage(message.attachments[1].content).text.trim()).toBe('Forwarded body');
+  });
+
+  it('splits mailboxes into messages keyed by Message-ID', () => {
+    const mbox = [
+      'From ann@example.com Tue Oct  1 09:30:00 2024',
+      'Message-ID: <first.1@example.com>',
+      'Subject: First',
+      '',
+      '>From the top',
+      '',
+      'From bob@example.com Tue Oct  1 10:00:00 2024',
+      'Subject: No id',
+      '',
+      'Second',
+      'From bob@example.com Tue Oct  1 11:00:00 2024',
+      'Message-ID: <first.1@example.com>',
+      'Subject: Duplicate',
+      '',
+      'Third',
+      ''
+    ].join('\n');
+
+    const entries = splitMailbox(Buffer.from(mbox));
+
+    expect(entries.map(entry => entry.key)).toEqual(['first%2E1%40example%2Ecom', 'message-2', 'first%2E1%40example%2Ecom-2']);
+    expect(parseMessage(entries[0].raw).text.trim()).toBe('From the top');
+    expect(parseMessage(entries[2].raw).subject).toBe('Duplicate');
+
+    const documentPath = getMessageDocumentPath('/mail/archive.mbox', entries[0].key);
+    expect(parseMessageDocumentPath(documentPath)).toEqual({ mailboxPath: '/mail/archive.mbox', key: entries[0].key });
+    expect(parseMessageDocumentPath('/docs/notes.md')).toBeNull();
+  });
+});
@@ -1,9 +1,11 @@
 import * as fs from 'fs';
+import * as http from 'http';
 import * as path from 'path';
 import { DatabaseManager } from '../src/database';
 import { ContentProcessor } from '../src/processor';
 import { McpServer } from '../src/mcp-server';
-import { createTempDir, createTestDbPath, findAvailablePort, mcpJsonRpc, mcpQuery } from './helpers';
+import { createAccessToken, parseAllowedOrigins } from '../src/mcp-auth';
+import { createTempDir, createTestDbPath, findAvailablePort, mcpJsonRpc, mcpQuery, openSseStream } from './helpers';
 
 let currentEmbedding: number[] = [1, 0, 0];
 
@@ -25,6 +27,9 @@ jest.mock('../src/embeddings', () => {
       getProvider() {
         return this.provider;
       }
+      getCostPerMillionTokens() {
+        return 0;
+      }
       async terminate() {}
     }
   };
@@ -58,6 +63,8 @@ describe('McpServer', () => {
     chunkBId = chunkB.chunkId;
     database.insertChunk(chunkA, [1, 0, 0]);
     database.insertChunk(chunkB, [0, 1, 0]);
+    database.upsertFileInfo(fileA, chunkA.hash, new Date(), 1);
+    database.upsertFileInfo(fileB, chunkB.hash, new Date(), 1);
     database.upsertChunkCoords([
       { chunkId: chunkAId, x: 0.1, y: 0.2 },
       { chunkId: chunkBId, x: -0.3, y: 0.4 }
@@ -95,6 +102,95 @@ describe('McpServer', () => {
     expect(response.status).toBe(400);
   });
 
+  it('applies metadata filters to both search legs', async () => {
+    const search = async (filters: Record<string, unknown>) => {
+      const response = await fetch(`http://localhost:${port}/query`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query: 'alpha beta', limit: 5, ...filters })
+      });
+      return { status: response.status, payload: await response.json() };
+    };
+    const urls = (payload: any) => payload.results.map((result: any) => result.url);
+
+    // The vector leg prefers beta, so alpha results must come from the filter
+    currentEmbedding = [0, 1, 0];
+    expect(urls((await search({ glob: 'alpha.*' })).payload)).toEqual([`file://${fileA}`]);
+    expect(urls((await search({ path_prefix: fileA })).payload)).toEqual([`file://${fileA}`]);
+    expect(urls((await search({ section: 'ALPHA' })).payload)).toEqual([`file://${fileA}`]);
+    expect(urls((await search({ extensions: ['txt'] })).payload).sort()).toEqual([`file://${fileA}`, `file://${fileB}`].sort());
+    expect((await search({ extensions: ['.md'] })).payload.count).toBe(0);
+    expect((await search({ modified_after: '2000-01-01', modified_before: new Date(Date.now() + 60000).toISOString() })).payload.count).toBe(2);
+    expect((await search({ modified_before: '2000-01-01' })).payload.count).toBe(0);
+
+    const invalid = await search({ modified_after: 'last tuesday' });
+    expect(invalid.status).toBe(400);
+    const unbalanced = await search({ glob: 'specs/{a' });
+    expect(unbalanced.status).toBe(400);
+    expect(unbalanced.payload.error).toContain('glob is not a valid pattern');
+
+    const toolResponse = await mcpJsonRpc(port, 'tools/call', {
+      name: 'query_documents',
+      arguments: { query: 'alpha beta', glob: '**/beta.txt' }
+    });
+    expect(toolResponse.result.content[0].text).toContain(`file://${fileB}`);
+    expect(toolResponse.result.content[0].text).not.toContain(`file://${fileA}`);
+  });
+
+  it('falls back to keyword search while chunks are being re-embedded', async () => {
+    database.beginReembedding('openai:text-embedding-3-small@3', 3);
+    try {
+      // The vector leg would prefer alpha, but the stored vectors belong to the previous model
+      currentEmbedding = [1, 0, 0];
+      const results = await mcpQuery(port, 'beta', 5);
+      expect(results.results.map((result: any) => result.url)).toEqual([`file://${fileB}`]);
+      expect(results.results[0].match_type).toBe('keyword');
+    } finally {
+      database.cancelReembedding();
+    }
+
+    const restored = await mcpQuery(port, 'beta', 5);
+    expect(restored.results.some((result: any) => result.match_type !== 'keyword')).toBe(true);
+  });
+
+  it('reranks fused results when requested', async () => {
+    // No keyword match, and the vector leg ranks alpha first
+    currentEmbedding = [1, 0, 0];
+    const search = async (body: Record<string, unknown>) => {
+      const response = await fetch(`http://localhost:${port}/query`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query: 'zzz beta', limit: 2, ...body })
+      });
+      return response.json();
+    };
+
+    const fused = await search({});
+    expect(fused.results[0].url).toBe(`file://${fileA}`);
+    expect(fused.results[0].rerank_score).toBeUndefined();
+
+    const reranked = await search({ rerank: true });
+    expect(reranked.results[0].url).toBe(`file://${fileB}`);
+    expect(reranked.results[0].rerank_score).toBeGreaterThan(reranked.results[1].rerank_score);
+
+    // Profile default applies when the query does not say otherwise
+    server.setRerankOptions({ enabled: true });
+    const toolResponse = await mcpJsonRpc(port, 'tools/call', {
+      name: 'query_documents',
+      arguments: { query: 'zzz beta', limit: 1 }
+    });
+    expect(toolResponse.result.content[0].text).toContain(`file://${fileB}`);
+    expect(toolResponse.result.content[0].text).toContain('rerank:');
+    expect((await search({ rerank: false })).results[0].url).toBe(`file://${fileA}`);
+
+    // A reranker that cannot run falls back to the fused order
+    server.setRerankOptions({ provider: 'openai' });
+    const fallback = await search({});
+    expect(fallback.results[0].url).toBe(`file://${fileA}`);
+
+    server.setRerankOptions({ enabled: false, provider: 'local' });
+  });
+
   it('returns visualization payload when requested', async () => {
     currentEmbedding = [1, 0, 0];
     const response = await fetch(`http://localhost:${port}/query`, {
@@ -146,6 +242,253 @@ describe('McpServer', () => {
     expect(response.error?.code).toBe(-32601);
   });
 
+  it('advertises resources and prompts capabilities', async () => {
+    const response = await mcpJsonRpc(port, 'initialize', {});
+    expect(response.result.capabilities).toEqual({
+      tools: { listChanged: true },
+      resources: { subscribe: true, listChanged: true },
+      prompts: {}
+    });
+  });
+
+  it('lists tracked files as resources and reads them back', async () => {
+    const list = await mcpJsonRpc(port, 'resources/list', {});
+    const uris = list.result.resources.map((resource: any) => resource.uri);
+    expect(uris).toContain(`docs4ai://file/${encodeURIComponent(fileA)}`);
+    expect(uris).toContain(`docs4ai://file/${encodeURIComponent(fileB)}`);
+
+    const read = await mcpJsonRpc(port, 'resources/read', { uri: `docs4ai://file/${encodeURIComponent(fileA)}` });
+    expect(read.result.contents[0].text).toContain('alpha');
+    expect(read.result.contents[0].text).not.toContain('beta');
+  });
+
+  it('reads chunks by chunk_id and reports unknown resources', async () => {
+    const templates = await mcpJsonRpc(port, 'resources/templates/list', {});
+    expect(templates.result.resourceTemplates.map((template: any) => template.uriTemplate))
+      .toContain('docs4ai://chunk/{chunk_id}');
+
+    const read = await mcpJsonRpc(port, 'resources/read', { uri: `docs4ai://chunk/${chunkBId}` });
+    expect(read.result.contents[0].text).toContain('beta');
+
+    const missing = await mcpJsonRpc(port, 'resources/read', { uri: 'docs4ai://chunk/does-not-exist' });
+    expect(missing.error?.code).toBe(-32002);
+
+    const malformed = await mcpJsonRpc(port, 'resources/read', { uri: 'docs4ai://file/%E0' });
+    expect(malformed.error?.code).toBe(-32002);
+  });
+
+  it('lists prompts and renders them with arguments', async () => {
+    const list = await mcpJsonRpc(port, 'prompts/list', {});
+    expect(list.result.prompts.map((prompt: any) => prompt.name)).toContain('answer_with_citations');
+
+    const prompt = await mcpJsonRpc(port, 'prompts/get', {
+      name: 'answer_with_citations',
+      arguments: { question: 'What is alpha?' }
+    });
+    expect(prompt.result.messages[0].content.text).toContain('What is alpha?');
+
+    const summary = await mcpJsonRpc(port, 'prompts/get', {
+      name: 'summarize_document',
+      arguments: { file_path: fileA }
+    });
+    expect(summary.result.messages[0].content.resource.text).toContain('alpha');
+
+    const invalid = await mcpJsonRpc(port, 'prompts/get', { name: 'answer_with_citations', arguments: {} });
+    expect(invalid.error?.code).toBe(-32602);
+  });
+
+  it('streams notifications over SSE and replays them after reconnect', async () => {
+    const init = await fetch(`http://localhost:${port}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26' } })
+    });
+    const sessionId = init.headers.get('mcp-session-id')!;
+    expect(sessionId).toBeTruthy();
+    expect((await init.json()).result.protocolVersion).toBe('2025-03-26');
+
+    const post = (body: object) => fetch(`http://localhost:${port}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'mcp-session-id': sessionId },
+      body: JSON.stringify(body)
+    });
+
+    const ack = await post({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    expect(ack.status).toBe(202);
+    await post({ jsonrpc: '2.0', id: 2, method: 'resources/read', params: { uri: `docs4ai://file/${encodeURIComponent(fileA)}` } });
+
+    const stream = await openSseStream(`http://localhost:${port}/mcp`, { 'mcp-session-id': sessionId });
+    expect(stream.status).toBe(200);
+
+    server.notifyResourceUpdated(fileA);
+    server.notifyResourceUpdated(fileB);
+    server.notifyToolsListChanged();
+
+    const updated = await stream.next();
+    expect(JSON.parse(updated.data)).toEqual({
+      jsonrpc: '2.0',
+      method: 'notifications/resources/updated',
+      params: { uri: `docs4ai://file/${encodeURIComponent(fileA)}` }
+    });
+    const toolsChanged = await stream.next();
+    expect(JSON.parse(toolsChanged.data).method).toBe('notifications/tools/list_changed');
+    stream.close();
+
+    const resumed = await openSseStream(`http://localhost:${port}/mcp`, {
+      'mcp-session-id': sessionId,
+      'last-event-id': updated.id!
+    });
+    const replayed = await resumed.next();
+    expect(replayed.id).toBe(toolsChanged.id);
+    resumed.close();
+
+    const closed = await fetch(`http://localhost:${port}/mcp`, { method: 'DELETE', headers: { 'mcp-session-id': sessionId } });
+    expect(closed.status).toBe(204);
+    const expired = await fetch(`http://localhost:${port}/mcp`, {
+      headers: { Accept: 'text/event-stream', 'mcp-session-id': sessionId }
+    });
+    expect(expired.status).toBe(404);
+  });
+
+  it('supports the legacy HTTP+SSE transport', async () => {
+    const stream = await openSseStream(`http://localhost:${port}/sse`);
+    const endpoint = await stream.next();
+    expect(endpoint.event).toBe('endpoint');
+    expect(endpoint.data).toMatch(/^\/messages\?sessionId=/);
+
+    const accepted = await fetch(`http://localhost:${port}${endpoint.data}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 7, method: 'tools/list' })
+    });
+    expect(accepted.status).toBe(202);
+
+    const message = await stream.next();
+    const payload = JSON.parse(message.data);
+    expect(payload.id).toBe(7);
+    expect(payload.result.tools.map((tool: any) => tool.name)).toContain('query_documents');
+    stream.close();
+  });
+
+  it('rejects browser origins outside the allow-list', async () => {
+    const body = JSON.stringify({ query: 'alpha', limit: 1 });
+    const blocked = await fetch(`http://localhost:${port}/query`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Origin: 'https://evil.example' },
+      body
+    });
+    expect(blocked.status).toBe(403);
+
+    server.setAccessPolicy({ requireToken: false, tokenHashes: [], allowedOrigins: parseAllowedOrigins('https://evil.example/app, not a url') });
+    const allowed = await fetch(`http://localhost:${port}/query`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Origin: 'https://evil.example' },
+      body
+    });
+    expect(allowed.status).toBe(200);
+    expect(allowed.headers.get('access-control-allow-origin')).toBe('https://evil.example');
+
+    const preflight = await fetch(`http://localhost:${port}/mcp`, { method: 'OPTIONS', headers: { Origin: 'file://' } });
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('access-control-allow-origin')).toBe('file://');
+
+    server.setAccessPolicy({ requireToken: false, tokenHashes: [], allowedOrigins: [] });
+  });
+
+  it('rejects requests for other host names', async () => {
+    const statusFor = (host: string) => new Promise<number>((resolve, reject) => {
+      http.get({ host: '127.0.0.1', port, path: '/health', headers: { Host: host } }, response => {
+        response.resume();
+        resolve(response.statusCode!);
+      }).on('error', reject);
+    });
+
+    // A rebound DNS name reaches 127.0.0.1 with the attacker's host name
+    expect(await statusFor(`rebind.example:${port}`)).toBe(403);
+    expect(await statusFor(`localhost:${port}`)).toBe(200);
+    expect(await statusFor(`127.0.0.1:${port}`)).toBe(200);
+    expect(await statusFor(`[::1]:${port}`)).toBe(200);
+    // Other addresses are only expected when listening on every interface
+    expect(await statusFor(`192.168.1.20:${port}`)).toBe(403);
+
+    server.setBindAddress('0.0.0.0');
+    try {
+      expect(await statusFor(`192.168.1.20:${port}`)).toBe(200);
+      expect(await statusFor(`rebind.example:${port}`)).toBe(403);
+    } finally {
+      server.setBindAddress(undefined);
+    }
+  });
+
+  it('requires a valid bearer token when tokens are enabled', async () => {
+    const { token, record } = createAccessToken('Test client');
+    expect(record.hint).toBe(token.slice(-4));
+    expect(record.tokenHash).not.toContain(token);
+
+    server.setAccessPolicy({ requireToken: true, tokenHashes: [record.tokenHash], allowedOrigins: [] });
+    const call = (authorization?: string) => fetch(`http://localhost:${port}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(authorization ? { Authorization: authorization } : {}) },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' })
+    });
+
+    const missing = await call();
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toMatch(/^Bearer/);
+    expect((await call('Bearer wrong')).status).toBe(401);
+    expect((await call(`Bearer ${token}`)).status).toBe(200);
+    expect((await call(`Bearer ${server.getInternalToken()}`)).status).toBe(200);
+    expect((await fetch(`http://localhost:${port}/health`)).status).toBe(200);
+
+    // Revoking the token takes effect without a restart
+    server.setAccessPolicy({ requireToken: true, tokenHashes: [], allowedOrigins: [] });
+    expect((await call(`Bearer ${token}`)).status).toBe(401);
+
+    server.setAccessPolicy({ requireToken: false, tokenHashes: [], allowedOrigins: [] });
+  });
+
+  it('binds to localhost by default', () => {
+    expect(server.getBindAddress()).toBe('127.0.0.1');
+  });
+
+  it('accepts plain and virtual archive paths in get_chunks', async () => {
+    const documentPath = '/drops/bundle.zip!/guide/intro.md';
+    const [chunk] = processor.chunkContent('# Intro\n\nUnpack the bundle first', documentPath);
+    database.insertChunk(chunk, [0.5, 0.5, 0]);
+
+    const chunks = await mcpJsonRpc(port, 'tools/call', {
+      name: 'get_chunks',
+      arguments: { file_path: documentPath }
+    });
+    expect(chunks.result.content[0].text).toContain(`Retrieved 1 chunk(s) from "${documentPath}"`);
+    expect(chunks.result.content[0].text).toContain('Unpack the bundle first');
+  });
+
+  it('cites pages and slides in query_documents and get_chunks', async () => {
+    const [chunk] = processor.chunkContent('# contract\n\n<!-- page 12 -->\nPayment is due within 30 days', '/docs/contract.pdf');
+    database.insertChunk(chunk, [0, 0, 1]);
+    const [slide] = processor.chunkContent('# deck\n\n<!-- slide 4 -->\nPayment terms overview', '/docs/deck.pptx');
+    database.insertChunk(slide, [0, 0.9, 0.1]);
+
+    const chunks = await mcpJsonRpc(port, 'tools/call', {
+      name: 'get_chunks',
+      arguments: { file_path: chunk.url }
+    });
+    expect(chunks.result.content[0].text).toContain('Section: contract\nPage: 12\n');
+
+    currentEmbedding = [0, 0, 1];
+    const results = await mcpJsonRpc(port, 'tools/call', {
+      name: 'query_documents',
+      arguments: { query: 'payment', limit: 2 }
+    });
+    const text: string = results.result.content[0].text;
+    expect(text).toContain('File: file:///docs/contract.pdf\nSection: contract\nPage: 12\n');
+    expect(text).toContain('File: file:///docs/deck.pptx\nSection: deck\nSlide: 4\n');
+
+    database.removeChunksForFile('/docs/contract.pdf');
+    database.removeChunksForFile('/docs/deck.pptx');
+  });
+
   it('returns tool errors when database is missing', async () => {
     server.setDatabase(null);
     const response = await mcpJsonRpc(port, 'tools/call', {
@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { DatabaseManager } from '../src/database';
+import { ContentProcessor } from '../src/processor';
+import { McpServer } from '../src/mcp-server';
+import { parseMcpStdioArgs, serveStdio } from '../src/mcp-stdio';
+import { createTempDir, createTestDbPath } from './helpers';
+
+jest.mock('../src/embeddings', () => {
+  const actual = jest.requireActual('../src/embeddings');
+  return {
+    ...actual,
+    EmbeddingService: class MockEmbeddingService {
+      private provider: string;
+      constructor(provider: string = 'local') {
+        this.provider = provider;
+      }
+      async validateApiKey() {
+        return true;
+      }
+      async generateEmbedding() {
+        return { embedding: [1, 0, 0], tokens: 5 };
+      }
+      getProvider() {
+        return this.provider;
+      }
+      getCostPerMillionTokens() {
+        return 0;
+      }
+      async terminate() {}
+    }
+  };
+});
+
+describe('MCP stdio transport', () => {
+  let dbPath: string;
+  let server: McpServer;
+
+  beforeAll(() => {
+    const root = createTempDir('mcp-stdio');
+    const file = path.join(root, 'alpha.txt');
+    fs.writeFileSync(file, `# Alpha\n\n${new Array(50).fill('alpha').join(' ')}`);
+
+    dbPath = createTestDbPath('mcp-stdio');
+    const processor = new ContentProcessor();
+    const database = new DatabaseManager(dbPath, 3);
+    const chunk = processor.chunkContent(fs.readFileSync(file, 'utf-8'), file)[0];
+    database.insertChunk(chunk, [1, 0, 0]);
+    database.upsertFileInfo(file, 'hash-alpha', new Date(), 1);
+    database.close();
+
+    server = new McpServer(0);
+    server.setDatabase(dbPath);
+    server.setEmbeddingProvider('local');
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it('parses --mcp-stdio arguments', () => {
+    expect(parseMcpStdioArgs(['electron', 'dist/main.js'])).toBeNull();
+    expect(parseMcpStdioArgs(['electron', 'dist/main.js', '--mcp-stdio'])).toEqual({});
+    expect(parseMcpStdioArgs(['Docs4ai', '--mcp-stdio', '--profile', 'Work', '--db=/tmp/docs.db'])).toEqual({
+      profile: 'Work',
+      databasePath: '/tmp/docs.db'
+    });
+  });
+
+  it('answers newline-delimited JSON-RPC and ends with stdin', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    let received = '';
+    output.on('data', (data) => {
+      received += data.toString();
+    });
+
+    const done = serveStdio(server, input, output);
+
+    input.write(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26' } }) + '\n');
+    input.write(JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }) + '\n');
+    input.write('not json\n');
+    input.write(JSON.stringify({
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'tools/call',
+      params: { name: 'query_documents', arguments: { query: 'alpha', limit: 1 } }
+    }) + '\n');
+    input.end();
+    await done;
+
+    const messages = received.trim().split('\n').map(line => JSON.parse(line));
+    // The notification gets no response
+    expect(messages).toHaveLength(3);
+
+    const byId = new Map(messages.map(message => [message.id, message]));
+    expect(byId.get(1).result.serverInfo).toBeDefined();
+    expect(byId.get(null).error.code).toBe(-32700);
+    expect(byId.get(2).result.content[0].text).toContain('alpha');
+  });
+});
@@ -0,0 +1,69 @@
+import { formatNotebook, parseNotebook, parseNotebookCells } from '../src/notebook';
+
+describe('notebook reading', () => {
+  it('keeps textual outputs and drops binary ones', () => {
+    const notebook = parseNotebook(JSON.stringify({
+      nbformat: 4,
+      metadata: { kernelspec: { language: 'python' } },
+      cells: [
+        { cell_type: 'markdown', source: ['# Analysis\n', 'Plot below ![chart](data:image/png;base64,iVBORw0KGgo=)'] },
+        {
+          cell_type: 'code',
+          source: 'print("hi")\ndf.head()',
+          outputs: [
+            { output_type: 'stream', name: 'stdout', text: ['\u001b[32mhi\u001b[0m\n'] },
+            { output_type: 'execute_result', data: { 'text/html': '<table></table>', 'text/plain': ['   a\n', '0  1'] } },
+            { output_type: 'display_data', data: { 'image/png': 'iVBORw0KGgo=' } },
+            { output_type: 'error', ename: 'KeyError', evalue: "'b'", traceback: ['...'] }
+          ]
+        },
+        { cell_type: 'code', source: [], outputs: [] }
+      ]
+    }));
+
+    expect(notebook.language).toBe('python');
+    expect(notebook.cells).toEqual([
+      { type: 'markdown', source: '# Analysis\nPlot below ![chart](data:image/png;base64,iVBORw0KGgo=)', outputs: [] },
+      { type: 'code', source: 'print("hi")\ndf.head()', outputs: ['hi', '   a\n0  1', "KeyError: 'b'"] }
+    ]);
+
+    const content = formatNotebook(notebook);
+    expect(content).toBe([
+      '<!-- markdown cell -->\n# Analysis\nPlot below',
+      '<!-- code cell -->\n```python\nprint("hi")\ndf.head()\n```',
+      '```output\nhi\n```',
+      '```output\n   a\n0  1\n```',
+      "```output\nKeyError: 'b'\n```"
+    ].join('\n\n'));
+    expect(parseNotebookCells(content).map(cell => cell.type)).toEqual(['markdown', 'code']);
+  });
+
+  it('fences code containing backticks and cuts long outputs', () => {
+    const longOutput = Array.from({ length: 60 }, (_, i) => `line ${i}`).join('\n');
+    const content = formatNotebook(parseNotebook(JSON.stringify({
+      metadata: { language_info: { name: 'R' } },
+      cells: [{ cell_type: 'code', source: 'cat("```")', outputs: [{ output_type: 'stream', text: longOutput }] }]
+    })));
+
+    expect(content).toContain('````r\ncat("```")\n````');
+    expect(content).toContain('line 49\n... (10 more lines)\n```');
+  });
+
+  it('reads nbformat 3 worksheets with heading cells', () => {
+    const notebook = parseNotebook(JSON.stringify({
+      nbformat: 3,
+      metadata: { language: 'python' },
+      worksheets: [{
+        cells: [
+          { cell_type: 'heading', level: 2, source: 'Setup' },
+          { cell_type: 'code', input: ['1 + 1'], outputs: [{ output_type: 'pyout', text: ['2'], png: 'iVBORw0KGgo=' }] }
+        ]
+      }]
+    }));
+
+    expect(notebook.cells).toEqual([
+      { type: 'markdown', source: '## Setup', outputs: [] },
+      { type: 'code', source: '1 + 1', outputs: ['2'] }
+    ]);
+  });
+});
@@ -0,0 +1,21 @@
+import { encodePnm, parseOcrLanguages } from '../src/ocr';
+
+describe('OCR helpers', () => {
+  it('parses language settings', () => {
+    expect(parseOcrLanguages(undefined)).toEqual(['eng']);
+    expect(parseOcrLanguages('eng+fra, chi_sim eng')).toEqual(['eng', 'fra', 'chi_sim']);
+    expect(parseOcrLanguages('../etc')).toEqual(['eng']);
+  });
+
+  it('encodes pdf.js images as PGM and PPM', () => {
+    // 1-bit rows are padded to a byte and a set bit is white
+    const bits = encodePnm({ width: 3, height: 2, kind: 1, data: Uint8Array.from([0b10100000, 0b01000000]) });
+    expect(bits.subarray(0, 11).toString()).toBe('P5\n3 2\n255\n');
+    expect(Array.from(bits.subarray(11))).toEqual([255, 0, 255, 0, 255, 0]);
+
+    // Alpha is dropped
+    const rgba = encodePnm({ width: 1, height: 2, kind: 3, data: Uint8Array.from([1, 2, 3, 255, 4, 5, 6, 128]) });
+    expect(rgba.subarray(0, 11).toString()).toBe('P6\n1 2\n255\n');
+    expect(Array.from(rgba.subarray(11))).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+});
@@ -1,5 +1,8 @@
+import * as fs from 'fs';
 import * as path from 'path';
+import type { OcrEngine } from '../src/ocr';
 import { ContentProcessor } from '../src/processor';
+import { buildTestDocx, buildTestEpub, buildTestPdf, buildTestPptx, buildTestZip, createTempDir } from './helpers';
 
 describe('ContentProcessor', () => {
   it('chunks long content and preserves hierarchy', () => {
@@ -19,6 +22,417 @@ describe('ContentProcessor', () => {
     });
   });
 
+  it('chunks source files along declarations with the symbol path as hierarchy', () => {
+    const processor = new ContentProcessor();
+    const body = (name: string, lines: number) =>
+      new Array(lines).fill(`        total += ${name}(value, offset)  # keep going`).join('\n');
+    const content = [
+      '# Helpers for the loader',
+      'import os',
+      '',
+      'class Loader:',
+      '    def read(self, value, offset):',
+      body('read', 40),
+      '',
+      '    def parse(self, value, offset):',
+      body('parse', 200),
+      ''
+    ].join('\n');
+    const filePath = path.join('/tmp', 'loader.py');
+
+    const chunks = processor.chunkContent(content, filePath);
+
+    expect(chunks[0].headingHierarchy).toEqual(['loader.py', 'Loader', 'read']);
+    expect(chunks[0].content).toContain('# Helpers for the loader');
+    expect(chunks[0].content).toContain('def read');
+    const parseChunks = chunks.filter(chunk => chunk.section === 'parse');
+    expect(parseChunks.length).toBeGreaterThan(1);
+    parseChunks.forEach(chunk => {
+      expect(chunk.headingHierarchy).toEqual(['loader.py', 'Loader', 'parse']);
+      // Oversized declarations are split on whole lines
+      chunk.content.split('\n').slice(1).forEach(line => {
+        expect(['def parse(self, value, offset):', 'total += parse(value, offset)  # keep going']).toContain(line.trim());
+      });
+    });
+    expect(chunks.every(chunk => chunk.totalChunks === chunks.length)).toBe(true);
+  });
+
+  it('sizes CJK text by tokens and splits it between sentences', () => {
+    const processor = new ContentProcessor();
+    // No spaces at all: a whitespace split would see a single token
+    const sentence = '東京は日本の首都であり、多くの人が住んでいます。';
+    const content = `# 概要\n\n${sentence.repeat(200)}`;
+
+    const chunks = processor.chunkContent(content, path.join('/tmp', 'doc.md'));
+
+    expect(chunks.length).toBeGreaterThan(3);
+    chunks.forEach(chunk => {
+      const body = chunk.content.replace(/^\[Topic: [^\]]*\]\n/, '');
+      expect(body.length).toBeLessThanOrEqual(1000);
+      expect(body.endsWith('。')).toBe(true);
+      expect(chunk.headingHierarchy).toEqual(['概要']);
+    });
+  });
+
+  it('applies the configured chunk size and overlap with the given token counter', () => {
+    const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+    const processor = new ContentProcessor({ chunkSize: 50, chunkOverlap: 10, minChunkSize: 5 }, countWords);
+    const sentences = Array.from({ length: 30 }, (_, i) => `Sentence ${i} has exactly six words.`);
+
+    const chunks = processor.chunkContent(`# Notes\n\n${sentences.join(' ')}`, path.join('/tmp', 'notes.md'));
+
+    expect(chunks.length).toBeGreaterThan(3);
+    chunks.forEach((chunk, index) => {
+      const body = chunk.content.replace(/^\[Topic: [^\]]*\]\n/, '');
+      expect(countWords(body)).toBeLessThanOrEqual(50);
+      expect(body.endsWith('words.')).toBe(true);
+      if (index > 0) {
+        // Each piece repeats the last sentence of the previous one
+        const previous = chunks[index - 1].content;
+        const firstSentence = body.slice(0, body.indexOf('words.') + 'words.'.length);
+        expect(previous.endsWith(firstSentence)).toBe(true);
+      }
+    });
+    expect(processor.getChunkingSignature()).toBe('50/10/5');
+  });
+
+  it('chunks spreadsheets by rows and repeats the header in every chunk', async () => {
+    const processor = new ContentProcessor({ chunkSize: 200 });
+    const dir = createTempDir('processor-csv');
+    const filePath = path.join(dir, 'people.csv');
+    const rows = Array.from({ length: 120 }, (_, i) => `person-${i},"City ${i}, Region",${20 + (i % 50)}`);
+    fs.writeFileSync(filePath, ['name,address,age', ...rows].join('\n'));
+
+    const content = await processor.readFile(filePath);
+    const chunks = processor.chunkContent(content!, filePath);
+
+    expect(chunks.length).toBeGreaterThan(3);
+    const seen: string[] = [];
+    chunks.forEach(chunk => {
+      const lines = chunk.content.split('\n');
+      expect(lines.slice(1, 3)).toEqual(['| name | address | age |', '| --- | --- | --- |']);
+      expect(chunk.section).toBe('people.csv');
+      seen.push(...lines.slice(3));
+    });
+    // Every row lands in exactly one chunk, whole
+    expect(seen).toEqual(rows.map((_, i) => `| person-${i} | City ${i}, Region | ${20 + (i % 50)} |`));
+  });
+
+  it('uses the sheet name as the section for workbooks', async () => {
+    const XLSX = require('xlsx');
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Product', 'Price'], ['Lamp', 30]]), 'Catalog');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Order', 'Product'], ['A-1', 'Lamp']]), 'Orders');
+    const filePath = path.join(createTempDir('processor-xlsx'), 'shop.xlsx');
+    XLSX.writeFile(workbook, filePath);
+
+    const processor = new ContentProcessor();
+    const chunks = processor.chunkContent((await processor.readFile(filePath))!, filePath);
+
+    expect(chunks.map(chunk => chunk.section)).toEqual(['Catalog', 'Orders']);
+    expect(chunks[1].headingHierarchy).toEqual(['shop.xlsx', 'Orders']);
+    expect(chunks[1].content).toContain('| A-1 | Lamp |');
+  });
+
+  it('OCRs PDF pages without a text layer and records page numbers on chunks', async () => {
+    const recognize = jest.fn(async () => 'Signed by both parties on March 3');
+    const processor = new ContentProcessor({ minChunkSize: 0 });
+    processor.setOcrEngine({ recognize, getLanguages: () => ['eng'] } as unknown as OcrEngine);
+    const filePath = path.join(createTempDir('processor-pdf'), 'contract.pdf');
+    fs.writeFileSync(filePath, buildTestPdf([
+      { text: 'Terms of the agreement' },
+      { image: { width: 200, height: 100, gray: Buffer.alloc(200 * 100, 255) } }
+    ]));
+
+    const content = (await processor.readFile(filePath))!;
+
+    expect(recognize).toHaveBeenCalledTimes(1);
+    const [image] = recognize.mock.calls[0] as unknown as [Buffer];
+    expect(image.subarray(0, 15).toString()).toBe('P6\n200 100\n255\n');
+    expect(content).toBe('# contract\n\n<!-- page 1 -->\nTerms of the agreement\n\n<!-- page 2 -->\nSigned by both parties on March 3');
+
+    const chunks = processor.chunkContent(content, filePath);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].content).not.toContain('<!--');
+    expect(chunks[0]).toMatchObject({ pageStart: 1, pageEnd: 2 });
+  });
+
+  it('records DOCX pages from Word page breaks', async () => {
+    const processor = new ContentProcessor({ minChunkSize: 0 });
+    const dir = createTempDir('processor-docx');
+    const rendered = path.join(dir, 'report.docx');
+    fs.writeFileSync(rendered, await buildTestDocx(['Summary', '\fFindings start here', 'A paragraph that runs\f onto the next page', 'Appendix']));
+    const manual = path.join(dir, 'memo.docx');
+    fs.writeFileSync(manual, await buildTestDocx(['Cover\f', 'Body'], 'manual'));
+
+    const content = (await processor.readFile(rendered))!;
+    expect(content).toBe(
+      '# report\n\n<!-- page 1 -->\nSummary\n\n<!-- page 2 -->\nFindings start here\n\n' +
+      'A paragraph that runs onto the next page\n<!-- page 3 -->\n\nAppendix'
+    );
+    expect(processor.chunkContent(content, rendered)[0]).toMatchObject({ pageStart: 1, pageEnd: 3 });
+    expect(await processor.readFile(manual)).toBe('# memo\n\n<!-- page 1 -->\nCover\n<!-- page 2 -->\n\nBody');
+  });
+
+  it('keeps PPTX slides in separate chunks with their slide number', async () => {
+    const processor = new ContentProcessor();
+    const filePath = path.join(createTempDir('processor-pptx'), 'deck.pptx');
+    fs.writeFileSync(filePath, await buildTestPptx(['Quarterly review', 'Revenue grew 12%', 'Questions']));
+
+    const content = (await processor.readFile(filePath))!;
+    expect(content).toBe('# deck\n\n<!-- slide 1 -->\nQuarterly review\n\n<!-- slide 2 -->\nRevenue grew 12%\n\n<!-- slide 3 -->\nQuestions');
+
+    const chunks = processor.chunkContent(content, filePath);
+    expect(chunks.map(chunk => chunk.slide)).toEqual([1, 2, 3]);
+    expect(chunks[1].content).toBe('[Topic: deck]\nRevenue grew 12%');
+    expect(chunks[1].pageStart).toBeUndefined();
+  });
+
+  it('reads images through OCR and skips them when OCR is off', async () => {
+    const filePath = path.join(createTempDir('processor-image'), 'receipt.png');
+    fs.writeFileSync(filePath, Buffer.from('not really a png'));
+    const processor = new ContentProcessor();
+
+    expect(await processor.readFile(filePath)).toBeNull();
+
+    processor.setOcrEngine({ recognize: async () => 'TOTAL 42.00', getLanguages: () => ['eng'] } as unknown as OcrEngine);
+    expect(await processor.readFile(filePath)).toBe('# receipt\n\nTOTAL 42.00');
+  });
+
+  it('uses the EPUB table of contents as the heading hierarchy', async () => {
+    const filePath = path.join(createTempDir('processor-epub'), 'manual.epub');
+    fs.writeFileSync(filePath, await buildTestEpub('Field Manual', [
+      { href: 'text/ch1.xhtml', body: '<h1>Getting Started</h1><p>Install the tool.</p><h2 id="config">Configuration</h2><p>Edit the file.</p><h3>Advanced</h3><p>Tune it.</p>' },
+      { href: 'text/ch1-notes.xhtml', body: '<p>More setup notes.</p>' },
+      { href: 'text/ch2.xhtml', body: '<h1>Chapter 2</h1><p>Every option.</p>' }
+    ], {
+      nav: '<ol><li><a href="text/ch1.xhtml">Getting Started</a><ol><li><a href="text/ch1.xhtml#config">Configuration</a></li></ol></li>' +
+        '<li><a href="text/ch2.xhtml">Reference</a></li></ol>'
+    }));
+    const processor = new ContentProcessor();
+
+    const content = await processor.readFile(filePath);
+
+    expect(content).toBe([
+      '# Field Manual',
+      '## Getting Started',
+      'Install the tool.',
+      '### Configuration',
+      'Edit the file.',
+      '#### Advanced',
+      'Tune it.',
+      'More setup notes.',
+      '## Reference',
+      '### Chapter 2',
+      'Every option.'
+    ].join('\n\n'));
+    const chunks = processor.chunkContent(content!, filePath);
+    expect(chunks[chunks.length - 1].headingHierarchy).toEqual(['Field Manual', 'Reference', 'Chapter 2']);
+  });
+
+  it('reads the table of contents of EPUB 2 books from toc.ncx', async () => {
+    const filePath = path.join(createTempDir('processor-epub2'), 'novel.epub');
+    fs.writeFileSync(filePath, await buildTestEpub('A Novel', [
+      { href: 'ch1.xhtml', body: '<p>It was a dark night.</p><p id="s2">Morning came.</p>' }
+    ], {
+      ncx: '<navPoint id="n1"><navLabel><text>Night</text></navLabel><content src="ch1.xhtml"/></navPoint>' +
+        '<navPoint id="n2"><navLabel><text>Morning</text></navLabel><content src="ch1.xhtml#s2"/></navPoint>'
+    }));
+
+    expect(await new ContentProcessor().readFile(filePath)).toBe('# A Novel\n\n## Night\n\nIt was a dark night.\n\n## Morning\n\nMorning came.');
+  });
+
+  it('chunks notebooks by whole cells under their markdown headings', async () => {
+    const filePath = path.join(createTempDir('processor-notebook'), 'training.ipynb');
+    const code = (lines: number, name: string) => Array.from({ length: lines }, (_, i) => `# ${name} step ${i}\nvalue_${i} = compute_${name}(data, ${i})`).join('\n');
+    fs.writeFileSync(filePath, JSON.stringify({
+      nbformat: 4,
+      metadata: { kernelspec: { language: 'python' } },
+      cells: [
+        { cell_type: 'markdown', source: '# Training\n\nHow the model is trained.' },
+        { cell_type: 'markdown', source: '## Data' },
+        { cell_type: 'code', source: code(20, 'load'), outputs: [{ output_type: 'stream', text: 'loaded 100 rows' }] },
+        { cell_type: 'markdown', source: '## Fit' },
+        { cell_type: 'code', source: code(20, 'fit'), outputs: [{ output_type: 'display_data', data: { 'image/png': 'iVBORw0KGgo=' } }] }
+      ]
+    }));
+    const processor = new ContentProcessor({ chunkSize: 400, minChunkSize: 50 });
+
+    const content = await processor.readFile(filePath);
+    const chunks = processor.chunkContent(content!, filePath);
+
+    expect(content).not.toContain('iVBORw0KGgo');
+    expect(chunks.map(chunk => chunk.headingHierarchy)).toEqual([
+      ['Training', 'Data'],
+      ['Training', 'Fit']
+    ]);
+    expect(chunks[0].content).toContain('```python\n# load step 0');
+    expect(chunks[0].content).toContain('```output\nloaded 100 rows\n```');
+    expect(chunks[1].content).not.toContain('load step');
+  });
+
+  it('chunks OpenAPI specs by operation and other JSON/YAML by key path', async () => {
+    const dir = createTempDir('processor-structured');
+    const specPath = path.join(dir, 'petstore.yaml');
+    fs.writeFileSync(specPath, [
+      'openapi: 3.1.0',
+      'info:',
+      '  title: Pet Store',
+      '  version: 1.0.0',
+      'paths:',
+      '  /pets:',
+      '    get:',
+      '      summary: List pets',
+      '      responses:',
+      '        "200":',
+      '          description: All pets',
+      '          content:',
+      '            application/json:',
+      '              schema:',
+      '                type: array',
+      '                items:',
+      '                  $ref: "#/components/schemas/Pet"',
+      '    post:',
+      '      summary: Add a pet',
+      '      responses:',
+      '        "201":',
+      '          description: Created',
+      'components:',
+      '  schemas:',
+      '    Pet:',
+      '      type: object',
+      '      properties:',
+      '        name:',
+      '          type: string'
+    ].join('\n'));
+    const configPath = path.join(dir, 'settings.json');
+    fs.writeFileSync(configPath, JSON.stringify({
+      database: { host: 'db.internal', pool: { min: 2, max: Array.from({ length: 60 }, (_, i) => `replica-${i}`) } },
+      logging: { level: 'info' }
+    }));
+    const processor = new ContentProcessor({ chunkSize: 200, minChunkSize: 20 });
+
+    const spec = await processor.readFile(specPath);
+    const specChunks = processor.chunkContent(spec!, specPath);
+    expect(specChunks.map(chunk => chunk.headingHierarchy)).toEqual([
+      ['Pet Store'],
+      ['Pet Store', 'GET /pets'],
+      ['Pet Store', 'POST /pets']
+    ]);
+    expect(specChunks[1].content).toContain('items:\n  type: object\n  properties:\n    name:\n      type: string');
+    expect(specChunks[2].content).not.toContain('List pets');
+
+    const config = await processor.readFile(configPath);
+    const configChunks = processor.chunkContent(config!, configPath);
+    // The list of replicas is split by the chunker, not into one section per item
+    expect(configChunks.map(chunk => chunk.headingHierarchy)).toEqual([
+      ['database', 'pool', 'min'],
+      ['database', 'pool', 'max'],
+      ['database', 'pool', 'max'],
+      ['logging']
+    ]);
+    expect(configChunks[0].content).toContain('"db.internal"');
+    expect(configChunks.find(chunk => chunk.section === 'logging')!.content).toContain('"level": "info"');
+  });
+
+  it('reads files inside archives by their virtual path, and whole archives with a section per file', async () => {
+    const archivePath = path.join(createTempDir('processor-archive'), 'handbook.zip');
+    fs.writeFileSync(archivePath, await buildTestZip({
+      'docs/intro.md': '# Welcome\n\nStart here.',
+      'docs/data.csv': 'name,role\nAnn,admin\n',
+      'tool.exe': 'MZ'
+    }));
+    const processor = new ContentProcessor();
+
+    expect(await processor.readFile(`${archivePath}!/docs/intro.md`)).toBe('# Welcome\n\nStart here.');
+    expect(await processor.readFile(`${archivePath}!/docs/missing.md`)).toBeNull();
+    expect(await processor.readFile(archivePath)).toBe([
+      '# handbook',
+      '## docs/intro.md',
+      '### Welcome\n\nStart here.',
+      '## docs/data.csv',
+      '#### data\n\n| name | role |\n| --- | --- |\n| Ann | admin |'
+    ].join('\n\n'));
+
+    const chunks = processor.chunkContent('# Welcome\n\nStart here.', `${archivePath}!/docs/intro.md`);
+    expect(chunks[0].url).toBe(`file://${archivePath}!/docs/intro.md`);
+  });
+
+  it('reads email with the envelope in the headings and attachments as subsections', async () => {
+    const dir = createTempDir('processor-mail');
+    const filePath = path.join(dir, 'report.eml');
+    fs.writeFileSync(filePath, [
+      'From: Ann <ann@example.com>',
+      'To: Bob <bob@example.com>',
+      'Subject: Q3 numbers',
+      'Date: Tue, 1 Oct 2024 09:30:00 +0000',
+      'Content-Type: multipart/mixed; boundary=b1',
+      '',
+      '--b1',
+      'Content-Type: text/plain',
+      '',
+      'Sales are attached.',
+      '# not a heading',
+      '--b1',
+      'Content-Type: text/csv',
+      'Content-Disposition: attachment; filename=sales.csv',
+      '',
+      'region,total',
+      'North,12',
+      '--b1',
+      'Content-Type: application/octet-stream',
+      'Content-Disposition: attachment; filename=setup.exe',
+      '',
+      'MZ',
+      '--b1--',
+      ''
+    ].join('\r\n'));
+    const processor = new ContentProcessor();
+
+    const content = await processor.readFile(filePath);
+
+    expect(content).toBe([
+      '# Q3 numbers',
+      '## From: Ann <ann@example.com> | To: Bob <bob@example.com> | Date: Tue, 1 Oct 2024 09:30:00 +0000',
+      'Sales are attached.\n\\# not a heading',
+      '### Attachment: sales.csv',
+      '##### sales\n\n| region | total |\n| --- | --- |\n| North | 12 |'
+    ].join('\n\n'));
+    const chunks = processor.chunkContent(content!, filePath);
+    expect(chunks[0].headingHierarchy).toEqual([
+      'Q3 numbers',
+      'From: Ann <ann@example.com> | To: Bob <bob@example.com> | Date: Tue, 1 Oct 2024 09:30:00 +0000',
+      'Attachment: sales.csv',
+      'sales'
+    ]);
+  });
+
+  it('reads each message of a mailbox as its own document', async () => {
+    const filePath = path.join(createTempDir('processor-mbox'), 'archive.mbox');
+    fs.writeFileSync(filePath, [
+      'From ann@example.com Tue Oct  1 09:30:00 2024',
+      'Message-ID: <one@example.com>',
+      'Subject: First',
+      '',
+      'First body',
+      '',
+      'From bob@example.com Tue Oct  1 10:00:00 2024',
+      'Subject: Second',
+      '',
+      'Second body',
+      ''
+    ].join('\n'));
+    const processor = new ContentProcessor();
+
+    expect(await processor.readFile(`${filePath}#one%40example%2Ecom`)).toBe('# First\n\nFirst body');
+    expect(await processor.readFile(`${filePath}#message-2`)).toBe('# Second\n\nSecond body');
+    expect(await processor.readFile(`${filePath}#missing`)).toBeNull();
+    expect(await processor.readFile(filePath)).toBe('# First\n\nFirst body\n\n# Second\n\nSecond body');
+
+    const chunks = processor.chunkContent('# Second\n\nSecond body', `${filePath}#message-2`);
+    expect(chunks[0].url).toBe(`file://${filePath}#message-2`);
+  });
+
   it('converts html to markdown with sanitized output', () => {
     const processor = new ContentProcessor();
     const html = '<h1>Title</h1><script>alert(1)</script><p>Hello</p>';
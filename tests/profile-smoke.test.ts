@@ -25,6 +25,9 @@ jest.mock('../src/embeddings', () => {
       getProvider() {
         return this.provider;
       }
+      getCostPerMillionTokens() {
+        return 0;
+      }
       async terminate() {}
     }
   };
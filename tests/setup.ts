@@ -26,6 +26,17 @@ const mockNodeLlama = {
         getSequence: () => ({}),
         dispose: async () => {}
       }),
+      // Scores documents by how many query words they contain
+      createRankingContext: async () => ({
+        rankAll: async (query: string, documents: string[]) => {
+          const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+          return documents.map(doc => {
+            const lower = doc.toLowerCase();
+            return words.filter(word => lower.includes(word)).length / Math.max(words.length, 1);
+          });
+        },
+        dispose: async () => {}
+      }),
       tokenize: (text: string) => text.split(/\s+/).filter(Boolean),
       dispose: async () => {}
     })
@@ -0,0 +1,87 @@
+import { getProfileSources, MultiSourceSyncer, PRIMARY_SOURCE_ID, SyncSource } from '../src/sources';
+import type { Syncer } from '../src/syncer';
+
+class FakeSyncer implements Syncer {
+  isSyncing = false;
+
+  constructor(private files: string[]) {}
+
+  start() {
+    this.isSyncing = true;
+  }
+
+  async stop() {
+    this.isSyncing = false;
+  }
+
+  async getSyncedFiles() {
+    return this.files;
+  }
+}
+
+describe('sources', () => {
+  const driveSource: SyncSource = {
+    id: 'source-drive',
+    type: 'drive',
+    driveFolderId: 'folder-1',
+    driveFolderName: 'Team',
+    recursive: false,
+    fileExtensions: '.pdf'
+  };
+
+  it('lists the profile folder first, then the configured additional sources', () => {
+    const sources = getProfileSources({
+      watchedFolder: '/docs',
+      fileExtensions: '.md,.txt',
+      recursive: true,
+      additionalSources: [driveSource, { id: 'source-empty', type: 'local', recursive: true, fileExtensions: '' }]
+    });
+
+    expect(sources.map(source => source.id)).toEqual([PRIMARY_SOURCE_ID, 'source-drive']);
+    expect(sources[0]).toMatchObject({ type: 'local', folderPath: '/docs', recursive: true, fileExtensions: '.md,.txt' });
+    // A Drive profile without a folder only syncs its additional sources
+    expect(getProfileSources({ watchedFolder: '/docs', fileExtensions: '', recursive: true, syncSource: 'drive', additionalSources: [driveSource] })
+      .map(source => source.id)).toEqual(['source-drive']);
+  });
+
+  it('takes WebDAV, S3 and SMB settings for the profile folder and skips remote and web sources without a location', () => {
+    const webdav = { url: 'https://cloud.example.com/dav/Documents', username: 'alice', password: 'secret' };
+    const sources = getProfileSources({
+      watchedFolder: '',
+      fileExtensions: '.md',
+      recursive: true,
+      syncSource: 'webdav',
+      webdav,
+      additionalSources: [
+        { id: 'source-s3', type: 's3', s3: { bucket: 'docs', accessKeyId: 'key', secretAccessKey: 'secret' }, recursive: true, fileExtensions: '.md' },
+        { id: 'source-smb', type: 'smb', smb: { share: '', username: 'alice' }, recursive: true, fileExtensions: '.md' },
+        { id: 'source-web', type: 'web', web: { seedUrls: ['https://docs.example.com/guide/'] }, recursive: true, fileExtensions: '' },
+        { id: 'source-web-empty', type: 'web', web: { seedUrls: ['  '] }, recursive: true, fileExtensions: '' }
+      ]
+    });
+
+    expect(sources.map(source => source.id)).toEqual([PRIMARY_SOURCE_ID, 'source-s3', 'source-web']);
+    expect(sources[0]).toMatchObject({ type: 'webdav', webdav });
+  });
+
+  it('starts, lists and removes the syncers of every source', async () => {
+    const local = new FakeSyncer(['/docs/a.md']);
+    const drive = new FakeSyncer(['/cache/b.pdf']);
+    const syncer = new MultiSourceSyncer([
+      { source: { id: PRIMARY_SOURCE_ID, type: 'local', folderPath: '/docs', recursive: true, fileExtensions: '' }, syncer: local },
+      { source: driveSource, syncer: drive }
+    ]);
+
+    syncer.start();
+    expect(syncer.isSyncing).toBe(true);
+    expect(await syncer.getSyncedFiles()).toEqual(['/docs/a.md', '/cache/b.pdf']);
+
+    await syncer.removeSource('source-drive');
+    expect(drive.isSyncing).toBe(false);
+    expect(syncer.entries.map(entry => entry.source.id)).toEqual([PRIMARY_SOURCE_ID]);
+    expect(await syncer.getSyncedFiles()).toEqual(['/docs/a.md']);
+
+    await syncer.stop();
+    expect(syncer.isSyncing).toBe(false);
+  });
+});
@@ -0,0 +1,50 @@
+import * as path from 'path';
+import { formatSheets, parseDelimited, parseSheetTables, readWorkbookFile } from '../src/spreadsheet';
+import { createTempDir } from './helpers';
+
+describe('spreadsheet reading', () => {
+  it('parses quoted CSV fields with delimiters, quotes and line breaks', () => {
+    const csv = '﻿name,notes\r\n"Smith, Ann","said ""hi""\nthen left"\r\nBob,\n';
+    expect(parseDelimited(csv, ',')).toEqual([
+      ['name', 'notes'],
+      ['Smith, Ann', 'said "hi"\nthen left'],
+      ['Bob', '']
+    ]);
+    expect(parseDelimited('a\tb\n1\t2', '\t')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('renders sheets as Markdown tables and reads them back', () => {
+    const text = formatSheets([
+      { name: 'Q1 Sales', rows: [['', '', ''], ['Region', 'Total', ''], ['North | East', '12', ''], ['', '', ''], ['South', '7\n(est.)']] },
+      { name: 'Empty', rows: [['', '']] }
+    ]);
+
+    expect(text).toBe([
+      '## Q1 Sales',
+      '',
+      '| Region | Total |',
+      '| --- | --- |',
+      '| North \\| East | 12 |',
+      '| South | 7 (est.) |'
+    ].join('\n'));
+    expect(parseSheetTables(text)).toEqual([{
+      name: 'Q1 Sales',
+      header: '| Region | Total |\n| --- | --- |',
+      rows: ['| North \\| East | 12 |', '| South | 7 (est.) |']
+    }]);
+  });
+
+  it('reads every sheet of a workbook', () => {
+    const XLSX = require('xlsx');
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Name', 'Age'], ['Ann', 31]]), 'People');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['City'], ['Lyon']]), 'Places');
+    const filePath = path.join(createTempDir('spreadsheet'), 'book.xlsx');
+    XLSX.writeFile(workbook, filePath);
+
+    expect(readWorkbookFile(filePath)).toEqual([
+      { name: 'People', rows: [['Name', 'Age'], ['Ann', '31']] },
+      { name: 'Places', rows: [['City'], ['Lyon']] }
+    ]);
+  });
+});
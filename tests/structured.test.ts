@@ -0,0 +1,114 @@
+import { API_OPERATION_MARKER, formatApiSpec, formatStructured, isApiSpec, parseStructured, splitApiSpec } from '../src/structured';
+
+describe('structured data', () => {
+  it('reads multi-document YAML streams as a list', () => {
+    expect(parseStructured('name: a\n---\nname: b\n', 'yaml')).toEqual([{ name: 'a' }, { name: 'b' }]);
+    expect(parseStructured('name: a\n', 'yaml')).toEqual({ name: 'a' });
+    expect(() => parseStructured('key: [unclosed', 'yaml')).toThrow();
+  });
+
+  it('splits values that do not fit into sections one key deeper', () => {
+    const config = {
+      server: { port: 8080, host: 'localhost' },
+      routes: [{ path: '/a', handler: 'first' }, { path: '/b', handler: 'second' }]
+    };
+    // The server block and each route fit, the list of routes doesn't
+    const fits = (text: string) => text.length <= 50;
+
+    expect(formatStructured(config, 'json', fits)).toBe([
+      '# server\n\n```json\n{\n  "port": 8080,\n  "host": "localhost"\n}\n```',
+      '# routes',
+      '## [0]\n\n```json\n{\n  "path": "/a",\n  "handler": "first"\n}\n```',
+      '## [1]\n\n```json\n{\n  "path": "/b",\n  "handler": "second"\n}\n```'
+    ].join('\n\n'));
+    expect(formatStructured(config, 'yaml', () => true)).toBe([
+      '# server\n\n```yaml\nport: 8080\nhost: localhost\n```',
+      '# routes\n\n```yaml\n- path: /a\n  handler: first\n- path: /b\n  handler: second\n```'
+    ].join('\n\n'));
+    expect(formatStructured(42, 'json', () => true)).toBe('```json\n42\n```');
+  });
+
+  it('renders OpenAPI operations with merged parameters and resolved schemas', () => {
+    const spec = {
+      openapi: '3.0.3',
+      info: { title: 'Pet Store', version: '1.2.0' },
+      servers: [{ url: 'https://api.example.com' }],
+      paths: {
+        '/pets/{id}': {
+          parameters: [{ $ref: '#/components/parameters/PetId' }],
+          get: {
+            operationId: 'getPet',
+            summary: 'Find a pet',
+            tags: ['pets'],
+            parameters: [{ name: 'fields', in: 'query', schema: { type: 'string' } }],
+            responses: {
+              200: { description: 'The pet', content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+              404: { description: 'Not found' }
+            }
+          }
+        }
+      },
+      components: {
+        parameters: { PetId: { name: 'id', in: 'path', required: true, description: 'Pet id', schema: { type: 'integer' } } },
+        schemas: {
+          Pet: { type: 'object', properties: { name: { type: 'string' }, parent: { $ref: '#/components/schemas/Pet' } } }
+        }
+      }
+    };
+
+    expect(isApiSpec(spec)).toBe(true);
+    const content = formatApiSpec(spec, 'yaml');
+    const { overview, operations } = splitApiSpec(content);
+
+    expect(overview).toBe('# Pet Store\n\nOpenAPI 3.0.3, API version 1.2.0\n\nServers: https://api.example.com');
+    expect(operations).toEqual([[
+      '## GET /pets/{id}',
+      'Operation ID: getPet',
+      'Summary: Find a pet',
+      'Tags: pets',
+      'Parameters:\n- id (path, required, integer) - Pet id\n- fields (query, string)',
+      'Response 200 (application/json): The pet',
+      '```yaml\ntype: object\nproperties:\n  name:\n    type: string\n  parent:\n    $ref: "#/components/schemas/Pet"\n```',
+      'Response 404: Not found'
+    ].join('\n\n')]);
+    expect(content.split(API_OPERATION_MARKER)).toHaveLength(2);
+  });
+
+  it('reads Swagger 2 body parameters and AsyncAPI channels', () => {
+    const swagger = formatApiSpec({
+      swagger: '2.0',
+      info: { title: 'Legacy' },
+      host: 'legacy.example.com',
+      basePath: '/v1',
+      paths: {
+        '/users': {
+          post: {
+            parameters: [{ name: 'user', in: 'body', schema: { $ref: '#/definitions/User' } }],
+            responses: { 201: { description: 'Created' } }
+          }
+        }
+      },
+      definitions: { User: { type: 'object', required: ['email'] } }
+    }, 'json');
+    expect(splitApiSpec(swagger).overview).toBe('# Legacy\n\nSwagger 2.0\n\nServers: legacy.example.com/v1');
+    expect(splitApiSpec(swagger).operations[0]).toBe([
+      '## POST /users',
+      'Request body',
+      '```json\n{\n  "type": "object",\n  "required": [\n    "email"\n  ]\n}\n```',
+      'Response 201: Created'
+    ].join('\n\n'));
+
+    const asyncApi = formatApiSpec({
+      asyncapi: '2.6.0',
+      info: { title: 'Events', version: '1.0.0' },
+      channels: {
+        'user/signedup': {
+          subscribe: { operationId: 'onSignup', message: { name: 'UserSignedUp', payload: { type: 'object' } } }
+        }
+      }
+    }, 'yaml');
+    expect(splitApiSpec(asyncApi).operations).toEqual([
+      '## SUBSCRIBE user/signedup\n\nOperation ID: onSignup\n\nMessage UserSignedUp\n\n```yaml\ntype: object\n```'
+    ]);
+  });
+});
@@ -1,7 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { FileFilter } from '../src/file-filter';
 import { FolderSyncer } from '../src/syncer';
-import { createTempDir, waitFor } from './helpers';
+import { buildTestTarGz, createTempDir, waitFor } from './helpers';
 
 describe('FolderSyncer', () => {
   it('collects files with recursion and extensions', async () => {
@@ -40,6 +41,96 @@ describe('FolderSyncer', () => {
     expect(recursiveFiles.sort()).toEqual([nestedFile, rootFile].sort());
   });
 
+  it('tracks each message of a mailbox as a separate document', async () => {
+    const root = createTempDir('syncer-mbox');
+    const mailbox = path.join(root, 'archive.mbox');
+    const message = (id: string) => `From ann@example.com Tue Oct  1 09:30:00 2024\nMessage-ID: <${id}>\nSubject: ${id}\n\nBody\n\n`;
+    fs.writeFileSync(mailbox, message('a') + message('b'));
+    const events: { change: string[]; remove: string[] } = { change: [], remove: [] };
+
+    const syncer = new FolderSyncer(root, {
+      recursive: false,
+      extensions: ['.mbox'],
+      onFileAdd: async () => {},
+      onFileChange: async (filePath: string) => {
+        events.change.push(filePath);
+      },
+      onFileDelete: async (filePath: string) => {
+        events.remove.push(filePath);
+      },
+    });
+
+    expect(await syncer.getSyncedFiles()).toEqual([`${mailbox}#a`, `${mailbox}#b`]);
+
+    syncer.start();
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    fs.writeFileSync(mailbox, message('a') + message('c'));
+    await waitFor(() => events.change.length === 2);
+    expect(events.remove).toEqual([`${mailbox}#b`]);
+    expect(events.change).toEqual([`${mailbox}#a`, `${mailbox}#c`]);
+
+    fs.unlinkSync(mailbox);
+    await waitFor(() => events.remove.length === 3);
+    expect(events.remove.slice(1)).toEqual([`${mailbox}#a`, `${mailbox}#c`]);
+
+    await syncer.stop();
+  });
+
+  it('tracks the files of an archive with synced extensions as separate documents', async () => {
+    const root = createTempDir('syncer-archive');
+    const archive = path.join(root, 'drop.tar.gz');
+    fs.writeFileSync(archive, buildTestTarGz({ 'docs/intro.md': '# Intro', 'docs/logo.png': 'binary', 'nested.zip': 'PK' }));
+
+    const syncer = new FolderSyncer(root, {
+      recursive: false,
+      extensions: ['.md', '.tar.gz'],
+      onFileAdd: async () => {},
+      onFileChange: async () => {},
+      onFileDelete: async () => {},
+    });
+
+    expect(await syncer.getSyncedFiles()).toEqual([`${archive}!/docs/intro.md`]);
+  });
+
+  it('skips excluded and ignored files and reports ignore file changes', async () => {
+    const root = createTempDir('syncer-filter');
+    for (const dir of ['docs', 'node_modules/pkg', 'build']) {
+      fs.mkdirSync(path.join(root, dir), { recursive: true });
+    }
+    const docFile = path.join(root, 'docs', 'guide.md');
+    fs.writeFileSync(docFile, '# Guide');
+    fs.writeFileSync(path.join(root, 'docs', 'draft.md'), '# Draft');
+    fs.writeFileSync(path.join(root, 'node_modules', 'pkg', 'README.md'), '# Package');
+    fs.writeFileSync(path.join(root, 'build', 'out.md'), '# Output');
+    fs.writeFileSync(path.join(root, '.gitignore'), 'build/\n');
+    fs.writeFileSync(path.join(root, 'docs', '.docs4aiignore'), 'draft.md\n');
+    let ignoreFileChanges = 0;
+
+    const syncer = new FolderSyncer(root, {
+      recursive: true,
+      extensions: ['.md'],
+      fileFilter: new FileFilter(root, { include: [], exclude: ['node_modules/'] }),
+      onFileAdd: async () => {},
+      onFileChange: async () => {},
+      onFileDelete: async () => {},
+      onIgnoreFileChange: async () => {
+        ignoreFileChanges++;
+      },
+    });
+
+    expect(await syncer.getSyncedFiles()).toEqual([docFile]);
+
+    syncer.start();
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    fs.writeFileSync(path.join(root, '.gitignore'), '');
+    await waitFor(() => ignoreFileChanges > 0);
+    expect((await syncer.getSyncedFiles()).sort()).toEqual([path.join(root, 'build', 'out.md'), docFile].sort());
+
+    await syncer.stop();
+  });
+
   it('emits add, change, and delete events', async () => {
     const root = createTempDir('syncer-events');
     const events: { add: string[]; change: string[]; remove: string[] } = {
@@ -0,0 +1,18 @@
+import { ThroughputMeter } from '../src/throughput';
+
+describe('ThroughputMeter', () => {
+  it('averages embedding time over the recent window', () => {
+    const meter = new ThroughputMeter();
+    meter.record(10, 2000, 1000, 1_000);
+    meter.record(30, 6000, 1000, 2_000);
+
+    expect(meter.getRate(2_000)).toEqual({ chunksPerSecond: 20, tokensPerSecond: 4000 });
+  });
+
+  it('drops samples older than the window', () => {
+    const meter = new ThroughputMeter();
+    meter.record(10, 2000, 1000, 1_000);
+
+    expect(meter.getRate(60_000)).toEqual({ chunksPerSecond: 0, tokensPerSecond: 0 });
+  });
+});
@@ -0,0 +1,307 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as zlib from 'zlib';
+import { FileFilter } from '../src/file-filter';
+import { ContentProcessor } from '../src/processor';
+import { extractLinks, parseSitemap, RobotsTxt, WebCrawler, WebCrawlerSettings } from '../src/web-crawler';
+import { createTempDir } from './helpers';
+
+interface FixturePage {
+  html: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+function page(title: string, body: string, head: string = ''): FixturePage {
+  return {
+    html: `<!DOCTYPE html><html><head><title>${title}</title>${head}</head><body>` +
+      `<nav><a href="/docs/">Home</a> Site navigation</nav><main>${body}</main><footer>Copyright</footer></body></html>`
+  };
+}
+
+interface FixtureSiteOptions {
+  robotsTxt?: (origin: string) => string;
+  files?: Map<string, Buffer>;  // Other responses by path, sent as they are
+}
+
+// A documentation site: pages by path, plus robots.txt and a sitemap; every request is recorded
+async function startFixtureSite(pages: Map<string, FixturePage>, options: FixtureSiteOptions = {}) {
+  const requests: { path: string; headers: http.IncomingHttpHeaders; at: number }[] = [];
+  const server = http.createServer((req, res) => {
+    const requestPath = req.url || '/';
+    requests.push({ path: requestPath, headers: req.headers, at: Date.now() });
+    const origin = `http://${req.headers.host}`;
+    if (requestPath === '/robots.txt') {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end(options.robotsTxt?.(origin) ?? `User-agent: *\nDisallow: /docs/private/\nSitemap: ${origin}/sitemap.xml\n`);
+      return;
+    }
+    if (options.files?.has(requestPath)) {
+      res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+      res.end(options.files.get(requestPath));
+      return;
+    }
+    if (requestPath === '/sitemap.xml') {
+      res.writeHead(200, { 'Content-Type': 'application/xml' });
+      res.end(`<?xml version="1.0"?><urlset><url><loc>${origin}/docs/orphan</loc></url><url><loc>${origin}/blog/post</loc></url></urlset>`);
+      return;
+    }
+    if (requestPath === '/docs/old-intro') {
+      res.writeHead(301, { Location: '/docs/intro' }).end();
+      return;
+    }
+
+    const fixture = pages.get(requestPath);
+    if (!fixture) {
+      res.writeHead(404).end();
+      return;
+    }
+    if ((fixture.etag && req.headers['if-none-match'] === fixture.etag) ||
+      (fixture.lastModified && req.headers['if-modified-since'] === fixture.lastModified)) {
+      res.writeHead(304).end();
+      return;
+    }
+    res.writeHead(200, {
+      'Content-Type': 'text/html; charset=utf-8',
+      ...(fixture.etag ? { ETag: fixture.etag } : {}),
+      ...(fixture.lastModified ? { 'Last-Modified': fixture.lastModified } : {})
+    });
+    res.end(fixture.html);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    origin: `http://127.0.0.1:${port}`,
+    requests,
+    requested: (requestPath: string) => requests.filter(request => request.path === requestPath),
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}
+
+function createPages(): Map<string, FixturePage> {
+  return new Map([
+    ['/docs/', page('Docs', '<h1>Documentation</h1><p>Start with the <a href="intro#setup">intro</a>.</p>' +
+      '<a href="/docs/private/secret">Secret</a> <a href="/blog/">Blog</a> <a href="http://other.invalid/docs/">Elsewhere</a>' +
+      '<a href="/docs/hidden">Hidden</a> <a href="/docs/logo.png">Logo</a> <a href="/docs/old-intro">Old intro</a>')],
+    ['/docs/intro', { ...page('Intro &amp; setup', '<h2 id="setup">Setup</h2><p>Install the <code>cli</code>.</p><a href="deep/1">Next</a>'), etag: '"intro-v1"' }],
+    ['/docs/deep/1', page('Deep 1', '<p>Level two.</p><a href="2">Next</a>')],
+    ['/docs/deep/2', page('Deep 2', '<p>Level three.</p>')],
+    ['/docs/hidden', page('Hidden', '<p>Not indexed.</p><a href="/docs/from-hidden">Linked</a>', '<meta name="robots" content="noindex">')],
+    ['/docs/from-hidden', page('From hidden', '<p>Reached through a noindex page.</p>')],
+    ['/docs/orphan', { ...page('Orphan', '<p>Only in the sitemap.</p>'), lastModified: 'Tue, 01 Jul 2025 10:00:00 GMT' }],
+    ['/docs/private/secret', page('Secret', '<p>Disallowed by robots.txt.</p>')],
+    ['/blog/post', page('Post', '<p>Out of scope.</p>')]
+  ]);
+}
+
+function createCrawler(settings: WebCrawlerSettings, cacheDir: string, events: string[] = [], fileFilter?: FileFilter) {
+  const processor = new ContentProcessor();
+  const hostPrefix = /^[^/]+\//;
+  return new WebCrawler(settings, cacheDir, html => processor.convertHtmlToMarkdown(html), {
+    recursive: true,
+    extensions: [],
+    fileFilter,
+    onFileAdd: async (_filePath, sourceUrl, displayPath) => { events.push(`add ${displayPath!.replace(hostPrefix, '')} ${sourceUrl}`); },
+    onFileChange: async (_filePath, _sourceUrl, displayPath) => { events.push(`change ${displayPath!.replace(hostPrefix, '')}`); },
+    onFileDelete: async (filePath) => { events.push(`delete ${filePath.split(/[\\/]/).slice(-2).join('/')}`); }
+  });
+}
+
+describe('WebCrawler', () => {
+  it('crawls within scope and depth, honours robots.txt, sitemaps and noindex, and caches pages as Markdown', async () => {
+    const site = await startFixtureSite(createPages());
+    const crawler = createCrawler({ seedUrls: [`${site.origin}/docs/`], maxDepth: 2, requestDelayMs: 0 }, createTempDir('web-cache'));
+    try {
+      crawler.beginSync();
+      const pages = await crawler.listRemoteFiles();
+
+      expect(pages.map(crawled => crawled.url.slice(site.origin.length)).sort()).toEqual(['/docs/', '/docs/deep/1', '/docs/from-hidden', '/docs/intro', '/docs/orphan']);
+      expect(site.requested('/docs/private/secret')).toHaveLength(0);
+      expect(site.requested('/blog/post')).toHaveLength(0);
+      expect(site.requested('/docs/deep/2')).toHaveLength(0);
+      expect(site.requested('/docs/logo.png')).toHaveLength(0);
+      // The old URL redirects to a page that was crawled already
+      expect(site.requested('/docs/old-intro')).toHaveLength(1);
+      expect(site.requested('/docs/intro')).toHaveLength(2);
+      expect(site.requests.every(request => request.headers['user-agent'] === 'docs4ai-crawler')).toBe(true);
+
+      const intro = await crawler.downloadToCache(pages.find(crawled => crawled.url.endsWith('/docs/intro'))!);
+      expect(intro!.sourceUrl).toBe(`${site.origin}/docs/intro`);
+      expect(intro!.displayPath).toBe(`${new URL(site.origin).host.replace(':', '_')}/docs/intro.md`);
+      const markdown = fs.readFileSync(intro!.localPath, 'utf-8');
+      expect(markdown).toMatch(/^# Intro & setup\n/);
+      expect(markdown).toContain('## Setup');
+      expect(markdown).toContain('`cli`');
+      expect(markdown).not.toContain('Site navigation');
+      expect(pages.find(crawled => crawled.url === `${site.origin}/docs/`)!.localPath).toMatch(/docs[\\/]index\.md$/);
+    } finally {
+      await crawler.stop();
+      await site.close();
+    }
+  });
+
+  it('revalidates pages with ETag and Last-Modified on recrawl and reports changed and removed pages', async () => {
+    const pages = createPages();
+    const site = await startFixtureSite(pages);
+    const cacheDir = createTempDir('web-cache');
+    const settings: WebCrawlerSettings = { seedUrls: [`${site.origin}/docs/`], maxDepth: 2, requestDelayMs: 0 };
+    const first = createCrawler(settings, cacheDir);
+    first.beginSync();
+    await first.listRemoteFiles();
+    await first.stop();
+
+    // A new crawler continues from the saved index
+    const events: string[] = [];
+    const crawler = createCrawler(settings, cacheDir, events);
+    try {
+      pages.set('/docs/deep/1', page('Deep 1', '<p>Level two, edited.</p>'));
+      pages.delete('/docs/orphan');
+      pages.set('/docs/intro', { ...pages.get('/docs/intro')!, html: 'unused: not modified' });
+      site.requests.length = 0;
+
+      crawler.beginSync();
+      await crawler.recrawlAndEmit();
+
+      expect(site.requested('/docs/intro')[0].headers['if-none-match']).toBe('"intro-v1"');
+      expect(site.requested('/docs/orphan')[0].headers['if-modified-since']).toBe('Tue, 01 Jul 2025 10:00:00 GMT');
+      expect(events).toEqual(['change docs/deep/1.md', 'delete docs/orphan.md']);
+      expect(fs.existsSync(`${cacheDir}/${new URL(site.origin).host.replace(':', '_')}/docs/orphan.md`)).toBe(false);
+
+      // Nothing changed since
+      events.length = 0;
+      await crawler.recrawlAndEmit();
+      expect(events).toEqual([]);
+    } finally {
+      await crawler.stop();
+      await site.close();
+    }
+  });
+
+  it('removes pages that are gone since the previous crawl on the first crawl after a restart', async () => {
+    const pages = createPages();
+    const site = await startFixtureSite(pages);
+    const cacheDir = createTempDir('web-cache');
+    const settings: WebCrawlerSettings = { seedUrls: [`${site.origin}/docs/`], maxDepth: 2, requestDelayMs: 0 };
+    const first = createCrawler(settings, cacheDir);
+    first.beginSync();
+    await first.listRemoteFiles();
+    await first.stop();
+
+    // Removed while the app was closed
+    pages.delete('/docs/orphan');
+    const events: string[] = [];
+    const crawler = createCrawler(settings, cacheDir, events);
+    try {
+      crawler.beginSync();
+      const crawled = await crawler.listRemoteFiles();
+
+      expect(crawled.map(entry => entry.url.slice(site.origin.length)).sort()).toEqual(['/docs/', '/docs/deep/1', '/docs/from-hidden', '/docs/intro']);
+      expect(events).toEqual(['delete docs/orphan.md']);
+      expect(fs.existsSync(`${cacheDir}/${new URL(site.origin).host.replace(':', '_')}/docs/orphan.md`)).toBe(false);
+    } finally {
+      await crawler.stop();
+      await site.close();
+    }
+  });
+
+  it('caches URLs that map to the same file once and still follows the links of the others', async () => {
+    const pages = createPages();
+    pages.set('/docs/', page('Docs', '<p><a href="intro">Intro</a> <a href="index.html">Index</a> <a href="intro.html">Intro copy</a></p>'));
+    pages.set('/docs/index.html', page('Docs index', '<p><a href="from-hidden">Linked</a></p>'));
+    pages.set('/docs/intro.html', page('Intro copy', '<p>Copy.</p>'));
+    const site = await startFixtureSite(pages);
+    const cacheDir = createTempDir('web-cache');
+    const crawler = createCrawler({ seedUrls: [`${site.origin}/docs/`], maxDepth: 2, useSitemaps: false, requestDelayMs: 0 }, cacheDir);
+    try {
+      crawler.beginSync();
+      const crawled = await crawler.listRemoteFiles();
+
+      expect(crawled.map(entry => entry.url.slice(site.origin.length)).sort()).toEqual(['/docs/', '/docs/deep/1', '/docs/from-hidden', '/docs/intro']);
+      expect(new Set(crawled.map(entry => entry.localPath)).size).toBe(crawled.length);
+      const folder = `${cacheDir}/${new URL(site.origin).host.replace(':', '_')}/docs`;
+      expect(fs.readFileSync(`${folder}/index.md`, 'utf-8')).toMatch(/^# Docs\n/);
+      expect(fs.readFileSync(`${folder}/intro.md`, 'utf-8')).toMatch(/^# Intro & setup\n/);
+    } finally {
+      await crawler.stop();
+      await site.close();
+    }
+  });
+
+  it('spaces out robots.txt, sitemap and page requests and skips disallowed or oversized sitemaps', async () => {
+    const site = await startFixtureSite(createPages(), {
+      robotsTxt: origin => `User-agent: *\nDisallow: /private-sitemap.xml\n` +
+        `Sitemap: ${origin}/private-sitemap.xml\nSitemap: ${origin}/bomb.xml.gz\nSitemap: ${origin}/sitemap.xml\n`,
+      // Inflates past the 50 MB sitemap limit
+      files: new Map([['/bomb.xml.gz', zlib.gzipSync(Buffer.alloc(51 * 1024 * 1024, ' '))]])
+    });
+    const crawler = createCrawler({ seedUrls: [`${site.origin}/docs/`], maxDepth: 0, requestDelayMs: 150 }, createTempDir('web-cache'));
+    try {
+      crawler.beginSync();
+      const pages = await crawler.listRemoteFiles();
+
+      expect(pages.map(crawled => crawled.url.slice(site.origin.length)).sort()).toEqual(['/docs/', '/docs/orphan']);
+      expect(site.requests.map(request => request.path)).toEqual(['/robots.txt', '/bomb.xml.gz', '/sitemap.xml', '/docs/', '/docs/orphan']);
+      for (let i = 1; i < site.requests.length; i++) {
+        // Timers may fire a few milliseconds early
+        expect(site.requests[i].at - site.requests[i - 1].at).toBeGreaterThanOrEqual(140);
+      }
+    } finally {
+      await crawler.stop();
+      await site.close();
+    }
+  });
+
+  it('crawls the whole host with the domain scope and applies exclude patterns to URL paths', async () => {
+    const site = await startFixtureSite(createPages());
+    const crawler = createCrawler({ seedUrls: [`${site.origin}/docs/`], scope: 'domain', maxDepth: 1, useSitemaps: false, requestDelayMs: 0 },
+      createTempDir('web-cache'), [], new FileFilter(null, { include: [], exclude: ['docs/hidden.md'] }));
+    try {
+      crawler.beginSync();
+      const pages = await crawler.listRemoteFiles();
+      expect(pages.map(crawled => crawled.url.slice(site.origin.length)).sort()).toEqual(['/docs/', '/docs/intro']);
+      expect(site.requested('/blog/')).toHaveLength(1);
+      expect(site.requested('/docs/hidden')).toHaveLength(0);
+      expect(site.requested('/sitemap.xml')).toHaveLength(0);
+    } finally {
+      await crawler.stop();
+      await site.close();
+    }
+  });
+});
+
+describe('crawler parsing', () => {
+  it('applies the robots.txt group of the crawler with the longest matching rule', () => {
+    const robots = new RobotsTxt([
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      'User-agent: Googlebot',
+      'User-agent: docs4ai',
+      'Disallow: /docs/',
+      'Allow: /docs/public/',
+      'Disallow: /*.pdf$',
+      'Crawl-delay: 2',
+      'Sitemap: https://example.com/sitemap-index.xml'
+    ].join('\n'));
+
+    expect(robots.isAllowed('/')).toBe(true);
+    expect(robots.isAllowed('/docs/guide')).toBe(false);
+    expect(robots.isAllowed('/docs/public/guide')).toBe(true);
+    expect(robots.isAllowed('/files/manual.pdf')).toBe(false);
+    expect(robots.isAllowed('/files/manual.pdf?download=1')).toBe(true);
+    expect(robots.crawlDelayMs).toBe(2000);
+    expect(robots.sitemaps).toEqual(['https://example.com/sitemap-index.xml']);
+    expect(new RobotsTxt('User-agent: *\nDisallow: /private').isAllowed('/private/page')).toBe(false);
+  });
+
+  it('reads sitemap indexes and page links', () => {
+    expect(parseSitemap('<sitemapindex><sitemap><loc>https://example.com/a.xml</loc></sitemap></sitemapindex>'))
+      .toEqual({ urls: [], sitemaps: ['https://example.com/a.xml'] });
+    expect(parseSitemap('<urlset><url><loc> https://example.com/?a=1&amp;b=2 </loc></url></urlset>').urls).toEqual(['https://example.com/?a=1&b=2']);
+
+    const links = extractLinks('<base href="/docs/v2/"><a href="intro#top">Intro</a><a href=\'../v1/\'>v1</a><a href="mailto:a@b.c">Mail</a>' +
+      '<a rel="nofollow" href="/login">Login</a><a href=api>API</a>', 'https://example.com/docs/v2/guide/page');
+    expect(links).toEqual(['https://example.com/docs/v2/intro', 'https://example.com/docs/v1/', 'https://example.com/docs/v2/api']);
+  });
+});